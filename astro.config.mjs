@@ -16,6 +16,11 @@ import icon from "astro-icon";
 // https://astro.build/config
 export default defineConfig({
   output: "server",
+  // Checked in src/middleware/originCheck.ts instead, which lets mail providers
+  // post one-click unsubscribes
+  security: {
+    checkOrigin: false,
+  },
   integrations: [tailwind(), expressiveCode(), react(), icon(), mdx()],
 
   adapter: node({
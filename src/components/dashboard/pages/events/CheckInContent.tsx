@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { UserCheck, MapPin, Award, AlertTriangle, CheckCircle } from 'lucide-react';
+import DashboardHeader from '../../shared/DashboardHeader';
+import DietaryOptionsFields from '../../shared/components/DietaryOptionsFields';
+import type { DietaryPreferences } from '../../shared/types/firestore';
+
+interface CheckInContentProps {
+    token: string;
+    event: {
+        eventName: string;
+        location: string;
+        pointsToReward: number;
+        hasFood: boolean;
+    } | null;
+    initialError: string | null;
+}
+
+export default function CheckInContent({ token, event, initialError }: CheckInContentProps) {
+    const [dietary, setDietary] = useState<DietaryPreferences>({ restrictions: [] });
+    const [checkingIn, setCheckingIn] = useState(false);
+    const [error, setError] = useState<string | null>(initialError);
+    const [result, setResult] = useState<{ pointsEarned: number; totalPoints: number } | null>(null);
+
+    const handleCheckIn = async () => {
+        try {
+            setCheckingIn(true);
+            setError(null);
+
+            const response = await fetch('/api/events/check-in', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ token, ...(event?.hasFood && { dietary }) })
+            });
+            const data = await response.json();
+
+            if (!response.ok || !data.success) {
+                setError(data.message || 'Failed to check in. Please try again.');
+                return;
+            }
+
+            setResult({ pointsEarned: data.data.pointsEarned, totalPoints: data.data.totalPoints });
+        } catch (error) {
+            setError('Failed to check in to event: ' + (error as Error).message);
+        } finally {
+            setCheckingIn(false);
+        }
+    };
+
+    return (
+        <div className="flex-1 overflow-auto">
+            <DashboardHeader
+                title="Event Check-in"
+                subtitle="Confirm your attendance to earn points"
+                showSearch={false}
+            />
+
+            <main className="p-4 md:p-6">
+                <div className="max-w-md mx-auto bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                    {result ? (
+                        <div className="text-center">
+                            <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-3" />
+                            <h2 className="text-xl font-bold text-gray-900 mb-2">You're checked in!</h2>
+                            <p className="text-gray-600 mb-6">
+                                You earned {result.pointsEarned} points at {event?.eventName}. You now have {result.totalPoints} points.
+                            </p>
+                            <a
+                                href="/dashboard/events"
+                                className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                            >
+                                Back to Events
+                            </a>
+                        </div>
+                    ) : (
+                        <>
+                            {event && (
+                                <div className="mb-6">
+                                    <h2 className="text-xl font-bold text-gray-900 mb-3">{event.eventName}</h2>
+                                    <div className="space-y-2 text-sm text-gray-600">
+                                        <div className="flex items-center space-x-2">
+                                            <MapPin className="w-4 h-4" />
+                                            <span>{event.location}</span>
+                                        </div>
+                                        <div className="flex items-center space-x-2">
+                                            <Award className="w-4 h-4" />
+                                            <span>{event.pointsToReward} points</span>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+
+                            {error && (
+                                <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4 flex items-start space-x-2">
+                                    <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                                    <p className="text-sm text-red-700">{error}</p>
+                                </div>
+                            )}
+
+                            {event && (
+                                <>
+                                    {event.hasFood && (
+                                        <div className="mb-4">
+                                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                                This event has food! Any dietary needs?
+                                            </label>
+                                            <DietaryOptionsFields value={dietary} onChange={setDietary} disabled={checkingIn} />
+                                            <p className="text-xs text-gray-500 mt-2">
+                                                Leave blank to use your RSVP or the preferences saved in Settings.
+                                            </p>
+                                        </div>
+                                    )}
+
+                                    <button
+                                        onClick={handleCheckIn}
+                                        disabled={checkingIn}
+                                        className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                                    >
+                                        <UserCheck className="w-4 h-4" />
+                                        <span>{checkingIn ? 'Checking In...' : 'Check In'}</span>
+                                    </button>
+                                </>
+                            )}
+
+                            {!event && (
+                                <a
+                                    href="/dashboard/events"
+                                    className="block text-center text-sm text-blue-600 hover:text-blue-800"
+                                >
+                                    Go to Events
+                                </a>
+                            )}
+                        </>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
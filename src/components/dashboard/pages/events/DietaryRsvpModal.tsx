@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { X, Utensils } from 'lucide-react';
+import DietaryOptionsFields from '../../shared/components/DietaryOptionsFields';
+import type { DietaryPreferences } from '../../shared/types/firestore';
+
+interface DietaryRsvpModalProps {
+    eventName: string | null;
+    isWaitlist: boolean;
+    // Confirming dietary needs at check-in rather than when RSVPing
+    checkIn?: boolean;
+    profilePreferences: DietaryPreferences | null;
+    submitting: boolean;
+    onConfirm: (dietary: DietaryPreferences) => void;
+    onCancel: () => void;
+}
+
+// Shown when RSVPing to or checking in at an event with food so organizers can
+// plan the order
+export default function DietaryRsvpModal({ eventName, isWaitlist, checkIn, profilePreferences, submitting, onConfirm, onCancel }: DietaryRsvpModalProps) {
+    const actionLabel = checkIn ? 'Check In' : isWaitlist ? 'Join Waitlist' : 'RSVP';
+
+    const [dietary, setDietary] = useState<DietaryPreferences>({ restrictions: [] });
+
+    useEffect(() => {
+        if (eventName) {
+            setDietary({
+                restrictions: profilePreferences?.restrictions || [],
+                allergies: profilePreferences?.allergies || ''
+            });
+        }
+    }, [eventName]);
+
+    if (!eventName) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                    <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                        <Utensils className="w-5 h-5 mr-2 text-orange-600" />
+                        {actionLabel}
+                    </h3>
+                    <button onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    <p className="text-sm text-gray-600">
+                        {eventName} has food. Let the organizers know about any dietary needs so they can order enough for everyone.
+                    </p>
+                    <DietaryOptionsFields value={dietary} onChange={setDietary} disabled={submitting} />
+                    <p className="text-xs text-gray-500">
+                        Defaults come from your dietary preferences in Settings.
+                    </p>
+                </div>
+
+                <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onConfirm(dietary)}
+                        disabled={submitting}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                        {submitting ? 'Saving...' : actionLabel}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Calendar, Bell, User, Filter, MapPin, Clock, Users, UserCheck, X, Award, FileText, Eye, Download } from 'lucide-react';
-import { getFirestore, collection, getDocs, query, where, orderBy, doc, getDoc, updateDoc, arrayUnion, setDoc } from 'firebase/firestore';
+import { Search, Calendar, Bell, User, Filter, MapPin, Clock, Users, UserCheck, X, Award, FileText, Eye, Download, CalendarPlus, Link } from 'lucide-react';
+import { getFirestore, collection, getDocs, query, where, orderBy, doc, getDoc } from 'firebase/firestore';
 import { getAuth } from 'firebase/auth';
 import { app } from '../../../../firebase/client';
 import DashboardHeader from '../../shar../../shared/DashboardHeader';
-import { PublicProfileService } from '../../shar../../shared/services/publicProfile';
 import { EventCardSkeleton, MetricCardSkeleton } from '../../../ui/loading';
+import DietaryRsvpModal from './DietaryRsvpModal';
+import type { DietaryPreferences } from '../../shared/types/firestore';
 
 interface Event {
     id: string;
@@ -17,12 +18,16 @@ interface Event {
     pointsToReward: number;
     attendees?: string[];
     published: boolean;
-    capacity?: number;
+    capacity?: number | null;
+    rsvpCount?: number;
+    waitlistCount?: number;
     eventCode: string;
     hasFood?: boolean;
     files?: string[];
 }
 
+type RsvpStatus = 'going' | 'waitlisted';
+
 interface UserStats {
     lastEventAttended: string;
     totalPointsEarned: number;
@@ -42,6 +47,11 @@ export default function EventsContent() {
     const [searchTerm, setSearchTerm] = useState('');
     const [checkingIn, setCheckingIn] = useState<string | null>(null);
     const [checkedInEvents, setCheckedInEvents] = useState<Set<string>>(new Set());
+    const [rsvpStatuses, setRsvpStatuses] = useState<Record<string, RsvpStatus>>({});
+    const [rsvping, setRsvping] = useState<string | null>(null);
+    const [dietaryRsvpEvent, setDietaryRsvpEvent] = useState<Event | null>(null);
+    const [dietaryCheckIn, setDietaryCheckIn] = useState<{ event: Event; eventCode: string } | null>(null);
+    const [profileDietary, setProfileDietary] = useState<DietaryPreferences | null>(null);
 
     const db = getFirestore(app);
     const auth = getAuth(app);
@@ -57,6 +67,18 @@ export default function EventsContent() {
         return now >= startDate && now <= endDate;
     };
 
+    const getCalendarDownloadUrl = (event: Event) => `/api/events/calendar.ics?eventId=${encodeURIComponent(event.id)}`;
+
+    const handleCopyCalendarFeed = async () => {
+        const feedUrl = `${window.location.origin}/api/events/calendar.ics`;
+        try {
+            await navigator.clipboard.writeText(feedUrl);
+            alert('Calendar feed link copied. Add it to Google Calendar, Apple Calendar or Outlook with "Subscribe from URL".');
+        } catch (error) {
+            prompt('Copy this calendar feed link:', feedUrl);
+        }
+    };
+
     useEffect(() => {
         const unsubscribe = auth.onAuthStateChanged((user) => {
             if (user) {
@@ -146,6 +168,7 @@ export default function EventsContent() {
                     totalPointsEarned: userData.points || 0,
                     totalEventsAttended: userData.eventsAttended || 0
                 });
+                setProfileDietary(userData.dietaryPreferences || null);
             }
         } catch (error) {
             // Error fetching user stats
@@ -157,8 +180,9 @@ export default function EventsContent() {
 
         try {
             const checkedInSet = new Set<string>();
+            const rsvps: Record<string, RsvpStatus> = {};
 
-            // For each event, check if user has checked in
+            // For each event, check if user has checked in or RSVP'd
             for (const event of events) {
                 try {
                     const attendeeRef = doc(db, 'events', event.id, 'attendees', auth.currentUser.uid);
@@ -166,18 +190,24 @@ export default function EventsContent() {
                     if (attendeeSnap.exists()) {
                         checkedInSet.add(event.id);
                     }
+
+                    const rsvpSnap = await getDoc(doc(db, 'events', event.id, 'rsvps', auth.currentUser.uid));
+                    if (rsvpSnap.exists()) {
+                        rsvps[event.id] = rsvpSnap.data().status;
+                    }
                 } catch (error) {
                     // Continue if there's an error checking a specific event
                 }
             }
 
             setCheckedInEvents(checkedInSet);
+            setRsvpStatuses(rsvps);
         } catch (error) {
             // Error fetching user checked-in events
         }
     };
 
-    const handleCheckIn = async (event: Event) => {
+    const handleCheckIn = async (event: Event, confirmed?: { eventCode: string; dietary: DietaryPreferences }) => {
         if (!auth.currentUser) {
             setError('Please log in to check in');
             return;
@@ -205,54 +235,37 @@ export default function EventsContent() {
             setCheckingIn(event.id);
 
             // Ask for event code first
-            const enteredCode = prompt(`Please enter the event code for "${event.eventName}":`);
+            const enteredCode = confirmed?.eventCode || prompt(`Please enter the event code for "${event.eventName}":`);
             if (!enteredCode) {
                 setCheckingIn(null);
                 return; // User cancelled
             }
 
-            // Validate event code
-            if (enteredCode.toUpperCase() !== event.eventCode?.toUpperCase()) {
-                alert('Incorrect event code. Please try again.');
-                setCheckingIn(null);
+            // Events with food collect dietary needs before checking in
+            if (event.hasFood && !confirmed) {
+                setDietaryCheckIn({ event, eventCode: enteredCode });
                 return;
             }
 
-            // Ask for food preference if the event has food
-            let foodPreference = '';
-            if (event.hasFood) {
-                foodPreference = prompt('This event has food! What would you like? (e.g., Vegetarian, Vegan, No preference, etc.)') || 'No preference';
-            }
-
-            // Create check-in record in attendees subcollection
-            const attendeeRef = doc(db, 'events', event.id, 'attendees', auth.currentUser.uid);
-            await setDoc(attendeeRef, {
-                userId: auth.currentUser.uid,
-                timeCheckedIn: new Date(),
-                food: foodPreference,
-                pointsEarned: event.pointsToReward,
-                eventCode: enteredCode // Store the code they used to check in
-            });
-
-            // Update user with event attendance and points
-            const userRef = doc(db, 'users', auth.currentUser.uid);
-            const newPoints = userStats.totalPointsEarned + event.pointsToReward;
-            const newEventsAttended = userStats.totalEventsAttended + 1;
-
-            await updateDoc(userRef, {
-                lastEventAttended: event.eventName,
-                points: newPoints,
-                eventsAttended: newEventsAttended
+            // Code, time window and duplicate checks happen on the server,
+            // which also awards the points in the same transaction
+            const response = await fetch('/api/events/check-in', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    eventId: event.id,
+                    eventCode: enteredCode,
+                    ...(confirmed && { dietary: confirmed.dietary })
+                })
             });
+            const result = await response.json();
 
-            // Sync to public profile
-            try {
-                await PublicProfileService.updateUserStats(auth.currentUser.uid, {
-                    points: newPoints,
-                    eventsAttended: newEventsAttended
-                });
-            } catch (error) {
-                // Don't fail the whole check-in process if public profile sync fails
+            if (!response.ok || !result.success) {
+                if (response.status === 409) {
+                    setCheckedInEvents(prev => new Set(prev).add(event.id));
+                }
+                alert(result.message || 'Failed to check in. Please try again.');
+                return;
             }
 
             // Add event to checked-in set
@@ -262,9 +275,10 @@ export default function EventsContent() {
             fetchUserStats();
 
             // Show success message
-            const message = event.hasFood && foodPreference
-                ? `Successfully checked in to ${event.eventName}! You earned ${event.pointsToReward} points. Food preference: ${foodPreference}`
-                : `Successfully checked in to ${event.eventName}! You earned ${event.pointsToReward} points.`;
+            const { pointsEarned, food } = result.data;
+            const message = food
+                ? `Successfully checked in to ${event.eventName}! You earned ${pointsEarned} points. Food preference: ${food}`
+                : `Successfully checked in to ${event.eventName}! You earned ${pointsEarned} points.`;
             alert(message);
 
         } catch (error) {
@@ -274,6 +288,105 @@ export default function EventsContent() {
         }
     };
 
+    // Capacity and waitlist promotion are enforced by the server
+    const handleRsvp = async (event: Event, action: 'rsvp' | 'cancel', dietary?: DietaryPreferences) => {
+        if (!auth.currentUser) {
+            setError('Please log in to RSVP');
+            return;
+        }
+        // Events with food collect dietary needs first
+        if (action === 'rsvp' && event.hasFood && !dietary) {
+            setDietaryRsvpEvent(event);
+            return;
+        }
+        if (action === 'cancel' && !confirm(
+            rsvpStatuses[event.id] === 'waitlisted'
+                ? `Leave the waitlist for ${event.eventName}?`
+                : `Cancel your RSVP to ${event.eventName}?${event.capacity ? ' Your spot will go to the next person on the waitlist.' : ''}`
+        )) {
+            return;
+        }
+
+        try {
+            setRsvping(event.id);
+            const response = await fetch('/api/events/rsvp', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ eventId: event.id, action, ...(dietary && { dietary }) })
+            });
+            const result = await response.json();
+
+            if (!response.ok || !result.success) {
+                alert(result.message || 'Failed to update your RSVP. Please try again.');
+                return;
+            }
+
+            const { rsvpStatus, rsvpCount, waitlistCount, waitlistPosition } = result.data;
+            setRsvpStatuses(prev => {
+                const next = { ...prev };
+                if (rsvpStatus === 'cancelled') {
+                    delete next[event.id];
+                } else {
+                    next[event.id] = rsvpStatus;
+                }
+                return next;
+            });
+            const updateCounts = (e: Event) => e.id === event.id ? { ...e, rsvpCount, waitlistCount } : e;
+            setEvents(prev => prev.map(updateCounts));
+            setSelectedEvent(prev => prev && updateCounts(prev));
+
+            setDietaryRsvpEvent(null);
+            alert(waitlistPosition ? `${result.message} You're #${waitlistPosition} in line.` : result.message);
+        } catch (error) {
+            setError('Failed to update RSVP: ' + (error as Error).message);
+        } finally {
+            setRsvping(null);
+        }
+    };
+
+    const getRsvpSummary = (event: Event) => {
+        const going = event.rsvpCount || 0;
+        const summary = event.capacity ? `${going}/${event.capacity} going` : `${going} going`;
+        return event.waitlistCount ? `${summary} · ${event.waitlistCount} waitlisted` : summary;
+    };
+
+    const renderRsvpButton = (event: Event) => {
+        const status = rsvpStatuses[event.id];
+        const isFull = !!event.capacity && (event.rsvpCount || 0) >= event.capacity;
+
+        if (status) {
+            return (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        handleRsvp(event, 'cancel');
+                    }}
+                    disabled={rsvping === event.id}
+                    className={`px-3 py-1.5 text-xs font-medium rounded-full transition-colors disabled:opacity-50 ${status === 'going'
+                        ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                        : 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                        }`}
+                    title={status === 'going' ? 'Cancel RSVP' : 'Leave waitlist'}
+                >
+                    {rsvping === event.id ? 'Updating...' : status === 'going' ? '✓ Going' : 'Waitlisted'}
+                </button>
+            );
+        }
+
+        return (
+            <button
+                onClick={(e) => {
+                    e.stopPropagation();
+                    handleRsvp(event, 'rsvp');
+                }}
+                disabled={rsvping === event.id}
+                className="px-3 py-1.5 border border-blue-300 text-blue-700 text-xs font-medium rounded-full hover:bg-blue-50 transition-colors disabled:opacity-50"
+            >
+                {rsvping === event.id ? 'Updating...' : isFull ? 'Join Waitlist' : 'RSVP'}
+            </button>
+        );
+    };
+
     const getUpcomingEvents = () => {
         const now = new Date();
         return events.filter(event => {
@@ -508,7 +621,17 @@ export default function EventsContent() {
                         <>
                             {/* Upcoming Events */}
                             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-                                <h2 className="text-lg font-semibold text-gray-900 mb-4">Upcoming Events ({upcomingEvents.length})</h2>
+                                <div className="flex items-center justify-between mb-4">
+                                    <h2 className="text-lg font-semibold text-gray-900">Upcoming Events ({upcomingEvents.length})</h2>
+                                    <button
+                                        onClick={handleCopyCalendarFeed}
+                                        className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 transition-colors"
+                                        title="Subscribe to all IEEE UCSD events in your calendar app"
+                                    >
+                                        <Link className="w-4 h-4" />
+                                        <span>Subscribe to Calendar</span>
+                                    </button>
+                                </div>
                                 {upcomingEvents.length === 0 ? (
                                     <p className="text-gray-500 text-center py-8">No upcoming events found</p>
                                 ) : (
@@ -554,6 +677,21 @@ export default function EventsContent() {
                                                                 <p className="text-xs text-gray-500">Checked In</p>
                                                             </div>
                                                         )}
+                                                        {!isEventCurrentlyActive(event) && (
+                                                            <div className="text-left">
+                                                                {renderRsvpButton(event)}
+                                                                <p className="text-xs text-gray-500 mt-1">{getRsvpSummary(event)}</p>
+                                                            </div>
+                                                        )}
+                                                        <a
+                                                            href={getCalendarDownloadUrl(event)}
+                                                            download
+                                                            onClick={(e) => e.stopPropagation()}
+                                                            className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 min-h-[44px]"
+                                                        >
+                                                            <CalendarPlus className="w-4 h-4" />
+                                                            <span>Add to Calendar</span>
+                                                        </a>
                                                         <div className="flex-shrink-0">
                                                             {!isEventCurrentlyActive(event) ? (
                                                                 <span className="px-2 py-1.5 bg-gray-100 text-gray-600 text-xs font-medium rounded-full break-words">
@@ -605,6 +743,21 @@ export default function EventsContent() {
                                                         </div>
                                                     </div>
                                                     <div className="flex items-center space-x-4">
+                                                        <a
+                                                            href={getCalendarDownloadUrl(event)}
+                                                            download
+                                                            onClick={(e) => e.stopPropagation()}
+                                                            className="p-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg transition-colors"
+                                                            title="Add to Calendar"
+                                                        >
+                                                            <CalendarPlus className="w-5 h-5" />
+                                                        </a>
+                                                        {!isEventCurrentlyActive(event) && (
+                                                            <div className="text-right">
+                                                                {renderRsvpButton(event)}
+                                                                <p className="text-xs text-gray-500 mt-1">{getRsvpSummary(event)}</p>
+                                                            </div>
+                                                        )}
                                                         {isEventCurrentlyActive(event) && (
                                                             <div className="text-right">
                                                                 <p className="text-sm font-medium text-gray-900">
@@ -791,6 +944,17 @@ export default function EventsContent() {
                                         <h3 className="text-sm font-medium text-gray-700 mb-2">Points Reward</h3>
                                         <p className="text-gray-900">{selectedEvent.pointsToReward} points</p>
                                     </div>
+                                    {!isEventCurrentlyActive(selectedEvent) && getUpcomingEvents().some(e => e.id === selectedEvent.id) && (
+                                        <div>
+                                            <h3 className="text-sm font-medium text-gray-700 mb-2">RSVPs</h3>
+                                            <p className="text-gray-900">{getRsvpSummary(selectedEvent)}</p>
+                                            {rsvpStatuses[selectedEvent.id] && (
+                                                <p className="text-sm text-gray-500">
+                                                    {rsvpStatuses[selectedEvent.id] === 'going' ? "You're going" : "You're on the waitlist"}
+                                                </p>
+                                            )}
+                                        </div>
+                                    )}
                                     {isEventCurrentlyActive(selectedEvent) && (
                                         <div>
                                             <h3 className="text-sm font-medium text-gray-700 mb-2">Current Attendance</h3>
@@ -877,6 +1041,33 @@ export default function EventsContent() {
                             >
                                 Close
                             </button>
+                            <a
+                                href={getCalendarDownloadUrl(selectedEvent)}
+                                download
+                                className="flex items-center space-x-2 px-4 py-2 border border-blue-200 text-blue-700 rounded-lg hover:bg-blue-50 transition-colors"
+                            >
+                                <CalendarPlus className="w-4 h-4" />
+                                <span>Add to Calendar</span>
+                            </a>
+                            {!isEventCurrentlyActive(selectedEvent) && getUpcomingEvents().some(e => e.id === selectedEvent.id) && (
+                                rsvpStatuses[selectedEvent.id] ? (
+                                    <button
+                                        onClick={() => handleRsvp(selectedEvent, 'cancel')}
+                                        disabled={rsvping === selectedEvent.id}
+                                        className="px-4 py-2 border border-red-200 text-red-700 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                                    >
+                                        {rsvpStatuses[selectedEvent.id] === 'going' ? 'Cancel RSVP' : 'Leave Waitlist'}
+                                    </button>
+                                ) : (
+                                    <button
+                                        onClick={() => handleRsvp(selectedEvent, 'rsvp')}
+                                        disabled={rsvping === selectedEvent.id}
+                                        className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                                    >
+                                        {selectedEvent.capacity && (selectedEvent.rsvpCount || 0) >= selectedEvent.capacity ? 'Join Waitlist' : 'RSVP'}
+                                    </button>
+                                )
+                            )}
                             {!isUserCheckedIn(selectedEvent) && isEventCurrentlyActive(selectedEvent) && (
                                 <button
                                     onClick={() => {
@@ -894,6 +1085,29 @@ export default function EventsContent() {
                     </div>
                 </div>
             )}
+
+            <DietaryRsvpModal
+                eventName={dietaryRsvpEvent?.eventName || null}
+                isWaitlist={!!dietaryRsvpEvent?.capacity && (dietaryRsvpEvent.rsvpCount || 0) >= dietaryRsvpEvent.capacity}
+                profilePreferences={profileDietary}
+                submitting={!!dietaryRsvpEvent && rsvping === dietaryRsvpEvent.id}
+                onConfirm={(dietary) => dietaryRsvpEvent && handleRsvp(dietaryRsvpEvent, 'rsvp', dietary)}
+                onCancel={() => setDietaryRsvpEvent(null)}
+            />
+
+            <DietaryRsvpModal
+                eventName={dietaryCheckIn?.event.eventName || null}
+                isWaitlist={false}
+                checkIn
+                profilePreferences={profileDietary}
+                submitting={!!dietaryCheckIn && checkingIn === dietaryCheckIn.event.id}
+                onConfirm={(dietary) => {
+                    if (!dietaryCheckIn) return;
+                    setDietaryCheckIn(null);
+                    handleCheckIn(dietaryCheckIn.event, { eventCode: dietaryCheckIn.eventCode, dietary });
+                }}
+                onCancel={() => setDietaryCheckIn(null)}
+            />
         </div>
     );
 } 
\ No newline at end of file
@@ -9,6 +9,8 @@ import DashboardHeader from '../../shared/DashboardHeader';
 import type { UserRole } from '../../shared/types/firestore';
 import { PublicProfileService } from '../../shared/services/publicProfile';
 import { TableSkeleton, MetricCardSkeleton } from '../../../ui/loading';
+import { updateDepositStatus } from './utils/depositStatusUtils';
+import { LEDGER_ACCOUNTS, LEDGER_ACCOUNT_LABELS, suggestDepositAccount, type LedgerAccount } from '../../../../lib/treasuryLedger';
 
 interface FundDeposit {
     id: string;
@@ -42,6 +44,7 @@ interface FundDeposit {
     needsBankTransfer?: boolean;
     bankTransferInstructions?: string;
     bankTransferFiles?: string[];
+    ledgerAccount?: LedgerAccount; // treasury account the deposit was posted to
 }
 
 const getStatusColor = (status: string) => {
@@ -140,6 +143,10 @@ const FundDepositsContent: React.FC = () => {
     const [rejectionDepositId, setRejectionDepositId] = useState<string | null>(null);
     const [rejectionReason, setRejectionReason] = useState('');
 
+    // Verification modal state
+    const [verifyingDeposit, setVerifyingDeposit] = useState<FundDeposit | null>(null);
+    const [verifyAccount, setVerifyAccount] = useState<LedgerAccount>('general');
+
     const addReceiptFile = (file: File) => {
         setReceiptFiles(prev => [...prev, file]);
     };
@@ -409,50 +416,34 @@ const FundDepositsContent: React.FC = () => {
         }
     };
 
-    const handleStatusUpdate = async (depositId: string, newStatus: string, note?: string, rejectionReason?: string) => {
-        if (!user) return;
+    // Verifying posts the deposit to the treasury ledger, so it goes through the server
+    const handleStatusUpdate = async (
+        depositId: string,
+        newStatus: 'verified' | 'rejected',
+        options: { rejectionReason?: string; ledgerAccount?: LedgerAccount } = {}
+    ): Promise<boolean> => {
+        if (!user) return false;
 
         try {
-            // Get user info
-            const userDoc = await getDoc(doc(db, 'users', user.uid));
-            const userData = userDoc.data();
-            const userName = userData?.name || user.email || 'Unknown User';
-
-            const depositRef = doc(db, 'fundDeposits', depositId);
-            const updateData: any = {
-                status: newStatus,
-                [`${newStatus}By`]: user.uid,
-                [`${newStatus}ByName`]: userName,
-                [`${newStatus}At`]: Timestamp.now()
-            };
-
-            if (note) {
-                updateData.notes = note;
-            }
+            await updateDepositStatus(depositId, newStatus, options);
+            return true;
+        } catch (error) {
+            console.error('Error updating deposit status:', error);
+            alert(error instanceof Error ? error.message : 'Failed to update deposit status');
+            return false;
+        }
+    };
 
-            // Add rejection reason if status is rejected
-            if (newStatus === 'rejected' && rejectionReason) {
-                updateData.rejectionReason = rejectionReason;
-            }
+    const handleVerifyDeposit = (deposit: FundDeposit) => {
+        setVerifyingDeposit(deposit);
+        setVerifyAccount(suggestDepositAccount(deposit));
+    };
 
-            // Add audit log
-            const deposit = deposits.find(d => d.id === depositId);
-            if (deposit) {
-                const newAuditLog = {
-                    action: newStatus,
-                    createdBy: user.uid,
-                    createdByName: userName,
-                    timestamp: Timestamp.now(),
-                    note: rejectionReason || note || `Status changed to ${newStatus}`,
-                    previousData: { status: deposit.status },
-                    newData: { status: newStatus }
-                };
-                updateData.auditLogs = [...(deposit.auditLogs || []), newAuditLog];
-            }
+    const handleConfirmVerification = async () => {
+        if (!verifyingDeposit) return;
 
-            await updateDoc(depositRef, updateData);
-        } catch (error) {
-            console.error('Error updating deposit status:', error);
+        if (await handleStatusUpdate(verifyingDeposit.id, 'verified', { ledgerAccount: verifyAccount })) {
+            setVerifyingDeposit(null);
         }
     };
 
@@ -465,7 +456,7 @@ const FundDepositsContent: React.FC = () => {
     const handleConfirmRejection = async () => {
         if (!rejectionDepositId || !rejectionReason.trim()) return;
 
-        await handleStatusUpdate(rejectionDepositId, 'rejected', rejectionReason, rejectionReason);
+        if (!await handleStatusUpdate(rejectionDepositId, 'rejected', { rejectionReason })) return;
         setShowRejectionModal(false);
         setRejectionDepositId(null);
         setRejectionReason('');
@@ -915,7 +906,7 @@ const FundDepositsContent: React.FC = () => {
                                                     {canChangeStatus(deposit) && deposit.status === 'pending' && (
                                                         <>
                                                             <button
-                                                                onClick={() => handleStatusUpdate(deposit.id, 'verified')}
+                                                                onClick={() => handleVerifyDeposit(deposit)}
                                                                 className="text-blue-600 hover:text-blue-900"
                                                                 title="Verify"
                                                             >
@@ -1243,6 +1234,12 @@ const FundDepositsContent: React.FC = () => {
                                             <dt className="text-sm font-medium text-gray-500">Submitted</dt>
                                             <dd className="text-sm text-gray-900">{selectedDeposit.submittedAt?.toDate().toLocaleString()}</dd>
                                         </div>
+                                        {selectedDeposit.ledgerAccount && (
+                                            <div>
+                                                <dt className="text-sm font-medium text-gray-500">Ledger Account</dt>
+                                                <dd className="text-sm text-gray-900">{LEDGER_ACCOUNT_LABELS[selectedDeposit.ledgerAccount]}</dd>
+                                            </div>
+                                        )}
                                         {selectedDeposit.status === 'rejected' && selectedDeposit.rejectionReason && (
                                             <div>
                                                 <dt className="text-sm font-medium text-gray-500">Rejection Reason</dt>
@@ -1510,6 +1507,60 @@ const FundDepositsContent: React.FC = () => {
                 </div>
             )}
 
+            {/* Verification Modal */}
+            {verifyingDeposit && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+                        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                            <h3 className="text-lg font-semibold text-gray-900">Verify Deposit</h3>
+                            <button
+                                onClick={() => setVerifyingDeposit(null)}
+                                className="text-gray-400 hover:text-gray-600 transition-colors"
+                            >
+                                <X className="w-6 h-6" />
+                            </button>
+                        </div>
+
+                        <div className="p-6">
+                            <p className="text-sm text-gray-600 mb-4">
+                                <span className="font-medium text-gray-900">{verifyingDeposit.title}</span> for{' '}
+                                <span className="font-medium text-gray-900">${verifyingDeposit.amount.toFixed(2)}</span> will be posted to the treasury ledger.
+                            </p>
+                            <div className="mb-4">
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    Ledger Account <span className="text-red-500">*</span>
+                                </label>
+                                <select
+                                    value={verifyAccount}
+                                    onChange={(e) => setVerifyAccount(e.target.value as LedgerAccount)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                >
+                                    {LEDGER_ACCOUNTS.map(account => (
+                                        <option key={account} value={account}>{LEDGER_ACCOUNT_LABELS[account]}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="flex items-center justify-end space-x-3">
+                                <button
+                                    onClick={() => setVerifyingDeposit(null)}
+                                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleConfirmVerification}
+                                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-lg hover:bg-blue-700 flex items-center gap-2"
+                                >
+                                    <Check className="w-4 h-4" />
+                                    Verify Deposit
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Rejection Modal */}
             {showRejectionModal && (
                 <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
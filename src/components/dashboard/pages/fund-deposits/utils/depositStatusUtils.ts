@@ -0,0 +1,31 @@
+/**
+ * Client helper for verifying or rejecting a deposit through /api/fund-deposits/status
+ */
+
+import type { LedgerAccount } from '../../../../../lib/treasuryLedger';
+
+/**
+ * Verifies a pending deposit and posts it to `ledgerAccount`, or rejects it
+ * with a reason. When no account is given the server picks one from the
+ * deposit's IEEE source.
+ *
+ * @throws Error with the server's message when the update is rejected
+ */
+export async function updateDepositStatus(
+    depositId: string,
+    status: 'verified' | 'rejected',
+    options: { rejectionReason?: string; ledgerAccount?: LedgerAccount } = {}
+): Promise<string> {
+    const response = await fetch('/api/fund-deposits/status', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ depositId, status, ...options })
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+        throw new Error(result?.message || `Deposit update failed (${response.status})`);
+    }
+
+    return result.message;
+}
@@ -189,8 +189,6 @@ export default function GetStartedContent() {
             // Create public profile with the signup data
             const publicProfileData: any = {
                 name: userData?.name || auth.currentUser?.displayName || 'New Member',
-                points: userData?.points || 0,
-                eventsAttended: userData?.eventsAttended || 0,
                 position: userData?.position || userData?.role || 'Member',
                 joinDate: new Date() // Also set join date in public profile
             };
@@ -0,0 +1,156 @@
+import React, { useState, useEffect } from 'react';
+import { X, Trophy } from 'lucide-react';
+import { getRecentQuarters, getQuarterId } from '../../../../lib/academicQuarters';
+import { closeSeason } from './utils/seasonUtils';
+import type { SeasonStanding } from '../../shared/types/firestore';
+
+interface CloseSeasonModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    closedSeasonIds: string[];
+    onClosed: () => void;
+}
+
+const DEFAULT_PRIZE_COUNT = 3;
+
+export default function CloseSeasonModal({ isOpen, onClose, closedSeasonIds, onClosed }: CloseSeasonModalProps) {
+    // Only quarters that have already ended can be closed
+    const openQuarters = getRecentQuarters(4).filter(quarter =>
+        quarter.end <= new Date() && !closedSeasonIds.includes(getQuarterId(quarter))
+    );
+    const [seasonId, setSeasonId] = useState('');
+    const [prizeCount, setPrizeCount] = useState(DEFAULT_PRIZE_COUNT);
+    const [closing, setClosing] = useState(false);
+    const [winners, setWinners] = useState<SeasonStanding[] | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setSeasonId(openQuarters[0] ? getQuarterId(openQuarters[0]) : '');
+            setPrizeCount(DEFAULT_PRIZE_COUNT);
+            setWinners(null);
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const selectedQuarter = openQuarters.find(quarter => getQuarterId(quarter) === seasonId);
+
+    const handleClose = async () => {
+        if (!selectedQuarter) return;
+        if (!confirm(`Close ${selectedQuarter.label}? This cannot be undone.`)) {
+            return;
+        }
+
+        setClosing(true);
+        try {
+            const result = await closeSeason(seasonId, prizeCount);
+            setWinners(result.winners);
+            onClosed();
+        } catch (error) {
+            console.error('Error closing season:', error);
+            alert('Failed to close season: ' + (error as Error).message);
+        } finally {
+            setClosing(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                    <h3 className="text-lg font-medium text-gray-900">Close Leaderboard Season</h3>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-600"
+                    >
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                {winners ? (
+                    <div className="p-6 space-y-4">
+                        <p className="text-sm text-gray-600">
+                            {selectedQuarter?.label} is closed. Prize winners:
+                        </p>
+                        {winners.length === 0 ? (
+                            <p className="text-sm text-gray-500">Nobody earned points this season.</p>
+                        ) : (
+                            <ol className="space-y-2">
+                                {winners.map(winner => (
+                                    <li key={winner.userId} className="flex items-center justify-between bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2">
+                                        <span className="text-sm font-medium text-gray-900">#{winner.rank} {winner.name}</span>
+                                        <span className="text-sm text-yellow-700">{winner.points} pts</span>
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                        <div className="flex justify-end">
+                            <button
+                                onClick={onClose}
+                                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                            >
+                                Done
+                            </button>
+                        </div>
+                    </div>
+                ) : openQuarters.length === 0 ? (
+                    <div className="p-6">
+                        <p className="text-sm text-gray-500">All recent seasons have already been closed.</p>
+                    </div>
+                ) : (
+                    <div className="p-6 space-y-4">
+                        <p className="text-sm text-gray-600">
+                            Closing a season freezes its standings and records the top members for prizes. All-time points are not affected.
+                        </p>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Season
+                            </label>
+                            <select
+                                value={seasonId}
+                                onChange={(e) => setSeasonId(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            >
+                                {openQuarters.map(quarter => (
+                                    <option key={getQuarterId(quarter)} value={getQuarterId(quarter)}>
+                                        {quarter.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Prize winners
+                            </label>
+                            <input
+                                type="number"
+                                min="1"
+                                max="25"
+                                value={prizeCount}
+                                onChange={(e) => setPrizeCount(parseInt(e.target.value) || 1)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                        </div>
+                        <div className="flex justify-end space-x-3 pt-2">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleClose}
+                                disabled={closing || !selectedQuarter}
+                                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                            >
+                                <Trophy className="w-4 h-4" />
+                                <span>{closing ? 'Closing...' : 'Close Season'}</span>
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
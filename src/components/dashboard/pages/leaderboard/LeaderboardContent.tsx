@@ -1,12 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Trophy, Medal, Award, Crown, TrendingUp, Users, Star } from 'lucide-react';
-import { collection, query, orderBy, onSnapshot, limit } from 'firebase/firestore';
+import { Trophy, Medal, Award, Crown, TrendingUp, Users, Star, Lock } from 'lucide-react';
+import { collection, query, orderBy, onSnapshot, limit, doc, getDoc } from 'firebase/firestore';
 import { db } from '../../../../firebase/client';
 import { useAuthState } from 'react-firebase-hooks/auth';
 import { auth } from '../../../../firebase/client';
 import DashboardHeader from '../../shared/DashboardHeader';
 import { PublicProfileService, type PublicProfile } from '../../shared/services/publicProfile';
 import { LeaderboardTableSkeleton, MetricCardSkeleton, CardSkeleton } from '../../../ui/loading';
+import PointsHistory from './PointsHistory';
+import CloseSeasonModal from './CloseSeasonModal';
+import { fetchCurrentSeason, fetchArchivedSeasons, type CurrentSeason, type ArchivedSeason } from './utils/seasonUtils';
+import type { SeasonStanding, UserRole } from '../../shared/types/firestore';
 
 interface LeaderboardUser {
     id: string;
@@ -19,11 +23,31 @@ interface LeaderboardUser {
     rank: number;
 }
 
+type LeaderboardView = 'season' | 'all_time' | 'past_seasons';
+
+const toLeaderboardUser = (standing: SeasonStanding): LeaderboardUser => ({
+    id: standing.userId,
+    name: standing.name,
+    points: standing.points,
+    major: standing.major || '',
+    graduationYear: standing.graduationYear,
+    eventsAttended: standing.eventsAttended,
+    position: standing.position || 'Member',
+    rank: standing.rank
+});
+
 export default function LeaderboardContent() {
     const [user] = useAuthState(auth);
     const [leaderboardData, setLeaderboardData] = useState<LeaderboardUser[]>([]);
-    const [currentUserRank, setCurrentUserRank] = useState<number>(0);
     const [loading, setLoading] = useState(true);
+    const [view, setView] = useState<LeaderboardView>('season');
+    const [currentSeason, setCurrentSeason] = useState<CurrentSeason | null>(null);
+    const [seasonError, setSeasonError] = useState<string | null>(null);
+    const [archivedSeasons, setArchivedSeasons] = useState<ArchivedSeason[]>([]);
+    const [selectedSeasonId, setSelectedSeasonId] = useState('');
+    const [seasonsLoading, setSeasonsLoading] = useState(true);
+    const [currentUserRole, setCurrentUserRole] = useState<UserRole | null>(null);
+    const [showCloseSeasonModal, setShowCloseSeasonModal] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
     const [debugInfo, setDebugInfo] = useState<string>('');
 
@@ -66,14 +90,6 @@ export default function LeaderboardContent() {
                 setDebugInfo(prev => `${prev}. After filtering: ${validUsers.length} valid users`);
 
                 setLeaderboardData(validUsers);
-
-                // Find current user's rank
-                if (user) {
-                    const currentUser = validUsers.find(u => u.id === user.uid);
-                    setCurrentUserRank(currentUser?.rank || 0);
-                    console.log('Current user rank:', currentUser?.rank || 0);
-                }
-
                 setLoading(false);
             }, (error) => {
                 console.error('Error in leaderboard listener:', error);
@@ -91,7 +107,65 @@ export default function LeaderboardContent() {
         }
     }, [user]);
 
-    const filteredData = leaderboardData.filter(userData => {
+    useEffect(() => {
+        const fetchUserRole = async () => {
+            if (!user) return;
+
+            try {
+                const userDoc = await getDoc(doc(db, 'users', user.uid));
+                if (userDoc.exists()) {
+                    setCurrentUserRole(userDoc.data().role || 'Member');
+                }
+            } catch (error) {
+                console.error('Error fetching user role:', error);
+                setCurrentUserRole('Member');
+            }
+        };
+
+        fetchUserRole();
+    }, [user]);
+
+    const loadSeasons = async () => {
+        setSeasonsLoading(true);
+        try {
+            const [season, archived] = await Promise.all([
+                fetchCurrentSeason().catch((error) => {
+                    console.error('Error loading current season:', error);
+                    setSeasonError(error.message);
+                    return null;
+                }),
+                fetchArchivedSeasons()
+            ]);
+            setCurrentSeason(season);
+            if (season) setSeasonError(null);
+            setArchivedSeasons(archived);
+            setSelectedSeasonId(prev => archived.some(s => s.id === prev) ? prev : archived[0]?.id || '');
+        } catch (error) {
+            console.error('Error loading archived seasons:', error);
+        } finally {
+            setSeasonsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (user) loadSeasons();
+    }, [user]);
+
+    const canCloseSeason = currentUserRole === 'Executive Officer' || currentUserRole === 'Administrator';
+    const selectedSeason = archivedSeasons.find(s => s.id === selectedSeasonId);
+    const winnerIds = view === 'past_seasons' && selectedSeason
+        ? selectedSeason.winners.map(w => w.userId)
+        : [];
+
+    const displayedData: LeaderboardUser[] = view === 'all_time'
+        ? leaderboardData
+        : view === 'season'
+            ? (currentSeason?.standings || []).map(toLeaderboardUser)
+            : (selectedSeason?.standings || []).map(toLeaderboardUser);
+    const isLoading = view === 'all_time' ? loading : seasonsLoading;
+    const currentUserRank = displayedData.find(u => u.id === user?.uid)?.rank || 0;
+
+    const filteredData = displayedData.filter(userData => {
         try {
             const searchLower = searchTerm.toLowerCase();
             return (userData.name && userData.name.toLowerCase().includes(searchLower)) ||
@@ -145,10 +219,10 @@ export default function LeaderboardContent() {
     };
 
     const getTotalStats = () => {
-        const totalUsers = leaderboardData.length;
-        const totalPoints = leaderboardData.reduce((sum, user) => sum + user.points, 0);
+        const totalUsers = displayedData.length;
+        const totalPoints = displayedData.reduce((sum, user) => sum + user.points, 0);
         const avgPoints = totalUsers > 0 ? Math.round(totalPoints / totalUsers) : 0;
-        const topPerformer = leaderboardData[0];
+        const topPerformer = displayedData[0];
 
         return { totalUsers, totalPoints, avgPoints, topPerformer };
     };
@@ -176,9 +250,74 @@ export default function LeaderboardContent() {
                 )}
 
                 <div className="grid grid-cols-1 gap-4 md:gap-6">
+                    {/* Season selector */}
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                        <div className="inline-flex bg-gray-100 rounded-lg p-1">
+                            {([
+                                ['season', currentSeason ? currentSeason.season.label : 'This Quarter'],
+                                ['all_time', 'All-Time'],
+                                ['past_seasons', 'Past Seasons']
+                            ] as [LeaderboardView, string][]).map(([value, label]) => (
+                                <button
+                                    key={value}
+                                    onClick={() => setView(value)}
+                                    className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${view === value
+                                        ? 'bg-white text-blue-600 shadow-sm'
+                                        : 'text-gray-600 hover:text-gray-900'
+                                        }`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex items-center space-x-3">
+                            {view === 'past_seasons' && archivedSeasons.length > 0 && (
+                                <select
+                                    value={selectedSeasonId}
+                                    onChange={(e) => setSelectedSeasonId(e.target.value)}
+                                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                >
+                                    {archivedSeasons.map(season => (
+                                        <option key={season.id} value={season.id}>{season.label}</option>
+                                    ))}
+                                </select>
+                            )}
+                            {canCloseSeason && (
+                                <button
+                                    onClick={() => setShowCloseSeasonModal(true)}
+                                    className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+                                >
+                                    <Lock className="w-4 h-4" />
+                                    <span>Close Season</span>
+                                </button>
+                            )}
+                        </div>
+                    </div>
+
+                    {view === 'season' && seasonError && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                            <p className="text-sm text-red-800">Couldn't load this quarter's standings: {seasonError}</p>
+                        </div>
+                    )}
+                    {view === 'past_seasons' && !seasonsLoading && (
+                        selectedSeason ? (
+                            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                                <p className="text-sm text-gray-700">
+                                    Final standings for {selectedSeason.label}, closed {selectedSeason.closedAt?.toDate().toLocaleDateString()}
+                                    {selectedSeason.closedByName && ` by ${selectedSeason.closedByName}`}.
+                                    {' '}Top {selectedSeason.prizeCount} {selectedSeason.prizeCount === 1 ? 'member was' : 'members were'} recognized for prizes.
+                                </p>
+                            </div>
+                        ) : (
+                            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                                <p className="text-sm text-gray-700">No seasons have been closed yet.</p>
+                            </div>
+                        )
+                    )}
+
                     {/* Stats Overview */}
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
-                        {loading ? (
+                        {isLoading ? (
                             <>
                                 <MetricCardSkeleton />
                                 <MetricCardSkeleton />
@@ -239,7 +378,7 @@ export default function LeaderboardContent() {
                     </div>
 
                     {/* Podium - Top 3 */}
-                    {loading ? (
+                    {isLoading ? (
                         <CardSkeleton variant="content" size="lg" className="h-64" />
                     ) : topThree.length >= 3 && (
                         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -296,10 +435,12 @@ export default function LeaderboardContent() {
                     {/* Full Leaderboard */}
                     <div className="bg-white rounded-lg shadow-sm border border-gray-200">
                         <div className="px-6 py-4 border-b border-gray-200">
-                            <h2 className="text-lg font-semibold text-gray-900">Full Leaderboard</h2>
+                            <h2 className="text-lg font-semibold text-gray-900">
+                                {view === 'all_time' ? 'Full Leaderboard' : view === 'season' ? `${currentSeason?.season.label || 'This Quarter'} Standings` : `${selectedSeason?.label || 'Season'} Final Standings`}
+                            </h2>
                         </div>
                         <div className="overflow-x-auto">
-                            {loading ? (
+                            {isLoading ? (
                                 <LeaderboardTableSkeleton rows={10} />
                             ) : (
                                 <table className="w-full">
@@ -359,6 +500,11 @@ export default function LeaderboardContent() {
                                                                         You
                                                                     </span>
                                                                 )}
+                                                                {winnerIds.includes(member.id) && (
+                                                                    <span className="ml-2 text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full">
+                                                                        Prize Winner
+                                                                    </span>
+                                                                )}
                                                             </div>
                                                             <div className="text-sm text-gray-500">{member.major || member.position}</div>
                                                         </div>
@@ -390,8 +536,18 @@ export default function LeaderboardContent() {
                             )}
                         </div>
                     </div>
+
+                    {/* Points history for the signed-in member */}
+                    {user && <PointsHistory userId={user.uid} />}
                 </div>
             </main>
+
+            <CloseSeasonModal
+                isOpen={showCloseSeasonModal}
+                onClose={() => setShowCloseSeasonModal(false)}
+                closedSeasonIds={archivedSeasons.map(s => s.id)}
+                onClosed={loadSeasons}
+            />
         </div>
     );
 } 
\ No newline at end of file
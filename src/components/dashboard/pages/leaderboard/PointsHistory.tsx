@@ -0,0 +1,47 @@
+import React, { useState, useEffect } from 'react';
+import { History } from 'lucide-react';
+import { PointsService, type PointTransactionRecord } from '../../shared/services/pointsService';
+import PointsHistoryList from '../../shared/components/PointsHistoryList';
+import { CardSkeleton } from '../../../ui/loading';
+
+interface PointsHistoryProps {
+    userId: string;
+}
+
+export default function PointsHistory({ userId }: PointsHistoryProps) {
+    const [transactions, setTransactions] = useState<PointTransactionRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setLoading(true);
+        PointsService.getUserTransactions(userId)
+            .then(setTransactions)
+            .catch((error) => {
+                console.error('Error fetching points history:', error);
+                setError('Failed to load your points history');
+            })
+            .finally(() => setLoading(false));
+    }, [userId]);
+
+    return (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center gap-2">
+                <History className="w-5 h-5 text-gray-500" />
+                <h2 className="text-lg font-semibold text-gray-900">Your Points History</h2>
+            </div>
+            <div className="px-6 py-2">
+                {loading ? (
+                    <CardSkeleton variant="content" size="md" className="my-4" />
+                ) : error ? (
+                    <p className="text-sm text-red-600 py-6 text-center">{error}</p>
+                ) : (
+                    <PointsHistoryList
+                        transactions={transactions}
+                        emptyMessage="Check in to events to start earning points"
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,60 @@
+/**
+ * Client helpers for leaderboard seasons (academic quarters)
+ */
+import { collection, getDocs, orderBy, query } from 'firebase/firestore';
+import { db } from '../../../../../firebase/client';
+import type { LeaderboardSeason, SeasonStanding } from '../../../shared/types/firestore';
+
+export interface CurrentSeason {
+    season: { id: string; label: string; start: string; end: string };
+    standings: SeasonStanding[];
+}
+
+export type ArchivedSeason = LeaderboardSeason & { id: string };
+
+/**
+ * Live standings for the current quarter
+ *
+ * @throws Error with the server's message when the request fails
+ */
+export async function fetchCurrentSeason(): Promise<CurrentSeason> {
+    const response = await fetch('/api/leaderboard/season');
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+        throw new Error(result?.message || `Failed to load season (${response.status})`);
+    }
+
+    return result;
+}
+
+/**
+ * Closed seasons, most recent first
+ */
+export async function fetchArchivedSeasons(): Promise<ArchivedSeason[]> {
+    const snapshot = await getDocs(query(collection(db, 'leaderboard_seasons'), orderBy('start', 'desc')));
+    return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...(doc.data() as LeaderboardSeason)
+    }));
+}
+
+/**
+ * Freezes a season's standings and snapshots the top `prizeCount` members
+ *
+ * @throws Error with the server's message when the season can't be closed
+ */
+export async function closeSeason(seasonId: string, prizeCount: number): Promise<{ winners: SeasonStanding[]; totalRanked: number }> {
+    const response = await fetch('/api/leaderboard/close-season', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ seasonId, prizeCount })
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+        throw new Error(result?.message || `Failed to close season (${response.status})`);
+    }
+
+    return result;
+}
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { X, Check, Trash2, Download, Eye, EyeOff, CheckSquare, Square } from 'lucide-react';
 import { getFirestore, collection, doc, updateDoc, deleteDoc, query, where, getDocs } from 'firebase/firestore';
 import { app } from '../../../../firebase/client';
+import { NotificationService } from '../../shared/services/notificationService';
 import { Button } from '../../../ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../../ui/card';
 import { Badge } from '../../../ui/badge';
@@ -126,6 +127,9 @@ export default function BulkActionsModal({ events, users, onClose, onSuccess, on
                     published: published,
                     updatedAt: new Date()
                 });
+                if (published) {
+                    NotificationService.notifyEventPublished(eventDoc.id);
+                }
             }
         }
         onSuccess(`${published ? 'Published' : 'Unpublished'} ${selectedEvents.length} events`);
@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { X, QrCode, RefreshCw, AlertTriangle } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+
+interface CheckInKioskModalProps {
+    eventId: string;
+    eventName: string;
+    onClose: () => void;
+}
+
+// Retry delay after a failed fetch doubles up to this cap
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+export default function CheckInKioskModal({ eventId, eventName, onClose }: CheckInKioskModalProps) {
+    const [token, setToken] = useState<string | null>(null);
+    const [expiresAt, setExpiresAt] = useState<number>(0);
+    const [secondsLeft, setSecondsLeft] = useState<number>(0);
+    const [error, setError] = useState<string | null>(null);
+    // The countdown ticks every second, so these keep it from stacking
+    // requests or hammering the API while it is failing
+    const inFlight = useRef(false);
+    const failures = useRef(0);
+    const retryAt = useRef(0);
+
+    const fetchToken = useCallback(async () => {
+        if (inFlight.current) return;
+        inFlight.current = true;
+
+        const fail = (message: string) => {
+            failures.current += 1;
+            retryAt.current = Date.now() + Math.min(1000 * 2 ** failures.current, MAX_RETRY_DELAY_MS);
+            setError(message);
+        };
+
+        try {
+            const response = await fetch(`/api/events/check-in-token?eventId=${encodeURIComponent(eventId)}`);
+            const result = await response.json();
+
+            if (!response.ok || !result.success) {
+                fail(result.message || 'Failed to load check-in code');
+                return;
+            }
+
+            failures.current = 0;
+            retryAt.current = 0;
+            setError(null);
+            setToken(result.data.token);
+            setExpiresAt(result.data.expiresAt);
+        } catch (error) {
+            fail('Failed to load check-in code: ' + (error as Error).message);
+        } finally {
+            inFlight.current = false;
+        }
+    }, [eventId]);
+
+    useEffect(() => {
+        fetchToken();
+    }, [fetchToken]);
+
+    // Count down to the next rotation and fetch a fresh token when it expires
+    useEffect(() => {
+        if (!expiresAt) return;
+
+        const tick = () => {
+            const remaining = Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000));
+            setSecondsLeft(remaining);
+            if (remaining === 0 && Date.now() >= retryAt.current) {
+                fetchToken();
+            }
+        };
+
+        tick();
+        const interval = setInterval(tick, 1000);
+        return () => clearInterval(interval);
+    }, [expiresAt, fetchToken]);
+
+    // Close with Escape so the kiosk can be dismissed from a keyboard
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const checkInUrl = token
+        ? `${window.location.origin}/dashboard/events/check-in?token=${encodeURIComponent(token)}`
+        : '';
+
+    return (
+        <div className="fixed inset-0 bg-white z-[60] flex flex-col">
+            <div className="flex items-center justify-between px-6 py-4 border-b">
+                <div className="flex items-center space-x-2 text-gray-700">
+                    <QrCode className="w-5 h-5 text-blue-600" />
+                    <span className="font-medium">Check-in Kiosk</span>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-600 p-2"
+                    title="Close kiosk"
+                >
+                    <X className="w-6 h-6" />
+                </button>
+            </div>
+
+            <div className="flex-1 flex flex-col items-center justify-center p-6 text-center">
+                <h1 className="text-3xl md:text-5xl font-bold text-gray-900 mb-2">{eventName}</h1>
+                <p className="text-lg md:text-xl text-gray-600 mb-8">Scan with your phone camera to check in</p>
+
+                {error ? (
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-6 max-w-md">
+                        <div className="flex items-center justify-center text-red-700 mb-3">
+                            <AlertTriangle className="w-5 h-5 mr-2" />
+                            <span className="font-medium">{error}</span>
+                        </div>
+                        <button
+                            onClick={fetchToken}
+                            className="inline-flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                        >
+                            <RefreshCw className="w-4 h-4" />
+                            <span>Try Again</span>
+                        </button>
+                    </div>
+                ) : token ? (
+                    <>
+                        <div className="bg-white p-4 rounded-xl border-2 border-gray-200 shadow-sm">
+                            <QRCodeSVG
+                                value={checkInUrl}
+                                size={360}
+                                level="M"
+                                className="w-[70vmin] h-[70vmin] max-w-[360px] max-h-[360px]"
+                            />
+                        </div>
+                        <p className="mt-6 text-gray-500">
+                            Code refreshes in <span className="font-semibold text-gray-900">{secondsLeft}s</span>
+                        </p>
+                    </>
+                ) : (
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                )}
+            </div>
+        </div>
+    );
+}
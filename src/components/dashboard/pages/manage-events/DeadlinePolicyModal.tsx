@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { X, CalendarClock } from 'lucide-react';
+import { Button } from '../../../ui/button';
+import { Input } from '../../../ui/input';
+import { Label } from '../../../ui/label';
+import {
+    DEFAULT_EVENT_DEADLINE_RULES,
+    formatLeadTime,
+    type DeadlineEnforcement,
+    type EventDeadlinePolicy
+} from '../../../../lib/eventDeadlinePolicy';
+import { fetchEventDeadlinePolicy, saveEventDeadlinePolicy } from './utils/deadlinePolicyUtils';
+
+interface DeadlinePolicyModalProps {
+    currentUser: { uid: string; name: string };
+    onClose: () => void;
+}
+
+export default function DeadlinePolicyModal({ currentUser, onClose }: DeadlinePolicyModalProps) {
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [policy, setPolicy] = useState<EventDeadlinePolicy>({ rules: DEFAULT_EVENT_DEADLINE_RULES });
+    // Lead times are kept as strings while editing so a field can be cleared
+    const [minDays, setMinDays] = useState<Record<string, string>>({});
+    const [enforcement, setEnforcement] = useState<Record<string, DeadlineEnforcement>>({});
+
+    useEffect(() => {
+        fetchEventDeadlinePolicy()
+            .then(loaded => {
+                setPolicy(loaded);
+                setMinDays(Object.fromEntries(loaded.rules.map(rule => [rule.key, String(rule.minDays)])));
+                setEnforcement(Object.fromEntries(loaded.rules.map(rule => [rule.key, rule.enforcement])));
+            })
+            .catch(error => {
+                console.error('Error loading deadline policy:', error);
+                alert('Failed to load the deadline policy.');
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const rules = policy.rules.map(rule => {
+            const days = parseInt(minDays[rule.key], 10);
+            return {
+                ...rule,
+                minDays: isNaN(days) || days < 0 ? rule.minDays : days,
+                enforcement: enforcement[rule.key] || rule.enforcement
+            };
+        });
+
+        try {
+            setSaving(true);
+            await saveEventDeadlinePolicy(rules, currentUser);
+            onClose();
+        } catch (error) {
+            console.error('Error saving deadline policy:', error);
+            alert('Failed to save the deadline policy. Please try again.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const lastUpdated = (policy.updatedAt as any)?.toDate?.();
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                    <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+                        <CalendarClock className="w-5 h-5 mr-2 text-blue-600" />
+                        Deadline Policy
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="p-6 text-sm text-gray-500">Loading policy...</div>
+                ) : (
+                    <form onSubmit={handleSave} className="p-6 space-y-6">
+                        <p className="text-sm text-gray-600">
+                            How long before an event a request needing each service has to be submitted. Blocking rules stop late requests in the request form unless an executive approves an exception; warnings only flag them.
+                        </p>
+
+                        <div className="space-y-4">
+                            {policy.rules.map(rule => {
+                                const days = parseInt(minDays[rule.key], 10);
+                                return (
+                                    <div key={rule.key} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                                        <div className="text-sm font-medium text-gray-900 md:pb-2">{rule.label}</div>
+                                        <div>
+                                            <Label htmlFor={`minDays-${rule.key}`} className="text-sm font-medium text-gray-700">Lead Time (days)</Label>
+                                            <Input
+                                                id={`minDays-${rule.key}`}
+                                                type="number"
+                                                min="0"
+                                                step="1"
+                                                value={minDays[rule.key] || ''}
+                                                onChange={(e) => setMinDays({ ...minDays, [rule.key]: e.target.value })}
+                                            />
+                                            {!isNaN(days) && days >= 0 && (
+                                                <p className="text-xs text-gray-500 mt-1">{formatLeadTime(days)} before the event</p>
+                                            )}
+                                        </div>
+                                        <div>
+                                            <Label htmlFor={`enforcement-${rule.key}`} className="text-sm font-medium text-gray-700">When Missed</Label>
+                                            <select
+                                                id={`enforcement-${rule.key}`}
+                                                value={enforcement[rule.key] || rule.enforcement}
+                                                onChange={(e) => setEnforcement({ ...enforcement, [rule.key]: e.target.value as DeadlineEnforcement })}
+                                                className="w-full h-10 px-3 border border-gray-300 rounded-md text-sm"
+                                            >
+                                                <option value="block">Block (needs exception)</option>
+                                                <option value="warn">Warn only</option>
+                                            </select>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+
+                        {lastUpdated && (
+                            <p className="text-xs text-gray-500">
+                                Last updated {lastUpdated.toLocaleString()}{policy.updatedByName ? ` by ${policy.updatedByName}` : ''}
+                            </p>
+                        )}
+
+                        <div className="flex items-center justify-end space-x-3 pt-6 border-t border-gray-200">
+                            <Button type="button" variant="outline" onClick={onClose}>
+                                Cancel
+                            </Button>
+                            <Button type="submit" disabled={saving} className="bg-blue-600 hover:bg-blue-700">
+                                {saving ? 'Saving...' : 'Save Policy'}
+                            </Button>
+                        </div>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
-import { getFirestore, collection, addDoc, doc, updateDoc, query, where, getDocs } from 'firebase/firestore';
+import { getFirestore, collection, addDoc, doc, getDoc, updateDoc, query, where, getDocs, type DocumentReference } from 'firebase/firestore';
 import { app } from '../../../../firebase/client';
 import { auth } from '../../../../firebase/client';
 import { EventAuditService } from '../../shared/services/eventAuditService';
@@ -11,10 +11,12 @@ import { toast } from 'react-hot-toast';
 import type {
     EventRequestModalProps,
     EventFormData,
-    FieldError
+    FieldError,
+    SeriesEditScope
 } from './types/EventRequestTypes';
 import { useInvoiceManagement } from './hooks/useInvoiceManagement';
-import { validateStep, validateCompleteForm } from './utils/validationUtils';
+import { validateStep, validateCompleteForm, getFormDeadlines } from './utils/validationUtils';
+import { DEFAULT_EVENT_DEADLINE_RULES, getBlockingViolations, type DeadlineRule } from '../../../../lib/eventDeadlinePolicy';
 import {
     safeGetTimeString,
     safeGetDateString,
@@ -23,6 +25,12 @@ import {
     createSafeDateTime
 } from './utils/eventRequestUtils';
 import { uploadFiles, uploadFilesForEvent, moveFilesToActualEventId } from './utils/fileUploadUtils';
+import { hashReceiptFile } from '../../../../lib/receiptDuplicates';
+import { createDefaultRecurrence, getOccurrenceDates } from './utils/recurrenceUtils';
+import { newSeriesId, createSeriesOccurrences, applyToFollowingOccurrences } from './utils/eventSeriesUtils';
+import { templateToFormData } from './utils/eventTemplateUtils';
+import { recordDeadlineOverride } from './utils/deadlineOverrideUtils';
+import { fetchEventDeadlinePolicy } from './utils/deadlinePolicyUtils';
 
 // Import section components
 import DisclaimerSection from './components/DisclaimerSection';
@@ -32,11 +40,26 @@ import LogisticsSection from './components/LogisticsSection';
 import FundingSection from './components/FundingSection';
 import EventReviewSection from './components/EventReviewSection';
 
-export default function EventRequestModal({ onClose, editingRequest, onSuccess }: EventRequestModalProps) {
+const EVENT_REQUEST_AUDIT_FIELDS = {
+    name: 'Event Name',
+    location: 'Location',
+    startDateTime: 'Start Date/Time',
+    endDateTime: 'End Date/Time',
+    eventDescription: 'Description',
+    department: 'Department',
+    expectedAttendance: 'Expected Attendance',
+    needsGraphics: 'Graphics Needed',
+    needsAsFunding: 'AS Funding Needed'
+};
+
+export default function EventRequestModal({ onClose, editingRequest, template, onSuccess }: EventRequestModalProps) {
     const [currentStep, setCurrentStep] = useState(0);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [fieldErrors, setFieldErrors] = useState<FieldError>({});
+    const [seriesEditScope, setSeriesEditScope] = useState<SeriesEditScope>('this');
+    const [canOverrideDeadlines, setCanOverrideDeadlines] = useState(false);
+    const [deadlineRules, setDeadlineRules] = useState<DeadlineRule[]>(DEFAULT_EVENT_DEADLINE_RULES);
 
     // Track original data for comparison when editing
     const [originalData, setOriginalData] = useState<any>(null);
@@ -82,7 +105,8 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
         invoice: null,
         invoiceFiles: [],
         existingInvoiceFiles: [],
-        existingInvoiceFile: ''
+        existingInvoiceFile: '',
+        recurrence: createDefaultRecurrence()
     });
 
     // Use the invoice management hook
@@ -111,6 +135,32 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
 
     const db = getFirestore(app);
 
+    // Lead-time deadlines count from the original submission
+    const validationOptions = {
+        submittedAt: editingRequest?.createdAt?.toDate ? editingRequest.createdAt.toDate() : undefined,
+        canOverrideDeadlines,
+        overriddenRules: editingRequest?.deadlineOverride?.rules,
+        deadlineRules
+    };
+
+    useEffect(() => {
+        fetchEventDeadlinePolicy()
+            .then(policy => setDeadlineRules(policy.rules))
+            .catch(error => console.error('Error fetching deadline policy:', error));
+    }, []);
+
+    // Executive officers can approve exceptions to blocking deadlines
+    useEffect(() => {
+        const uid = auth.currentUser?.uid;
+        if (!uid) return;
+        getDoc(doc(db, 'users', uid))
+            .then(userDoc => {
+                const role = userDoc.data()?.role;
+                setCanOverrideDeadlines(role === 'Executive Officer' || role === 'Administrator');
+            })
+            .catch(error => console.error('Error fetching user role:', error));
+    }, []);
+
     // Populate form data when editing
     useEffect(() => {
         if (editingRequest) {
@@ -196,6 +246,15 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
         }
     }, [editingRequest, setInvoices]);
 
+    // Prefill a new request from a saved template
+    useEffect(() => {
+        if (!editingRequest && template) {
+            const templateData = templateToFormData(template);
+            setFormData(prev => ({ ...prev, ...templateData }));
+            setInvoices(templateData.invoices);
+        }
+    }, [editingRequest, template, setInvoices]);
+
     const handleInputChange = (field: string, value: any) => {
         setFormData(prev => ({ ...prev, [field]: value }));
 
@@ -247,7 +306,7 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
     };
 
     const validateCurrentStep = () => {
-        const validation = validateStep(currentStep, formData);
+        const validation = validateStep(currentStep, formData, validationOptions);
         if (!validation.isValid) {
             setError(validation.errorMessage || 'Please fix the errors before continuing');
             setFieldErrors(validation.errors);
@@ -272,7 +331,7 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
     };
 
     const handleSubmit = async () => {
-        const validation = validateCompleteForm(formData);
+        const validation = validateCompleteForm(formData, validationOptions);
         if (!validation.isValid) {
             setError(validation.errorMessage || 'Please fix all errors before submitting');
             setFieldErrors(validation.errors);
@@ -280,6 +339,24 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
             return;
         }
 
+        // Only executive officers get past validation with a missed blocking deadline
+        const overriddenRules: string[] = editingRequest?.deadlineOverride?.rules || [];
+        const missedDeadlines = getBlockingViolations(getFormDeadlines(formData, deadlineRules, validationOptions.submittedAt))
+            .filter(status => !overriddenRules.includes(status.rule.key));
+        let overrideReason: string | null = null;
+        if (missedDeadlines.length > 0) {
+            const reason = prompt(
+                `This request is past the ${missedDeadlines.map(status => status.rule.label).join(' and ')} deadline. ` +
+                'Enter a reason to approve an exception:'
+            );
+            if (!reason?.trim()) {
+                setError('A reason is required to submit past a deadline');
+                scrollToTop();
+                return;
+            }
+            overrideReason = reason.trim();
+        }
+
         setLoading(true);
         setError(null);
 
@@ -305,10 +382,12 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
                 invoices.map(async (invoice) => {
                     // Handle multiple invoice files
                     let invoiceFileUrls: string[] = [...(invoice.existingInvoiceFiles || [])];
+                    let invoiceFileHashes: string[] = [...(invoice.existingInvoiceFileHashes || [])];
 
                     if (invoice.invoiceFiles && invoice.invoiceFiles.length > 0) {
                         const uploadedUrls = await uploadFilesForEvent(invoice.invoiceFiles, eventId, 'invoice');
                         invoiceFileUrls = [...invoiceFileUrls, ...uploadedUrls];
+                        invoiceFileHashes = [...invoiceFileHashes, ...await Promise.all(invoice.invoiceFiles.map(hashReceiptFile))];
                     }
 
                     const subtotal = invoice.items.reduce((sum, item) => sum + item.total, 0);
@@ -317,6 +396,7 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
                     return {
                         ...invoice,
                         invoiceFiles: invoiceFileUrls,
+                        invoiceFileHashes,
                         // Legacy field for backward compatibility
                         invoiceFile: invoiceFileUrls[0] || '',
                         subtotal,
@@ -330,14 +410,19 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
                 ? [...formData.existingRoomBookingFiles, ...roomBookingUrls]
                 : roomBookingUrls;
 
-            const finalOtherLogoUrls = editingRequest
-                ? [...formData.existingOtherLogos, ...otherLogoUrls]
-                : otherLogoUrls;
+            // New requests only have existing logos when started from a template
+            const finalOtherLogoUrls = [...formData.existingOtherLogos, ...otherLogoUrls];
 
             // Create event request data
             const startDateTime = createSafeDateTime(formData.startDate, formData.startTime);
             const endDateTime = createSafeDateTime(formData.startDate, formData.endTime);
 
+            // A recurring request becomes one linked request per date
+            const occurrenceDates = !editingRequest && formData.recurrence?.enabled
+                ? getOccurrenceDates(formData.startDate, formData.recurrence)
+                : [];
+            const seriesId = occurrenceDates.length > 1 ? newSeriesId() : editingRequest?.seriesId;
+
             const eventRequestData = {
                 name: formData.name,
                 location: formData.location,
@@ -365,6 +450,8 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
                 servingFoodDrinks: formData.servingFoodDrinks,
                 needsAsFunding: formData.needsAsFunding,
                 invoices: processedInvoices,
+                // Flattened so reimbursements can be checked against these files
+                invoiceFileHashes: processedInvoices.flatMap(invoice => invoice.invoiceFileHashes),
                 // Legacy fields for backward compatibility
                 itemizedInvoice: processedInvoices.length > 0 ? processedInvoices[0].items : [],
                 invoiceTax: processedInvoices.length > 0 ? processedInvoices[0].tax : 0,
@@ -374,10 +461,11 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
                 status: editingRequest ? editingRequest.status : 'submitted',
                 requestedUser: auth.currentUser?.uid || '',
                 createdAt: editingRequest ? editingRequest.createdAt : new Date(),
-                updatedAt: new Date()
+                updatedAt: new Date(),
+                ...(!editingRequest && seriesId && { seriesId, seriesIndex: 0 })
             };
 
-            let eventRequestRef;
+            let eventRequestRef: DocumentReference;
 
             if (editingRequest) {
                 // Update existing event request
@@ -387,21 +475,10 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
                 // Log event update
                 try {
                     const userName = await EventAuditService.getUserName(auth.currentUser?.uid || '');
-                    const fieldMappings = {
-                        name: 'Event Name',
-                        location: 'Location',
-                        startDateTime: 'Start Date/Time',
-                        endDateTime: 'End Date/Time',
-                        eventDescription: 'Description',
-                        department: 'Department',
-                        expectedAttendance: 'Expected Attendance',
-                        needsGraphics: 'Graphics Needed',
-                        needsAsFunding: 'AS Funding Needed'
-                    };
                     const changes = EventAuditService.generateFieldChanges(
                         originalData?._firestore || originalData,
                         eventRequestData,
-                        fieldMappings
+                        EVENT_REQUEST_AUDIT_FIELDS
                     );
 
                     if (changes.length > 0) {
@@ -422,7 +499,7 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
             } else {
                 // Create new event request
                 eventRequestRef = await addDoc(collection(db, 'event_requests'), eventRequestData);
-                const newEventRequestId = (eventRequestRef as any).id;
+                const newEventRequestId = eventRequestRef.id;
 
                 // If we used a temporary ID for file uploads, we need to move the files
                 if (eventId.startsWith('temp_')) {
@@ -481,6 +558,17 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
                 toast.success('Event request submitted successfully!');
             }
 
+            // The server checks the executive role and records the exception
+            // with its activity history entry
+            if (overrideReason) {
+                try {
+                    await recordDeadlineOverride(eventRequestRef.id, overrideReason);
+                } catch (error) {
+                    console.error('Error recording deadline override:', error);
+                    toast.error('The request was saved, but the deadline exception could not be recorded: ' + (error as Error).message);
+                }
+            }
+
             // Handle corresponding event in events collection
             const eventData = {
                 eventName: formData.name,
@@ -491,8 +579,12 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
                 files: [],
                 privateFiles: [],
                 pointsToReward: formData.pointsToReward,
-                createdFrom: editingRequest ? editingRequest.id : (eventRequestRef as any).id,
-                status: 'draft'
+                eventCode: formData.eventCode,
+                createdFrom: editingRequest ? editingRequest.id : eventRequestRef.id,
+                status: 'draft',
+                // The calendar feed derives SEQUENCE and LAST-MODIFIED from this
+                updatedAt: new Date(),
+                ...(seriesId && { seriesId })
             };
 
             if (editingRequest) {
@@ -518,10 +610,49 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
                 await addDoc(collection(db, 'events'), eventData);
             }
 
+            if (!editingRequest && seriesId) {
+                try {
+                    const userName = await EventAuditService.getUserName(auth.currentUser?.uid || '');
+                    const createdIds = await createSeriesOccurrences({
+                        firstRequestId: eventRequestRef.id,
+                        dates: occurrenceDates.slice(1),
+                        eventData,
+                        performedBy: auth.currentUser?.uid || '',
+                        performedByName: userName
+                    });
+                    toast.success(`Created ${createdIds.length + 1} events in the series`);
+                } catch (error) {
+                    console.error('Error creating series occurrences:', error);
+                    toast.error('Only part of the series was created. Check the event list before retrying.');
+                }
+            }
+
+            if (editingRequest?.seriesId && seriesEditScope === 'following') {
+                try {
+                    const userName = await EventAuditService.getUserName(auth.currentUser?.uid || '');
+                    const updatedCount = await applyToFollowingOccurrences({
+                        seriesId: editingRequest.seriesId,
+                        fromIndex: editingRequest.seriesIndex ?? 0,
+                        requestUpdates: eventRequestData,
+                        startTime: formData.startTime,
+                        endTime: formData.endTime,
+                        fieldMappings: EVENT_REQUEST_AUDIT_FIELDS,
+                        performedBy: auth.currentUser?.uid || '',
+                        performedByName: userName
+                    });
+                    if (updatedCount > 0) {
+                        toast.success(`Also updated ${updatedCount} later ${updatedCount === 1 ? 'event' : 'events'} in the series`);
+                    }
+                } catch (error) {
+                    console.error('Error updating later occurrences:', error);
+                    toast.error('This event was saved, but later events in the series could not be updated');
+                }
+            }
+
             // Send email notification for new submissions
             if (!editingRequest) {
                 try {
-                    await EmailClient.notifyFirebaseEventRequestSubmission((eventRequestRef as any).id);
+                    await EmailClient.notifyFirebaseEventRequestSubmission(eventRequestRef.id);
                 } catch (error) {
                     console.error('Error sending email notification:', error);
                 }
@@ -547,6 +678,7 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
                         formData={formData}
                         fieldErrors={fieldErrors}
                         onInputChange={handleInputChange}
+                        allowRecurrence={!editingRequest}
                     />
                 )
             },
@@ -614,6 +746,10 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
                     showRoomBookingWarning={true}
                     originalData={originalData}
                     isEditMode={!!editingRequest}
+                    requestId={editingRequest?.id}
+                    submittedAt={validationOptions.submittedAt}
+                    deadlineRules={deadlineRules}
+                    canOverrideDeadlines={canOverrideDeadlines}
                     onConfirm={handleSubmit}
                     onCancel={onClose}
                     onBack={handlePrevious}
@@ -671,6 +807,37 @@ export default function EventRequestModal({ onClose, editingRequest, onSuccess }
                         </div>
                     )}
 
+                    {editingRequest?.seriesId && (
+                        <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                            <p className="text-sm font-medium text-blue-900 mb-2">
+                                This event is part of a recurring series. Apply changes to:
+                            </p>
+                            <div className="flex flex-col sm:flex-row sm:space-x-6 space-y-1 sm:space-y-0 text-sm text-blue-900">
+                                <label className="flex items-center space-x-2 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        checked={seriesEditScope === 'this'}
+                                        onChange={() => setSeriesEditScope('this')}
+                                    />
+                                    <span>This event only</span>
+                                </label>
+                                <label className="flex items-center space-x-2 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        checked={seriesEditScope === 'following'}
+                                        onChange={() => setSeriesEditScope('following')}
+                                    />
+                                    <span>This and all following events</span>
+                                </label>
+                            </div>
+                            {seriesEditScope === 'following' && (
+                                <p className="text-xs text-blue-700 mt-2">
+                                    Later events keep their own dates, event codes and status. New start and end times apply to each of their dates.
+                                </p>
+                            )}
+                        </div>
+                    )}
+
                     {steps[currentStep]?.component()}
                 </div>
 
@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Edit, Trash2, ArrowLeft, MapPin } from 'lucide-react';
+import { auth } from '../../../../firebase/client';
+import EventTemplateEditor from './components/EventTemplateEditor';
+import {
+    fetchEventTemplates,
+    createEventTemplate,
+    updateEventTemplate,
+    deleteEventTemplate,
+    createEmptyTemplate,
+    templateFromRequest,
+    validateTemplate,
+    type EventTemplateInput,
+    type StoredEventTemplate
+} from './utils/eventTemplateUtils';
+
+interface EventTemplatesModalProps {
+    // When set, the modal opens straight into a new template copied from this request
+    sourceRequest?: any | null;
+    onSelect: (template: StoredEventTemplate) => void;
+    onClose: () => void;
+    onSuccess: (message: string) => void;
+}
+
+export default function EventTemplatesModal({ sourceRequest, onSelect, onClose, onSuccess }: EventTemplatesModalProps) {
+    const [templates, setTemplates] = useState<StoredEventTemplate[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<EventTemplateInput | null>(
+        sourceRequest ? templateFromRequest(sourceRequest) : null
+    );
+
+    const loadTemplates = async () => {
+        setLoading(true);
+        try {
+            setTemplates(await fetchEventTemplates());
+        } catch (error) {
+            console.error('Error loading event templates:', error);
+            setError('Failed to load templates');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadTemplates();
+    }, []);
+
+    const startEditing = (template: StoredEventTemplate) => {
+        const { id, createdBy, createdAt, updatedBy, updatedAt, ...fields } = template;
+        setEditingId(id);
+        setDraft({ ...createEmptyTemplate(), ...fields });
+        setError(null);
+    };
+
+    const stopEditing = () => {
+        setEditingId(null);
+        setDraft(null);
+        setError(null);
+    };
+
+    const handleSave = async () => {
+        if (!draft || !auth.currentUser) return;
+
+        const validationError = validateTemplate(draft);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+
+        setSaving(true);
+        setError(null);
+        try {
+            if (editingId) {
+                await updateEventTemplate(editingId, draft, auth.currentUser.uid);
+                onSuccess(`Template "${draft.name.trim()}" updated`);
+            } else {
+                await createEventTemplate(draft, auth.currentUser.uid);
+                onSuccess(`Template "${draft.name.trim()}" saved`);
+            }
+            stopEditing();
+            await loadTemplates();
+        } catch (error) {
+            console.error('Error saving event template:', error);
+            setError('Failed to save template: ' + (error as Error).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (template: StoredEventTemplate) => {
+        if (!confirm(`Delete the template "${template.name}"? Requests already created from it are not affected.`)) {
+            return;
+        }
+        try {
+            await deleteEventTemplate(template.id);
+            setTemplates(prev => prev.filter(existing => existing.id !== template.id));
+            onSuccess(`Template "${template.name}" deleted`);
+        } catch (error) {
+            console.error('Error deleting event template:', error);
+            setError('Failed to delete template');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-lg max-w-3xl w-full max-h-[90vh] flex flex-col">
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                    <div className="flex items-center space-x-3">
+                        {draft && (
+                            <button
+                                onClick={stopEditing}
+                                className="text-gray-400 hover:text-gray-600 transition-colors"
+                                title="Back to templates"
+                            >
+                                <ArrowLeft className="w-5 h-5" />
+                            </button>
+                        )}
+                        <h3 className="text-lg font-semibold text-gray-900">
+                            {draft ? (editingId ? 'Edit Template' : 'New Template') : 'Event Templates'}
+                        </h3>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto flex-1">
+                    {error && (
+                        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3">
+                            <p className="text-sm text-red-700">{error}</p>
+                        </div>
+                    )}
+
+                    {draft ? (
+                        <EventTemplateEditor value={draft} onChange={setDraft} disabled={saving} />
+                    ) : loading ? (
+                        <p className="text-sm text-gray-500 text-center py-8">Loading templates...</p>
+                    ) : templates.length === 0 ? (
+                        <div className="text-center py-8">
+                            <p className="text-gray-500">No templates yet.</p>
+                            <p className="text-sm text-gray-400 mt-1">
+                                Create one here, or save an existing request as a template from the requests table.
+                            </p>
+                        </div>
+                    ) : (
+                        <ul className="divide-y divide-gray-200">
+                            {templates.map(template => (
+                                <li key={template.id} className="py-4 flex items-start justify-between gap-4">
+                                    <div className="min-w-0">
+                                        <p className="font-medium text-gray-900">{template.name}</p>
+                                        <p className="text-sm text-gray-500 flex items-center mt-1">
+                                            <MapPin className="w-3 h-3 mr-1" />
+                                            {template.defaultLocation || 'No default location'} · {template.department}
+                                        </p>
+                                        {template.eventDescription && (
+                                            <p className="text-sm text-gray-600 mt-1 line-clamp-2">{template.eventDescription}</p>
+                                        )}
+                                        <div className="flex flex-wrap gap-1 mt-2">
+                                            {template.needsGraphics && (
+                                                <span className="px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800">Graphics</span>
+                                            )}
+                                            {template.asFundingRequired && (
+                                                <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">AS Funding</span>
+                                            )}
+                                            {template.foodDrinksBeingServed && (
+                                                <span className="px-2 py-0.5 text-xs rounded-full bg-orange-100 text-orange-800">Food</span>
+                                            )}
+                                            {template.invoices?.length > 0 && (
+                                                <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                                                    {template.invoices.length} {template.invoices.length === 1 ? 'invoice' : 'invoices'}
+                                                </span>
+                                            )}
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center space-x-2 flex-shrink-0">
+                                        <button
+                                            onClick={() => onSelect(template)}
+                                            className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+                                        >
+                                            Use
+                                        </button>
+                                        <button
+                                            onClick={() => startEditing(template)}
+                                            className="text-blue-600 hover:text-blue-900 p-1"
+                                            title="Edit Template"
+                                        >
+                                            <Edit className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(template)}
+                                            className="text-red-600 hover:text-red-900 p-1"
+                                            title="Delete Template"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+                    {draft ? (
+                        <>
+                            <button
+                                onClick={stopEditing}
+                                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSave}
+                                disabled={saving}
+                                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                            >
+                                {saving ? 'Saving...' : 'Save Template'}
+                            </button>
+                        </>
+                    ) : (
+                        <button
+                            onClick={() => {
+                                setEditingId(null);
+                                setDraft(createEmptyTemplate());
+                            }}
+                            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                        >
+                            <Plus className="w-4 h-4" />
+                            <span>New Template</span>
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { X, Calendar, MapPin, User, Clock, DollarSign, Image, FileText, Eye, Download, Users, Camera, Megaphone, AlertTriangle, Settings, Lock, Copy, Check, ExternalLink } from 'lucide-react';
+import { X, Calendar, MapPin, User, Clock, DollarSign, Image, FileText, Eye, Download, Users, Camera, Megaphone, AlertTriangle, Settings, Lock, Copy, Check, ExternalLink, QrCode, UserPlus, Pencil, Trash2 } from 'lucide-react';
 import { getFirestore, collection, doc, updateDoc, query, where, getDocs, getDoc } from 'firebase/firestore';
 import { app, auth } from '../../../../firebase/client';
 import { EventAuditService } from '../../shared/services/eventAuditService';
@@ -10,6 +10,15 @@ import EventReviewSection from './components/EventReviewSection';
 import { extractPRRequirements, hasPRRequirements } from './utils/prRequirementsUtils';
 import EventEditComparison from './components/EventEditComparison';
 import { truncateFilename } from './utils/filenameUtils';
+import CheckInKioskModal from './CheckInKioskModal';
+import { NotificationService } from '../../shared/services/notificationService';
+import { downloadAttendanceExport, type AttendanceExportFormat } from './utils/attendanceExportUtils';
+import { submitAttendanceCorrection, type AttendanceCorrectionAction } from './utils/attendanceCorrectionUtils';
+import AddAttendeePanel from './components/AddAttendeePanel';
+import FoodHeadcountPanel from './components/FoodHeadcountPanel';
+import EventConflictPanel from './components/EventConflictPanel';
+import { formatDietaryPreferences } from '../../../../lib/dietaryPreferences';
+import { updateEventCapacity } from './utils/eventCapacityUtils';
 
 interface EventViewModalProps {
     request: {
@@ -97,11 +106,129 @@ export default function EventViewModal({ request, users, onClose, onSuccess }: E
     const [currentUserRole, setCurrentUserRole] = useState<string>('');
     const [userSearchQuery, setUserSearchQuery] = useState('');
     const [showUserDropdown, setShowUserDropdown] = useState(false);
+    const [showCheckInKiosk, setShowCheckInKiosk] = useState(false);
+    const [exportingAttendance, setExportingAttendance] = useState<AttendanceExportFormat | null>(null);
+    const [eventHasFood, setEventHasFood] = useState(false);
+    const [showAddAttendee, setShowAddAttendee] = useState(false);
+    const [correctingAttendee, setCorrectingAttendee] = useState<string | null>(null);
+    const [eventCapacity, setEventCapacity] = useState<number | null>(null);
+    const [rsvps, setRsvps] = useState<any[]>([]);
+    const [updatingCapacity, setUpdatingCapacity] = useState(false);
 
     const db = getFirestore(app);
 
     if (!request) return null;
 
+    const handleExportAttendance = async (format: AttendanceExportFormat) => {
+        if (!eventId) return;
+        setExportingAttendance(format);
+        try {
+            await downloadAttendanceExport({ eventId }, format);
+        } catch (error) {
+            console.error('Error exporting attendance:', error);
+            alert('Failed to export attendance: ' + (error as Error).message);
+        } finally {
+            setExportingAttendance(null);
+        }
+    };
+
+    const loadAttendees = async (id: string) => {
+        try {
+            const attendeesQuery = query(collection(db, 'events', id, 'attendees'));
+            const attendeesSnapshot = await getDocs(attendeesQuery);
+            setAttendees(attendeesSnapshot.docs.map(doc => ({
+                id: doc.id,
+                ...doc.data()
+            })));
+        } catch (error) {
+            console.error('Error fetching attendees:', error);
+            setAttendees([]);
+        }
+    };
+
+    const loadRsvps = async (id: string) => {
+        try {
+            const rsvpsSnapshot = await getDocs(collection(db, 'events', id, 'rsvps'));
+            setRsvps(rsvpsSnapshot.docs.map(doc => ({
+                id: doc.id,
+                ...doc.data()
+            })));
+        } catch (error) {
+            console.error('Error fetching RSVPs:', error);
+            setRsvps([]);
+        }
+    };
+
+    const handleEditCapacity = async () => {
+        if (!eventId) return;
+        const input = prompt('RSVP capacity (leave empty for no limit):', eventCapacity ? String(eventCapacity) : '');
+        if (input === null) return;
+
+        const capacity = input.trim() ? parseInt(input.trim(), 10) : null;
+        if (capacity !== null && (isNaN(capacity) || capacity < 1)) {
+            alert('Capacity must be a positive whole number');
+            return;
+        }
+
+        setUpdatingCapacity(true);
+        try {
+            const result = await updateEventCapacity(eventId, capacity);
+            setEventCapacity(result.data.capacity);
+            await loadRsvps(eventId);
+            alert(result.message);
+        } catch (error) {
+            console.error('Error updating capacity:', error);
+            alert('Failed to update capacity: ' + (error as Error).message);
+        } finally {
+            setUpdatingCapacity(false);
+        }
+    };
+
+    // Officer corrections go through the API so points and the request's
+    // activity history are updated in the same transaction
+    const applyAttendanceCorrection = async (
+        action: AttendanceCorrectionAction,
+        userId: string,
+        reason: string,
+        food?: string
+    ): Promise<boolean> => {
+        if (!eventId || !user) return false;
+        setCorrectingAttendee(userId);
+        try {
+            await submitAttendanceCorrection({ action, eventId, userId, reason, food });
+            await loadAttendees(eventId);
+            return true;
+        } catch (error) {
+            console.error('Error updating attendance:', error);
+            alert('Failed to update attendance: ' + (error as Error).message);
+            return false;
+        } finally {
+            setCorrectingAttendee(null);
+        }
+    };
+
+    const handleAddAttendee = async (userId: string, food: string, reason: string) => {
+        if (await applyAttendanceCorrection('add', userId, reason, food)) {
+            setShowAddAttendee(false);
+        }
+    };
+
+    const handleRemoveAttendee = async (attendee: any) => {
+        const userId = attendee.userId || attendee.id;
+        const reason = prompt(`Why are you removing ${getUserName(userId)}? Their ${attendee.pointsEarned || 0} points for this event will be revoked.`);
+        if (!reason?.trim()) return;
+        await applyAttendanceCorrection('remove', userId, reason.trim());
+    };
+
+    const handleEditAttendeeFood = async (attendee: any) => {
+        const userId = attendee.userId || attendee.id;
+        const food = prompt(`Food preference for ${getUserName(userId)}:`, attendee.food || '');
+        if (food === null || food.trim() === (attendee.food || '')) return;
+        const reason = prompt('Reason for the change:');
+        if (!reason?.trim()) return;
+        await applyAttendanceCorrection('update_food', userId, reason.trim(), food.trim());
+    };
+
     // Fetch current user role and available users for administrators
     useEffect(() => {
         if (!user) return;
@@ -149,23 +276,13 @@ export default function EventViewModal({ request, users, onClose, onSuccess }: E
                     setPrivateFiles(eventData.privateFiles || []);
                     setEventCode(eventData.eventCode || '');
                     setPointsToReward(eventData.pointsToReward || 0);
+                    setEventHasFood(eventData.hasFood || false);
+                    setEventCapacity(eventData.capacity || null);
                     setEventId(eventDoc.id);
                     // Sync the publish status with the actual event data
                     setPublishStatus(eventData.published || false);
 
-                    // Fetch attendees
-                    try {
-                        const attendeesQuery = query(collection(db, 'events', eventDoc.id, 'attendees'));
-                        const attendeesSnapshot = await getDocs(attendeesQuery);
-                        const attendeesData = attendeesSnapshot.docs.map(doc => ({
-                            id: doc.id,
-                            ...doc.data()
-                        }));
-                        setAttendees(attendeesData);
-                    } catch (error) {
-                        console.error('Error fetching attendees:', error);
-                        setAttendees([]);
-                    }
+                    await Promise.all([loadAttendees(eventDoc.id), loadRsvps(eventDoc.id)]);
                 } else {
                     console.log('No corresponding event found for request:', request.id);
                     // Fallback to event request data if available
@@ -213,6 +330,9 @@ export default function EventViewModal({ request, users, onClose, onSuccess }: E
                 });
                 setPublishStatus(newStatus);
                 console.log('Successfully updated publish status');
+                if (newStatus) {
+                    NotificationService.notifyEventPublished(eventDoc.id);
+                }
             } else {
                 console.error('No event found to update for request:', request.id);
                 alert('Error: No corresponding event found to update');
@@ -409,7 +529,7 @@ export default function EventViewModal({ request, users, onClose, onSuccess }: E
 
                 if (!eventsSnapshot.empty) {
                     const eventDoc = eventsSnapshot.docs[0];
-                    await updateDoc(doc(db, 'events', eventDoc.id), { published: false });
+                    await updateDoc(doc(db, 'events', eventDoc.id), { published: false, updatedAt: new Date() });
                     setPublishStatus(false);
                 }
             } else {
@@ -427,7 +547,7 @@ export default function EventViewModal({ request, users, onClose, onSuccess }: E
                 if (!eventsSnapshot.empty) {
                     const eventDoc = eventsSnapshot.docs[0];
                     const shouldBePublished = newStatus === 'approved' ? publishStatus : false;
-                    await updateDoc(doc(db, 'events', eventDoc.id), { published: shouldBePublished });
+                    await updateDoc(doc(db, 'events', eventDoc.id), { published: shouldBePublished, updatedAt: new Date() });
                 }
             }
 
@@ -682,6 +802,15 @@ export default function EventViewModal({ request, users, onClose, onSuccess }: E
                                             <p className="text-gray-900 font-mono bg-gray-100 px-2 py-1 rounded mt-1 block">
                                                 {eventCode || 'Not specified'}
                                             </p>
+                                            {eventId && publishStatus && ['General Officer', 'Executive Officer', 'Administrator'].includes(currentUserRole) && (
+                                                <button
+                                                    onClick={() => setShowCheckInKiosk(true)}
+                                                    className="mt-2 inline-flex items-center space-x-2 px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+                                                >
+                                                    <QrCode className="w-4 h-4" />
+                                                    <span>Open Check-in Kiosk</span>
+                                                </button>
+                                            )}
                                         </div>
                                         <div>
                                             <label className="text-sm font-medium text-gray-700">Points to Reward</label>
@@ -947,6 +1076,8 @@ export default function EventViewModal({ request, users, onClose, onSuccess }: E
                             </div>
                         )}
 
+                        <EventConflictPanel data={request} excludeRequestId={request.id} audience="reviewer" />
+
                         {/* Room Booking Warning */}
                         {!(request.hasRoomBooking ?? request.willOrHaveRoomBooking) && (
                             <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
@@ -1351,19 +1482,105 @@ export default function EventViewModal({ request, users, onClose, onSuccess }: E
                                         return userId.includes(searchTerm) || userName.includes(searchTerm) || food.includes(searchTerm);
                                     }).length})
                                 </h3>
-                                {attendees.length > 0 && (
-                                    <div className="relative">
-                                        <input
-                                            type="text"
-                                            placeholder="Search attendees..."
-                                            value={attendeeSearch}
-                                            onChange={(e) => setAttendeeSearch(e.target.value)}
-                                            className="pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
-                                        />
-                                        <Users className="absolute left-2 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-                                    </div>
-                                )}
+                                <div className="flex items-center space-x-2">
+                                    {eventId && !showAddAttendee && (
+                                        <button
+                                            onClick={() => setShowAddAttendee(true)}
+                                            className="flex items-center space-x-1 px-3 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm"
+                                        >
+                                            <UserPlus className="w-4 h-4" />
+                                            <span>Add Attendee</span>
+                                        </button>
+                                    )}
+                                    {attendees.length > 0 && (
+                                        <>
+                                            <div className="relative">
+                                                <input
+                                                    type="text"
+                                                    placeholder="Search attendees..."
+                                                    value={attendeeSearch}
+                                                    onChange={(e) => setAttendeeSearch(e.target.value)}
+                                                    className="pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+                                                />
+                                                <Users className="absolute left-2 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                                            </div>
+                                            {(['csv', 'xlsx'] as AttendanceExportFormat[]).map(format => (
+                                                <button
+                                                    key={format}
+                                                    onClick={() => handleExportAttendance(format)}
+                                                    disabled={exportingAttendance !== null}
+                                                    className="flex items-center space-x-1 px-3 py-2 border border-purple-300 text-purple-700 rounded-lg hover:bg-purple-50 transition-colors disabled:opacity-50 text-sm"
+                                                    title={`Export attendees as ${format.toUpperCase()}`}
+                                                >
+                                                    <Download className="w-4 h-4" />
+                                                    <span>{exportingAttendance === format ? 'Exporting...' : format.toUpperCase()}</span>
+                                                </button>
+                                            ))}
+                                        </>
+                                    )}
+                                </div>
                             </div>
+                            {eventId && !loadingAttendees && (() => {
+                                const going = rsvps.filter(rsvp => rsvp.status === 'going');
+                                const waitlisted = rsvps.filter(rsvp => rsvp.status === 'waitlisted');
+                                const attendeeIds = new Set(attendees.map(attendee => attendee.userId || attendee.id));
+                                const rsvpdAndAttended = going.filter(rsvp => attendeeIds.has(rsvp.userId || rsvp.id)).length;
+                                return (
+                                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
+                                        <div className="flex items-center justify-between mb-3">
+                                            <span className="font-medium text-blue-900">RSVPs vs. Check-ins</span>
+                                            <button
+                                                onClick={handleEditCapacity}
+                                                disabled={updatingCapacity}
+                                                className="flex items-center space-x-1 text-sm text-blue-700 hover:text-blue-900 disabled:opacity-50"
+                                            >
+                                                <Pencil className="w-3 h-3" />
+                                                <span>{updatingCapacity ? 'Saving...' : eventCapacity ? `Capacity: ${eventCapacity}` : 'Set Capacity'}</span>
+                                            </button>
+                                        </div>
+                                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                                            <div>
+                                                <span className="font-medium text-blue-800">Going:</span>
+                                                <p className="text-blue-700">{going.length}{eventCapacity ? ` / ${eventCapacity}` : ''}</p>
+                                            </div>
+                                            <div>
+                                                <span className="font-medium text-blue-800">Waitlisted:</span>
+                                                <p className="text-blue-700">{waitlisted.length}</p>
+                                            </div>
+                                            <div>
+                                                <span className="font-medium text-blue-800">Checked In:</span>
+                                                <p className="text-blue-700">{attendees.length}</p>
+                                            </div>
+                                            <div>
+                                                <span className="font-medium text-blue-800">RSVP'd &amp; Attended:</span>
+                                                <p className="text-blue-700">
+                                                    {rsvpdAndAttended}
+                                                    {going.length > 0 && ` (${Math.round((rsvpdAndAttended / going.length) * 100)}%)`}
+                                                </p>
+                                            </div>
+                                        </div>
+                                    </div>
+                                );
+                            })()}
+                            {eventId && eventHasFood && (
+                                <FoodHeadcountPanel
+                                    eventId={eventId}
+                                    eventName={request.name}
+                                    eventDate={formatDateTime(request.startDateTime)}
+                                    location={request.location}
+                                    getUserName={getUserName}
+                                />
+                            )}
+                            {showAddAttendee && (
+                                <AddAttendeePanel
+                                    users={users}
+                                    existingAttendeeIds={attendees.map(attendee => attendee.userId || attendee.id)}
+                                    hasFood={eventHasFood}
+                                    submitting={correctingAttendee !== null}
+                                    onSubmit={handleAddAttendee}
+                                    onCancel={() => setShowAddAttendee(false)}
+                                />
+                            )}
                             {loadingAttendees ? (
                                 <div className="text-center py-4">
                                     <p className="text-gray-500">Loading attendees...</p>
@@ -1400,9 +1617,33 @@ export default function EventViewModal({ request, users, onClose, onSuccess }: E
                                         }).map((attendee, index) => (
                                             <div key={attendee.id || index} className="border border-gray-200 rounded-lg p-4 bg-gray-50">
                                                 <div className="space-y-2">
-                                                    <div>
-                                                        <span className="text-sm font-medium text-gray-700">Name:</span>
-                                                        <p className="text-gray-900 text-sm font-medium">{getUserName(attendee.userId || attendee.id)}</p>
+                                                    <div className="flex items-start justify-between gap-2">
+                                                        <div>
+                                                            <span className="text-sm font-medium text-gray-700">Name:</span>
+                                                            <p className="text-gray-900 text-sm font-medium">{getUserName(attendee.userId || attendee.id)}</p>
+                                                        </div>
+                                                        <div className="flex items-center gap-1">
+                                                            {eventHasFood && (
+                                                                <button
+                                                                    onClick={() => handleEditAttendeeFood(attendee)}
+                                                                    disabled={correctingAttendee !== null}
+                                                                    className="text-blue-600 hover:text-blue-900 p-1 rounded hover:bg-blue-50 disabled:opacity-50"
+                                                                    title="Edit food preference"
+                                                                >
+                                                                    <Pencil className="w-4 h-4" />
+                                                                </button>
+                                                            )}
+                                                            {(attendee.userId || attendee.id) !== user?.uid && (
+                                                                <button
+                                                                    onClick={() => handleRemoveAttendee(attendee)}
+                                                                    disabled={correctingAttendee !== null}
+                                                                    className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50 disabled:opacity-50"
+                                                                    title="Remove check-in"
+                                                                >
+                                                                    <Trash2 className="w-4 h-4" />
+                                                                </button>
+                                                            )}
+                                                        </div>
                                                     </div>
                                                     <div>
                                                         <span className="text-sm font-medium text-gray-700">User ID:</span>
@@ -1423,12 +1664,23 @@ export default function EventViewModal({ request, users, onClose, onSuccess }: E
                                                             <p className="text-gray-900 text-sm">{attendee.food}</p>
                                                         </div>
                                                     )}
+                                                    {attendee.dietary && formatDietaryPreferences(attendee.dietary) && (
+                                                        <div>
+                                                            <span className="text-sm font-medium text-gray-700">Dietary Needs:</span>
+                                                            <p className="text-gray-900 text-sm">{formatDietaryPreferences(attendee.dietary)}</p>
+                                                        </div>
+                                                    )}
                                                     <div>
                                                         <span className="text-sm font-medium text-gray-700">Points Earned:</span>
                                                         <span className="bg-green-100 text-green-800 px-2 py-1 rounded-full text-xs font-medium ml-2">
                                                             {attendee.pointsEarned || 0} points
                                                         </span>
                                                     </div>
+                                                    {attendee.checkInMethod === 'officer' && (
+                                                        <p className="text-xs text-gray-500">
+                                                            Added by {getUserName(attendee.addedBy)}
+                                                        </p>
+                                                    )}
                                                 </div>
                                             </div>
                                         ))}
@@ -1530,6 +1782,21 @@ export default function EventViewModal({ request, users, onClose, onSuccess }: E
                                                             </div>
                                                         )}
 
+                                                        {/* Deadline exceptions */}
+                                                        {log.action === 'deadline_overridden' && log.statusReason && (
+                                                            <div className="text-xs text-gray-600 italic mb-2">
+                                                                Deadline exception: "{log.statusReason}"
+                                                            </div>
+                                                        )}
+
+                                                        {/* Attendance corrections */}
+                                                        {log.action === 'attendance_updated' && log.statusReason && (
+                                                            <div className="text-xs text-gray-600 italic mb-2">
+                                                                "{log.statusReason}"
+                                                                {log.metadata?.pointsChanged ? ` (${log.metadata.pointsChanged > 0 ? '+' : ''}${log.metadata.pointsChanged} points)` : ''}
+                                                            </div>
+                                                        )}
+
                                                         {/* Field Changes */}
                                                         {log.changes && log.changes.length > 0 && (
                                                             <div className="text-sm text-gray-700 mb-2">
@@ -1594,6 +1861,15 @@ export default function EventViewModal({ request, users, onClose, onSuccess }: E
                 onClose={() => setSelectedFile(null)}
             />
 
+            {/* Full-screen rotating QR check-in */}
+            {showCheckInKiosk && eventId && (
+                <CheckInKioskModal
+                    eventId={eventId}
+                    eventName={request.name}
+                    onClose={() => setShowCheckInKiosk(false)}
+                />
+            )}
+
             {/* Review Feedback Modal */}
             {showReviewModal && (
                 <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
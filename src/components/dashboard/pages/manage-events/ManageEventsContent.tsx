@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Filter, Edit, Trash2, Clock, CheckCircle, XCircle, Eye, FileText, EyeOff, ChevronUp, ChevronDown, ChevronsUpDown, AlertTriangle } from 'lucide-react';
+import { Plus, Filter, Edit, Trash2, Clock, CheckCircle, XCircle, Eye, FileText, EyeOff, ChevronUp, ChevronDown, ChevronsUpDown, AlertTriangle, Download, BookmarkPlus, LayoutTemplate, CalendarClock } from 'lucide-react';
 import { getFirestore, collection, getDocs, query, orderBy, where, doc, deleteDoc, updateDoc, onSnapshot, getDoc } from 'firebase/firestore';
 import { app, auth } from '../../../../firebase/client';
 import { useAuthState } from 'react-firebase-hooks/auth';
@@ -10,6 +10,13 @@ import EventViewModal from './EventViewModal';
 import FileManagementModal from './FileManagementModal';
 import BulkActionsModal from './BulkActionsModal';
 import GraphicsUploadModal from './GraphicsUploadModal';
+import RosterExportModal from './RosterExportModal';
+import EventTemplatesModal from './EventTemplatesModal';
+import DeadlinePolicyModal from './DeadlinePolicyModal';
+import type { StoredEventTemplate } from './utils/eventTemplateUtils';
+import { DEFAULT_EVENT_DEADLINE_RULES, evaluateDeadlines, formatCountdown, type DeadlineRule } from '../../../../lib/eventDeadlinePolicy';
+import { fetchEventDeadlinePolicy } from './utils/deadlinePolicyUtils';
+import { NotificationService } from '../../shared/services/notificationService';
 import { PublicProfileService } from '../../shared/services/publicProfile';
 import { EmailClient } from '../../../../scripts/email/EmailClient';
 import type { UserRole } from '../../shared/types/firestore';
@@ -40,6 +47,7 @@ interface EventRequest {
     otherLogos?: string[];
     advertisingFormat?: string;
     willOrHaveRoomBooking?: boolean;
+    hasRoomBooking?: boolean;
     expectedAttendance?: number;
     roomBookingFiles?: string[];
     asFundingRequired?: boolean;
@@ -51,6 +59,7 @@ interface EventRequest {
     published?: boolean;
     graphicsCompleted?: boolean;
     graphicsFiles?: string[];
+    deadlineOverride?: { reason: string; rules: string[] };
 }
 
 export default function ManageEventsContent() {
@@ -60,6 +69,11 @@ export default function ManageEventsContent() {
     const [showFileManagementModal, setShowFileManagementModal] = useState(false);
     const [showBulkActionsModal, setShowBulkActionsModal] = useState(false);
     const [showEventTemplatesModal, setShowEventTemplatesModal] = useState(false);
+    const [templateSourceRequest, setTemplateSourceRequest] = useState<EventRequest | null>(null);
+    const [selectedTemplate, setSelectedTemplate] = useState<StoredEventTemplate | null>(null);
+    const [showRosterExportModal, setShowRosterExportModal] = useState(false);
+    const [showDeadlinePolicyModal, setShowDeadlinePolicyModal] = useState(false);
+    const [deadlineRules, setDeadlineRules] = useState<DeadlineRule[]>(DEFAULT_EVENT_DEADLINE_RULES);
     const [showGraphicsUploadModal, setShowGraphicsUploadModal] = useState(false);
     const [graphicsUploadRequest, setGraphicsUploadRequest] = useState<EventRequest | null>(null);
     const [eventRequests, setEventRequests] = useState<EventRequest[]>([]);
@@ -71,6 +85,7 @@ export default function ManageEventsContent() {
     const [viewingRequest, setViewingRequest] = useState<EventRequest | null>(null);
     const [managingFilesRequest, setManagingFilesRequest] = useState<EventRequest | null>(null);
     const [currentUserRole, setCurrentUserRole] = useState<UserRole>('Member');
+    const [currentUserName, setCurrentUserName] = useState('Unknown User');
 
     // Sorting state
     const [sortField, setSortField] = useState<string>('startDateTime');
@@ -99,6 +114,7 @@ export default function ManageEventsContent() {
                 if (userDoc.exists()) {
                     const userData = userDoc.data();
                     setCurrentUserRole(userData.role || 'Member');
+                    setCurrentUserName(userData.name || userData.email || 'Unknown User');
                 } else {
                     setCurrentUserRole('Member');
                 }
@@ -132,6 +148,31 @@ export default function ManageEventsContent() {
         return () => unsubscribe();
     }, [db, user]);
 
+    // Reload the lead-time policy whenever the editor closes
+    useEffect(() => {
+        if (!user || showDeadlinePolicyModal) return;
+        fetchEventDeadlinePolicy()
+            .then(policy => setDeadlineRules(policy.rules))
+            .catch(error => console.error('Error fetching deadline policy:', error));
+    }, [user, showDeadlinePolicyModal]);
+
+    // Open the request named in ?request= (used by conflict links) once requests load
+    useEffect(() => {
+        if (loading || eventRequests.length === 0) return;
+        const params = new URLSearchParams(window.location.search);
+        const requestId = params.get('request');
+        if (!requestId) return;
+
+        const linkedRequest = eventRequests.find(request => request.id === requestId);
+        if (linkedRequest) {
+            setViewingRequest(linkedRequest);
+            setShowEventViewModal(true);
+        }
+        params.delete('request');
+        const search = params.toString();
+        window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}`);
+    }, [loading, eventRequests]);
+
     const fetchEventRequests = async () => {
         try {
             setLoading(true);
@@ -282,32 +323,20 @@ export default function ManageEventsContent() {
         }
     };
 
-    const handleTemplateSelection = (template: any) => {
-        // Create a new event request with template data
-        const templateRequest: EventRequest = {
-            id: '', // New event, no ID yet
-            name: template.name,
-            location: template.defaultLocation,
-            startDateTime: null, // User will set this
-            endDateTime: null, // User will set this
-            eventDescription: template.eventDescription,
-            status: 'pending',
-            requestedUser: '', // Will be set when creating
-            createdAt: null, // Will be set when creating
-            needsGraphics: template.needsGraphics,
-            needsAsFunding: template.asFundingRequired,
-            asFundingRequired: template.asFundingRequired,
-            flyersNeeded: template.flyersNeeded,
-            photographyNeeded: template.photographyNeeded,
-            expectedAttendance: template.expectedAttendance,
-            foodDrinksBeingServed: template.foodDrinksBeingServed,
-            department: template.department
-        };
-
-        setEditingRequest(templateRequest);
+    const handleTemplateSelection = (template: StoredEventTemplate) => {
+        // Start a new request prefilled from the template
+        setEditingRequest(null);
+        setSelectedTemplate(template);
+        setShowEventTemplatesModal(false);
+        setTemplateSourceRequest(null);
         setShowEventRequestModal(true);
     };
 
+    const handleSaveAsTemplate = (request: EventRequest) => {
+        setTemplateSourceRequest(request);
+        setShowEventTemplatesModal(true);
+    };
+
     // Helper function to get user name
     const getUserName = (userId: string) => {
         try {
@@ -535,6 +564,9 @@ export default function ManageEventsContent() {
                     published: !currentStatus,
                     updatedAt: new Date()
                 });
+                if (!currentStatus) {
+                    NotificationService.notifyEventPublished(eventDoc.id);
+                }
 
                 // Update local state
                 setEventRequests(prev =>
@@ -635,6 +667,40 @@ export default function ManageEventsContent() {
         return { total, published, drafts, totalAttendees };
     };
 
+    // Most pressing lead-time deadline for requests still in progress
+    const getDeadlineBadge = (request: EventRequest) => {
+        if (['completed', 'declined'].includes(request.status)) return null;
+        const startDateTime = request.startDateTime?.toDate?.();
+        if (!startDateTime || startDateTime < new Date()) return null;
+
+        const statuses = evaluateDeadlines(
+            {
+                startDateTime,
+                needsAsFunding: request.needsAsFunding,
+                needsGraphics: request.needsGraphics,
+                hasRoomBooking: request.hasRoomBooking ?? request.willOrHaveRoomBooking
+            },
+            deadlineRules,
+            request.createdAt?.toDate?.() || new Date()
+        );
+        const missed = statuses.find(status => status.missed);
+        if (missed) {
+            const excepted = request.deadlineOverride?.rules.includes(missed.rule.key);
+            return {
+                label: `${missed.rule.label}: ${excepted ? 'exception approved' : formatCountdown(missed)}`,
+                className: excepted ? 'bg-gray-100 text-gray-700' : 'bg-red-100 text-red-800'
+            };
+        }
+        const upcoming = statuses
+            .filter(status => status.daysRemaining >= 0)
+            .sort((a, b) => a.daysRemaining - b.daysRemaining)[0];
+        if (!upcoming) return null;
+        return {
+            label: `${upcoming.rule.label}: ${formatCountdown(upcoming)}`,
+            className: upcoming.daysRemaining <= 7 ? 'bg-amber-100 text-amber-800' : 'bg-blue-50 text-blue-700'
+        };
+    };
+
     const getStatusColor = (status: string) => {
         switch (status) {
             case 'approved':
@@ -709,6 +775,35 @@ export default function ManageEventsContent() {
                 <div className="grid grid-cols-1 gap-4 md:gap-6">
                     {/* Action Buttons */}
                     <div className="flex flex-col sm:flex-row items-stretch sm:items-center sm:justify-end gap-3 mb-4 md:mb-6">
+                        {canCreateEvent() && (
+                            <button
+                                onClick={() => setShowRosterExportModal(true)}
+                                className="flex items-center justify-center space-x-2 px-3 md:px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors min-h-[44px] text-sm md:text-base"
+                            >
+                                <Download className="w-4 h-4" />
+                                <span className="hidden sm:inline">Export Roster</span>
+                                <span className="sm:hidden">Roster</span>
+                            </button>
+                        )}
+                        {canApproveOrPublish() && (
+                            <button
+                                onClick={() => setShowDeadlinePolicyModal(true)}
+                                className="flex items-center justify-center space-x-2 px-3 md:px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors min-h-[44px] text-sm md:text-base"
+                            >
+                                <CalendarClock className="w-4 h-4" />
+                                <span className="hidden sm:inline">Deadline Policy</span>
+                                <span className="sm:hidden">Deadlines</span>
+                            </button>
+                        )}
+                        {canCreateEvent() && (
+                            <button
+                                onClick={() => setShowEventTemplatesModal(true)}
+                                className="flex items-center justify-center space-x-2 px-3 md:px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors min-h-[44px] text-sm md:text-base"
+                            >
+                                <LayoutTemplate className="w-4 h-4" />
+                                <span>Templates</span>
+                            </button>
+                        )}
                         {canCreateEvent() && (
                             <button
                                 onClick={() => setShowEventRequestModal(true)}
@@ -836,6 +931,18 @@ export default function ManageEventsContent() {
                                                             {request.startDateTime?.toDate?.()?.toLocaleDateString() || 'No date'}
                                                         </div>
                                                         <div className="text-sm text-gray-500">{request.location}</div>
+                                                        {(() => {
+                                                            const deadlineBadge = getDeadlineBadge(request);
+                                                            return deadlineBadge && (
+                                                                <span
+                                                                    className={`inline-flex items-center mt-1 px-2 py-0.5 text-xs rounded ${deadlineBadge.className}`}
+                                                                    title="Submission lead-time deadline"
+                                                                >
+                                                                    <Clock className="w-3 h-3 mr-1" />
+                                                                    {deadlineBadge.label}
+                                                                </span>
+                                                            );
+                                                        })()}
                                                     </div>
                                                 </td>
                                                 <td className="px-6 py-4 whitespace-nowrap">
@@ -924,6 +1031,15 @@ export default function ManageEventsContent() {
                                                                 <FileText className="w-4 h-4" />
                                                             </button>
                                                         )}
+                                                        {canCreateEvent() && (
+                                                            <button
+                                                                onClick={() => handleSaveAsTemplate(request)}
+                                                                className="text-gray-600 hover:text-gray-900"
+                                                                title="Save as Template"
+                                                            >
+                                                                <BookmarkPlus className="w-4 h-4" />
+                                                            </button>
+                                                        )}
                                                         {canEditEvent(request) && (
                                                             <button
                                                                 onClick={() => handleEditRequest(request)}
@@ -1007,8 +1123,10 @@ export default function ManageEventsContent() {
                         onClose={() => {
                             setShowEventRequestModal(false);
                             setEditingRequest(null);
+                            setSelectedTemplate(null);
                         }}
                         editingRequest={editingRequest}
+                        template={selectedTemplate}
                         onSuccess={() => {
                             // Real-time updates will handle the refresh automatically
                             setSuccess(editingRequest ? 'Event request updated successfully' : 'Event request created successfully');
@@ -1061,6 +1179,41 @@ export default function ManageEventsContent() {
                 )
             }
 
+            {/* Roster Export Modal */}
+            {
+                showRosterExportModal && (
+                    <RosterExportModal
+                        onClose={() => setShowRosterExportModal(false)}
+                        onSuccess={(message) => setSuccess(message)}
+                    />
+                )
+            }
+
+            {/* Event Templates Modal */}
+            {
+                showEventTemplatesModal && (
+                    <EventTemplatesModal
+                        sourceRequest={templateSourceRequest}
+                        onSelect={handleTemplateSelection}
+                        onClose={() => {
+                            setShowEventTemplatesModal(false);
+                            setTemplateSourceRequest(null);
+                        }}
+                        onSuccess={(message) => setSuccess(message)}
+                    />
+                )
+            }
+
+            {/* Deadline Policy Modal */}
+            {
+                showDeadlinePolicyModal && user && (
+                    <DeadlinePolicyModal
+                        currentUser={{ uid: user.uid, name: currentUserName }}
+                        onClose={() => setShowDeadlinePolicyModal(false)}
+                    />
+                )
+            }
+
             {/* Graphics Upload Modal */}
             {
                 showGraphicsUploadModal && graphicsUploadRequest && (
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { getRecentQuarters } from '../../../../lib/academicQuarters';
+import { downloadAttendanceExport, type AttendanceExportFormat } from './utils/attendanceExportUtils';
+
+interface RosterExportModalProps {
+    onClose: () => void;
+    onSuccess: (message: string) => void;
+}
+
+export default function RosterExportModal({ onClose, onSuccess }: RosterExportModalProps) {
+    const [quarters] = useState(() => getRecentQuarters(4));
+    const [selectedQuarter, setSelectedQuarter] = useState(0);
+    const [format, setFormat] = useState<AttendanceExportFormat>('xlsx');
+    const [exporting, setExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleExport = async () => {
+        const quarter = quarters[selectedQuarter];
+        setExporting(true);
+        setError(null);
+        try {
+            await downloadAttendanceExport(
+                { start: quarter.start.toISOString(), end: quarter.end.toISOString() },
+                format
+            );
+            onSuccess(`Exported the ${quarter.label} attendance roster`);
+            onClose();
+        } catch (error) {
+            console.error('Error exporting roster:', error);
+            setError('Failed to export roster: ' + (error as Error).message);
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-lg max-w-md w-full">
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                    <h3 className="text-lg font-semibold text-gray-900">
+                        Export Attendance Roster
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    <p className="text-sm text-gray-600">
+                        Lists every member who checked in to an event during the quarter, with their
+                        attendance count and points. XLSX exports include a second sheet with per-event totals.
+                    </p>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Quarter</label>
+                        <select
+                            value={selectedQuarter}
+                            onChange={(e) => setSelectedQuarter(Number(e.target.value))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {quarters.map((quarter, index) => (
+                                <option key={quarter.label} value={index}>
+                                    {quarter.label} ({quarter.start.toLocaleDateString()} – {quarter.end.toLocaleDateString()})
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+                        <div className="flex space-x-4">
+                            {(['xlsx', 'csv'] as AttendanceExportFormat[]).map(option => (
+                                <label key={option} className="flex items-center space-x-2 text-sm text-gray-700">
+                                    <input
+                                        type="radio"
+                                        name="roster-format"
+                                        value={option}
+                                        checked={format === option}
+                                        onChange={() => setFormat(option)}
+                                    />
+                                    <span>{option === 'xlsx' ? 'Excel (.xlsx)' : 'CSV (.csv)'}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                            <p className="text-sm text-red-700">{error}</p>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleExport}
+                        disabled={exporting}
+                        className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                        <Download className="w-4 h-4" />
+                        <span>{exporting ? 'Exporting...' : 'Export Roster'}</span>
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Search, X } from 'lucide-react';
+
+interface AddAttendeePanelProps {
+    users: Record<string, { name: string; email: string }>;
+    existingAttendeeIds: string[];
+    hasFood: boolean;
+    submitting: boolean;
+    onSubmit: (userId: string, food: string, reason: string) => void;
+    onCancel: () => void;
+}
+
+const MAX_RESULTS = 8;
+
+export default function AddAttendeePanel({ users, existingAttendeeIds, hasFood, submitting, onSubmit, onCancel }: AddAttendeePanelProps) {
+    const [search, setSearch] = useState('');
+    const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+    const [food, setFood] = useState('');
+    const [reason, setReason] = useState('');
+
+    const searchTerm = search.trim().toLowerCase();
+    const matches = searchTerm
+        ? Object.entries(users)
+            .filter(([id, info]) =>
+                !existingAttendeeIds.includes(id) &&
+                (info.name.toLowerCase().includes(searchTerm) || info.email.toLowerCase().includes(searchTerm))
+            )
+            .slice(0, MAX_RESULTS)
+        : [];
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selectedUserId || !reason.trim()) return;
+        onSubmit(selectedUserId, food, reason.trim());
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="border border-purple-200 bg-purple-50 rounded-lg p-4 mb-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <h4 className="font-medium text-purple-900">Add Attendee</h4>
+                <button type="button" onClick={onCancel} className="text-purple-400 hover:text-purple-600">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            {selectedUserId ? (
+                <div className="flex items-center justify-between bg-white border border-purple-200 rounded-lg px-3 py-2">
+                    <div>
+                        <p className="text-sm font-medium text-gray-900">{users[selectedUserId]?.name || selectedUserId}</p>
+                        {users[selectedUserId]?.email && (
+                            <p className="text-xs text-gray-500">{users[selectedUserId].email}</p>
+                        )}
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => setSelectedUserId(null)}
+                        className="text-sm text-purple-600 hover:text-purple-800 underline"
+                    >
+                        Change
+                    </button>
+                </div>
+            ) : (
+                <div>
+                    <div className="relative">
+                        <input
+                            type="text"
+                            placeholder="Search members by name or email..."
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+                            autoFocus
+                        />
+                        <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                    </div>
+                    {matches.length > 0 && (
+                        <ul className="mt-1 bg-white border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-48 overflow-y-auto">
+                            {matches.map(([id, info]) => (
+                                <li key={id}>
+                                    <button
+                                        type="button"
+                                        onClick={() => setSelectedUserId(id)}
+                                        className="w-full text-left px-3 py-2 hover:bg-purple-50"
+                                    >
+                                        <p className="text-sm text-gray-900">{info.name}</p>
+                                        {info.email && <p className="text-xs text-gray-500">{info.email}</p>}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {searchTerm && matches.length === 0 && (
+                        <p className="text-xs text-gray-500 mt-1">No members found who aren't already checked in</p>
+                    )}
+                </div>
+            )}
+
+            {hasFood && (
+                <input
+                    type="text"
+                    placeholder="Food preference (optional)"
+                    value={food}
+                    onChange={(e) => setFood(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+                />
+            )}
+
+            <textarea
+                placeholder="Reason (e.g. check-in failed at the door)"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                maxLength={500}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+                required
+            />
+
+            <div className="flex justify-end">
+                <button
+                    type="submit"
+                    disabled={submitting || !selectedUserId || !reason.trim()}
+                    className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 text-sm"
+                >
+                    {submitting ? 'Adding...' : 'Add Attendee'}
+                </button>
+            </div>
+        </form>
+    );
+}
@@ -3,17 +3,21 @@ import { Calendar, MapPin, FileText, DollarSign } from 'lucide-react';
 import type { EventFormData, FieldError } from '../types/EventRequestTypes';
 import { departmentOptions, eventTypes } from '../types/EventRequestTypes';
 import { generateEventCode, formatTimeTo12H } from '../utils/eventRequestUtils';
+import RecurrenceSection from './RecurrenceSection';
 
 interface BasicInformationSectionProps {
     formData: EventFormData;
     fieldErrors: FieldError;
     onInputChange: (field: string, value: any) => void;
+    // Recurrence is only offered for new requests
+    allowRecurrence?: boolean;
 }
 
 export default function BasicInformationSection({
     formData,
     fieldErrors,
-    onInputChange
+    onInputChange,
+    allowRecurrence = false
 }: BasicInformationSectionProps) {
     return (
         <div className="space-y-6">
@@ -101,6 +105,15 @@ export default function BasicInformationSection({
                     </div>
                 </div>
 
+                {allowRecurrence && (
+                    <RecurrenceSection
+                        startDate={formData.startDate}
+                        recurrence={formData.recurrence}
+                        hasError={fieldErrors.recurrence}
+                        onChange={(recurrence) => onInputChange('recurrence', recurrence)}
+                    />
+                )}
+
                 {/* Event Description */}
                 <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Clock, AlertTriangle, CheckCircle } from 'lucide-react';
+import { formatLeadTime, type DeadlineStatus } from '../../../../../lib/eventDeadlinePolicy';
+
+interface DeadlinePolicyPanelProps {
+    statuses: DeadlineStatus[];
+    canOverride?: boolean;
+}
+
+// Lead-time deadlines for the services this request asks for
+export default function DeadlinePolicyPanel({ statuses, canOverride = false }: DeadlinePolicyPanelProps) {
+    if (statuses.length === 0) return null;
+
+    const missed = statuses.filter(status => status.missed);
+    const blocking = missed.some(status => status.rule.enforcement === 'block');
+
+    return (
+        <div className={`rounded-lg p-4 border ${missed.length > 0 ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
+            <h4 className={`font-medium flex items-center ${missed.length > 0 ? 'text-red-800' : 'text-gray-800'}`}>
+                <Clock className="w-4 h-4 mr-2" />
+                Submission Deadlines
+            </h4>
+            <ul className="mt-3 space-y-2 text-sm">
+                {statuses.map(status => (
+                    <li key={status.rule.key} className="flex items-start justify-between gap-4">
+                        <span className="flex items-start">
+                            {status.missed ? (
+                                <AlertTriangle className={`w-4 h-4 mr-2 mt-0.5 flex-shrink-0 ${status.rule.enforcement === 'block' ? 'text-red-600' : 'text-amber-600'}`} />
+                            ) : (
+                                <CheckCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-green-600" />
+                            )}
+                            <span className="text-gray-700">
+                                {status.rule.label}: {formatLeadTime(status.rule.minDays)} before the event
+                            </span>
+                        </span>
+                        <span className={`flex-shrink-0 ${status.missed ? 'text-red-700 font-medium' : 'text-gray-600'}`}>
+                            {status.missed ? 'Missed' : 'Due'} {status.deadline.toLocaleDateString()}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+            {blocking && (
+                <p className="text-sm text-red-700 mt-3">
+                    {canOverride
+                        ? 'This request is past a required deadline. You will be asked for a reason to approve an exception when you submit.'
+                        : 'This request is past a required deadline and can only be submitted with an executive officer\'s exception.'}
+                </p>
+            )}
+            {!blocking && missed.length > 0 && (
+                <p className="text-sm text-amber-700 mt-3">
+                    Late requests may not get these services in time. You can still submit.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, ExternalLink, MapPin, Clock } from 'lucide-react';
+import { NAVIGATION_PATHS } from '../../../shared/types/navigation';
+import { findEventConflicts, getRequestTimeRange, type EventConflict, type ConflictReason } from '../utils/conflictUtils';
+
+interface EventConflictPanelProps {
+    // Form data while submitting, or a stored request while reviewing
+    data: any;
+    excludeRequestId?: string;
+    audience: 'submitter' | 'reviewer';
+}
+
+const REASON_LABELS: Record<ConflictReason, string> = {
+    room: 'Same room, overlapping time',
+    same_type: 'Same event type, same day'
+};
+
+const formatRange = (start: Date, end: Date) =>
+    `${start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}, ` +
+    `${start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })} – ` +
+    `${end.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+
+export default function EventConflictPanel({ data, excludeRequestId, audience }: EventConflictPanelProps) {
+    const [conflicts, setConflicts] = useState<EventConflict[]>([]);
+    const [loading, setLoading] = useState(false);
+
+    const range = getRequestTimeRange(data);
+    const location = data?.location || '';
+    const department = data?.department || '';
+    const startTime = range?.start.getTime();
+    const endTime = range?.end.getTime();
+
+    useEffect(() => {
+        if (!range) {
+            setConflicts([]);
+            return;
+        }
+
+        let cancelled = false;
+        setLoading(true);
+        findEventConflicts({ start: range.start, end: range.end, location, department, excludeRequestId })
+            .then(found => {
+                if (!cancelled) setConflicts(found);
+            })
+            .catch(error => console.error('Error checking event conflicts:', error))
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [startTime, endTime, location, department, excludeRequestId]);
+
+    if (loading || conflicts.length === 0) return null;
+
+    return (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <div className="flex items-start">
+                <AlertTriangle className="w-5 h-5 text-amber-600 mr-2 mt-0.5 flex-shrink-0" />
+                <div className="flex-1">
+                    <h4 className="text-amber-800 font-medium">
+                        {conflicts.length} Possible {conflicts.length === 1 ? 'Conflict' : 'Conflicts'}
+                    </h4>
+                    <p className="text-amber-700 text-sm mt-1">
+                        {audience === 'submitter'
+                            ? 'Other events already use this room or slot. You can still submit, but check with the other organizers first.'
+                            : 'Check with the organizers before approving.'}
+                    </p>
+                    <ul className="mt-3 space-y-2">
+                        {conflicts.map(conflict => (
+                            <li key={`${conflict.source}-${conflict.id}`} className="bg-white border border-amber-100 rounded p-3 text-sm">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-medium text-gray-900">{conflict.name || 'Untitled event'}</span>
+                                    {conflict.requestId ? (
+                                        <a
+                                            href={`${NAVIGATION_PATHS.MANAGE_EVENTS}?request=${conflict.requestId}`}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="flex items-center text-blue-600 hover:text-blue-800 flex-shrink-0"
+                                        >
+                                            View <ExternalLink className="w-3 h-3 ml-1" />
+                                        </a>
+                                    ) : (
+                                        <span className="text-gray-400 text-xs flex-shrink-0">Event only</span>
+                                    )}
+                                </div>
+                                <div className="text-gray-600 mt-1 space-y-0.5">
+                                    <p className="flex items-center">
+                                        <Clock className="w-3 h-3 mr-1" />
+                                        {formatRange(conflict.start, conflict.end)}
+                                    </p>
+                                    <p className="flex items-center">
+                                        <MapPin className="w-3 h-3 mr-1" />
+                                        {conflict.location || 'No location'}
+                                    </p>
+                                </div>
+                                <div className="flex flex-wrap gap-1 mt-2">
+                                    {conflict.reasons.map(reason => (
+                                        <span key={reason} className="px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800">
+                                            {REASON_LABELS[reason]}
+                                        </span>
+                                    ))}
+                                    {conflict.status && (
+                                        <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700 capitalize">
+                                            {conflict.status.replace('_', ' ')}
+                                        </span>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            </div>
+        </div>
+    );
+}
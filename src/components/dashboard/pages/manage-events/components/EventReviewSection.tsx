@@ -3,6 +3,10 @@ import { AlertTriangle, Calendar, MapPin, Users, DollarSign, FileText, CheckCirc
 import { truncateFilename } from '../utils/filenameUtils';
 import type { EventFormData } from '../types/EventRequestTypes';
 import EventEditComparison from './EventEditComparison';
+import EventConflictPanel from './EventConflictPanel';
+import DeadlinePolicyPanel from './DeadlinePolicyPanel';
+import { getFormDeadlines } from '../utils/validationUtils';
+import type { DeadlineRule } from '../../../../../lib/eventDeadlinePolicy';
 
 interface EventReviewSectionProps {
   eventData?: any;
@@ -15,6 +19,10 @@ interface EventReviewSectionProps {
   isInlineStep?: boolean;
   originalData?: any; // For edit mode comparison
   isEditMode?: boolean;
+  requestId?: string; // Request being edited, left out of the conflict check
+  submittedAt?: Date; // Original submission time when editing
+  deadlineRules?: DeadlineRule[];
+  canOverrideDeadlines?: boolean;
 }
 
 export default function EventReviewSection({
@@ -27,25 +35,34 @@ export default function EventReviewSection({
   showRoomBookingWarning = true,
   isInlineStep = false,
   originalData,
-  isEditMode = false
+  isEditMode = false,
+  requestId,
+  submittedAt,
+  deadlineRules,
+  canOverrideDeadlines = false
 }: EventReviewSectionProps) {
   const [hasConfirmed, setHasConfirmed] = useState(false);
 
   // Use formData if provided (for inline step), otherwise use eventData (for modal)
   const data = formData || eventData;
+  const deadlines = formData ? getFormDeadlines(formData, deadlineRules, submittedAt) : [];
 
   // If in edit mode and we have original data, show comparison view
   if (isEditMode && originalData && data) {
     return (
-      <EventEditComparison
-        originalData={originalData}
-        newData={data}
-        onConfirm={onConfirm || (() => { })}
-        onCancel={onCancel || (() => { })}
-        onBack={onBack}
-        isSubmitting={isSubmitting}
-        enableRealTimeTracking={true}
-      />
+      <div className="space-y-6">
+        <EventConflictPanel data={data} excludeRequestId={requestId} audience="submitter" />
+        <DeadlinePolicyPanel statuses={deadlines} canOverride={canOverrideDeadlines} />
+        <EventEditComparison
+          originalData={originalData}
+          newData={data}
+          onConfirm={onConfirm || (() => { })}
+          onCancel={onCancel || (() => { })}
+          onBack={onBack}
+          isSubmitting={isSubmitting}
+          enableRealTimeTracking={true}
+        />
+      </div>
     );
   }
 
@@ -148,6 +165,9 @@ export default function EventReviewSection({
             </div>
           )}
 
+          <EventConflictPanel data={data} excludeRequestId={requestId} audience="submitter" />
+          <DeadlinePolicyPanel statuses={deadlines} canOverride={canOverrideDeadlines} />
+
           {/* Event Summary */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Basic Information */}
@@ -534,6 +554,8 @@ export default function EventReviewSection({
             </div>
           )}
 
+          <EventConflictPanel data={data} excludeRequestId={requestId} audience="submitter" />
+
           {/* Rest of the modal content would go here - same as inline version */}
           {/* For brevity, using the same content structure as inline */}
 
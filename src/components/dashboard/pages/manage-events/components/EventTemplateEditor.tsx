@@ -0,0 +1,332 @@
+import React from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import type { EventTemplateInvoice } from '../../../shared/types/firestore';
+import { flyerTypes, logoTypes, departmentOptions } from '../types/EventRequestTypes';
+import type { EventTemplateInput } from '../utils/eventTemplateUtils';
+import { truncateFilename, extractFilename } from '../utils/filenameUtils';
+
+interface EventTemplateEditorProps {
+    value: EventTemplateInput;
+    onChange: (template: EventTemplateInput) => void;
+    disabled?: boolean;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+export default function EventTemplateEditor({ value, onChange, disabled = false }: EventTemplateEditorProps) {
+    const update = (changes: Partial<EventTemplateInput>) => onChange({ ...value, ...changes });
+
+    const toggleListValue = (field: 'flyerType' | 'requiredLogos', item: string, checked: boolean) => {
+        update({
+            [field]: checked ? [...value[field], item] : value[field].filter(existing => existing !== item)
+        });
+    };
+
+    const updateInvoice = (index: number, changes: Partial<EventTemplateInvoice>) => {
+        update({ invoices: value.invoices.map((invoice, i) => i === index ? { ...invoice, ...changes } : invoice) });
+    };
+
+    const updateItem = (invoiceIndex: number, itemIndex: number, field: 'description' | 'quantity' | 'unitPrice', fieldValue: string) => {
+        const invoice = value.invoices[invoiceIndex];
+        const items = invoice.items.map((item, i) => {
+            if (i !== itemIndex) return item;
+            const updated = { ...item, [field]: field === 'description' ? fieldValue : Number(fieldValue) || 0 };
+            return { ...updated, total: updated.quantity * updated.unitPrice };
+        });
+        updateInvoice(invoiceIndex, { items });
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Template Name *</label>
+                    <input
+                        type="text"
+                        value={value.name}
+                        onChange={(e) => update({ name: e.target.value })}
+                        disabled={disabled}
+                        className={inputClassName}
+                        placeholder="Also used as the event name"
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Default Location</label>
+                    <input
+                        type="text"
+                        value={value.defaultLocation}
+                        onChange={(e) => update({ defaultLocation: e.target.value })}
+                        disabled={disabled}
+                        className={inputClassName}
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Department</label>
+                    <select
+                        value={value.department}
+                        onChange={(e) => update({ department: e.target.value })}
+                        disabled={disabled}
+                        className={inputClassName}
+                    >
+                        {departmentOptions.map(dept => (
+                            <option key={dept} value={dept}>{dept}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Expected Attendance</label>
+                    <input
+                        type="number"
+                        min="0"
+                        value={value.expectedAttendance ?? ''}
+                        onChange={(e) => update({ expectedAttendance: e.target.value ? Number(e.target.value) : undefined })}
+                        disabled={disabled}
+                        className={inputClassName}
+                    />
+                </div>
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                <textarea
+                    rows={4}
+                    value={value.eventDescription}
+                    onChange={(e) => update({ eventDescription: e.target.value })}
+                    disabled={disabled}
+                    className={inputClassName}
+                />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                {([
+                    ['photographyNeeded', 'Photography needed'],
+                    ['foodDrinksBeingServed', 'Food or drinks served'],
+                    ['asFundingRequired', 'AS funding needed']
+                ] as const).map(([field, label]) => (
+                    <label key={field} className="flex items-center space-x-2">
+                        <input
+                            type="checkbox"
+                            checked={value[field]}
+                            onChange={(e) => update({ [field]: e.target.checked })}
+                            disabled={disabled}
+                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        <span className="text-sm text-gray-700">{label}</span>
+                    </label>
+                ))}
+            </div>
+
+            {/* Marketing */}
+            <div className="bg-gray-50 p-4 rounded-lg space-y-4">
+                <label className="flex items-center space-x-3">
+                    <input
+                        type="checkbox"
+                        checked={value.needsGraphics}
+                        onChange={(e) => update({ needsGraphics: e.target.checked, flyersNeeded: e.target.checked })}
+                        disabled={disabled}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <span className="text-sm font-medium text-gray-700">Needs graphics/marketing materials</span>
+                </label>
+
+                {value.needsGraphics && (
+                    <>
+                        <div>
+                            <p className="text-sm font-medium text-gray-700 mb-2">Flyer types</p>
+                            <div className="space-y-2">
+                                {flyerTypes.map(type => (
+                                    <label key={type} className="flex items-start space-x-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={value.flyerType.includes(type)}
+                                            onChange={(e) => toggleListValue('flyerType', type, e.target.checked)}
+                                            disabled={disabled}
+                                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mt-0.5"
+                                        />
+                                        <span className="text-sm text-gray-700">{type}</span>
+                                    </label>
+                                ))}
+                            </div>
+                            {value.flyerType.includes('Other (please specify in additional requests)') && (
+                                <input
+                                    type="text"
+                                    value={value.otherFlyerType || ''}
+                                    onChange={(e) => update({ otherFlyerType: e.target.value })}
+                                    disabled={disabled}
+                                    className={`${inputClassName} mt-2`}
+                                    placeholder="Specify other flyer type"
+                                />
+                            )}
+                        </div>
+
+                        <div>
+                            <p className="text-sm font-medium text-gray-700 mb-2">Required logos</p>
+                            <div className="grid grid-cols-2 gap-2">
+                                {logoTypes.map(logo => (
+                                    <label key={logo} className="flex items-center space-x-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={value.requiredLogos.includes(logo)}
+                                            onChange={(e) => toggleListValue('requiredLogos', logo, e.target.checked)}
+                                            disabled={disabled}
+                                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                                        />
+                                        <span className="text-sm text-gray-700">{logo}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        {value.otherLogos.length > 0 && (
+                            <div>
+                                <p className="text-sm font-medium text-gray-700 mb-2">Logo files</p>
+                                <ul className="space-y-1">
+                                    {value.otherLogos.map(url => (
+                                        <li key={url} className="flex items-center justify-between text-sm bg-white border border-gray-200 rounded px-3 py-1">
+                                            <a href={url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                                                {truncateFilename(extractFilename(url))}
+                                            </a>
+                                            <button
+                                                type="button"
+                                                onClick={() => update({ otherLogos: value.otherLogos.filter(existing => existing !== url) })}
+                                                disabled={disabled}
+                                                className="text-gray-400 hover:text-red-600"
+                                                title="Remove logo"
+                                            >
+                                                <X className="w-4 h-4" />
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+
+            {/* Typical invoices */}
+            <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <p className="text-sm font-medium text-gray-700">Typical Invoices</p>
+                        <p className="text-xs text-gray-500">Copied into new requests. Receipts are uploaded per event.</p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => update({ invoices: [...value.invoices, { vendor: '', items: [], tax: 0, tip: 0 }] })}
+                        disabled={disabled}
+                        className="flex items-center space-x-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                        <Plus className="w-4 h-4" />
+                        <span>Add Invoice</span>
+                    </button>
+                </div>
+
+                {value.invoices.map((invoice, invoiceIndex) => (
+                    <div key={invoiceIndex} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                        <div className="flex items-center space-x-2">
+                            <input
+                                type="text"
+                                value={invoice.vendor}
+                                onChange={(e) => updateInvoice(invoiceIndex, { vendor: e.target.value })}
+                                disabled={disabled}
+                                className={inputClassName}
+                                placeholder="Vendor"
+                            />
+                            <button
+                                type="button"
+                                onClick={() => update({ invoices: value.invoices.filter((_, i) => i !== invoiceIndex) })}
+                                disabled={disabled}
+                                className="text-red-600 hover:text-red-800 p-2"
+                                title="Remove invoice"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+
+                        {invoice.items.map((item, itemIndex) => (
+                            <div key={itemIndex} className="grid grid-cols-12 gap-2 items-center">
+                                <input
+                                    type="text"
+                                    value={item.description}
+                                    onChange={(e) => updateItem(invoiceIndex, itemIndex, 'description', e.target.value)}
+                                    disabled={disabled}
+                                    className={`${inputClassName} col-span-6`}
+                                    placeholder="Item"
+                                />
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={item.quantity}
+                                    onChange={(e) => updateItem(invoiceIndex, itemIndex, 'quantity', e.target.value)}
+                                    disabled={disabled}
+                                    className={`${inputClassName} col-span-2`}
+                                    title="Quantity"
+                                />
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={item.unitPrice}
+                                    onChange={(e) => updateItem(invoiceIndex, itemIndex, 'unitPrice', e.target.value)}
+                                    disabled={disabled}
+                                    className={`${inputClassName} col-span-3`}
+                                    title="Unit price"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => updateInvoice(invoiceIndex, { items: invoice.items.filter((_, i) => i !== itemIndex) })}
+                                    disabled={disabled}
+                                    className="col-span-1 text-gray-400 hover:text-red-600"
+                                    title="Remove item"
+                                >
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+
+                        <div className="flex flex-wrap items-center gap-4">
+                            <button
+                                type="button"
+                                onClick={() => updateInvoice(invoiceIndex, {
+                                    items: [...invoice.items, { description: '', quantity: 1, unitPrice: 0, total: 0 }]
+                                })}
+                                disabled={disabled}
+                                className="text-sm text-blue-600 hover:text-blue-800"
+                            >
+                                + Add item
+                            </button>
+                            <label className="flex items-center space-x-2 text-sm text-gray-700">
+                                <span>Tax</span>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={invoice.tax}
+                                    onChange={(e) => updateInvoice(invoiceIndex, { tax: Number(e.target.value) || 0 })}
+                                    disabled={disabled}
+                                    className="w-24 px-2 py-1 border border-gray-300 rounded-lg"
+                                />
+                            </label>
+                            <label className="flex items-center space-x-2 text-sm text-gray-700">
+                                <span>Tip</span>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={invoice.tip}
+                                    onChange={(e) => updateInvoice(invoiceIndex, { tip: Number(e.target.value) || 0 })}
+                                    disabled={disabled}
+                                    className="w-24 px-2 py-1 border border-gray-300 rounded-lg"
+                                />
+                            </label>
+                            <span className="text-sm text-gray-600 ml-auto">
+                                Total ${(invoice.items.reduce((sum, item) => sum + item.total, 0) + invoice.tax + invoice.tip).toFixed(2)}
+                            </span>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { Utensils, Printer } from 'lucide-react';
+import { getFirestore, collection, onSnapshot } from 'firebase/firestore';
+import { app } from '../../../../../firebase/client';
+import { DIETARY_RESTRICTIONS, summarizeDietary } from '../../../../../lib/dietaryPreferences';
+import { printFoodOrderSheet } from '../utils/foodOrderSheetUtils';
+
+interface FoodHeadcountPanelProps {
+    eventId: string;
+    eventName: string;
+    eventDate: string;
+    location: string;
+    getUserName: (userId: string) => string;
+}
+
+// Live dietary breakdown from RSVPs (what to order) and check-ins (who came)
+export default function FoodHeadcountPanel({ eventId, eventName, eventDate, location, getUserName }: FoodHeadcountPanelProps) {
+    const [rsvps, setRsvps] = useState<any[]>([]);
+    const [attendees, setAttendees] = useState<any[]>([]);
+
+    useEffect(() => {
+        const db = getFirestore(app);
+        const unsubscribeRsvps = onSnapshot(collection(db, 'events', eventId, 'rsvps'), (snapshot) => {
+            setRsvps(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })));
+        }, (error) => console.error('Error listening to RSVPs:', error));
+        const unsubscribeAttendees = onSnapshot(collection(db, 'events', eventId, 'attendees'), (snapshot) => {
+            setAttendees(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })));
+        }, (error) => console.error('Error listening to attendees:', error));
+
+        return () => {
+            unsubscribeRsvps();
+            unsubscribeAttendees();
+        };
+    }, [eventId]);
+
+    const going = rsvps.filter(rsvp => rsvp.status === 'going');
+    const waitlisted = rsvps.length - going.length;
+    const expected = summarizeDietary(going.map(rsvp => ({ name: rsvp.name || getUserName(rsvp.id), dietary: rsvp.dietary })));
+    const checkedIn = summarizeDietary(attendees.map(attendee => ({ name: getUserName(attendee.userId || attendee.id), dietary: attendee.dietary })));
+
+    const handlePrint = () => {
+        try {
+            printFoodOrderSheet({ eventName, eventDate, location, expected, waitlisted, checkedIn });
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    };
+
+    const rows = [
+        { label: 'Total', expected: expected.total, checkedIn: checkedIn.total },
+        { label: 'No restrictions', expected: expected.noRestrictions, checkedIn: checkedIn.noRestrictions },
+        ...DIETARY_RESTRICTIONS.map(option => ({
+            label: option.label,
+            expected: expected.byRestriction[option.key],
+            checkedIn: checkedIn.byRestriction[option.key]
+        }))
+    ];
+    const allergies = [...expected.allergies, ...checkedIn.allergies]
+        .filter((entry, index, all) => all.findIndex(other => other.name === entry.name) === index);
+
+    return (
+        <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 mb-4">
+            <div className="flex items-center justify-between mb-3">
+                <span className="font-medium text-orange-900 flex items-center">
+                    <Utensils className="w-4 h-4 mr-2" />
+                    Food Headcount
+                </span>
+                <button
+                    onClick={handlePrint}
+                    className="flex items-center space-x-1 px-3 py-1.5 border border-orange-300 text-orange-800 rounded-lg hover:bg-orange-100 transition-colors text-sm"
+                >
+                    <Printer className="w-4 h-4" />
+                    <span>Print Order Sheet</span>
+                </button>
+            </div>
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-orange-800">
+                        <th className="font-medium py-1">Dietary need</th>
+                        <th className="font-medium py-1 text-right">RSVPs</th>
+                        <th className="font-medium py-1 text-right">Checked in</th>
+                    </tr>
+                </thead>
+                <tbody className="text-orange-900">
+                    {rows.map(row => (
+                        <tr key={row.label} className="border-t border-orange-100">
+                            <td className="py-1">{row.label}</td>
+                            <td className="py-1 text-right">{row.expected}</td>
+                            <td className="py-1 text-right">{row.checkedIn}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {waitlisted > 0 && (
+                <p className="text-xs text-orange-700 mt-2">{waitlisted} more on the waitlist aren't counted.</p>
+            )}
+            {allergies.length > 0 && (
+                <div className="mt-3">
+                    <p className="text-sm font-medium text-orange-800">Allergies</p>
+                    <ul className="text-sm text-orange-900 list-disc list-inside">
+                        {allergies.map(entry => (
+                            <li key={entry.name}>{entry.name}: {entry.allergies}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
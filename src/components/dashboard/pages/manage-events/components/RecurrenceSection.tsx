@@ -0,0 +1,109 @@
+import React from 'react';
+import { Repeat } from 'lucide-react';
+import type { RecurrenceFormData, RecurrenceFrequency } from '../types/EventRequestTypes';
+import {
+    RECURRENCE_FREQUENCY_LABELS,
+    MAX_SERIES_OCCURRENCES,
+    createDefaultRecurrence,
+    getCandidateDates,
+    getOccurrenceDates,
+    formatOccurrenceDate
+} from '../utils/recurrenceUtils';
+
+interface RecurrenceSectionProps {
+    startDate: string;
+    recurrence?: RecurrenceFormData;
+    hasError?: boolean;
+    onChange: (recurrence: RecurrenceFormData) => void;
+}
+
+export default function RecurrenceSection({ startDate, recurrence = createDefaultRecurrence(), hasError, onChange }: RecurrenceSectionProps) {
+    const update = (changes: Partial<RecurrenceFormData>) => onChange({ ...recurrence, ...changes });
+    const candidates = recurrence.enabled ? getCandidateDates(startDate, recurrence) : [];
+    const occurrenceCount = recurrence.enabled ? getOccurrenceDates(startDate, recurrence).length : 0;
+
+    const toggleSkip = (date: string, skipped: boolean) => {
+        update({
+            skipDates: skipped
+                ? [...recurrence.skipDates, date]
+                : recurrence.skipDates.filter(d => d !== date)
+        });
+    };
+
+    return (
+        <div className={`border rounded-lg p-4 ${hasError ? 'border-red-500' : 'border-gray-200'}`}>
+            <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={recurrence.enabled}
+                    onChange={(e) => update({ enabled: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <Repeat className="w-4 h-4 text-gray-600" />
+                <span className="text-sm font-medium text-gray-700">Repeat this event</span>
+            </label>
+            <p className="text-xs text-gray-500 mt-1 ml-6">
+                Creates a linked request for each date, each with its own event code
+            </p>
+
+            {recurrence.enabled && (
+                <div className="mt-4 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Repeats</label>
+                            <select
+                                value={recurrence.frequency}
+                                onChange={(e) => update({ frequency: e.target.value as RecurrenceFrequency, skipDates: [] })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            >
+                                {(Object.keys(RECURRENCE_FREQUENCY_LABELS) as RecurrenceFrequency[]).map(frequency => (
+                                    <option key={frequency} value={frequency}>{RECURRENCE_FREQUENCY_LABELS[frequency]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Until *</label>
+                            <input
+                                type="date"
+                                value={recurrence.untilDate}
+                                min={startDate || undefined}
+                                onChange={(e) => update({ untilDate: e.target.value })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                        </div>
+                    </div>
+
+                    {!startDate ? (
+                        <p className="text-sm text-gray-500">Pick the first event's date to see the schedule.</p>
+                    ) : candidates.length > 1 && (
+                        <div>
+                            <p className="text-sm font-medium text-gray-700 mb-2">
+                                {occurrenceCount} events. Uncheck weeks to skip, such as finals.
+                            </p>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                                {candidates.slice(0, MAX_SERIES_OCCURRENCES + 1).map((date, index) => (
+                                    <label
+                                        key={date}
+                                        className={`flex items-center space-x-2 text-sm px-2 py-1 rounded border ${recurrence.skipDates.includes(date) && index > 0
+                                            ? 'border-gray-200 text-gray-400 line-through'
+                                            : 'border-blue-200 text-gray-800'
+                                            }`}
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            checked={index === 0 || !recurrence.skipDates.includes(date)}
+                                            disabled={index === 0}
+                                            onChange={(e) => toggleSkip(date, !e.target.checked)}
+                                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                        />
+                                        <span>{formatOccurrenceDate(date)}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,6 +1,10 @@
+import type { EventTemplate } from "../../../shared/types/firestore";
+
 export interface EventRequestModalProps {
   onClose: () => void;
   editingRequest?: any | null;
+  // Prefills a new request; ignored when editing
+  template?: EventTemplate | null;
   onSuccess?: () => void;
 }
 
@@ -19,11 +23,25 @@ export interface InvoiceFormData {
   tip: number;
   invoiceFiles: File[];
   existingInvoiceFiles: string[];
+  // Content hashes of the existing files, for duplicate receipt checks
+  existingInvoiceFileHashes?: string[];
   // Legacy fields for backward compatibility
   invoiceFile?: File | null;
   existingInvoiceFile?: string;
 }
 
+export type RecurrenceFrequency = "weekly" | "biweekly";
+
+export interface RecurrenceFormData {
+  enabled: boolean;
+  frequency: RecurrenceFrequency;
+  untilDate: string; // YYYY-MM-DD, inclusive
+  skipDates: string[]; // occurrences left out, e.g. finals week
+}
+
+// How an edit to one occurrence of a series is applied
+export type SeriesEditScope = "this" | "following";
+
 export interface EventFormData {
   name: string;
   location: string;
@@ -65,6 +83,8 @@ export interface EventFormData {
   invoiceFiles: File[];
   existingInvoiceFiles: string[];
   existingInvoiceFile: string;
+  // Only offered when creating a request
+  recurrence?: RecurrenceFormData;
 }
 
 export interface FieldError {
@@ -0,0 +1,39 @@
+/**
+ * Client helpers for officer attendance corrections through /api/events/attendance
+ */
+
+export type AttendanceCorrectionAction = 'add' | 'remove' | 'update_food';
+
+export interface AttendanceCorrectionResult {
+    attendeeName: string;
+    pointsChanged: number;
+    previousFood?: string;
+    food?: string;
+}
+
+/**
+ * Adds, removes or edits an attendee. Points are recalculated on the server
+ * in the same transaction as the attendee change.
+ *
+ * @throws Error with the server's message when the correction is rejected
+ */
+export async function submitAttendanceCorrection(params: {
+    action: AttendanceCorrectionAction;
+    eventId: string;
+    userId: string;
+    reason: string;
+    food?: string;
+}): Promise<AttendanceCorrectionResult> {
+    const response = await fetch('/api/events/attendance', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(params)
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+        throw new Error(result?.message || `Attendance update failed (${response.status})`);
+    }
+
+    return result.data;
+}
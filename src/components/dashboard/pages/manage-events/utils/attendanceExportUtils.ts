@@ -0,0 +1,39 @@
+/**
+ * Client helpers for downloading attendance exports from /api/events/attendance-export
+ */
+
+export type AttendanceExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Downloads an export through the authenticated API route and saves it with
+ * the filename chosen by the server
+ *
+ * @param params - Either { eventId } or { start, end } as ISO strings
+ * @param format - File format to download
+ * @throws Error with the server's message when the export fails
+ */
+export async function downloadAttendanceExport(
+    params: Record<string, string>,
+    format: AttendanceExportFormat
+): Promise<void> {
+    const searchParams = new URLSearchParams({ ...params, format });
+    const response = await fetch(`/api/events/attendance-export?${searchParams.toString()}`);
+
+    if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.message || `Export failed (${response.status})`);
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `attendance.${format}`;
+
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
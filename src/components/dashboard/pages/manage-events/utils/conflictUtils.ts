@@ -0,0 +1,230 @@
+/**
+ * Finds other event requests and events that clash with a proposed event,
+ * either by booking a similar room at an overlapping time or by being the
+ * same type of event on the same day.
+ */
+
+import {
+  getFirestore,
+  collection,
+  getDocs,
+  query,
+  where,
+} from "firebase/firestore";
+import { app } from "../../../../../firebase/client";
+import { createSafeDateTime } from "./eventRequestUtils";
+
+const db = getFirestore(app);
+
+export type ConflictReason = "room" | "same_type";
+
+export interface EventConflict {
+  id: string;
+  source: "request" | "event";
+  requestId?: string; // request to open; events created outside the request flow have none
+  name: string;
+  location: string;
+  start: Date;
+  end: Date;
+  status?: string;
+  reasons: ConflictReason[];
+}
+
+export interface ConflictCheck {
+  start: Date;
+  end: Date;
+  location: string;
+  department?: string;
+  excludeRequestId?: string;
+}
+
+// Words that vary between how people write the same room
+const LOCATION_FILLER_WORDS = new Set([
+  "room",
+  "rm",
+  "the",
+  "hall",
+  "building",
+  "bldg",
+  "ucsd",
+]);
+
+const locationTokens = (location: string): string[] =>
+  location
+    .toLowerCase()
+    .replace(/([a-z])(\d)/g, "$1 $2")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((token) => token && !LOCATION_FILLER_WORDS.has(token));
+
+/**
+ * True when two free-text locations likely name the same place, e.g.
+ * "EBU1 2315" and "EBU-1 Room 2315". Every token of the shorter location must
+ * appear in the longer one.
+ */
+export const locationsMatch = (a: string, b: string): boolean => {
+  const tokensA = locationTokens(a || "");
+  const tokensB = locationTokens(b || "");
+  if (tokensA.length === 0 || tokensB.length === 0) return false;
+
+  const [shorter, longer] =
+    tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const longerSet = new Set(longer);
+  return shorter.every((token) => longerSet.has(token));
+};
+
+const isSameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  const date = value.toDate ? value.toDate() : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Start and end of a request from either form data (date and time strings) or
+ * a stored request (timestamps). Null until both are known.
+ */
+export const getRequestTimeRange = (
+  data: any,
+): { start: Date; end: Date } | null => {
+  if (!data) return null;
+  if (data.startDate !== undefined) {
+    if (!data.startDate || !data.startTime || !data.endTime) return null;
+    try {
+      return {
+        start: createSafeDateTime(data.startDate, data.startTime),
+        end: createSafeDateTime(data.startDate, data.endTime),
+      };
+    } catch {
+      return null;
+    }
+  }
+  const start = toDate(data.startDateTime);
+  const end = toDate(data.endDateTime);
+  return start && end ? { start, end } : null;
+};
+
+const getReasons = (
+  check: ConflictCheck,
+  other: { start: Date; end: Date; location: string; type?: string },
+): ConflictReason[] => {
+  const reasons: ConflictReason[] = [];
+  const overlaps = check.start < other.end && check.end > other.start;
+  if (overlaps && locationsMatch(check.location, other.location)) {
+    reasons.push("room");
+  }
+  if (
+    check.department &&
+    other.type &&
+    check.department.toLowerCase() === other.type.toLowerCase() &&
+    isSameDay(check.start, other.start)
+  ) {
+    reasons.push("same_type");
+  }
+  return reasons;
+};
+
+export const findEventConflicts = async (
+  check: ConflictCheck,
+): Promise<EventConflict[]> => {
+  // Anything that could overlap starts within a day of the proposed event
+  const windowStart = new Date(check.start);
+  windowStart.setDate(windowStart.getDate() - 1);
+  windowStart.setHours(0, 0, 0, 0);
+  const windowEnd = new Date(check.end);
+  windowEnd.setHours(23, 59, 59, 999);
+
+  const [requestsSnapshot, eventsSnapshot] = await Promise.all([
+    getDocs(
+      query(
+        collection(db, "event_requests"),
+        where("startDateTime", ">=", windowStart),
+        where("startDateTime", "<=", windowEnd),
+      ),
+    ),
+    getDocs(
+      query(
+        collection(db, "events"),
+        where("startDate", ">=", windowStart),
+        where("startDate", "<=", windowEnd),
+      ),
+    ),
+  ]);
+
+  const conflicts: EventConflict[] = [];
+  const seenRequestIds = new Set<string>();
+
+  requestsSnapshot.docs.forEach((requestDoc) => {
+    const request = requestDoc.data();
+    seenRequestIds.add(requestDoc.id);
+    if (
+      requestDoc.id === check.excludeRequestId ||
+      request.status === "declined"
+    ) {
+      return;
+    }
+
+    const start = toDate(request.startDateTime);
+    const end = toDate(request.endDateTime);
+    if (!start || !end) return;
+
+    const reasons = getReasons(check, {
+      start,
+      end,
+      location: request.location,
+      type: request.department,
+    });
+    if (reasons.length > 0) {
+      conflicts.push({
+        id: requestDoc.id,
+        source: "request",
+        requestId: requestDoc.id,
+        name: request.name,
+        location: request.location,
+        start,
+        end,
+        status: request.status,
+        reasons,
+      });
+    }
+  });
+
+  eventsSnapshot.docs.forEach((eventDoc) => {
+    const event = eventDoc.data();
+    // Events made from a request were already checked through the request
+    if (
+      event.createdFrom &&
+      (event.createdFrom === check.excludeRequestId ||
+        seenRequestIds.has(event.createdFrom))
+    ) {
+      return;
+    }
+
+    const start = toDate(event.startDate);
+    const end = toDate(event.endDate);
+    if (!start || !end) return;
+
+    const reasons = getReasons(check, {
+      start,
+      end,
+      location: event.location,
+      type: event.eventType,
+    });
+    if (reasons.length > 0) {
+      conflicts.push({
+        id: eventDoc.id,
+        source: "event",
+        requestId: event.createdFrom || undefined,
+        name: event.eventName,
+        location: event.location,
+        start,
+        end,
+        status: event.published ? "published" : "draft",
+        reasons,
+      });
+    }
+  });
+
+  return conflicts.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
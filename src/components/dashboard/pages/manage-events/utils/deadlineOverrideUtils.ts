@@ -0,0 +1,25 @@
+/**
+ * Client helper for recording deadline exceptions through /api/events/deadline-override
+ */
+
+/**
+ * Records an executive exception for the blocking deadlines the saved request
+ * missed. The server works out which rules were missed.
+ *
+ * @returns The rule keys that were overridden
+ * @throws Error with the server's message when the override is rejected
+ */
+export async function recordDeadlineOverride(eventRequestId: string, reason: string): Promise<string[]> {
+    const response = await fetch('/api/events/deadline-override', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventRequestId, reason })
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+        throw new Error(result?.message || `Deadline override failed (${response.status})`);
+    }
+
+    return result.data.rules;
+}
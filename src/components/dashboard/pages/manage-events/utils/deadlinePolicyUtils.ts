@@ -0,0 +1,44 @@
+/**
+ * Loads and saves the event request lead-time policy document
+ */
+
+import {
+  getFirestore,
+  doc,
+  getDoc,
+  setDoc,
+  Timestamp,
+} from "firebase/firestore";
+import { app } from "../../../../../firebase/client";
+import {
+  EVENT_DEADLINE_POLICY_PATH,
+  normalizeEventDeadlinePolicy,
+  type DeadlineRule,
+  type EventDeadlinePolicy,
+} from "../../../../../lib/eventDeadlinePolicy";
+
+const db = getFirestore(app);
+
+export async function fetchEventDeadlinePolicy(): Promise<EventDeadlinePolicy> {
+  const snapshot = await getDoc(doc(db, EVENT_DEADLINE_POLICY_PATH));
+  return normalizeEventDeadlinePolicy(
+    snapshot.exists() ? snapshot.data() : null,
+  );
+}
+
+export async function saveEventDeadlinePolicy(
+  rules: DeadlineRule[],
+  updatedBy: { uid: string; name: string },
+): Promise<void> {
+  await setDoc(doc(db, EVENT_DEADLINE_POLICY_PATH), {
+    rules: Object.fromEntries(
+      rules.map(({ key, minDays, enforcement }) => [
+        key,
+        { minDays, enforcement },
+      ]),
+    ),
+    updatedBy: updatedBy.uid,
+    updatedByName: updatedBy.name,
+    updatedAt: Timestamp.now(),
+  });
+}
@@ -0,0 +1,31 @@
+/**
+ * Client helper for setting an event's RSVP capacity through /api/events/capacity
+ */
+
+export interface EventCapacityResult {
+    capacity: number | null;
+    rsvpCount: number;
+    waitlistCount: number;
+    promoted: number;
+}
+
+/**
+ * Sets the capacity, or clears it when `capacity` is null. Waitlisted members
+ * are promoted on the server if the change opens up spots.
+ *
+ * @throws Error with the server's message when the update is rejected
+ */
+export async function updateEventCapacity(eventId: string, capacity: number | null): Promise<{ message: string; data: EventCapacityResult }> {
+    const response = await fetch('/api/events/capacity', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventId, capacity })
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+        throw new Error(result?.message || `Capacity update failed (${response.status})`);
+    }
+
+    return { message: result.message, data: result.data };
+}
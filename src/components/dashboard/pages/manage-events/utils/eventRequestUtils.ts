@@ -154,6 +154,7 @@ export const convertLegacyInvoices = (
       existingInvoiceFiles:
         invoice.invoiceFiles ||
         (invoice.invoiceFile ? [invoice.invoiceFile] : []),
+      existingInvoiceFileHashes: invoice.invoiceFileHashes || [],
       // Legacy fields for backward compatibility
       invoiceFile: null,
       existingInvoiceFile: invoice.invoiceFile || "",
@@ -0,0 +1,229 @@
+import {
+  getFirestore,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { app } from "../../../../../firebase/client";
+import { EventAuditService } from "../../../shared/services/eventAuditService";
+import {
+  createSafeDateTime,
+  generateEventCode,
+  safeGetDateString,
+} from "./eventRequestUtils";
+import { shiftToDate } from "./recurrenceUtils";
+
+const db = getFirestore(app);
+
+// Per-occurrence fields that an edit to the rest of a series never copies
+const OCCURRENCE_FIELDS = [
+  "startDateTime",
+  "endDateTime",
+  "eventCode",
+  "status",
+  "createdAt",
+  "requestedUser",
+  "seriesIndex",
+  "auditLogs",
+];
+
+export const newSeriesId = () => doc(collection(db, "event_requests")).id;
+
+// updateDoc and batch writes reject undefined values, which optional form
+// fields leave behind
+const withoutUndefined = (data: Record<string, any>) =>
+  Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined),
+  );
+
+/**
+ * Copies the first request of a new series onto the remaining dates. Each
+ * occurrence is its own request with its own event code and draft event, linked
+ * by `seriesId`. Files were already uploaded for the first request, so the
+ * copies reference the same URLs. All occurrences are written in one batch
+ * (series are capped at MAX_SERIES_OCCURRENCES), so a failure leaves none behind.
+ */
+export const createSeriesOccurrences = async (params: {
+  firstRequestId: string;
+  dates: string[]; // remaining dates, first occurrence excluded
+  eventData: Record<string, any>;
+  performedBy: string;
+  performedByName: string;
+}): Promise<string[]> => {
+  const firstSnap = await getDoc(
+    doc(db, "event_requests", params.firstRequestId),
+  );
+  if (!firstSnap.exists()) {
+    throw new Error("The first event of the series could not be found");
+  }
+
+  // Deadline exceptions are per request and only written by the server
+  const { auditLogs, deadlineOverride, ...first } = firstSnap.data() as Record<
+    string,
+    any
+  >;
+  const firstStart: Date = first.startDateTime.toDate();
+  const firstEnd: Date = first.endDateTime.toDate();
+  const createdIds: string[] = [];
+  const batch = writeBatch(db);
+  const now = new Date();
+
+  params.dates.forEach((date, offset) => {
+    const startDateTime = shiftToDate(firstStart, date);
+    const endDateTime = shiftToDate(firstEnd, date);
+    const eventCode = generateEventCode();
+
+    const requestRef = doc(collection(db, "event_requests"));
+    batch.set(
+      requestRef,
+      withoutUndefined({
+        ...first,
+        startDateTime,
+        endDateTime,
+        eventCode,
+        seriesIndex: offset + 1,
+        createdAt: now,
+        updatedAt: now,
+      }),
+    );
+    batch.set(
+      doc(collection(db, "events")),
+      withoutUndefined({
+        ...params.eventData,
+        startDate: startDateTime,
+        endDate: endDateTime,
+        eventCode,
+        createdFrom: requestRef.id,
+        updatedAt: now,
+      }),
+    );
+    createdIds.push(requestRef.id);
+  });
+
+  await batch.commit();
+
+  for (const requestId of createdIds) {
+    try {
+      await EventAuditService.logEventCreation(
+        requestId,
+        params.performedBy,
+        params.performedByName,
+        { eventName: first.name, seriesId: first.seriesId },
+      );
+    } catch (error) {
+      console.error("Error logging series occurrence creation:", error);
+    }
+  }
+
+  return createdIds;
+};
+
+/**
+ * Applies an edit to every later occurrence of a series. Each occurrence keeps
+ * its own date, event code and status; the new start and end times are moved
+ * onto its date. The requests and their events are updated in one batch.
+ */
+export const applyToFollowingOccurrences = async (params: {
+  seriesId: string;
+  fromIndex: number;
+  requestUpdates: Record<string, any>;
+  startTime: string;
+  endTime: string;
+  fieldMappings: { [key: string]: string };
+  performedBy: string;
+  performedByName: string;
+}): Promise<number> => {
+  const seriesSnap = await getDocs(
+    query(
+      collection(db, "event_requests"),
+      where("seriesId", "==", params.seriesId),
+    ),
+  );
+  const following = seriesSnap.docs.filter(
+    (requestDoc) => (requestDoc.data().seriesIndex ?? 0) > params.fromIndex,
+  );
+
+  const sharedUpdates = withoutUndefined(
+    Object.fromEntries(
+      Object.entries(params.requestUpdates).filter(
+        ([field]) => !OCCURRENCE_FIELDS.includes(field),
+      ),
+    ),
+  );
+
+  const batch = writeBatch(db);
+  const updatedAt = new Date();
+  const applied = await Promise.all(
+    following.map(async (requestDoc) => {
+      const existing = requestDoc.data();
+      const date = safeGetDateString(existing.startDateTime);
+      const startDateTime = createSafeDateTime(date, params.startTime);
+      const endDateTime = createSafeDateTime(date, params.endTime);
+      const updates: Record<string, any> = {
+        ...sharedUpdates,
+        startDateTime,
+        endDateTime,
+        updatedAt,
+      };
+
+      batch.update(requestDoc.ref, updates);
+
+      const eventsSnap = await getDocs(
+        query(
+          collection(db, "events"),
+          where("createdFrom", "==", requestDoc.id),
+        ),
+      );
+      eventsSnap.docs.forEach((eventDoc) =>
+        batch.update(
+          eventDoc.ref,
+          withoutUndefined({
+            eventName: updates.name,
+            eventDescription: updates.eventDescription,
+            location: updates.location,
+            pointsToReward: updates.pointsToReward,
+            startDate: startDateTime,
+            endDate: endDateTime,
+            updatedAt,
+          }),
+        ),
+      );
+
+      return { requestDoc, existing, updates };
+    }),
+  );
+
+  await batch.commit();
+
+  for (const { requestDoc, existing, updates } of applied) {
+    try {
+      const changes = EventAuditService.generateFieldChanges(
+        existing,
+        updates,
+        params.fieldMappings,
+      );
+      if (changes.length > 0) {
+        await EventAuditService.logEventUpdate(
+          requestDoc.id,
+          params.performedBy,
+          changes,
+          params.performedByName,
+          [],
+          {
+            eventName: updates.name,
+            seriesId: params.seriesId,
+            appliedFromSeries: true,
+          },
+        );
+      }
+    } catch (error) {
+      console.error("Error logging series update:", error);
+    }
+  }
+
+  return following.length;
+};
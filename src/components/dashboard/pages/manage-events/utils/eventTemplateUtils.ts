@@ -0,0 +1,203 @@
+/**
+ * Saved event request templates, shared by all officers
+ */
+
+import {
+  getFirestore,
+  collection,
+  addDoc,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  updateDoc,
+} from "firebase/firestore";
+import { app } from "../../../../../firebase/client";
+import type {
+  EventTemplate,
+  EventTemplateInvoice,
+} from "../../../shared/types/firestore";
+import type {
+  EventFormData,
+  InvoiceFormData,
+} from "../types/EventRequestTypes";
+import { convertLegacyInvoices } from "./eventRequestUtils";
+
+const db = getFirestore(app);
+
+export const EVENT_TEMPLATES = "templates";
+
+export type EventTemplateInput = Omit<
+  EventTemplate,
+  "createdBy" | "createdAt" | "updatedBy" | "updatedAt"
+>;
+
+export type StoredEventTemplate = EventTemplate & { id: string };
+
+export const createEmptyTemplate = (): EventTemplateInput => ({
+  name: "",
+  defaultLocation: "",
+  eventDescription: "",
+  department: "General",
+  needsGraphics: false,
+  flyersNeeded: false,
+  flyerType: [],
+  otherFlyerType: "",
+  requiredLogos: [],
+  otherLogos: [],
+  photographyNeeded: false,
+  asFundingRequired: false,
+  foodDrinksBeingServed: false,
+  invoices: [],
+});
+
+export const fetchEventTemplates = async (): Promise<StoredEventTemplate[]> => {
+  const snapshot = await getDocs(
+    query(collection(db, EVENT_TEMPLATES), orderBy("name")),
+  );
+  return snapshot.docs.map(
+    (templateDoc) =>
+      ({ id: templateDoc.id, ...templateDoc.data() }) as StoredEventTemplate,
+  );
+};
+
+export const validateTemplate = (
+  template: EventTemplateInput,
+): string | null => {
+  if (!template.name.trim()) return "Template name is required";
+  const incompleteInvoice = template.invoices.find(
+    (invoice) =>
+      !invoice.vendor.trim() ||
+      invoice.items.some((item) => !item.description.trim()),
+  );
+  if (incompleteInvoice) {
+    return "Each typical invoice needs a vendor and item descriptions";
+  }
+  return null;
+};
+
+// Recomputes line totals so stored invoices never disagree with their items
+const normalizeInvoices = (
+  invoices: EventTemplateInvoice[],
+): EventTemplateInvoice[] =>
+  invoices.map((invoice) => ({
+    vendor: invoice.vendor.trim(),
+    items: invoice.items.map((item) => ({
+      description: item.description.trim(),
+      quantity: Number(item.quantity) || 0,
+      unitPrice: Number(item.unitPrice) || 0,
+      total: (Number(item.quantity) || 0) * (Number(item.unitPrice) || 0),
+    })),
+    tax: Number(invoice.tax) || 0,
+    tip: Number(invoice.tip) || 0,
+  }));
+
+const toStoredFields = (template: EventTemplateInput) => {
+  const { expectedAttendance, sourceRequestId, ...fields } = template;
+  return {
+    ...fields,
+    name: template.name.trim(),
+    defaultLocation: template.defaultLocation.trim(),
+    invoices: normalizeInvoices(template.invoices),
+    ...(expectedAttendance ? { expectedAttendance } : {}),
+    ...(sourceRequestId ? { sourceRequestId } : {}),
+  };
+};
+
+export const createEventTemplate = async (
+  template: EventTemplateInput,
+  userId: string,
+): Promise<string> => {
+  const now = new Date();
+  const templateRef = await addDoc(collection(db, EVENT_TEMPLATES), {
+    ...toStoredFields(template),
+    createdBy: userId,
+    createdAt: now,
+    updatedBy: userId,
+    updatedAt: now,
+  });
+  return templateRef.id;
+};
+
+export const updateEventTemplate = async (
+  templateId: string,
+  template: EventTemplateInput,
+  userId: string,
+): Promise<void> => {
+  await updateDoc(doc(db, EVENT_TEMPLATES, templateId), {
+    ...toStoredFields(template),
+    expectedAttendance: template.expectedAttendance || deleteField(),
+    updatedBy: userId,
+    updatedAt: new Date(),
+  });
+};
+
+export const deleteEventTemplate = async (
+  templateId: string,
+): Promise<void> => {
+  await deleteDoc(doc(db, EVENT_TEMPLATES, templateId));
+};
+
+/**
+ * Builds a template from an existing request. Dates, event code, room booking
+ * and receipt files are specific to that event and are left out.
+ */
+export const templateFromRequest = (request: any): EventTemplateInput => ({
+  name: request.name || "",
+  defaultLocation: request.location || "",
+  eventDescription: request.eventDescription || "",
+  department: request.department || "General",
+  expectedAttendance: request.expectedAttendance || undefined,
+  needsGraphics: request.needsGraphics || false,
+  flyersNeeded: request.flyersNeeded || request.needsGraphics || false,
+  flyerType: request.flyerType || [],
+  otherFlyerType: request.otherFlyerType || "",
+  requiredLogos: request.requiredLogos || [],
+  otherLogos: request.otherLogos || [],
+  photographyNeeded: request.photographyNeeded || false,
+  asFundingRequired:
+    request.asFundingRequired || request.needsAsFunding || false,
+  foodDrinksBeingServed:
+    request.foodDrinksBeingServed || request.servingFoodDrinks || false,
+  invoices: convertLegacyInvoices(request).map((invoice) => ({
+    vendor: invoice.vendor,
+    items: invoice.items,
+    tax: invoice.tax,
+    tip: invoice.tip,
+  })),
+  sourceRequestId: request.id || undefined,
+});
+
+/**
+ * Form fields a template fills in for a new request. The requester still
+ * picks the date, times and uploads receipts for the typical invoices.
+ */
+export const templateToFormData = (
+  template: EventTemplateInput,
+): Partial<EventFormData> & { invoices: InvoiceFormData[] } => ({
+  name: template.name || "",
+  location: template.defaultLocation || "",
+  eventDescription: template.eventDescription || "",
+  department: template.department || "General",
+  expectedAttendance: template.expectedAttendance?.toString() || "",
+  needsGraphics: template.needsGraphics || false,
+  flyersNeeded: template.flyersNeeded || template.needsGraphics || false,
+  flyerType: template.flyerType || [],
+  otherFlyerType: template.otherFlyerType || "",
+  requiredLogos: template.requiredLogos || [],
+  existingOtherLogos: template.otherLogos || [],
+  photographyNeeded: template.photographyNeeded || false,
+  needsAsFunding: template.asFundingRequired || false,
+  servingFoodDrinks: template.foodDrinksBeingServed || false,
+  invoices: (template.invoices || []).map((invoice, index) => ({
+    id: `invoice_${Date.now()}_${index}`,
+    vendor: invoice.vendor,
+    items: invoice.items.map((item) => ({ ...item })),
+    tax: invoice.tax,
+    tip: invoice.tip,
+    invoiceFiles: [],
+    existingInvoiceFiles: [],
+  })),
+});
@@ -0,0 +1,80 @@
+/**
+ * Printable food order sheet for events with food
+ */
+import { DIETARY_RESTRICTIONS, type DietaryHeadcount } from '../../../../../lib/dietaryPreferences';
+
+export interface FoodOrderSheetInput {
+    eventName: string;
+    eventDate: string;
+    location: string;
+    expected: DietaryHeadcount;
+    waitlisted: number;
+    checkedIn: DietaryHeadcount;
+}
+
+const escapeHtml = (value: string) =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+export function buildFoodOrderSheetHtml(input: FoodOrderSheetInput): string {
+    const rows = [
+        ['Total headcount', input.expected.total, input.checkedIn.total],
+        ['No restrictions', input.expected.noRestrictions, input.checkedIn.noRestrictions],
+        ...DIETARY_RESTRICTIONS.map(option => [option.label, input.expected.byRestriction[option.key], input.checkedIn.byRestriction[option.key]])
+    ];
+    const allergies = [...input.expected.allergies, ...input.checkedIn.allergies]
+        .filter((entry, index, all) => all.findIndex(other => other.name === entry.name) === index);
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Food Order Sheet - ${escapeHtml(input.eventName)}</title>
+<style>
+    body { font-family: Arial, sans-serif; margin: 32px; color: #111827; }
+    h1 { font-size: 20px; margin-bottom: 4px; }
+    p.meta { color: #4b5563; margin: 0 0 24px; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 24px; }
+    th, td { border: 1px solid #d1d5db; padding: 8px 12px; text-align: left; }
+    th { background: #f3f4f6; }
+    td.count { text-align: right; width: 120px; }
+    .note { font-size: 12px; color: #6b7280; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(input.eventName)}</h1>
+<p class="meta">${escapeHtml(input.eventDate)} &middot; ${escapeHtml(input.location)}</p>
+<table>
+    <thead><tr><th>Dietary need</th><th>RSVPs</th><th>Checked in</th></tr></thead>
+    <tbody>
+        ${rows.map(([label, expected, checkedIn]) => `<tr><td>${label}</td><td class="count">${expected}</td><td class="count">${checkedIn}</td></tr>`).join('\n        ')}
+    </tbody>
+</table>
+${input.waitlisted > 0 ? `<p class="note">${input.waitlisted} more on the waitlist are not included in the RSVP count.</p>` : ''}
+<h2 style="font-size: 16px;">Allergies</h2>
+${allergies.length === 0
+        ? '<p class="note">None reported</p>'
+        : `<table><thead><tr><th>Name</th><th>Allergies</th></tr></thead><tbody>${allergies.map(entry => `<tr><td>${escapeHtml(entry.name)}</td><td>${escapeHtml(entry.allergies)}</td></tr>`).join('')}</tbody></table>`}
+<p class="note">Restriction counts can add up to more than the headcount when someone has more than one. Generated ${escapeHtml(new Date().toLocaleString())}.</p>
+</body>
+</html>`;
+}
+
+/**
+ * Opens the order sheet in a new window and starts the browser's print dialog
+ *
+ * @throws Error when the browser blocks the popup
+ */
+export function printFoodOrderSheet(input: FoodOrderSheetInput): void {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+        throw new Error('Allow popups for this site to print the order sheet');
+    }
+    printWindow.document.write(buildFoodOrderSheetHtml(input));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+}
@@ -0,0 +1,105 @@
+import type {
+  RecurrenceFormData,
+  RecurrenceFrequency,
+} from "../types/EventRequestTypes";
+
+// Keeps a series to roughly two quarters of weekly events
+export const MAX_SERIES_OCCURRENCES = 20;
+
+const FREQUENCY_DAYS: Record<RecurrenceFrequency, number> = {
+  weekly: 7,
+  biweekly: 14,
+};
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> =
+  {
+    weekly: "Every week",
+    biweekly: "Every other week",
+  };
+
+export const createDefaultRecurrence = (): RecurrenceFormData => ({
+  enabled: false,
+  frequency: "weekly",
+  untilDate: "",
+  skipDates: [],
+});
+
+// Date-only strings are handled at local noon so DST changes never shift a day
+const parseDateString = (date: string) => new Date(`${date}T12:00:00`);
+
+const toDateString = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Every date the rule produces from the first occurrence through the until
+ * date, before skipped dates are removed. Stops one past the limit so callers
+ * can tell the series is too long.
+ */
+export const getCandidateDates = (
+  startDate: string,
+  recurrence: RecurrenceFormData,
+): string[] => {
+  if (!startDate || !recurrence.untilDate) return startDate ? [startDate] : [];
+
+  const until = parseDateString(recurrence.untilDate);
+  const dates: string[] = [];
+  const current = parseDateString(startDate);
+
+  while (current <= until && dates.length <= MAX_SERIES_OCCURRENCES) {
+    dates.push(toDateString(current));
+    current.setDate(current.getDate() + FREQUENCY_DAYS[recurrence.frequency]);
+  }
+
+  return dates;
+};
+
+/**
+ * Dates that will become requests, first occurrence included. The first date
+ * is the one entered on the form and can't be skipped.
+ */
+export const getOccurrenceDates = (
+  startDate: string,
+  recurrence: RecurrenceFormData,
+): string[] =>
+  getCandidateDates(startDate, recurrence).filter(
+    (date, index) => index === 0 || !recurrence.skipDates.includes(date),
+  );
+
+export const validateRecurrence = (
+  startDate: string,
+  recurrence?: RecurrenceFormData,
+): string | null => {
+  if (!recurrence?.enabled) return null;
+  if (!recurrence.untilDate) return "Choose when the series ends";
+  if (startDate && recurrence.untilDate <= startDate) {
+    return "The series must end after the first event";
+  }
+
+  const occurrences = getOccurrenceDates(startDate, recurrence);
+  if (occurrences.length > MAX_SERIES_OCCURRENCES) {
+    return `A series can have at most ${MAX_SERIES_OCCURRENCES} events`;
+  }
+  if (occurrences.length < 2) {
+    return "A series needs at least two events";
+  }
+  return null;
+};
+
+/**
+ * Moves an occurrence's times onto another date, keeping the time of day
+ */
+export const shiftToDate = (time: Date, date: string) => {
+  const shifted = parseDateString(date);
+  shifted.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return shifted;
+};
+
+export const formatOccurrenceDate = (date: string) =>
+  parseDateString(date).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
@@ -1,4 +1,12 @@
 import type { EventFormData, FieldError } from "../types/EventRequestTypes";
+import { validateRecurrence } from "./recurrenceUtils";
+import {
+  DEFAULT_EVENT_DEADLINE_RULES,
+  evaluateDeadlines,
+  formatDeadlineMessage,
+  type DeadlineRequirement,
+  type DeadlineRule,
+} from "../../../../../lib/eventDeadlinePolicy";
 
 export interface ValidationResult {
   isValid: boolean;
@@ -6,6 +14,62 @@ export interface ValidationResult {
   errorMessage?: string;
 }
 
+export interface ValidationOptions {
+  // When the request was first submitted; defaults to now for new requests
+  submittedAt?: Date;
+  // Executive officers may submit past a blocking deadline and give a reason
+  canOverrideDeadlines?: boolean;
+  // Rule keys an executive already approved an exception for on this request
+  overriddenRules?: string[];
+  // Lead-time rules from the stored policy; the defaults until it has loaded
+  deadlineRules?: DeadlineRule[];
+}
+
+export const getFormDeadlines = (
+  formData: EventFormData,
+  rules: DeadlineRule[] = DEFAULT_EVENT_DEADLINE_RULES,
+  submittedAt?: Date,
+) => {
+  const startDateTime =
+    formData.startDate && formData.startTime
+      ? new Date(`${formData.startDate}T${formData.startTime}`)
+      : null;
+  return evaluateDeadlines(
+    {
+      startDateTime:
+        startDateTime && !isNaN(startDateTime.getTime()) ? startDateTime : null,
+      needsAsFunding: formData.needsAsFunding,
+      needsGraphics: formData.needsGraphics,
+      hasRoomBooking: formData.hasRoomBooking,
+    },
+    rules,
+    submittedAt,
+  );
+};
+
+// Error message when a blocking lead-time rule has been missed
+const checkDeadline = (
+  formData: EventFormData,
+  requirement: DeadlineRequirement,
+  options: ValidationOptions,
+): string | null => {
+  if (options.canOverrideDeadlines) return null;
+  if (options.overriddenRules?.includes(requirement)) return null;
+  const missed = getFormDeadlines(
+    formData,
+    options.deadlineRules,
+    options.submittedAt,
+  ).find(
+    (status) =>
+      status.rule.key === requirement &&
+      status.rule.enforcement === "block" &&
+      status.missed,
+  );
+  return missed
+    ? `${formatDeadlineMessage(missed)}. Ask an executive officer to approve an exception.`
+    : null;
+};
+
 export const validateBasicInformation = (
   formData: EventFormData,
 ): ValidationResult => {
@@ -54,6 +118,15 @@ export const validateBasicInformation = (
     }
   }
 
+  const recurrenceError = validateRecurrence(
+    formData.startDate,
+    formData.recurrence,
+  );
+  if (recurrenceError) {
+    errors.recurrence = true;
+    errorMessages.push(recurrenceError);
+  }
+
   return {
     isValid: errorMessages.length === 0,
     errors,
@@ -64,6 +137,7 @@ export const validateBasicInformation = (
 
 export const validateMarketingGraphics = (
   formData: EventFormData,
+  options: ValidationOptions = {},
 ): ValidationResult => {
   const errors: FieldError = {};
   let errorMessage = "";
@@ -113,6 +187,11 @@ export const validateMarketingGraphics = (
         "Advertising start date is required when graphics are needed";
       return { isValid: false, errors, errorMessage };
     }
+
+    const deadlineError = checkDeadline(formData, "flyers", options);
+    if (deadlineError) {
+      return { isValid: false, errors, errorMessage: deadlineError };
+    }
   }
 
   return { isValid: true, errors };
@@ -120,6 +199,7 @@ export const validateMarketingGraphics = (
 
 export const validateLogistics = (
   formData: EventFormData,
+  options: ValidationOptions = {},
 ): ValidationResult => {
   const errors: FieldError = {};
   let errorMessage = "";
@@ -133,6 +213,11 @@ export const validateLogistics = (
     return { isValid: false, errors, errorMessage };
   }
 
+  const roomDeadlineError = checkDeadline(formData, "roomBooking", options);
+  if (roomDeadlineError) {
+    return { isValid: false, errors, errorMessage: roomDeadlineError };
+  }
+
   if (
     formData.hasRoomBooking &&
     !formData.roomBookingFile &&
@@ -175,11 +260,19 @@ export const validateLogistics = (
   return { isValid: true, errors };
 };
 
-export const validateFunding = (formData: EventFormData): ValidationResult => {
+export const validateFunding = (
+  formData: EventFormData,
+  options: ValidationOptions = {},
+): ValidationResult => {
   const errors: FieldError = {};
   let errorMessage = "";
 
   if (formData.needsAsFunding) {
+    const deadlineError = checkDeadline(formData, "asFunding", options);
+    if (deadlineError) {
+      return { isValid: false, errors, errorMessage: deadlineError };
+    }
+
     if (formData.invoices.length === 0) {
       errorMessage =
         "Please add at least one invoice when requesting AS funding";
@@ -268,6 +361,7 @@ export const validateFunding = (formData: EventFormData): ValidationResult => {
 export const validateStep = (
   step: number,
   formData: EventFormData,
+  options: ValidationOptions = {},
 ): ValidationResult => {
   switch (step) {
     case 0: // Important Information (requirements) - no validation needed
@@ -277,14 +371,14 @@ export const validateStep = (
       return validateBasicInformation(formData);
 
     case 2: // Marketing & Graphics
-      return validateMarketingGraphics(formData);
+      return validateMarketingGraphics(formData, options);
 
     case 3: // Logistics
-      return validateLogistics(formData);
+      return validateLogistics(formData, options);
 
     case 4: // Funding (if needed) or Review & Submit
       if (formData.needsAsFunding) {
-        return validateFunding(formData);
+        return validateFunding(formData, options);
       } else {
         // This is the review step - no additional validation needed
         return { isValid: true, errors: {} };
@@ -300,18 +394,19 @@ export const validateStep = (
 
 export const validateCompleteForm = (
   formData: EventFormData,
+  options: ValidationOptions = {},
 ): ValidationResult => {
   // Run all validations
   const basicValidation = validateBasicInformation(formData);
   if (!basicValidation.isValid) return basicValidation;
 
-  const marketingValidation = validateMarketingGraphics(formData);
+  const marketingValidation = validateMarketingGraphics(formData, options);
   if (!marketingValidation.isValid) return marketingValidation;
 
-  const logisticsValidation = validateLogistics(formData);
+  const logisticsValidation = validateLogistics(formData, options);
   if (!logisticsValidation.isValid) return logisticsValidation;
 
-  const fundingValidation = validateFunding(formData);
+  const fundingValidation = validateFunding(formData, options);
   if (!fundingValidation.isValid) return fundingValidation;
 
   return { isValid: true, errors: {} };
@@ -1,14 +1,27 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Calendar, Bell, User, Filter, Edit, CheckCircle, XCircle, Clock, DollarSign, Receipt, AlertCircle, FileText, MessageCircle, Eye, CreditCard, Check, X, ChevronUp, ChevronDown, ChevronsUpDown } from 'lucide-react';
-import { collection, query, orderBy, onSnapshot, doc, updateDoc, Timestamp, addDoc, getDoc } from 'firebase/firestore';
+import { Search, Calendar, Bell, User, Filter, Edit, CheckCircle, XCircle, Clock, DollarSign, Receipt, AlertCircle, FileText, MessageCircle, Eye, CreditCard, Check, X, ChevronUp, ChevronDown, ChevronsUpDown, Flag, ShieldCheck, Wallet } from 'lucide-react';
+import { collection, query, orderBy, onSnapshot, doc, addDoc, getDoc } from 'firebase/firestore';
 import { db } from '../../../../firebase/client';
 import { useAuthState } from 'react-firebase-hooks/auth';
 import { auth } from '../../../../firebase/client';
 import DashboardHeader from '../../shared/DashboardHeader';
 import ReimbursementDetailModal from '../reimbursement/ReimbursementDetailModal';
 import ReimbursementAuditModal from '../reimbursement/ReimbursementAuditModal';
+import ReimbursementPolicyModal from './ReimbursementPolicyModal';
+import PayoutBatchesModal from './PayoutBatchesModal';
 import type { UserRole } from '../../shared/types/firestore';
 import { PublicProfileService } from '../../shared/services/publicProfile';
+import { EmailClient } from '../../../../scripts/email/EmailClient';
+import { updateReimbursementStatus as submitStatusUpdate, completeReimbursementAudit } from '../reimbursement/utils/reimbursementStatusUtils';
+import type { ReimbursementStatus } from '../../../../lib/reimbursementStatus';
+import {
+    DEFAULT_REIMBURSEMENT_POLICY,
+    POLICY_RULE_LABELS,
+    getOverrideRequirement,
+    type PolicyViolation,
+    type ReimbursementPolicy
+} from '../../../../lib/reimbursementPolicy';
+import { fetchReimbursementPolicy } from '../reimbursement/utils/reimbursementPolicyUtils';
 import { MetricCardSkeleton, TableSkeleton } from '../../../ui/loading';
 
 interface Reimbursement {
@@ -16,7 +29,7 @@ interface Reimbursement {
     title: string;
     totalAmount: number;
     dateOfPurchase: string;
-    status: 'submitted' | 'declined' | 'approved' | 'paid';
+    status: ReimbursementStatus;
     submittedBy: string;
     department: string;
     businessPurpose: string;
@@ -34,19 +47,30 @@ interface Reimbursement {
         auditNotes?: string;
         completedAt?: any;
     }[];
+    policyViolations?: PolicyViolation[];
     requiresExecutiveOverride?: boolean;
+    executiveOverride?: {
+        approvedBy: string;
+        approvedByName: string;
+        reason: string;
+        approvedAt: any;
+    };
     paymentConfirmation?: {
         confirmationNumber: string;
         photoAttachment: string;
         paidBy: string;
         paidAt: any;
+        payoutBatchId?: string;
     };
+    payoutBatchId?: string;
 }
 
 const getStatusColor = (status: string) => {
     switch (status) {
         case 'submitted':
             return 'bg-yellow-100 text-yellow-800';
+        case 'under_review':
+            return 'bg-blue-100 text-blue-800';
         case 'approved':
             return 'bg-green-100 text-green-800';
         case 'paid':
@@ -62,6 +86,8 @@ const getStatusIcon = (status: string) => {
     switch (status) {
         case 'submitted':
             return <AlertCircle className="w-4 h-4" />;
+        case 'under_review':
+            return <Clock className="w-4 h-4" />;
         case 'approved':
             return <CheckCircle className="w-4 h-4" />;
         case 'paid':
@@ -77,6 +103,8 @@ const getStatusDisplayName = (status: string) => {
     switch (status) {
         case 'submitted':
             return 'Submitted';
+        case 'under_review':
+            return 'Under Review';
         case 'approved':
             return 'Approved (Not Paid)';
         case 'paid':
@@ -100,6 +128,21 @@ export default function ManageReimbursementsContent() {
     const [sortField, setSortField] = useState<string>('submittedAt');
     const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
     const [currentUserRole, setCurrentUserRole] = useState<UserRole | null>(null);
+    // Name of the exec editing the policy; null while the policy modal is closed
+    const [policyEditorName, setPolicyEditorName] = useState<string | null>(null);
+    const [showPayoutBatches, setShowPayoutBatches] = useState(false);
+    const [policy, setPolicy] = useState<ReimbursementPolicy>(DEFAULT_REIMBURSEMENT_POLICY);
+
+    // Reloaded whenever the policy editor closes so flags follow any change
+    useEffect(() => {
+        if (policyEditorName !== null) return;
+        fetchReimbursementPolicy()
+            .then(setPolicy)
+            .catch(error => console.error('Error loading reimbursement policy:', error));
+    }, [policyEditorName]);
+
+    // Needs an executive override under the current policy, as the server decides it
+    const isFlagged = (reimbursement: Reimbursement) => getOverrideRequirement(reimbursement, policy).required;
 
     useEffect(() => {
         if (!user) return;
@@ -203,66 +246,87 @@ export default function ManageReimbursementsContent() {
         return () => unsubscribe();
     }, []);
 
-    const updateReimbursementStatus = async (reimbursementId: string, newStatus: string, auditNote?: string, paymentInfo?: any) => {
-        if (!user) return;
-
+    // Open the reimbursement named in ?reimbursement= (used by duplicate receipt links) once they load
+    useEffect(() => {
+        if (loading || reimbursements.length === 0) return;
+        const params = new URLSearchParams(window.location.search);
+        const reimbursementId = params.get('reimbursement');
+        if (!reimbursementId) return;
+
+        const linkedReimbursement = reimbursements.find(reimbursement => reimbursement.id === reimbursementId);
+        if (linkedReimbursement) setSelectedReimbursement(linkedReimbursement);
+        params.delete('reimbursement');
+        const search = params.toString();
+        window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}`);
+    }, [loading, reimbursements]);
+
+    const getCurrentUserName = async () => {
+        if (!user) return 'Unknown User';
         try {
-            // Get current user name
-            let currentUserName = 'Unknown User';
-            try {
-                const userDoc = await getDoc(doc(db, 'users', user.uid));
-                if (userDoc.exists()) {
-                    const userData = userDoc.data();
-                    currentUserName = userData.name || userData.email || 'Unknown User';
-                }
-            } catch (error) {
-                console.error('Error fetching user name:', error);
+            const userDoc = await getDoc(doc(db, 'users', user.uid));
+            if (userDoc.exists()) {
+                const userData = userDoc.data();
+                return userData.name || userData.email || 'Unknown User';
             }
+        } catch (error) {
+            console.error('Error fetching user name:', error);
+        }
+        return 'Unknown User';
+    };
 
-            const updateData: any = {
-                status: newStatus,
-                auditLogs: [
-                    ...reimbursements.find(r => r.id === reimbursementId)?.auditLogs || [],
-                    {
-                        action: `Status changed to ${newStatus}`,
-                        createdBy: user.uid,
-                        createdByName: currentUserName,
-                        timestamp: Timestamp.now()
-                    }
-                ]
-            };
-
-            if (auditNote) {
-                updateData.auditNotes = [
-                    ...reimbursements.find(r => r.id === reimbursementId)?.auditNotes || [],
-                    {
-                        note: auditNote,
-                        createdBy: user.uid,
-                        createdByName: currentUserName,
-                        timestamp: Timestamp.now()
-                    }
-                ];
-            }
+    const updateReimbursementStatus = async (reimbursementId: string, newStatus: ReimbursementStatus, auditNote?: string, paymentInfo?: any, auditorId?: string, overrideReason?: string) => {
+        if (!user) return false;
 
-            if (paymentInfo && newStatus === 'paid') {
-                updateData.paymentConfirmation = {
-                    ...paymentInfo,
-                    paidBy: user.uid,
-                    paidByName: currentUserName,
-                    paidAt: Timestamp.now()
-                };
-            }
+        const currentStatus = reimbursements.find(r => r.id === reimbursementId)?.status;
+        if (newStatus === currentStatus && !auditNote && !auditorId) return true;
 
-            await updateDoc(doc(db, 'reimbursements', reimbursementId), updateData);
+        try {
+            const { previousStatus } = await submitStatusUpdate(reimbursementId, newStatus, {
+                note: auditNote,
+                paymentInfo,
+                auditorId,
+                overrideReason
+            });
+
+            // Email the submitter about the new status. Failures are logged only.
+            if (previousStatus !== newStatus) {
+                EmailClient.notifyStatusChange(
+                    reimbursementId,
+                    newStatus,
+                    previousStatus,
+                    user.uid,
+                    newStatus === 'declined' ? { declineReason: auditNote } : undefined
+                ).catch(error => console.error('Error sending status change email:', error));
+            }
+            return true;
         } catch (error) {
             console.error('Error updating reimbursement:', error);
+            alert(error instanceof Error ? error.message : 'Failed to update reimbursement');
+            return false;
+        }
+    };
+
+    const completeAudit = async (reimbursementId: string, auditResult: 'approved' | 'needs_changes', auditNotes: string) => {
+        if (!user) return;
+
+        try {
+            await completeReimbursementAudit(reimbursementId, auditResult, auditNotes);
+
+            if (auditResult === 'needs_changes') {
+                EmailClient.notifyAuditCompleted(reimbursementId)
+                    .catch(error => console.error('Error sending audit completed email:', error));
+            }
+        } catch (error) {
+            console.error('Error completing audit:', error);
+            alert(error instanceof Error ? error.message : 'Failed to complete audit');
         }
     };
 
     const filteredReimbursements = reimbursements.filter(reimbursement => {
         const matchesSearch = reimbursement.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
             reimbursement.department.toLowerCase().includes(searchTerm.toLowerCase());
-        const matchesStatus = statusFilter === 'all' || reimbursement.status === statusFilter;
+        const matchesStatus = statusFilter === 'all' ||
+            (statusFilter === 'flagged' ? isFlagged(reimbursement) : reimbursement.status === statusFilter);
         return matchesSearch && matchesStatus;
     }).sort((a, b) => {
         let aValue, bValue;
@@ -347,10 +411,30 @@ export default function ManageReimbursementsContent() {
                 >
                     <option value="all">All Status</option>
                     <option value="submitted">Submitted</option>
+                    <option value="under_review">Under Review</option>
                     <option value="approved">Approved (Not Paid)</option>
                     <option value="paid">Paid</option>
                     <option value="declined">Declined</option>
+                    <option value="flagged">Policy Flagged</option>
                 </select>
+                {canPerformOfficerActions() && (
+                    <button
+                        onClick={async () => setPolicyEditorName(await getCurrentUserName())}
+                        className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                        <ShieldCheck className="w-4 h-4" />
+                        <span>Policy</span>
+                    </button>
+                )}
+                {canPerformOfficerActions() && (
+                    <button
+                        onClick={() => setShowPayoutBatches(true)}
+                        className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                        <Wallet className="w-4 h-4" />
+                        <span>Payout Batches</span>
+                    </button>
+                )}
                 <button className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
                     <FileText className="w-4 h-4" />
                     <span>Export Report</span>
@@ -524,6 +608,17 @@ export default function ManageReimbursementsContent() {
                                                         <div className="text-sm font-medium text-gray-900">{reimbursement.title}</div>
                                                         <div className="text-sm text-gray-500">{reimbursement.businessPurpose.substring(0, 60)}...</div>
                                                         <div className="text-xs text-gray-400 mt-1">{reimbursement.expenses.length} expense{reimbursement.expenses.length > 1 ? 's' : ''}</div>
+                                                        {isFlagged(reimbursement) && (
+                                                            <div className="mt-1 space-y-0.5">
+                                                                {getOverrideRequirement(reimbursement, policy).violations.map((violation, index) => (
+                                                                    <div key={index} className="flex items-center text-xs text-red-600" title={violation.message}>
+                                                                        <Flag className="w-3 h-3 mr-1 flex-shrink-0" />
+                                                                        <span className="font-medium mr-1">{POLICY_RULE_LABELS[violation.rule]}:</span>
+                                                                        <span className="truncate max-w-xs">{violation.message}</span>
+                                                                    </div>
+                                                                ))}
+                                                            </div>
+                                                        )}
                                                     </div>
                                                 </td>
                                                 <td className="px-6 py-4 whitespace-nowrap">
@@ -543,6 +638,12 @@ export default function ManageReimbursementsContent() {
                                                         {getStatusIcon(reimbursement.status)}
                                                         <span>{getStatusDisplayName(reimbursement.status)}</span>
                                                     </div>
+                                                    {reimbursement.status === 'approved' && reimbursement.payoutBatchId && (
+                                                        <div className="flex items-center text-xs text-emerald-700 mt-1">
+                                                            <Wallet className="w-3 h-3 mr-1" />
+                                                            <span>In payout batch</span>
+                                                        </div>
+                                                    )}
                                                 </td>
                                                 <td className="px-6 py-4 whitespace-nowrap">
                                                     <span className="inline-flex px-2 py-1 text-xs font-medium bg-gray-100 text-gray-800 rounded-full capitalize">
@@ -580,7 +681,7 @@ export default function ManageReimbursementsContent() {
                                                                 )}
                                                             </>
                                                         )}
-                                                        {reimbursement.status === 'approved' && canPerformOfficerActions() && (
+                                                        {reimbursement.status === 'approved' && !reimbursement.payoutBatchId && canPerformOfficerActions() && (
                                                             <button
                                                                 onClick={() => setAuditReimbursement(reimbursement)}
                                                                 className="text-emerald-600 hover:text-emerald-900"
@@ -625,6 +726,7 @@ export default function ManageReimbursementsContent() {
                     <ReimbursementDetailModal
                         reimbursement={selectedReimbursement}
                         onClose={() => setSelectedReimbursement(null)}
+                        checkDuplicates
                     />
                 )
             }
@@ -635,6 +737,30 @@ export default function ManageReimbursementsContent() {
                         reimbursement={auditReimbursement}
                         onClose={() => setAuditReimbursement(null)}
                         onUpdate={updateReimbursementStatus}
+                        onCompleteAudit={completeAudit}
+                        policy={policy}
+                    />
+                )
+            }
+
+            {
+                user && policyEditorName !== null && (
+                    <ReimbursementPolicyModal
+                        currentUser={{ uid: user.uid, name: policyEditorName }}
+                        onClose={() => setPolicyEditorName(null)}
+                    />
+                )
+            }
+
+            {
+                user && showPayoutBatches && (
+                    <PayoutBatchesModal
+                        payable={reimbursements.filter(reimbursement =>
+                            reimbursement.status === 'approved' && !reimbursement.payoutBatchId && !isFlagged(reimbursement)
+                        )}
+                        userNames={userNames}
+                        currentUserId={user.uid}
+                        onClose={() => setShowPayoutBatches(false)}
                     />
                 )
             }
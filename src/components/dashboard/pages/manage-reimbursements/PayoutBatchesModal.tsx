@@ -0,0 +1,334 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Download, FileText, CheckCircle, XCircle, Wallet } from 'lucide-react';
+import { collection, query, orderBy, onSnapshot } from 'firebase/firestore';
+import { db } from '../../../../firebase/client';
+import { Button } from '../../../ui/button';
+import { Input } from '../../../ui/input';
+import { Label } from '../../../ui/label';
+import { EmailClient } from '../../../../scripts/email/EmailClient';
+import type { PayoutBatch, PayoutMethod } from '../../shared/types/firestore';
+import { createPayoutBatch, markPayoutBatchPaid, cancelPayoutBatch } from './utils/payoutBatchUtils';
+import { downloadPayoutCsv, downloadPayoutPdf } from './utils/payoutSheetUtils';
+import { LEDGER_ACCOUNTS, LEDGER_ACCOUNT_LABELS, DEFAULT_LEDGER_ACCOUNT, type LedgerAccount } from '../../../../lib/treasuryLedger';
+
+type StoredPayoutBatch = PayoutBatch & { id: string };
+
+interface PayableReimbursement {
+    id: string;
+    title: string;
+    totalAmount: number;
+    submittedBy: string;
+}
+
+interface PayoutBatchesModalProps {
+    // Approved reimbursements that aren't in a batch yet
+    payable: PayableReimbursement[];
+    userNames: { [key: string]: string };
+    currentUserId: string;
+    onClose: () => void;
+}
+
+const BATCH_STATUS_STYLES: Record<PayoutBatch['status'], string> = {
+    draft: 'bg-yellow-100 text-yellow-800',
+    paid: 'bg-emerald-100 text-emerald-800',
+    cancelled: 'bg-gray-100 text-gray-600'
+};
+
+export default function PayoutBatchesModal({ payable, userNames, currentUserId, onClose }: PayoutBatchesModalProps) {
+    const [batches, setBatches] = useState<StoredPayoutBatch[]>([]);
+    const [view, setView] = useState<'list' | 'new'>('list');
+    const [working, setWorking] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [batchName, setBatchName] = useState('');
+    const [method, setMethod] = useState<PayoutMethod>('zelle');
+    const [payingBatchId, setPayingBatchId] = useState<string | null>(null);
+    const [confirmationReference, setConfirmationReference] = useState('');
+    const [ledgerAccount, setLedgerAccount] = useState<LedgerAccount>(DEFAULT_LEDGER_ACCOUNT);
+
+    useEffect(() => {
+        const unsubscribe = onSnapshot(
+            query(collection(db, 'payout_batches'), orderBy('createdAt', 'desc')),
+            snapshot => setBatches(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as StoredPayoutBatch)),
+            error => console.error('Error loading payout batches:', error)
+        );
+        return () => unsubscribe();
+    }, []);
+
+    const selectedTotal = payable
+        .filter(reimbursement => selectedIds.has(reimbursement.id))
+        .reduce((sum, reimbursement) => sum + reimbursement.totalAmount, 0);
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const handleCreate = async () => {
+        try {
+            setWorking(true);
+            await createPayoutBatch([...selectedIds], method, batchName);
+            setSelectedIds(new Set());
+            setBatchName('');
+            setView('list');
+        } catch (error) {
+            console.error('Error creating payout batch:', error);
+            alert(error instanceof Error ? error.message : 'Failed to create payout batch');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleMarkPaid = async (batch: StoredPayoutBatch) => {
+        try {
+            setWorking(true);
+            const { reimbursementIds } = await markPayoutBatchPaid(batch.id, confirmationReference.trim(), ledgerAccount);
+            setPayingBatchId(null);
+            setConfirmationReference('');
+
+            // Email each submitter. Failures are logged only.
+            reimbursementIds.forEach(id => {
+                EmailClient.notifyStatusChange(id, 'paid', 'approved', currentUserId)
+                    .catch(error => console.error('Error sending status change email:', error));
+            });
+        } catch (error) {
+            console.error('Error marking payout batch paid:', error);
+            alert(error instanceof Error ? error.message : 'Failed to mark payout batch paid');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleCancel = async (batch: StoredPayoutBatch) => {
+        if (!confirm(`Cancel "${batch.name}"? Its reimbursements can then be added to another batch.`)) return;
+
+        try {
+            setWorking(true);
+            await cancelPayoutBatch(batch.id);
+        } catch (error) {
+            console.error('Error cancelling payout batch:', error);
+            alert(error instanceof Error ? error.message : 'Failed to cancel payout batch');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                    <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+                        <Wallet className="w-5 h-5 mr-2 text-emerald-600" />
+                        {view === 'new' ? 'New Payout Batch' : 'Payout Batches'}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                {view === 'new' ? (
+                    <div className="p-6 space-y-6">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <Label htmlFor="batchName" className="text-sm font-medium text-gray-700">Batch Name</Label>
+                                <Input
+                                    id="batchName"
+                                    value={batchName}
+                                    onChange={(e) => setBatchName(e.target.value)}
+                                    placeholder="Defaults to today's date"
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="payoutMethod" className="text-sm font-medium text-gray-700">Payout Method</Label>
+                                <select
+                                    id="payoutMethod"
+                                    value={method}
+                                    onChange={(e) => setMethod(e.target.value as PayoutMethod)}
+                                    className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    <option value="zelle">Zelle</option>
+                                    <option value="check">Check</option>
+                                </select>
+                            </div>
+                        </div>
+
+                        {payable.length === 0 ? (
+                            <p className="text-sm text-gray-500">No approved reimbursements are waiting for payment.</p>
+                        ) : (
+                            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                                {payable.map(reimbursement => (
+                                    <label key={reimbursement.id} className="flex items-center justify-between p-3 hover:bg-gray-50 cursor-pointer">
+                                        <span className="flex items-center space-x-3">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedIds.has(reimbursement.id)}
+                                                onChange={() => toggleSelected(reimbursement.id)}
+                                                className="rounded border-gray-300"
+                                            />
+                                            <span>
+                                                <span className="block text-sm font-medium text-gray-900">{reimbursement.title}</span>
+                                                <span className="block text-xs text-gray-500">{userNames[reimbursement.submittedBy] || 'Unknown User'}</span>
+                                            </span>
+                                        </span>
+                                        <span className="text-sm font-bold text-gray-900">${reimbursement.totalAmount.toFixed(2)}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+
+                        {method === 'zelle' && (
+                            <p className="text-sm text-gray-500">
+                                Payees' Zelle information is copied from their profiles. The batch can't be created if anyone is missing it.
+                            </p>
+                        )}
+
+                        <div className="flex items-center justify-between pt-6 border-t border-gray-200">
+                            <span className="text-sm text-gray-700">
+                                {selectedIds.size} selected · <span className="font-bold">${selectedTotal.toFixed(2)}</span>
+                            </span>
+                            <div className="flex space-x-3">
+                                <Button type="button" variant="outline" onClick={() => setView('list')}>
+                                    Back
+                                </Button>
+                                <Button
+                                    type="button"
+                                    disabled={working || selectedIds.size === 0}
+                                    onClick={handleCreate}
+                                    className="bg-emerald-600 hover:bg-emerald-700"
+                                >
+                                    {working ? 'Creating...' : 'Create Batch'}
+                                </Button>
+                            </div>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="p-6 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <p className="text-sm text-gray-600">
+                                {payable.length} approved reimbursement{payable.length === 1 ? '' : 's'} waiting for payment
+                            </p>
+                            <Button
+                                type="button"
+                                onClick={() => setView('new')}
+                                className="bg-emerald-600 hover:bg-emerald-700 flex items-center space-x-2"
+                            >
+                                <Plus className="w-4 h-4" />
+                                <span>New Batch</span>
+                            </Button>
+                        </div>
+
+                        {batches.length === 0 && (
+                            <p className="text-sm text-gray-500">No payout batches yet.</p>
+                        )}
+
+                        {batches.map(batch => (
+                            <div key={batch.id} className="border border-gray-200 rounded-lg p-4">
+                                <div className="flex items-start justify-between gap-4">
+                                    <div>
+                                        <h3 className="font-medium text-gray-900">{batch.name}</h3>
+                                        <p className="text-sm text-gray-500">
+                                            {batch.method === 'zelle' ? 'Zelle' : 'Check'} · {batch.items.length} reimbursement{batch.items.length === 1 ? '' : 's'} · ${batch.totalAmount.toFixed(2)}
+                                        </p>
+                                        <p className="text-xs text-gray-400 mt-1">
+                                            Created {batch.createdAt?.toDate?.().toLocaleDateString()} by {batch.createdByName}
+                                            {batch.status === 'paid' && ` · Paid ${batch.paidAt?.toDate?.().toLocaleDateString()} by ${batch.paidByName}, ref ${batch.confirmationReference}`}
+                                        </p>
+                                    </div>
+                                    <span className={`px-2 py-1 text-xs font-semibold rounded-full capitalize flex-shrink-0 ${BATCH_STATUS_STYLES[batch.status]}`}>
+                                        {batch.status}
+                                    </span>
+                                </div>
+
+                                <div className="flex flex-wrap items-center gap-2 mt-3">
+                                    <Button type="button" variant="outline" size="sm" onClick={() => downloadPayoutCsv(batch)} className="flex items-center space-x-1">
+                                        <Download className="w-4 h-4" />
+                                        <span>CSV</span>
+                                    </Button>
+                                    <Button type="button" variant="outline" size="sm" onClick={() => downloadPayoutPdf(batch)} className="flex items-center space-x-1">
+                                        <FileText className="w-4 h-4" />
+                                        <span>PDF</span>
+                                    </Button>
+                                    {batch.status === 'draft' && payingBatchId !== batch.id && (
+                                        <>
+                                            <Button
+                                                type="button"
+                                                size="sm"
+                                                disabled={working}
+                                                onClick={() => {
+                                                    setPayingBatchId(batch.id);
+                                                    setConfirmationReference('');
+                                                }}
+                                                className="bg-emerald-600 hover:bg-emerald-700 flex items-center space-x-1"
+                                            >
+                                                <CheckCircle className="w-4 h-4" />
+                                                <span>Mark Paid</span>
+                                            </Button>
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                size="sm"
+                                                disabled={working}
+                                                onClick={() => handleCancel(batch)}
+                                                className="text-red-600 flex items-center space-x-1"
+                                            >
+                                                <XCircle className="w-4 h-4" />
+                                                <span>Cancel Batch</span>
+                                            </Button>
+                                        </>
+                                    )}
+                                </div>
+
+                                {payingBatchId === batch.id && (
+                                    <div className="mt-3 p-3 bg-emerald-50 border border-emerald-200 rounded-lg space-y-2">
+                                        <Label htmlFor={`reference-${batch.id}`} className="text-sm font-medium text-gray-700">
+                                            Confirmation Reference *
+                                        </Label>
+                                        <Input
+                                            id={`reference-${batch.id}`}
+                                            value={confirmationReference}
+                                            onChange={(e) => setConfirmationReference(e.target.value)}
+                                            placeholder={batch.method === 'zelle' ? 'e.g., bank transfer batch ID' : 'e.g., check numbers 1042-1050'}
+                                        />
+                                        <Label htmlFor={`account-${batch.id}`} className="text-sm font-medium text-gray-700">
+                                            Paid From Account
+                                        </Label>
+                                        <select
+                                            id={`account-${batch.id}`}
+                                            value={ledgerAccount}
+                                            onChange={(e) => setLedgerAccount(e.target.value as LedgerAccount)}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        >
+                                            {LEDGER_ACCOUNTS.map(account => (
+                                                <option key={account} value={account}>{LEDGER_ACCOUNT_LABELS[account]}</option>
+                                            ))}
+                                        </select>
+                                        <div className="flex justify-end space-x-2">
+                                            <Button type="button" variant="outline" size="sm" onClick={() => setPayingBatchId(null)}>
+                                                Back
+                                            </Button>
+                                            <Button
+                                                type="button"
+                                                size="sm"
+                                                disabled={working || !confirmationReference.trim()}
+                                                onClick={() => handleMarkPaid(batch)}
+                                                className="bg-emerald-600 hover:bg-emerald-700"
+                                            >
+                                                {working ? 'Saving...' : `Mark ${batch.items.length} Paid`}
+                                            </Button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import { Button } from '../../../ui/button';
+import { Input } from '../../../ui/input';
+import { Label } from '../../../ui/label';
+import {
+    EXPENSE_CATEGORIES,
+    DEFAULT_REIMBURSEMENT_POLICY,
+    type ReimbursementPolicy
+} from '../../../../lib/reimbursementPolicy';
+import { fetchReimbursementPolicy, saveReimbursementPolicy } from '../reimbursement/utils/reimbursementPolicyUtils';
+
+interface ReimbursementPolicyModalProps {
+    currentUser: { uid: string; name: string };
+    onClose: () => void;
+}
+
+// Number inputs are kept as strings so a field can be cleared to mean "no limit"
+const toInputValue = (value: number | null | undefined) => (value === null || value === undefined ? '' : String(value));
+
+const parseLimit = (value: string): number | null => {
+    if (value.trim() === '') return null;
+    const parsed = parseFloat(value);
+    return isNaN(parsed) || parsed < 0 ? null : parsed;
+};
+
+export default function ReimbursementPolicyModal({ currentUser, onClose }: ReimbursementPolicyModalProps) {
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [policy, setPolicy] = useState<ReimbursementPolicy>(DEFAULT_REIMBURSEMENT_POLICY);
+    const [caps, setCaps] = useState<Record<string, string>>({});
+    const [maxPurchaseAgeDays, setMaxPurchaseAgeDays] = useState('');
+    const [receiptRequiredAbove, setReceiptRequiredAbove] = useState('');
+    const [maxTipPercent, setMaxTipPercent] = useState('');
+    const [alcoholAllowed, setAlcoholAllowed] = useState(false);
+
+    useEffect(() => {
+        fetchReimbursementPolicy()
+            .then(loaded => {
+                setPolicy(loaded);
+                setCaps(Object.fromEntries(EXPENSE_CATEGORIES.map(category => [category, toInputValue(loaded.categoryCaps[category])])));
+                setMaxPurchaseAgeDays(toInputValue(loaded.maxPurchaseAgeDays));
+                setReceiptRequiredAbove(toInputValue(loaded.receiptRequiredAbove));
+                setMaxTipPercent(toInputValue(loaded.maxTipPercent));
+                setAlcoholAllowed(loaded.alcoholAllowed);
+            })
+            .catch(error => {
+                console.error('Error loading reimbursement policy:', error);
+                alert('Failed to load the reimbursement policy.');
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const categoryCaps: Record<string, number> = {};
+        Object.entries(caps).forEach(([category, value]) => {
+            const cap = parseLimit(value);
+            if (cap !== null) categoryCaps[category] = cap;
+        });
+
+        try {
+            setSaving(true);
+            await saveReimbursementPolicy({
+                categoryCaps,
+                maxPurchaseAgeDays: parseLimit(maxPurchaseAgeDays),
+                receiptRequiredAbove: parseLimit(receiptRequiredAbove) ?? 0,
+                maxTipPercent: parseLimit(maxTipPercent),
+                alcoholAllowed
+            }, currentUser);
+            onClose();
+        } catch (error) {
+            console.error('Error saving reimbursement policy:', error);
+            alert('Failed to save the reimbursement policy. Please try again.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const lastUpdated = (policy.updatedAt as any)?.toDate?.();
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                    <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+                        <ShieldCheck className="w-5 h-5 mr-2 text-blue-600" />
+                        Reimbursement Policy
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="p-6 text-sm text-gray-500">Loading policy...</div>
+                ) : (
+                    <form onSubmit={handleSave} className="p-6 space-y-6">
+                        <p className="text-sm text-gray-600">
+                            Requests that break these rules can still be submitted, but they are flagged and need an executive override to be approved. Leave a field blank for no limit.
+                        </p>
+
+                        {/* Category Caps */}
+                        <div>
+                            <h3 className="text-md font-medium text-gray-900 mb-3">Category Caps (per request)</h3>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                {EXPENSE_CATEGORIES.map(category => (
+                                    <div key={category}>
+                                        <Label htmlFor={`cap-${category}`} className="text-sm font-medium text-gray-700">{category}</Label>
+                                        <Input
+                                            id={`cap-${category}`}
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            value={caps[category] || ''}
+                                            onChange={(e) => setCaps({ ...caps, [category]: e.target.value })}
+                                            placeholder="No cap"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* General Rules */}
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                                <Label htmlFor="maxPurchaseAgeDays" className="text-sm font-medium text-gray-700">Max Purchase Age (days)</Label>
+                                <Input
+                                    id="maxPurchaseAgeDays"
+                                    type="number"
+                                    min="0"
+                                    value={maxPurchaseAgeDays}
+                                    onChange={(e) => setMaxPurchaseAgeDays(e.target.value)}
+                                    placeholder="No limit"
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="receiptRequiredAbove" className="text-sm font-medium text-gray-700">Receipt Required Above ($)</Label>
+                                <Input
+                                    id="receiptRequiredAbove"
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={receiptRequiredAbove}
+                                    onChange={(e) => setReceiptRequiredAbove(e.target.value)}
+                                    placeholder="0 (always)"
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="maxTipPercent" className="text-sm font-medium text-gray-700">Max Tip (% of food)</Label>
+                                <Input
+                                    id="maxTipPercent"
+                                    type="number"
+                                    min="0"
+                                    value={maxTipPercent}
+                                    onChange={(e) => setMaxTipPercent(e.target.value)}
+                                    placeholder="No limit"
+                                />
+                            </div>
+                        </div>
+
+                        <label className="flex items-center space-x-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={alcoholAllowed}
+                                onChange={(e) => setAlcoholAllowed(e.target.checked)}
+                                className="rounded border-gray-300"
+                            />
+                            <span>Alcohol is reimbursable</span>
+                        </label>
+
+                        {lastUpdated && (
+                            <p className="text-xs text-gray-500">
+                                Last updated {lastUpdated.toLocaleString()}{policy.updatedByName ? ` by ${policy.updatedByName}` : ''}
+                            </p>
+                        )}
+
+                        <div className="flex items-center justify-end space-x-3 pt-6 border-t border-gray-200">
+                            <Button type="button" variant="outline" onClick={onClose}>
+                                Cancel
+                            </Button>
+                            <Button type="submit" disabled={saving} className="bg-blue-600 hover:bg-blue-700">
+                                {saving ? 'Saving...' : 'Save Policy'}
+                            </Button>
+                        </div>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,53 @@
+/**
+ * Client helpers for /api/reimbursements/payout-batches
+ */
+
+import type { PayoutMethod } from '../../../shared/types/firestore';
+import type { LedgerAccount } from '../../../../../lib/treasuryLedger';
+
+interface PayoutBatchResult {
+    message: string;
+    batchId: string;
+    reimbursementIds: string[];
+}
+
+async function postBatchAction(body: Record<string, unknown>): Promise<PayoutBatchResult> {
+    const response = await fetch('/api/reimbursements/payout-batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+        throw new Error(result?.message || `Payout batch update failed (${response.status})`);
+    }
+
+    return { message: result.message, ...result.data };
+}
+
+/**
+ * Groups approved reimbursements into a draft batch. Zelle batches are
+ * rejected if any payee has no Zelle information on file.
+ *
+ * @throws Error with the server's message when the batch is rejected
+ */
+export const createPayoutBatch = (reimbursementIds: string[], method: PayoutMethod, name?: string) =>
+    postBatchAction({ action: 'create', reimbursementIds, method, name });
+
+/**
+ * Marks every reimbursement in a draft batch paid under one reference and
+ * posts each payment to the treasury ledger from `ledgerAccount`
+ *
+ * @throws Error with the server's message when the batch can't be paid
+ */
+export const markPayoutBatchPaid = (batchId: string, confirmationReference: string, ledgerAccount: LedgerAccount) =>
+    postBatchAction({ action: 'mark_paid', batchId, confirmationReference, ledgerAccount });
+
+/**
+ * Cancels a draft batch and releases its reimbursements for another batch
+ *
+ * @throws Error with the server's message when the batch can't be cancelled
+ */
+export const cancelPayoutBatch = (batchId: string) =>
+    postBatchAction({ action: 'cancel', batchId });
@@ -0,0 +1,111 @@
+/**
+ * CSV and PDF payout sheets for a payout batch
+ */
+
+import jsPDF from 'jspdf';
+import { toCsv, EXPORT_CONTENT_TYPES } from '../../../../../lib/spreadsheetExport';
+import type { PayoutBatch } from '../../../shared/types/firestore';
+
+type PayoutSheetBatch = PayoutBatch & { id: string };
+
+const METHOD_LABELS = { zelle: 'Zelle', check: 'Check' };
+
+const slugify = (value: string) =>
+    value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'payout';
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export function downloadPayoutCsv(batch: PayoutSheetBatch): void {
+    const csv = toCsv({
+        name: 'Payouts',
+        headers: ['Payee', 'Email', batch.method === 'zelle' ? 'Zelle' : 'Pay To', 'Reimbursement', 'Reimbursement ID', 'Amount'],
+        rows: batch.items.map(item => [
+            item.payeeName,
+            item.payeeEmail,
+            batch.method === 'zelle' ? item.zelleInformation : item.payeeName,
+            item.title,
+            item.reimbursementId,
+            item.amount.toFixed(2)
+        ])
+    });
+    downloadBlob(new Blob([csv], { type: EXPORT_CONTENT_TYPES.csv }), `${slugify(batch.name)}.csv`);
+}
+
+export function downloadPayoutPdf(batch: PayoutSheetBatch): void {
+    const pdf = new jsPDF('landscape', 'pt', 'letter'); // 792 x 612 pt
+    const margin = 40;
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const columns = [
+        { label: 'Payee', x: margin, width: 150 },
+        { label: 'Email', x: margin + 160, width: 170 },
+        { label: batch.method === 'zelle' ? 'Zelle' : 'Pay To', x: margin + 340, width: 150 },
+        { label: 'Reimbursement', x: margin + 500, width: 150 },
+        { label: 'Amount', x: 752, width: 80, alignRight: true }
+    ];
+
+    pdf.setFontSize(16);
+    pdf.text(batch.name, margin, margin + 10);
+    pdf.setFontSize(10);
+    pdf.setTextColor(90);
+    const createdAt = batch.createdAt?.toDate ? batch.createdAt.toDate().toLocaleDateString() : '';
+    pdf.text(
+        `${METHOD_LABELS[batch.method]} payouts · ${batch.items.length} reimbursements · ${formatAmount(batch.totalAmount)} · Created ${createdAt} by ${batch.createdByName}`,
+        margin,
+        margin + 28
+    );
+    if (batch.confirmationReference) {
+        pdf.text(`Paid under reference ${batch.confirmationReference}`, margin, margin + 42);
+    }
+    pdf.setTextColor(0);
+
+    let y = margin + 70;
+    const drawHeader = () => {
+        pdf.setFont('helvetica', 'bold');
+        columns.forEach(column => pdf.text(column.label, column.x, y, column.alignRight ? { align: 'right' } : undefined));
+        pdf.setFont('helvetica', 'normal');
+        pdf.line(margin, y + 6, 752, y + 6);
+        y += 22;
+    };
+    drawHeader();
+
+    batch.items.forEach(item => {
+        const cells = [
+            item.payeeName,
+            item.payeeEmail,
+            batch.method === 'zelle' ? item.zelleInformation : item.payeeName,
+            item.title,
+            formatAmount(item.amount)
+        ];
+        const wrapped = cells.map((cell, index) => pdf.splitTextToSize(cell || '', columns[index].width) as string[]);
+        const rowHeight = Math.max(...wrapped.map(lines => lines.length)) * 12 + 6;
+
+        if (y + rowHeight > pageHeight - margin) {
+            pdf.addPage();
+            y = margin + 10;
+            drawHeader();
+        }
+        wrapped.forEach((lines, index) => {
+            const column = columns[index];
+            pdf.text(lines, column.x, y, column.alignRight ? { align: 'right' } : undefined);
+        });
+        y += rowHeight;
+    });
+
+    pdf.line(margin, y - 6, 752, y - 6);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Total', margin, y + 8);
+    pdf.text(formatAmount(batch.totalAmount), 752, y + 8, { align: 'right' });
+
+    pdf.save(`${slugify(batch.name)}.pdf`);
+}
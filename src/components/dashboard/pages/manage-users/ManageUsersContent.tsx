@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { getFirestore, doc, updateDoc } from 'firebase/firestore';
 import { useUserManagement } from './hooks/useUserManagement';
 import type { UserModalData, InviteModalData } from './types/UserManagementTypes';
+import type { User as FirestoreUser } from '../../shared/types/firestore';
 import { UserManagementTableSkeleton, MetricCardSkeleton } from '../../../ui/loading';
 import DashboardHeader from '../../shared/DashboardHeader';
 
@@ -10,6 +11,7 @@ import UserStatsCards from './components/UserStatsCards';
 import UserFilters from './components/UserFilters';
 import UserTable from './components/UserTable';
 import UserModal from './components/UserModal';
+import PointsAdjustmentModal from './components/PointsAdjustmentModal';
 import InviteModal from './components/InviteModal';
 import AddMemberModal from './components/AddMemberModal';
 
@@ -52,6 +54,7 @@ export default function ManageUsersContent() {
     const [showInviteModal, setShowInviteModal] = useState(false);
     const [showAddMemberModal, setShowAddMemberModal] = useState(false);
     const [editingUser, setEditingUser] = useState<UserModalData | null>(null);
+    const [pointsUser, setPointsUser] = useState<(FirestoreUser & { id: string }) | null>(null);
 
     // Handle user actions
     const handleEditUser = (user: any) => {
@@ -66,7 +69,6 @@ export default function ManageUsersContent() {
             memberId: user.memberId || '',
             major: user.major || '',
             graduationYear: user.graduationYear || undefined,
-            points: user.points || 0,
             // IEEE Email fields
             hasIEEEEmail: user.hasIEEEEmail || false,
             ieeeEmail: user.ieeeEmail || '',
@@ -339,6 +341,7 @@ export default function ManageUsersContent() {
                     onSort={updateSort}
                     onEditUser={handleEditUser}
                     onDeleteUser={deleteUser}
+                    onManagePoints={setPointsUser}
                     permissions={permissions}
                     currentUserId={currentUser?.id}
                 />
@@ -355,12 +358,19 @@ export default function ManageUsersContent() {
                     availableRoles={permissions.getAvailableRoles(editingUser?.id === currentUser?.id)}
                     canEditRole={editingUser ? permissions.canEditUserRole(editingUser as any) : true}
                     canEditPosition={editingUser ? permissions.canEditUserPosition(editingUser as any) : true}
-                    canEditPoints={currentUserRole === 'Administrator'}
                     canManageEmails={permissions.canManageEmails}
                     onEmailAction={handleEmailAction}
                     loading={loading}
                 />
 
+                {/* Points Modal */}
+                <PointsAdjustmentModal
+                    isOpen={!!pointsUser}
+                    onClose={() => setPointsUser(null)}
+                    user={pointsUser}
+                    onPointsChanged={fetchUsers}
+                />
+
                 {/* Invite Modal */}
                 <InviteModal
                     isOpen={showInviteModal}
@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import type { User as FirestoreUser } from '../../../shared/types/firestore';
+import { PointsService, type PointTransactionRecord } from '../../../shared/services/pointsService';
+import PointsHistoryList from '../../../shared/components/PointsHistoryList';
+
+interface PointsAdjustmentModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    user: (FirestoreUser & { id: string }) | null;
+    onPointsChanged?: () => void;
+}
+
+type AdjustmentAction = 'grant' | 'bonus' | 'revoke';
+
+export default function PointsAdjustmentModal({ isOpen, onClose, user, onPointsChanged }: PointsAdjustmentModalProps) {
+    const [action, setAction] = useState<AdjustmentAction>('grant');
+    const [amount, setAmount] = useState('');
+    const [reason, setReason] = useState('');
+    const [revoking, setRevoking] = useState<PointTransactionRecord | null>(null);
+    const [totals, setTotals] = useState({ points: 0, eventsAttended: 0 });
+    const [transactions, setTransactions] = useState<PointTransactionRecord[]>([]);
+    const [loadingHistory, setLoadingHistory] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadHistory = async (userId: string) => {
+        setLoadingHistory(true);
+        try {
+            setTransactions(await PointsService.getUserTransactions(userId));
+        } catch (error) {
+            console.error('Error fetching points history:', error);
+            setError('Failed to load points history');
+        } finally {
+            setLoadingHistory(false);
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen && user) {
+            setAction('grant');
+            setAmount('');
+            setReason('');
+            setRevoking(null);
+            setError(null);
+            setTotals({ points: user.points || 0, eventsAttended: user.eventsAttended || 0 });
+            loadHistory(user.id);
+        }
+    }, [isOpen, user?.id]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+
+        const points = Math.abs(parseInt(amount, 10));
+        if (!revoking && (!points || Number.isNaN(points))) {
+            setError('Enter a whole number of points');
+            return;
+        }
+
+        setSaving(true);
+        setError(null);
+        try {
+            const result = await PointsService.recordTransaction(revoking ? {
+                userId: user.id,
+                type: 'revocation',
+                reason,
+                revokesTransactionId: revoking.id
+            } : {
+                userId: user.id,
+                type: action === 'grant' ? 'adjustment' : action === 'bonus' ? 'bonus' : 'revocation',
+                points: action === 'revoke' ? -points : points,
+                reason
+            });
+            setTotals({ points: result.totalPoints, eventsAttended: result.eventsAttended });
+            setAmount('');
+            setReason('');
+            setRevoking(null);
+            onPointsChanged?.();
+            await loadHistory(user.id);
+        } catch (error) {
+            setError(error instanceof Error ? error.message : 'Failed to update points');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (!isOpen || !user) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] flex flex-col">
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                    <div>
+                        <h3 className="text-lg font-medium text-gray-900">Manage Points</h3>
+                        <p className="text-sm text-gray-500">
+                            {user.name} · {totals.points} points · {totals.eventsAttended} events
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-600"
+                    >
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto">
+                    <form onSubmit={handleSubmit} className="p-6 space-y-4 border-b border-gray-200">
+                        {revoking ? (
+                            <div className="flex items-start justify-between gap-3 bg-red-50 border border-red-200 rounded-lg p-3">
+                                <p className="text-sm text-red-700">
+                                    Revoking {revoking.points} points: {revoking.reason}
+                                </p>
+                                <button
+                                    type="button"
+                                    onClick={() => setRevoking(null)}
+                                    className="text-sm text-red-700 hover:text-red-900 underline"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Action
+                                    </label>
+                                    <select
+                                        value={action}
+                                        onChange={(e) => setAction(e.target.value as AdjustmentAction)}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                    >
+                                        <option value="grant">Grant points</option>
+                                        <option value="bonus">Award bonus</option>
+                                        <option value="revoke">Revoke points</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Points
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        step="1"
+                                        value={amount}
+                                        onChange={(e) => setAmount(e.target.value)}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                        required
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Reason
+                            </label>
+                            <textarea
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                rows={2}
+                                maxLength={500}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                placeholder="Shown to the member in their points history"
+                                required
+                            />
+                        </div>
+
+                        {error && (
+                            <p className="text-sm text-red-600">{error}</p>
+                        )}
+
+                        <div className="flex justify-end space-x-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                            >
+                                Close
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={saving || !reason.trim()}
+                                className={`px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 ${revoking || action === 'revoke' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+                            >
+                                {saving ? 'Saving...' : revoking || action === 'revoke' ? 'Revoke Points' : 'Add Points'}
+                            </button>
+                        </div>
+                    </form>
+
+                    <div className="px-6 py-4">
+                        <h4 className="text-sm font-medium text-gray-900 mb-2">History</h4>
+                        {loadingHistory ? (
+                            <p className="text-sm text-gray-500 text-center py-6">Loading history...</p>
+                        ) : (
+                            <PointsHistoryList
+                                transactions={transactions}
+                                onRevoke={(transaction) => {
+                                    setRevoking(transaction);
+                                    setError(null);
+                                }}
+                            />
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
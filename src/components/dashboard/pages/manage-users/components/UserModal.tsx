@@ -11,7 +11,6 @@ interface UserModalProps {
     availableRoles: UserRole[];
     canEditRole: boolean;
     canEditPosition: boolean;
-    canEditPoints: boolean;
     canManageEmails?: boolean;
     onEmailAction?: (action: 'disable' | 'enable' | 'delete', userId: string, email?: string) => Promise<void>;
     loading?: boolean;
@@ -25,7 +24,6 @@ export default function UserModal({
     availableRoles,
     canEditRole,
     canEditPosition,
-    canEditPoints,
     canManageEmails = false,
     onEmailAction,
     loading = false
@@ -39,8 +37,7 @@ export default function UserModal({
         pid: '',
         memberId: '',
         major: '',
-        graduationYear: undefined,
-        points: 0
+        graduationYear: undefined
     });
 
     // Email management state
@@ -67,8 +64,7 @@ export default function UserModal({
                 pid: '',
                 memberId: '',
                 major: '',
-                graduationYear: undefined,
-                points: 0
+                graduationYear: undefined
             });
         }
     }, [editingUser, isOpen]);
@@ -316,25 +312,6 @@ export default function UserModal({
                         </div>
                     </div>
 
-                    {/* Points (Admin only) */}
-                    {canEditPoints && (
-                        <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-2">
-                                Points
-                            </label>
-                            <input
-                                type="number"
-                                value={formData.points || 0}
-                                onChange={(e) => handleInputChange('points', parseInt(e.target.value) || 0)}
-                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                                min="0"
-                            />
-                            <p className="text-xs text-gray-500 mt-1">
-                                Only administrators can modify points
-                            </p>
-                        </div>
-                    )}
-
                     {/* IEEE Email Management (Admin only) */}
                     {canManageEmails && editingUser && (
                         <div className="border-t border-gray-200 pt-6">
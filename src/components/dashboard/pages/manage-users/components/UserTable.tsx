@@ -1,5 +1,5 @@
 import React from 'react';
-import { Edit, Trash2, ChevronUp, ChevronDown, ChevronsUpDown, CheckCircle, Clock, XCircle, AlertCircle } from 'lucide-react';
+import { Edit, Trash2, Coins, ChevronUp, ChevronDown, ChevronsUpDown, CheckCircle, Clock, XCircle, AlertCircle } from 'lucide-react';
 import type { User as FirestoreUser } from '../../../shared/types/firestore';
 import type { SortConfig, UserPermissions } from '../types/UserManagementTypes';
 import { UserDisplayService } from '../utils/userFiltering';
@@ -10,6 +10,7 @@ interface UserTableProps {
     onSort: (field: string) => void;
     onEditUser: (user: FirestoreUser & { id: string }) => void;
     onDeleteUser: (userId: string) => void;
+    onManagePoints: (user: FirestoreUser & { id: string }) => void;
     permissions: UserPermissions;
     currentUserId?: string;
 }
@@ -20,6 +21,7 @@ export default function UserTable({
     onSort,
     onEditUser,
     onDeleteUser,
+    onManagePoints,
     permissions,
     currentUserId
 }: UserTableProps) {
@@ -161,6 +163,16 @@ export default function UserTable({
                                             </button>
                                         )}
                                         
+                                        {permissions.canAdjustPoints(user) && (
+                                            <button
+                                                onClick={() => onManagePoints(user)}
+                                                className="text-yellow-600 hover:text-yellow-800 p-1 rounded hover:bg-yellow-50"
+                                                title="Manage points"
+                                            >
+                                                <Coins className="w-4 h-4" />
+                                            </button>
+                                        )}
+
                                         {permissions.canDeleteUser(user) && (
                                             <button
                                                 onClick={() => onDeleteUser(user.id)}
@@ -24,6 +24,13 @@ import type {
 import { UserFilteringService } from "../utils/userFiltering";
 import { UserPermissionService } from "../utils/userPermissions";
 import { PublicProfileService } from "../../../shared/services/publicProfile";
+import { EmailClient } from "../../../../../scripts/email/EmailClient";
+
+const OFFICER_ROLES: UserRole[] = [
+  "General Officer",
+  "Executive Officer",
+  "Administrator",
+];
 
 export const useUserManagement = () => {
   const [user, userLoading, userError] = useAuthState(auth);
@@ -179,14 +186,6 @@ export const useUserManagement = () => {
         updatedAt: new Date(),
       };
 
-      // Only administrators can modify points
-      if (
-        currentUserRole === "Administrator" &&
-        userData.points !== undefined
-      ) {
-        updateData.points = userData.points;
-      }
-
       await updateDoc(userRef, updateData);
 
       // Sync to public profile
@@ -196,13 +195,6 @@ export const useUserManagement = () => {
           position: userData.position || "",
         };
 
-        if (
-          currentUserRole === "Administrator" &&
-          userData.points !== undefined
-        ) {
-          publicProfileData.points = userData.points;
-        }
-
         await PublicProfileService.syncPublicProfile(
           userData.id,
           publicProfileData,
@@ -211,6 +203,33 @@ export const useUserManagement = () => {
         console.error("Error syncing public profile:", error);
       }
 
+      // Let the user know about role, position and status changes. Email
+      // failures are logged but don't undo the update.
+      const previousPosition = targetUser.position || "";
+      const previousStatus = targetUser.status || "active";
+      if (
+        targetUser.role !== userData.role ||
+        previousPosition !== (userData.position || "")
+      ) {
+        EmailClient.notifyOfficerRoleChange(
+          userData.id,
+          targetUser.role,
+          previousPosition,
+          !OFFICER_ROLES.includes(targetUser.role) &&
+            OFFICER_ROLES.includes(userData.role),
+        ).catch((error) =>
+          console.error("Error sending role change notification:", error),
+        );
+      }
+      if (previousStatus !== userData.status) {
+        EmailClient.notifyOfficerStatusChange(
+          userData.id,
+          previousStatus,
+        ).catch((error) =>
+          console.error("Error sending status change notification:", error),
+        );
+      }
+
       setSuccess("User updated successfully");
       await fetchUsers();
     } catch (error) {
@@ -340,6 +359,18 @@ export const useUserManagement = () => {
         console.error("Error syncing public profile:", error);
       }
 
+      if (member) {
+        EmailClient.notifyOfficerRoleChange(
+          memberId,
+          member.role,
+          member.position || "",
+          !OFFICER_ROLES.includes(member.role) &&
+            OFFICER_ROLES.includes(newRole),
+        ).catch((error) =>
+          console.error("Error sending role change notification:", error),
+        );
+      }
+
       setSuccess("Member added successfully");
       await fetchUsers();
     } catch (error) {
@@ -396,6 +427,12 @@ export const useUserManagement = () => {
         ),
       canDeleteUser: (targetUser: FirestoreUser & { id: string }) =>
         UserPermissionService.canDeleteUser(currentUserRole, targetUser),
+      canAdjustPoints: (targetUser: FirestoreUser & { id: string }) =>
+        UserPermissionService.canAdjustPoints(
+          currentUserRole,
+          targetUser,
+          currentUser?.id,
+        ),
       isOAuthUser: (targetUserId: string) =>
         UserPermissionService.isOAuthUser(targetUserId, users, user),
       // Email management permissions
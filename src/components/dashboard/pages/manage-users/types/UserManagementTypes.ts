@@ -11,7 +11,6 @@ export interface UserModalData {
   memberId?: string;
   major?: string;
   graduationYear?: number;
-  points?: number;
   // IEEE Email fields
   hasIEEEEmail?: boolean;
   ieeeEmail?: string;
@@ -65,6 +64,7 @@ export interface UserPermissions {
   canEditUserRole: (targetUser: any) => boolean;
   canEditUserPosition: (targetUser: any) => boolean;
   canDeleteUser: (targetUser: any) => boolean;
+  canAdjustPoints: (targetUser: any) => boolean;
   isOAuthUser: (targetUserId: string) => boolean;
 }
 
@@ -91,6 +91,19 @@ export class UserPermissionService {
     return this.hasUserManagementAccess(currentUserRole);
   }
 
+  static canAdjustPoints(
+    currentUserRole: UserRole,
+    targetUser: FirestoreUser & { id: string },
+    currentUserId?: string,
+  ): boolean {
+    // Nobody can grant or revoke their own points
+    if (targetUser.id === currentUserId) {
+      return false;
+    }
+
+    return this.hasUserManagementAccess(currentUserRole);
+  }
+
   static canInviteWithRole(
     currentUserRole: UserRole,
     inviteRole: UserRole,
@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { Bell, Calendar, CreditCard, ClipboardCheck, UserPlus, Info, FileText, CheckCheck } from 'lucide-react';
+import { getFirestore, collection, query, where, orderBy, limit, onSnapshot } from 'firebase/firestore';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { auth } from '../../../../firebase/client';
+import DashboardHeader from '../../shared/DashboardHeader';
+import { NotificationService } from '../../shared/services/notificationService';
+import { NotificationListSkeleton } from '../../../ui/loading';
+import type { Notification as NotificationDoc, NotificationType } from '../../shared/types/firestore';
+
+interface Notification extends NotificationDoc {
+    id: string;
+}
+
+const PAGE_SIZE = 50;
+
+const TYPE_OPTIONS: { value: NotificationType; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+    { value: 'event', label: 'New events', icon: Calendar },
+    { value: 'event_request', label: 'Event requests', icon: FileText },
+    { value: 'reimbursement', label: 'Reimbursements', icon: CreditCard },
+    { value: 'audit', label: 'Audits', icon: ClipboardCheck },
+    { value: 'invite', label: 'Invites', icon: UserPlus },
+    { value: 'system', label: 'System', icon: Info },
+];
+
+export default function NotificationsContent() {
+    const [user] = useAuthState(auth);
+    const [notifications, setNotifications] = useState<Notification[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [pageLimit, setPageLimit] = useState(PAGE_SIZE);
+    const [hasMore, setHasMore] = useState(false);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [typeFilter, setTypeFilter] = useState<NotificationType | 'all'>('all');
+    const [readFilter, setReadFilter] = useState<'all' | 'unread' | 'read'>('all');
+    const [markingAll, setMarkingAll] = useState(false);
+
+    const db = getFirestore();
+
+    useEffect(() => {
+        if (!user) return;
+
+        const notificationsQuery = query(
+            collection(db, 'notifications'),
+            where('userId', '==', user.uid),
+            orderBy('createdAt', 'desc'),
+            limit(pageLimit)
+        );
+
+        const unsubscribe = onSnapshot(
+            notificationsQuery,
+            (snapshot) => {
+                setNotifications(snapshot.docs.map(doc => ({
+                    id: doc.id,
+                    ...doc.data()
+                })) as Notification[]);
+                setHasMore(snapshot.size === pageLimit);
+                setLoading(false);
+            },
+            (error) => {
+                console.error('Error fetching notifications:', error);
+                setError('Failed to load notifications');
+                setLoading(false);
+            }
+        );
+
+        return () => unsubscribe();
+    }, [user, db, pageLimit]);
+
+    const filteredNotifications = notifications.filter(notification => {
+        if (typeFilter !== 'all' && notification.type !== typeFilter) return false;
+        if (readFilter === 'unread' && notification.read) return false;
+        if (readFilter === 'read' && !notification.read) return false;
+        if (searchTerm) {
+            const term = searchTerm.toLowerCase();
+            return notification.title.toLowerCase().includes(term) ||
+                notification.message.toLowerCase().includes(term);
+        }
+        return true;
+    });
+
+    const unreadCount = notifications.filter(notification => !notification.read).length;
+
+    const handleNotificationClick = async (notification: Notification) => {
+        try {
+            if (!notification.read) {
+                await NotificationService.markAsRead(notification.id);
+            }
+        } catch (error) {
+            console.error('Error marking notification as read:', error);
+        }
+        if (notification.link) {
+            window.location.href = notification.link;
+        }
+    };
+
+    const handleMarkAllRead = async () => {
+        if (!user) return;
+        setMarkingAll(true);
+        try {
+            await NotificationService.markAllAsRead(user.uid);
+        } catch (error) {
+            console.error('Error marking notifications as read:', error);
+            setError('Failed to mark notifications as read');
+        } finally {
+            setMarkingAll(false);
+        }
+    };
+
+    const formatTimestamp = (value: any) => {
+        const date = value?.toDate ? value.toDate() : null;
+        return date ? date.toLocaleString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit'
+        }) : 'Just now';
+    };
+
+    return (
+        <div className="flex-1 overflow-auto">
+            <DashboardHeader
+                title="Notifications"
+                subtitle="Updates about your events, reimbursements and account"
+                searchPlaceholder="Search notifications..."
+                searchValue={searchTerm}
+                onSearchChange={setSearchTerm}
+            />
+
+            <main className="p-4 md:p-6">
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+                    <div className="px-4 md:px-6 py-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                        <div className="flex flex-col sm:flex-row gap-3">
+                            <select
+                                value={typeFilter}
+                                onChange={(e) => setTypeFilter(e.target.value as NotificationType | 'all')}
+                                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="all">All types</option>
+                                {TYPE_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={readFilter}
+                                onChange={(e) => setReadFilter(e.target.value as 'all' | 'unread' | 'read')}
+                                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="all">Read and unread</option>
+                                <option value="unread">Unread only</option>
+                                <option value="read">Read only</option>
+                            </select>
+                        </div>
+                        <button
+                            onClick={handleMarkAllRead}
+                            disabled={markingAll || unreadCount === 0}
+                            className="flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 text-sm"
+                        >
+                            <CheckCheck className="w-4 h-4" />
+                            <span>{markingAll ? 'Marking...' : 'Mark all as read'}</span>
+                        </button>
+                    </div>
+
+                    {error && (
+                        <div className="mx-4 md:mx-6 mt-4 bg-red-50 border border-red-200 rounded-lg p-4">
+                            <p className="text-red-700">{error}</p>
+                        </div>
+                    )}
+
+                    {loading ? (
+                        <div className="p-4 md:p-6">
+                            <NotificationListSkeleton items={5} />
+                        </div>
+                    ) : filteredNotifications.length === 0 ? (
+                        <div className="p-10 text-center">
+                            <Bell className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                            <p className="text-gray-500">
+                                {notifications.length === 0 ? "You don't have any notifications yet" : 'No notifications match the current filters'}
+                            </p>
+                        </div>
+                    ) : (
+                        <ul className="divide-y divide-gray-100">
+                            {filteredNotifications.map(notification => {
+                                const Icon = TYPE_OPTIONS.find(option => option.value === notification.type)?.icon || Info;
+                                return (
+                                    <li
+                                        key={notification.id}
+                                        onClick={() => handleNotificationClick(notification)}
+                                        className={`flex items-start space-x-4 px-4 md:px-6 py-4 cursor-pointer hover:bg-gray-50 transition-colors ${!notification.read ? 'bg-blue-50' : ''}`}
+                                    >
+                                        <div className={`w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0 ${!notification.read ? 'bg-blue-100' : 'bg-gray-100'}`}>
+                                            <Icon className={`w-5 h-5 ${!notification.read ? 'text-blue-600' : 'text-gray-500'}`} />
+                                        </div>
+                                        <div className="min-w-0 flex-1">
+                                            <div className="flex items-start justify-between gap-3">
+                                                <h3 className={`text-sm ${!notification.read ? 'font-semibold text-gray-900' : 'font-medium text-gray-700'}`}>
+                                                    {notification.title}
+                                                </h3>
+                                                <span className="text-xs text-gray-400 whitespace-nowrap">{formatTimestamp(notification.createdAt)}</span>
+                                            </div>
+                                            <p className="text-sm text-gray-600 mt-1">{notification.message}</p>
+                                        </div>
+                                        {!notification.read && (
+                                            <span className="w-2 h-2 bg-blue-600 rounded-full mt-2 flex-shrink-0" aria-label="Unread" />
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+
+                    {!loading && hasMore && (
+                        <div className="p-4 border-t border-gray-200 text-center">
+                            <button
+                                onClick={() => setPageLimit(prev => prev + PAGE_SIZE)}
+                                className="text-sm text-blue-600 hover:text-blue-800"
+                            >
+                                Load older notifications
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -5,6 +5,7 @@ import { db } from '../../../../firebase/client';
 import { useAuthState } from 'react-firebase-hooks/auth';
 import { auth } from '../../../../firebase/client';
 import DashboardHeader from '../../shared/DashboardHeader';
+import { ReportsSection } from '../../shared/ReportsSection';
 import type { User as UserType } from '../../shared/types/firestore';
 import { MetricCardSkeleton, EventCardSkeleton, ListSkeleton, EventListSkeleton } from '../../../ui/loading';
 
@@ -337,6 +338,11 @@ export default function OverviewContent() {
                         </div>
                     </div>
 
+                    {/* Reports (executive officers only) */}
+                    {(userData?.role === 'Executive Officer' || userData?.role === 'Administrator') && (
+                        <ReportsSection />
+                    )}
+
                     {/* Two Column Layout */}
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6">
                         {/* Upcoming Events */}
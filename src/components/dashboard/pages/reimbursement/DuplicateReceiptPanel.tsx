@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from 'react';
+import { Copy, ExternalLink } from 'lucide-react';
+import { DUPLICATE_REASON_LABELS } from '../../../../lib/receiptDuplicates';
+import { findSuspectedDuplicates, type DuplicateMatch } from './utils/duplicateReceiptUtils';
+
+interface DuplicateReceiptPanelProps {
+    reimbursement: any;
+}
+
+// Other reimbursements and event invoices that may be the same purchase
+export default function DuplicateReceiptPanel({ reimbursement }: DuplicateReceiptPanelProps) {
+    const [matches, setMatches] = useState<DuplicateMatch[]>([]);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        if (!reimbursement?.id) return;
+
+        let cancelled = false;
+        setLoading(true);
+        findSuspectedDuplicates(reimbursement.id, reimbursement)
+            .then(found => {
+                if (!cancelled) setMatches(found);
+            })
+            .catch(error => console.error('Error checking for duplicate receipts:', error))
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [reimbursement?.id]);
+
+    if (loading || matches.length === 0) return null;
+
+    const certain = matches.some(match => match.reasons.includes('same_file'));
+
+    return (
+        <div className={`rounded-lg p-4 border ${certain ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+            <div className="flex items-start">
+                <Copy className={`w-5 h-5 mr-2 mt-0.5 flex-shrink-0 ${certain ? 'text-red-600' : 'text-amber-600'}`} />
+                <div className="flex-1">
+                    <h4 className={`font-medium ${certain ? 'text-red-800' : 'text-amber-800'}`}>
+                        {matches.length} Suspected {matches.length === 1 ? 'Duplicate' : 'Duplicates'}
+                    </h4>
+                    <p className={`text-sm mt-1 ${certain ? 'text-red-700' : 'text-amber-700'}`}>
+                        Make sure this purchase hasn't already been reimbursed or paid through an event invoice.
+                    </p>
+                    <ul className="mt-3 space-y-2">
+                        {matches.map(match => (
+                            <li key={`${match.source}-${match.id}`} className="bg-white border border-gray-100 rounded p-3 text-sm">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-medium text-gray-900">{match.title}</span>
+                                    <a
+                                        href={match.href}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="flex items-center text-blue-600 hover:text-blue-800 flex-shrink-0"
+                                    >
+                                        View <ExternalLink className="w-3 h-3 ml-1" />
+                                    </a>
+                                </div>
+                                <p className="text-gray-600 mt-1">
+                                    {match.source === 'reimbursement' ? 'Reimbursement' : 'Event invoice'}
+                                    {match.vendor && ` · ${match.vendor}`}
+                                    {` · $${match.amount.toFixed(2)}`}
+                                    {match.date && ` · ${match.date.toLocaleDateString()}`}
+                                </p>
+                                <div className="flex flex-wrap gap-1 mt-2">
+                                    {match.reasons.map(reason => (
+                                        <span
+                                            key={reason}
+                                            className={`px-2 py-0.5 text-xs rounded-full ${reason === 'same_file' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'}`}
+                                        >
+                                            {DUPLICATE_REASON_LABELS[reason]}
+                                        </span>
+                                    ))}
+                                    {match.status && (
+                                        <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700 capitalize">
+                                            {match.status.replace('_', ' ')}
+                                        </span>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { X, Check, XCircle, CreditCard, MessageCircle, Upload, Calendar, Building, UserCheck } from 'lucide-react';
+import { X, Check, XCircle, CreditCard, MessageCircle, Upload, Calendar, Building, UserCheck, ClipboardCheck } from 'lucide-react';
 import { Button } from '../../../ui/button';
 import { Input } from '../../../ui/input';
 import { Label } from '../../../ui/label';
@@ -8,20 +8,31 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { collection, query, where, getDocs, doc, getDoc } from 'firebase/firestore';
 import { db, auth } from '../../../../firebase/client';
 import { useAuthState } from 'react-firebase-hooks/auth';
+import { REIMBURSEMENT_TRANSITIONS, getTransitionPath, isReimbursementStatus, type ReimbursementStatus } from '../../../../lib/reimbursementStatus';
+import { getOverrideRequirement, type PolicyViolation, type ReimbursementPolicy } from '../../../../lib/reimbursementPolicy';
+import { LEDGER_ACCOUNTS, LEDGER_ACCOUNT_LABELS, DEFAULT_LEDGER_ACCOUNT, type LedgerAccount } from '../../../../lib/treasuryLedger';
+import DuplicateReceiptPanel from './DuplicateReceiptPanel';
 
 interface ReimbursementAuditModalProps {
     reimbursement: any;
     onClose: () => void;
-    onUpdate: (id: string, status: string, auditNote?: string, paymentInfo?: any) => void;
+    // Resolves to false when the update was rejected
+    onUpdate: (id: string, status: ReimbursementStatus, auditNote?: string, paymentInfo?: any, auditorId?: string, overrideReason?: string) => Promise<boolean>;
+    onCompleteAudit?: (id: string, auditResult: 'approved' | 'needs_changes', auditNotes: string) => void;
+    // Current reimbursement policy, used to decide whether approval needs an override
+    policy: ReimbursementPolicy;
 }
 
-export default function ReimbursementAuditModal({ reimbursement, onClose, onUpdate }: ReimbursementAuditModalProps) {
+export default function ReimbursementAuditModal({ reimbursement, onClose, onUpdate, onCompleteAudit, policy }: ReimbursementAuditModalProps) {
     const [user] = useAuthState(auth);
-    const [action, setAction] = useState<'review' | 'approve' | 'approve_paid' | 'decline' | 'request_audit'>('review');
+    const [action, setAction] = useState<'review' | 'approve' | 'approve_paid' | 'decline' | 'request_audit' | 'complete_audit'>('review');
+    const [auditResult, setAuditResult] = useState<'approved' | 'needs_changes'>('approved');
     const [auditNote, setAuditNote] = useState('');
+    const [overrideReason, setOverrideReason] = useState('');
     const [paymentInfo, setPaymentInfo] = useState({
         confirmationNumber: '',
-        photoAttachment: null as File | null
+        photoAttachment: null as File | null,
+        ledgerAccount: DEFAULT_LEDGER_ACCOUNT as LedgerAccount
     });
     const [executives, setExecutives] = useState<any[]>([]);
     const [selectedAuditor, setSelectedAuditor] = useState('');
@@ -41,7 +52,7 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
 
                 // Fetch executives for audit requests
                 if (action === 'request_audit') {
-                    const q = query(collection(db, 'users'), where('role', '==', 'Executive Officer'));
+                    const q = query(collection(db, 'users'), where('role', 'in', ['Executive Officer', 'Administrator']));
                     const querySnapshot = await getDocs(q);
                     const executivesList = querySnapshot.docs.map(doc => ({
                         id: doc.id,
@@ -57,10 +68,33 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
         fetchData();
     }, [action, user]);
 
+    // An audit assigned to the current user that they have not completed yet
+    const hasPendingAudit = !!onCompleteAudit && (reimbursement.auditRequests || []).some(
+        (request: any) => request.auditorId === user?.uid && request.status === 'pending'
+    );
+
+    // Only actions the status workflow allows from the current status are offered
+    const canMoveTo = (status: ReimbursementStatus) =>
+        isReimbursementStatus(reimbursement.status) && !!getTransitionPath(reimbursement.status, status);
+    // Further audits can be requested while a request is already under review
+    const canRequestAudit = reimbursement.status === 'under_review' ||
+        REIMBURSEMENT_TRANSITIONS[reimbursement.status as ReimbursementStatus]?.includes('under_review');
+
+    // Flagged requests, or ones that break the current policy, need an executive
+    // override reason the first time they are approved
+    const override = getOverrideRequirement(reimbursement, policy);
+    const needsOverride = override.required && (action === 'approve' || action === 'approve_paid');
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
-        let newStatus = reimbursement.status;
+        if (action === 'complete_audit') {
+            onCompleteAudit?.(reimbursement.id, auditResult, auditNote.trim());
+            onClose();
+            return;
+        }
+
+        let newStatus: ReimbursementStatus = reimbursement.status;
         let note = auditNote.trim();
         let payment = undefined;
 
@@ -74,7 +108,8 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
                 if (!note) note = 'Request approved and marked as paid';
                 payment = {
                     confirmationNumber: paymentInfo.confirmationNumber,
-                    photoAttachment: paymentInfo.photoAttachment ? paymentInfo.photoAttachment.name : null
+                    photoAttachment: paymentInfo.photoAttachment ? paymentInfo.photoAttachment.name : null,
+                    ledgerAccount: paymentInfo.ledgerAccount
                 };
                 break;
             case 'decline':
@@ -82,45 +117,8 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
                 if (!note) note = 'Request declined';
                 break;
             case 'request_audit':
-                if (selectedAuditor) {
-                    // Send audit request email
-                    try {
-                        console.log('Sending audit request email with data:', {
-                            type: 'audit_request',
-                            reimbursementId: reimbursement.id,
-                            auditorId: selectedAuditor,
-                            requestNote: note
-                        });
-
-                        const response = await fetch('/api/email/send-reimbursement-notification', {
-                            method: 'POST',
-                            headers: {
-                                'Content-Type': 'application/json',
-                            },
-                            body: JSON.stringify({
-                                type: 'audit_request',
-                                reimbursementId: reimbursement.id,
-                                auditorId: selectedAuditor,
-                                requestNote: note
-                            }),
-                        });
-
-                        const result = await response.json();
-                        console.log('Email API response:', result);
-
-                        if (!response.ok || !result.success) {
-                            throw new Error(result.error || 'Failed to send audit request email');
-                        }
-
-                        // Update reimbursement with audit request
-                        newStatus = 'under_review';
-                        if (!note) note = 'Audit requested from another executive';
-                    } catch (error) {
-                        console.error('Failed to send audit request email:', error);
-                        alert(`Failed to send audit request: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`);
-                        return;
-                    }
-                }
+                newStatus = 'under_review';
+                if (!note) note = 'Audit requested from another executive';
                 break;
             case 'review':
                 if (note) {
@@ -129,7 +127,41 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
                 break;
         }
 
-        onUpdate(reimbursement.id, newStatus, note || undefined, payment);
+        const updated = await onUpdate(
+            reimbursement.id,
+            newStatus,
+            note || undefined,
+            payment,
+            action === 'request_audit' ? selectedAuditor : undefined,
+            needsOverride ? overrideReason.trim() : undefined
+        );
+        if (!updated) return;
+
+        // The auditor is only emailed once the audit request has been recorded
+        if (action === 'request_audit') {
+            try {
+                const response = await fetch('/api/email/send-reimbursement-notification', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({
+                        type: 'audit_request',
+                        reimbursementId: reimbursement.id,
+                        auditorId: selectedAuditor,
+                        requestNote: note
+                    }),
+                });
+                const result = await response.json().catch(() => null);
+
+                if (!response.ok || !result?.success) {
+                    throw new Error(result?.error || 'Failed to send audit request email');
+                }
+            } catch (error) {
+                console.error('Failed to send audit request email:', error);
+                alert(`The audit was requested, but the auditor could not be emailed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
         onClose();
     };
 
@@ -191,10 +223,12 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
                         </div>
                     </div>
 
+                    <DuplicateReceiptPanel reimbursement={reimbursement} />
+
                     {/* Action Selection */}
                     <div>
                         <Label className="text-sm font-medium text-gray-700 mb-3 block">Choose Action</Label>
-                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                        <div className={`grid grid-cols-2 ${hasPendingAudit ? 'md:grid-cols-3' : 'md:grid-cols-5'} gap-3`}>
                             <button
                                 type="button"
                                 onClick={() => setAction('review')}
@@ -207,7 +241,21 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
                                 <span className="text-sm font-medium">Add Note</span>
                             </button>
 
-                            {(reimbursement.status === 'submitted' || reimbursement.status === 'under_review') && (
+                            {hasPendingAudit && (
+                                <button
+                                    type="button"
+                                    onClick={() => setAction('complete_audit')}
+                                    className={`p-3 border-2 rounded-lg text-center transition-colors ${action === 'complete_audit'
+                                        ? 'border-amber-500 bg-amber-50 text-amber-700'
+                                        : 'border-gray-200 hover:border-gray-300'
+                                        }`}
+                                >
+                                    <ClipboardCheck className="w-5 h-5 mx-auto mb-1" />
+                                    <span className="text-sm font-medium">Complete Audit</span>
+                                </button>
+                            )}
+
+                            {canRequestAudit && (
                                 <button
                                     type="button"
                                     onClick={() => setAction('request_audit')}
@@ -221,7 +269,7 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
                                 </button>
                             )}
 
-                            {(reimbursement.status === 'submitted' || reimbursement.status === 'under_review') && (
+                            {canMoveTo('approved') && (
                                 <button
                                     type="button"
                                     onClick={() => setAction('approve')}
@@ -235,7 +283,7 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
                                 </button>
                             )}
 
-                            {(reimbursement.status === 'submitted' || reimbursement.status === 'under_review' || reimbursement.status === 'approved') && (
+                            {canMoveTo('paid') && !reimbursement.payoutBatchId && (
                                 <button
                                     type="button"
                                     onClick={() => setAction('approve_paid')}
@@ -249,7 +297,7 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
                                 </button>
                             )}
 
-                            {(reimbursement.status === 'submitted' || reimbursement.status === 'under_review') && (
+                            {canMoveTo('declined') && (
                                 <button
                                     type="button"
                                     onClick={() => setAction('decline')}
@@ -289,10 +337,53 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
                         </div>
                     )}
 
+                    {/* Audit Result (only for 'complete_audit' action) */}
+                    {action === 'complete_audit' && (
+                        <div>
+                            <Label className="text-sm font-medium text-gray-700">Audit Result *</Label>
+                            <Select value={auditResult} onValueChange={(value) => setAuditResult(value as 'approved' | 'needs_changes')}>
+                                <SelectTrigger className="w-full mt-1">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="approved">Approved - no issues found</SelectItem>
+                                    <SelectItem value="needs_changes">Needs changes</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    {/* Executive Override (flagged requests only) */}
+                    {needsOverride && (
+                        <div className="p-4 bg-amber-50 rounded-lg border border-amber-200">
+                            <Label htmlFor="overrideReason" className="text-sm font-medium text-amber-900">
+                                Executive Override Reason *
+                            </Label>
+                            <p className="text-sm text-amber-700 mt-1 mb-2">
+                                This request was flagged for executive review or breaks the current reimbursement policy. Explain why it should be approved anyway.
+                            </p>
+                            {override.violations.length > 0 && (
+                                <ul className="mb-2 space-y-1 text-sm text-amber-800 list-disc list-inside">
+                                    {override.violations.map((violation: PolicyViolation, index: number) => (
+                                        <li key={index}>{violation.message}</li>
+                                    ))}
+                                </ul>
+                            )}
+                            <Textarea
+                                id="overrideReason"
+                                value={overrideReason}
+                                onChange={(e) => setOverrideReason(e.target.value)}
+                                placeholder="Reason for approving this flagged request..."
+                                rows={2}
+                            />
+                        </div>
+                    )}
+
                     {/* Audit Note */}
                     <div>
                         <Label htmlFor="auditNote" className="text-sm font-medium text-gray-700">
                             {action === 'decline' ? 'Reason for Decline *' :
+                                action === 'complete_audit' ? (auditResult === 'needs_changes' ? 'Required Changes *' : 'Audit Notes') :
                                 action === 'approve' ? 'Approval Notes' :
                                     action === 'request_audit' ? 'Request Message' :
                                         'Audit Notes'}
@@ -336,6 +427,25 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
                                 />
                             </div>
 
+                            <div>
+                                <Label className="text-sm font-medium text-gray-700">
+                                    Paid From Account
+                                </Label>
+                                <Select
+                                    value={paymentInfo.ledgerAccount}
+                                    onValueChange={(value) => setPaymentInfo({ ...paymentInfo, ledgerAccount: value as LedgerAccount })}
+                                >
+                                    <SelectTrigger className="w-full mt-1">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {LEDGER_ACCOUNTS.map(account => (
+                                            <SelectItem key={account} value={account}>{LEDGER_ACCOUNT_LABELS[account]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
                             <div>
                                 <Label className="text-sm font-medium text-gray-700">
                                     Payment Confirmation Photo
@@ -403,7 +513,7 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
                         </Button>
                         <Button
                             type="submit"
-                            disabled={(action === 'decline' && !auditNote.trim()) || (action === 'request_audit' && !selectedAuditor)}
+                            disabled={(action === 'decline' && !auditNote.trim()) || (needsOverride && !overrideReason.trim()) || (action === 'request_audit' && !selectedAuditor) || (action === 'complete_audit' && auditResult === 'needs_changes' && !auditNote.trim())}
                             className={
                                 action === 'approve'
                                     ? 'bg-green-600 hover:bg-green-700'
@@ -413,7 +523,9 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
                                             ? 'bg-emerald-600 hover:bg-emerald-700'
                                             : action === 'request_audit'
                                                 ? 'bg-purple-600 hover:bg-purple-700'
-                                                : 'bg-blue-600 hover:bg-blue-700'
+                                                : action === 'complete_audit'
+                                                    ? 'bg-amber-600 hover:bg-amber-700'
+                                                    : 'bg-blue-600 hover:bg-blue-700'
                             }
                         >
                             {action === 'review' && 'Add Note'}
@@ -421,6 +533,7 @@ export default function ReimbursementAuditModal({ reimbursement, onClose, onUpda
                             {action === 'decline' && 'Decline Request'}
                             {action === 'approve_paid' && 'Approve & Mark Paid'}
                             {action === 'request_audit' && 'Send Audit Request'}
+                            {action === 'complete_audit' && 'Submit Audit'}
                         </Button>
                     </div>
                 </form>
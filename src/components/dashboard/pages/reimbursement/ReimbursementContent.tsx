@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Search, Calendar, Bell, User, Plus, Filter, DollarSign, Receipt, Clock, CheckCircle, XCircle, AlertCircle, FileText, Eye } from 'lucide-react';
-import { collection, query, where, orderBy, onSnapshot, addDoc, Timestamp } from 'firebase/firestore';
+import { collection, query, where, orderBy, onSnapshot } from 'firebase/firestore';
 import { db } from '../../../../firebase/client';
 import { useAuthState } from 'react-firebase-hooks/auth';
 import { auth } from '../../../../firebase/client';
@@ -8,13 +8,16 @@ import DashboardHeader from '../../shared/DashboardHeader';
 import ReimbursementRequestModal from './ReimbursementRequestModal';
 import ReimbursementDetailModal from './ReimbursementDetailModal';
 import { ReimbursementListSkeleton, MetricCardSkeleton } from '../../../ui/loading';
+import { updateReimbursementStatus } from './utils/reimbursementStatusUtils';
+import { submitReimbursement } from './utils/reimbursementSubmitUtils';
+import type { ReimbursementStatus } from '../../../../lib/reimbursementStatus';
 
 interface Reimbursement {
     id: string;
     title: string;
     totalAmount: number;
     dateOfPurchase: string;
-    status: 'submitted' | 'declined' | 'approved' | 'paid';
+    status: ReimbursementStatus;
     submittedBy: string;
     department: string;
     businessPurpose: string;
@@ -27,7 +30,8 @@ const getStatusColor = (status: string) => {
     switch (status) {
         case 'submitted':
             return 'bg-yellow-100 text-yellow-800';
-
+        case 'under_review':
+            return 'bg-blue-100 text-blue-800';
         case 'approved':
             return 'bg-green-100 text-green-800';
         case 'paid':
@@ -43,7 +47,8 @@ const getStatusIcon = (status: string) => {
     switch (status) {
         case 'submitted':
             return <AlertCircle className="w-4 h-4" />;
-
+        case 'under_review':
+            return <Clock className="w-4 h-4" />;
         case 'approved':
             return <CheckCircle className="w-4 h-4" />;
         case 'paid':
@@ -59,7 +64,8 @@ const getStatusDisplayName = (status: string) => {
     switch (status) {
         case 'submitted':
             return 'Submitted';
-
+        case 'under_review':
+            return 'Under Review';
         case 'approved':
             return 'Approved (Not Paid)';
         case 'paid':
@@ -103,39 +109,32 @@ export default function ReimbursementContent() {
         return () => unsubscribe();
     }, [user]);
 
-    const handleSubmitReimbursement = async (data: any) => {
-        if (!user) return;
+    const handleResubmit = async (reimbursementId: string) => {
+        if (!confirm('Resubmit this reimbursement for another review?')) return;
 
         try {
-            // Process expenses, ensuring receipt data is properly stored
-            const processedExpenses = data.expenses.map((expense: any) => ({
-                ...expense,
-                // Store the full receipt object with URL, name, size, and type
-                receipt: expense.receipt || null
-            }));
+            await updateReimbursementStatus(reimbursementId, 'submitted', { note: 'Request resubmitted' });
+            setViewReimbursement(null);
+        } catch (error) {
+            console.error('Error resubmitting reimbursement:', error);
+            alert(error instanceof Error ? error.message : 'Failed to resubmit reimbursement');
+        }
+    };
 
-            console.log('Processing reimbursement submission with expenses:', processedExpenses);
+    const handleSubmitReimbursement = async (data: any) => {
+        if (!user) return;
 
-            const docRef = await addDoc(collection(db, 'reimbursements'), {
+        try {
+            const reimbursementId = await submitReimbursement({
                 title: data.title,
-                totalAmount: data.totalAmount,
                 dateOfPurchase: data.dateOfPurchase,
                 paymentMethod: data.paymentMethod,
-                status: 'submitted',
-                submittedBy: user.uid,
                 department: data.department,
                 businessPurpose: data.businessPurpose,
                 location: data.location,
                 vendor: data.vendor,
-                expenses: processedExpenses,
-                additionalInfo: data.additionalInfo,
-                submittedAt: Timestamp.now(),
-                auditNotes: [],
-                auditLogs: [{
-                    action: 'Request submitted',
-                    createdBy: user.uid,
-                    timestamp: Timestamp.now()
-                }]
+                expenses: data.expenses,
+                additionalInfo: data.additionalInfo
             });
 
             // Send notification emails
@@ -147,7 +146,7 @@ export default function ReimbursementContent() {
                     },
                     body: JSON.stringify({
                         type: 'reimbursement_submission',
-                        reimbursementId: docRef.id
+                        reimbursementId
                     }),
                 });
             } catch (emailError) {
@@ -156,6 +155,7 @@ export default function ReimbursementContent() {
             }
         } catch (error) {
             console.error('Error submitting reimbursement:', error);
+            alert(error instanceof Error ? error.message : 'Failed to submit reimbursement');
         }
     };
 
@@ -392,6 +392,7 @@ export default function ReimbursementContent() {
                 <ReimbursementDetailModal
                     reimbursement={viewReimbursement}
                     onClose={() => setViewReimbursement(null)}
+                    onResubmit={handleResubmit}
                 />
             )}
         </div>
@@ -1,12 +1,18 @@
 import React from 'react';
-import { X, Calendar, Building, CreditCard, FileText, MapPin, User, Download, Eye, File, Image } from 'lucide-react';
+import { X, Calendar, Building, CreditCard, FileText, MapPin, User, Download, Eye, File, Image, RotateCcw, Flag } from 'lucide-react';
+import { POLICY_RULE_LABELS, type PolicyViolation } from '../../../../lib/reimbursementPolicy';
+import DuplicateReceiptPanel from './DuplicateReceiptPanel';
 
 interface ReimbursementDetailModalProps {
     reimbursement: any;
     onClose: () => void;
+    // Offered to the submitter on declined requests
+    onResubmit?: (id: string) => void;
+    // Look for suspected duplicates; needs read access to all reimbursements and event requests
+    checkDuplicates?: boolean;
 }
 
-export default function ReimbursementDetailModal({ reimbursement, onClose }: ReimbursementDetailModalProps) {
+export default function ReimbursementDetailModal({ reimbursement, onClose, onResubmit, checkDuplicates = false }: ReimbursementDetailModalProps) {
     const getStatusColor = (status: string) => {
         switch (status) {
             case 'submitted':
@@ -96,6 +102,30 @@ export default function ReimbursementDetailModal({ reimbursement, onClose }: Rei
                         </div>
                     </div>
 
+                    {checkDuplicates && <DuplicateReceiptPanel reimbursement={reimbursement} />}
+
+                    {/* Policy Flags */}
+                    {reimbursement.policyViolations?.length > 0 && (
+                        <div className={`p-4 rounded-lg border ${reimbursement.executiveOverride ? 'bg-gray-50 border-gray-200' : 'bg-red-50 border-red-200'}`}>
+                            <h4 className="flex items-center text-md font-medium text-gray-900 mb-2">
+                                <Flag className="w-4 h-4 mr-2 text-red-600" />
+                                Policy Flags
+                            </h4>
+                            <ul className="space-y-1 text-sm text-gray-700">
+                                {reimbursement.policyViolations.map((violation: PolicyViolation, index: number) => (
+                                    <li key={index}>
+                                        <span className="font-medium">{POLICY_RULE_LABELS[violation.rule]}:</span> {violation.message}
+                                    </li>
+                                ))}
+                            </ul>
+                            {reimbursement.executiveOverride && (
+                                <p className="mt-2 text-sm text-gray-600">
+                                    Approved as an exception by {reimbursement.executiveOverride.approvedByName}: {reimbursement.executiveOverride.reason}
+                                </p>
+                            )}
+                        </div>
+                    )}
+
                     {/* Organization Purpose */}
                     <div>
                         <h4 className="text-md font-medium text-gray-900 mb-2">Organization Purpose</h4>
@@ -272,6 +302,22 @@ export default function ReimbursementDetailModal({ reimbursement, onClose }: Rei
                             </div>
                         </div>
                     )}
+
+                    {/* Resubmit */}
+                    {reimbursement.status === 'declined' && onResubmit && (
+                        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 p-4 bg-red-50 border border-red-200 rounded-lg">
+                            <p className="text-sm text-red-800">
+                                This request was declined. Once you've addressed the notes above, resubmit it for another review.
+                            </p>
+                            <button
+                                onClick={() => onResubmit(reimbursement.id)}
+                                className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors flex-shrink-0"
+                            >
+                                <RotateCcw className="w-4 h-4 mr-2" />
+                                Resubmit
+                            </button>
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
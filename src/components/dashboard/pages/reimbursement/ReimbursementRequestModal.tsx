@@ -1,5 +1,5 @@
-import React, { useState, useRef } from 'react';
-import { X, Upload, Trash2, Plus, DollarSign, Calendar, MapPin, FileText, Building, CreditCard, CheckCircle } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Upload, Trash2, Plus, DollarSign, Calendar, MapPin, FileText, Building, CreditCard, CheckCircle, AlertTriangle } from 'lucide-react';
 import { Button } from '../../../ui/button';
 import { Input } from '../../../ui/input';
 import { Label } from '../../../ui/label';
@@ -7,13 +7,22 @@ import { Textarea } from '../../../ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../ui/select';
 import { ref, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
 import { storage, auth } from '../../../../firebase/client';
+import {
+    EXPENSE_CATEGORIES,
+    DEFAULT_REIMBURSEMENT_POLICY,
+    evaluateReimbursementPolicy,
+    receiptRequired,
+    type ReimbursementPolicy
+} from '../../../../lib/reimbursementPolicy';
+import { fetchReimbursementPolicy } from './utils/reimbursementPolicyUtils';
+import { hashReceiptFile } from '../../../../lib/receiptDuplicates';
 
 interface Expense {
     id: string;
     description: string;
     category: string;
     amount: number;
-    receipt?: { url: string; name: string; size: number; type: string };
+    receipt?: { url: string; name: string; size: number; type: string; hash?: string };
 }
 
 interface ReimbursementRequestModalProps {
@@ -30,17 +39,6 @@ const DEPARTMENTS = [
     { value: 'other', label: 'Other' }
 ];
 
-const EXPENSE_CATEGORIES = [
-    'Food & Beverages',
-    'Transportation',
-    'Materials & Supplies',
-    'Registration Fees',
-    'Equipment',
-    'Software/Subscriptions',
-    'Printing/Marketing',
-    'Other'
-];
-
 const PAYMENT_METHODS = [
     'Personal Credit Card',
     'Personal Debit Card',
@@ -70,8 +68,21 @@ export default function ReimbursementRequestModal({ isOpen, onClose, onSubmit }:
 
     const [errors, setErrors] = useState<Record<string, string>>({});
     const [uploadingFiles, setUploadingFiles] = useState<Set<string>>(new Set());
+    const [policy, setPolicy] = useState<ReimbursementPolicy>(DEFAULT_REIMBURSEMENT_POLICY);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    useEffect(() => {
+        if (!isOpen) return;
+
+        fetchReimbursementPolicy()
+            .then(setPolicy)
+            .catch(error => console.error('Error loading reimbursement policy:', error));
+    }, [isOpen]);
+
+    // Receipts are enforced as field errors, so only the other rules are listed as warnings
+    const policyWarnings = evaluateReimbursementPolicy({ dateOfPurchase: formData.dateOfPurchase, expenses }, policy)
+        .filter(violation => violation.rule !== 'missing_receipt');
+
     const addExpense = () => {
         const newExpense: Expense = {
             id: Date.now().toString(),
@@ -104,6 +115,9 @@ export default function ReimbursementRequestModal({ isOpen, onClose, onSubmit }:
             const fileName = `${Date.now()}_${file.name}`;
             const storageRef = ref(storage, `reimbursements/${auth.currentUser?.uid}/${fileName}`);
 
+            // Hashed so the same file can be recognized if it's submitted again
+            const hash = await hashReceiptFile(file);
+
             const uploadTask = uploadBytesResumable(storageRef, file);
             await new Promise((resolve, reject) => {
                 uploadTask.on('state_changed', null, reject, () => resolve(uploadTask.snapshot.ref));
@@ -117,7 +131,8 @@ export default function ReimbursementRequestModal({ isOpen, onClose, onSubmit }:
                 url: downloadURL,
                 name: file.name,
                 size: file.size,
-                type: file.type
+                type: file.type,
+                hash
             };
             console.log('Updating expense receipt data:', receiptData);
             updateExpense(expenseId, 'receipt', receiptData);
@@ -159,7 +174,7 @@ export default function ReimbursementRequestModal({ isOpen, onClose, onSubmit }:
             if (!expense.description.trim()) newErrors[`expense_${expense.id}_description`] = 'Description is required';
             if (!expense.category) newErrors[`expense_${expense.id}_category`] = 'Category is required';
             if (!expense.amount || expense.amount <= 0) newErrors[`expense_${expense.id}_amount`] = 'Valid amount is required';
-            if (!expense.receipt || !expense.receipt.url) newErrors[`expense_${expense.id}_receipt`] = 'Receipt is required';
+            if (receiptRequired(policy, expense.amount) && (!expense.receipt || !expense.receipt.url)) newErrors[`expense_${expense.id}_receipt`] = 'Receipt is required';
         });
 
         setErrors(newErrors);
@@ -174,9 +189,7 @@ export default function ReimbursementRequestModal({ isOpen, onClose, onSubmit }:
         const reimbursementData = {
             ...formData,
             expenses,
-            totalAmount: getTotalAmount(),
-            status: 'submitted',
-            submittedAt: new Date().toISOString()
+            totalAmount: getTotalAmount()
         };
 
         onSubmit(reimbursementData);
@@ -421,7 +434,7 @@ export default function ReimbursementRequestModal({ isOpen, onClose, onSubmit }:
                                         {/* Receipt upload full width */}
                                         <div>
                                             <Label className="text-sm font-medium text-gray-700">
-                                                Receipt <span className="text-red-500">*</span>
+                                                Receipt {receiptRequired(policy, expense.amount) && <span className="text-red-500">*</span>}
                                             </Label>
                                             <div
                                                 className={`mt-1 border-2 border-dashed rounded-md transition-colors h-32 ${expense.receipt
@@ -532,6 +545,24 @@ export default function ReimbursementRequestModal({ isOpen, onClose, onSubmit }:
                                 <span className="text-2xl font-bold text-blue-600">${getTotalAmount().toFixed(2)}</span>
                             </div>
                         </div>
+
+                        {/* Policy Warnings */}
+                        {policyWarnings.length > 0 && (
+                            <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                                <h4 className="flex items-center font-medium text-amber-800">
+                                    <AlertTriangle className="w-4 h-4 mr-2" />
+                                    This request is outside the reimbursement policy
+                                </h4>
+                                <ul className="mt-2 space-y-1 text-sm text-amber-700 list-disc list-inside">
+                                    {policyWarnings.map((violation, index) => (
+                                        <li key={index}>{violation.message}</li>
+                                    ))}
+                                </ul>
+                                <p className="mt-2 text-sm text-amber-700">
+                                    You can still submit, but an executive officer will have to approve an exception before it's paid.
+                                </p>
+                            </div>
+                        )}
                     </div>
 
                     {/* Additional Information */}
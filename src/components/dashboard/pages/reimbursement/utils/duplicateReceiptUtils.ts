@@ -0,0 +1,152 @@
+/**
+ * Looks up reimbursements and event request invoices that may be the same
+ * purchase as a given reimbursement
+ */
+
+import { collection, getDocs, query, where, type QuerySnapshot } from 'firebase/firestore';
+import { db } from '../../../../../firebase/client';
+import { NAVIGATION_PATHS } from '../../../shared/types/navigation';
+import {
+    DUPLICATE_DATE_TOLERANCE_DAYS,
+    getDuplicateReasons,
+    type DuplicateReason,
+    type ReceiptRecord
+} from '../../../../../lib/receiptDuplicates';
+
+export interface DuplicateMatch {
+    id: string;
+    source: 'reimbursement' | 'event_request';
+    title: string;
+    vendor: string;
+    amount: number;
+    date: Date | null;
+    status?: string;
+    reasons: DuplicateReason[];
+    href: string;
+}
+
+// array-contains-any accepts at most 30 values
+const MAX_HASHES_PER_QUERY = 30;
+
+const parsePurchaseDate = (value: any): Date | null => {
+    if (!value) return null;
+    const date = value.toDate ? value.toDate() : new Date(typeof value === 'string' && value.length === 10 ? `${value}T00:00:00` : value);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+const toDateString = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const shiftDays = (date: Date, days: number) => {
+    const shifted = new Date(date);
+    shifted.setDate(shifted.getDate() + days);
+    return shifted;
+};
+
+const reimbursementToRecord = (reimbursement: any): ReceiptRecord => ({
+    vendor: reimbursement.vendor || '',
+    amounts: [reimbursement.totalAmount || 0, ...(reimbursement.expenses || []).map((expense: any) => expense.amount || 0)],
+    date: parsePurchaseDate(reimbursement.dateOfPurchase),
+    // Both, so older requests without receiptHashes still compare by file
+    hashes: [...new Set<string>([
+        ...(reimbursement.receiptHashes || []),
+        ...(reimbursement.expenses || []).map((expense: any) => expense.receipt?.hash).filter(Boolean)
+    ])]
+});
+
+const invoiceToRecord = (invoice: any, eventDate: Date | null): ReceiptRecord => ({
+    vendor: invoice.vendor || '',
+    amounts: [invoice.total || 0, invoice.subtotal || 0, ...(invoice.items || []).map((item: any) => item.total || 0)],
+    date: eventDate,
+    hashes: invoice.invoiceFileHashes || []
+});
+
+// Results of several queries, each document once
+const mergeSnapshots = (snapshots: QuerySnapshot[]) => {
+    const docs = new Map<string, any>();
+    snapshots.forEach(snapshot => snapshot.docs.forEach(doc => docs.set(doc.id, doc.data())));
+    return docs;
+};
+
+/**
+ * Other reimbursements and event invoices that share a receipt file with this
+ * reimbursement, or match it on amount and vendor. Declined records
+ * are left out since they were never paid.
+ */
+export async function findSuspectedDuplicates(reimbursementId: string, reimbursement: any): Promise<DuplicateMatch[]> {
+    const record = reimbursementToRecord(reimbursement);
+    const hashes = record.hashes.slice(0, MAX_HASHES_PER_QUERY);
+
+    const reimbursementQueries = [];
+    const requestQueries = [];
+    if (record.date) {
+        const windowStart = shiftDays(record.date, -DUPLICATE_DATE_TOLERANCE_DAYS);
+        const windowEnd = shiftDays(record.date, DUPLICATE_DATE_TOLERANCE_DAYS + 1);
+        reimbursementQueries.push(query(
+            collection(db, 'reimbursements'),
+            where('dateOfPurchase', '>=', toDateString(windowStart)),
+            where('dateOfPurchase', '<=', toDateString(windowEnd))
+        ));
+        requestQueries.push(query(
+            collection(db, 'event_requests'),
+            where('startDateTime', '>=', windowStart),
+            where('startDateTime', '<=', windowEnd)
+        ));
+    }
+    if (hashes.length > 0) {
+        reimbursementQueries.push(query(collection(db, 'reimbursements'), where('receiptHashes', 'array-contains-any', hashes)));
+        requestQueries.push(query(collection(db, 'event_requests'), where('invoiceFileHashes', 'array-contains-any', hashes)));
+    }
+
+    const [reimbursementSnapshots, requestSnapshots] = await Promise.all([
+        Promise.all(reimbursementQueries.map(q => getDocs(q))),
+        Promise.all(requestQueries.map(q => getDocs(q)))
+    ]);
+
+    const matches: DuplicateMatch[] = [];
+
+    mergeSnapshots(reimbursementSnapshots).forEach((other, id) => {
+        if (id === reimbursementId || other.status === 'declined') return;
+
+        const otherRecord = reimbursementToRecord(other);
+        const reasons = getDuplicateReasons(record, otherRecord);
+        if (reasons.length === 0) return;
+
+        matches.push({
+            id,
+            source: 'reimbursement',
+            title: other.title || 'Untitled reimbursement',
+            vendor: other.vendor || '',
+            amount: other.totalAmount || 0,
+            date: otherRecord.date,
+            status: other.status,
+            reasons,
+            href: `${NAVIGATION_PATHS.MANAGE_REIMBURSEMENTS}?reimbursement=${id}`
+        });
+    });
+
+    mergeSnapshots(requestSnapshots).forEach((request, id) => {
+        if (request.status === 'declined') return;
+
+        const eventDate = parsePurchaseDate(request.startDateTime);
+        (request.invoices || []).forEach((invoice: any) => {
+            const reasons = getDuplicateReasons(record, invoiceToRecord(invoice, eventDate));
+            if (reasons.length === 0) return;
+
+            matches.push({
+                id: `${id}-${invoice.id}`,
+                source: 'event_request',
+                title: `${request.name || 'Untitled event'} invoice`,
+                vendor: invoice.vendor || '',
+                amount: invoice.total || 0,
+                date: eventDate,
+                status: request.status,
+                reasons,
+                href: `${NAVIGATION_PATHS.MANAGE_EVENTS}?request=${id}`
+            });
+        });
+    });
+
+    // Shared files first, since those are certain
+    return matches.sort((a, b) => Number(b.reasons.includes('same_file')) - Number(a.reasons.includes('same_file')));
+}
@@ -0,0 +1,33 @@
+/**
+ * Loads and saves the reimbursement policy document
+ */
+
+import { doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../../../../../firebase/client';
+import {
+    REIMBURSEMENT_POLICY_PATH,
+    normalizeReimbursementPolicy,
+    type ReimbursementPolicy
+} from '../../../../../lib/reimbursementPolicy';
+
+export async function fetchReimbursementPolicy(): Promise<ReimbursementPolicy> {
+    const snapshot = await getDoc(doc(db, REIMBURSEMENT_POLICY_PATH));
+    return normalizeReimbursementPolicy(snapshot.exists() ? snapshot.data() : null);
+}
+
+export async function saveReimbursementPolicy(
+    policy: ReimbursementPolicy,
+    updatedBy: { uid: string; name: string }
+): Promise<void> {
+    const { categoryCaps, maxPurchaseAgeDays, receiptRequiredAbove, maxTipPercent, alcoholAllowed } = policy;
+    await setDoc(doc(db, REIMBURSEMENT_POLICY_PATH), {
+        categoryCaps,
+        maxPurchaseAgeDays,
+        receiptRequiredAbove,
+        maxTipPercent,
+        alcoholAllowed,
+        updatedBy: updatedBy.uid,
+        updatedByName: updatedBy.name,
+        updatedAt: Timestamp.now()
+    });
+}
@@ -0,0 +1,63 @@
+/**
+ * Client helpers for changing a reimbursement's status through /api/reimbursements/status
+ * and completing audits through /api/reimbursements/audit
+ */
+
+import type { ReimbursementStatus } from '../../../../../lib/reimbursementStatus';
+import type { LedgerAccount } from '../../../../../lib/treasuryLedger';
+
+export interface ReimbursementStatusUpdate {
+    note?: string;
+    // ledgerAccount is the treasury account the payment is posted from
+    paymentInfo?: { confirmationNumber?: string; photoAttachment?: string | null; ledgerAccount?: LedgerAccount };
+    auditorId?: string;
+    // Required to approve a reimbursement flagged with requiresExecutiveOverride
+    overrideReason?: string;
+}
+
+/**
+ * Moves a reimbursement to `status`, or only records the note when the status
+ * is unchanged. The server rejects transitions the workflow doesn't allow.
+ *
+ * @throws Error with the server's message when the update is rejected
+ */
+export async function updateReimbursementStatus(
+    reimbursementId: string,
+    status: ReimbursementStatus,
+    update: ReimbursementStatusUpdate = {}
+): Promise<{ message: string; previousStatus: ReimbursementStatus }> {
+    const response = await fetch('/api/reimbursements/status', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reimbursementId, status, ...update })
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+        throw new Error(result?.message || `Status update failed (${response.status})`);
+    }
+
+    return { message: result.message, previousStatus: result.data.previousStatus };
+}
+
+/**
+ * Completes the signed-in executive's pending audit request on a reimbursement.
+ *
+ * @throws Error with the server's message when the audit is rejected
+ */
+export async function completeReimbursementAudit(
+    reimbursementId: string,
+    auditResult: 'approved' | 'needs_changes',
+    auditNotes: string
+): Promise<void> {
+    const response = await fetch('/api/reimbursements/audit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reimbursementId, auditResult, auditNotes })
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+        throw new Error(result?.message || `Audit completion failed (${response.status})`);
+    }
+}
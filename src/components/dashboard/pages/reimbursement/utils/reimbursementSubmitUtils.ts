@@ -0,0 +1,29 @@
+/**
+ * Client helper for submitting and editing reimbursements through /api/reimbursements/submit
+ */
+
+/**
+ * Submits a new reimbursement request, or saves edits to `reimbursementId`
+ * while it is still waiting for review. The server checks the request against
+ * the reimbursement policy and flags it for an executive override.
+ *
+ * @returns The reimbursement's id
+ * @throws Error with the server's message when the request is rejected
+ */
+export async function submitReimbursement(
+    data: Record<string, unknown>,
+    reimbursementId?: string
+): Promise<string> {
+    const response = await fetch('/api/reimbursements/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...data, ...(reimbursementId && { reimbursementId }) })
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+        throw new Error(result?.message || `Reimbursement submission failed (${response.status})`);
+    }
+
+    return result.data.reimbursementId;
+}
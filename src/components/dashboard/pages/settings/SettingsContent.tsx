@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { Save, Shield, UserCircle, Upload, FileText, AlertCircle, CheckCircle, Eye, EyeOff } from 'lucide-react';
+import { Save, Shield, UserCircle, Upload, FileText, AlertCircle, CheckCircle, Eye, EyeOff, Bell, Utensils } from 'lucide-react';
 import { auth } from '../../../../firebase/client';
 import { getFirestore, doc, updateDoc, getDoc } from 'firebase/firestore';
 import { getStorage, ref, uploadBytesResumable, getDownloadURL, deleteObject } from 'firebase/storage';
 import { updatePassword, reauthenticateWithCredential, EmailAuthProvider, onAuthStateChanged } from 'firebase/auth';
-import type { User } from '../../shared/types/firestore';
+import type { User, NotificationCategory, DietaryPreferences } from '../../shared/types/firestore';
+import { NOTIFICATION_CATEGORIES, DEFAULT_NOTIFICATION_PREFERENCES, resolveNotificationPreferences } from '../../../../lib/notificationPreferences';
+import { normalizeDietaryPreferences } from '../../../../lib/dietaryPreferences';
+import DietaryOptionsFields from '../../shared/components/DietaryOptionsFields';
 import { PublicProfileService } from '../../shared/services/publicProfile';
 import { Skeleton } from '../../../ui/skeleton';
 
@@ -42,6 +45,14 @@ export default function SettingsContent() {
     const [resumeFile, setResumeFile] = useState<File | null>(null);
     const [uploadingResume, setUploadingResume] = useState(false);
 
+    // Notification preferences state
+    const [notificationPreferences, setNotificationPreferences] = useState<Record<NotificationCategory, boolean>>(DEFAULT_NOTIFICATION_PREFERENCES);
+    const [savingNotifications, setSavingNotifications] = useState(false);
+
+    // Dietary preferences state
+    const [dietaryPreferences, setDietaryPreferences] = useState<DietaryPreferences>({ restrictions: [] });
+    const [savingDietary, setSavingDietary] = useState(false);
+
     const db = getFirestore();
     const storage = getStorage();
 
@@ -81,6 +92,11 @@ export default function SettingsContent() {
                     memberId: data.memberId || '',
                     zelleInformation: data.zelleInformation || ''
                 });
+                setNotificationPreferences(resolveNotificationPreferences(data.notificationPreferences));
+                setDietaryPreferences({
+                    restrictions: data.dietaryPreferences?.restrictions || [],
+                    allergies: data.dietaryPreferences?.allergies || ''
+                });
             }
         } catch (err: any) {
             setError(err.message);
@@ -125,8 +141,6 @@ export default function SettingsContent() {
             // Sync public profile data (only include fields with values)
             const publicProfileData: any = {
                 name: profileData.name,
-                points: userData?.points || 0,
-                eventsAttended: userData?.eventsAttended || 0,
                 position: userData?.position || userData?.role || 'Member'
             };
 
@@ -151,6 +165,47 @@ export default function SettingsContent() {
         }
     };
 
+    const handleNotificationPreferencesUpdate = async () => {
+        if (!auth.currentUser) return;
+
+        setSavingNotifications(true);
+        setError(null);
+        setSuccess(null);
+
+        try {
+            const userRef = doc(db, 'users', auth.currentUser.uid);
+            await updateDoc(userRef, { notificationPreferences });
+
+            setSuccess('Notification preferences updated successfully!');
+            setUserData(prev => prev ? { ...prev, notificationPreferences } : null);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setSavingNotifications(false);
+        }
+    };
+
+    const handleDietaryPreferencesUpdate = async () => {
+        if (!auth.currentUser) return;
+
+        setSavingDietary(true);
+        setError(null);
+        setSuccess(null);
+
+        try {
+            const normalized = normalizeDietaryPreferences(dietaryPreferences) || { restrictions: [] };
+            const userRef = doc(db, 'users', auth.currentUser.uid);
+            await updateDoc(userRef, { dietaryPreferences: normalized });
+
+            setSuccess('Dietary preferences updated successfully!');
+            setUserData(prev => prev ? { ...prev, dietaryPreferences: normalized } : null);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setSavingDietary(false);
+        }
+    };
+
     const handlePasswordChange = async () => {
         if (!auth.currentUser || isGoogleUser) return;
 
@@ -599,6 +654,70 @@ export default function SettingsContent() {
                         )}
                     </div>
 
+                    {/* Notification Settings */}
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 md:p-6">
+                        <div className="flex items-center space-x-3 mb-4 md:mb-6">
+                            <div className="w-8 h-8 bg-yellow-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                                <Bell className="w-5 h-5 text-yellow-600" />
+                            </div>
+                            <h2 className="text-base md:text-lg font-semibold text-gray-900">Email Notifications</h2>
+                        </div>
+
+                        <div className="divide-y divide-gray-100">
+                            {NOTIFICATION_CATEGORIES.map(category => (
+                                <label key={category.key} className="flex items-start justify-between py-3 cursor-pointer">
+                                    <div className="pr-4">
+                                        <p className="font-medium text-gray-900">{category.label}</p>
+                                        <p className="text-sm text-gray-500">{category.description}</p>
+                                    </div>
+                                    <input
+                                        type="checkbox"
+                                        className="mt-1 h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500 flex-shrink-0"
+                                        checked={notificationPreferences[category.key]}
+                                        onChange={(e) => setNotificationPreferences(prev => ({ ...prev, [category.key]: e.target.checked }))}
+                                    />
+                                </label>
+                            ))}
+                        </div>
+
+                        <div className="flex justify-end mt-6">
+                            <button
+                                onClick={handleNotificationPreferencesUpdate}
+                                disabled={savingNotifications}
+                                className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <Save className="w-5 h-5" />
+                                <span>{savingNotifications ? 'Saving...' : 'Save Preferences'}</span>
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Dietary Preferences */}
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 md:p-6">
+                        <div className="flex items-center space-x-3 mb-2">
+                            <div className="w-8 h-8 bg-orange-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                                <Utensils className="w-5 h-5 text-orange-600" />
+                            </div>
+                            <h2 className="text-base md:text-lg font-semibold text-gray-900">Dietary Preferences</h2>
+                        </div>
+                        <p className="text-sm text-gray-500 mb-4 md:mb-6">
+                            Used to order food for events you RSVP to. You can change them for a specific event when you RSVP.
+                        </p>
+
+                        <DietaryOptionsFields value={dietaryPreferences} onChange={setDietaryPreferences} disabled={savingDietary} />
+
+                        <div className="flex justify-end mt-6">
+                            <button
+                                onClick={handleDietaryPreferencesUpdate}
+                                disabled={savingDietary}
+                                className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <Save className="w-5 h-5" />
+                                <span>{savingDietary ? 'Saving...' : 'Save Preferences'}</span>
+                            </button>
+                        </div>
+                    </div>
+
                     {/* Security Settings */}
                     {!isGoogleUser && (
                         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
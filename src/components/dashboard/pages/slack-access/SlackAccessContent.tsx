@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Mail, Key, Eye, EyeOff, AlertCircle, CheckCircle, Loader2, MessageSquare, Shield, RefreshCw, Inbox, X, Paperclip, Check, Download, FileText, File, Image, FileVideo, FileAudio, Archive, ExternalLink } from 'lucide-react';
 import DOMPurify from 'dompurify';
 import { useAuthState } from 'react-firebase-hooks/auth';
-import { getFirestore, doc, getDoc, updateDoc } from 'firebase/firestore';
+import { getFirestore, doc, getDoc } from 'firebase/firestore';
 import { auth } from '../../../../firebase/client';
 import DashboardHeader from '../../shared/DashboardHeader';
 import type { User as UserType, UserRole } from '../../shared/types/firestore';
@@ -286,19 +286,6 @@ export default function SlackAccessContent() {
             const result = await response.json();
 
             if (result.success) {
-                // Update Firebase to track that user has created IEEE email
-                try {
-                    const userRef = doc(db, 'users', user.uid);
-                    await updateDoc(userRef, {
-                        hasIEEEEmail: true,
-                        ieeeEmail: result.data.ieeeEmail,
-                        ieeeEmailCreatedAt: new Date()
-                    });
-                } catch (firebaseError) {
-                    console.error('Error updating Firebase:', firebaseError);
-                    // Don't fail the whole process if Firebase update fails
-                }
-
                 setEmailState(prev => ({
                     ...prev,
                     isGenerating: false,
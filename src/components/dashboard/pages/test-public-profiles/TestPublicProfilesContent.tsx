@@ -32,8 +32,6 @@ export default function TestPublicProfilesContent() {
             addTestResult('Test 1: Creating/updating public profile...');
             await PublicProfileService.syncPublicProfile(user.uid, {
                 name: 'Test User',
-                points: 100,
-                eventsAttended: 5,
                 major: 'Computer Science',
                 graduationYear: 2025,
                 position: 'Member'
@@ -49,26 +47,18 @@ export default function TestPublicProfilesContent() {
                 addTestResult('Failed to read public profile correctly', false);
             }
 
-            // Test 3: Update user stats
-            addTestResult('Test 3: Updating user stats...');
-            await PublicProfileService.updateUserStats(user.uid, {
-                points: 150,
-                eventsAttended: 6
-            });
-            addTestResult('Successfully updated user stats');
-
-            // Test 4: Get leaderboard
-            addTestResult('Test 4: Fetching leaderboard...');
+            // Test 3: Get leaderboard
+            addTestResult('Test 3: Fetching leaderboard...');
             const leaderboard = await PublicProfileService.getLeaderboard();
             setPublicProfiles(leaderboard);
             addTestResult(`Successfully fetched leaderboard with ${leaderboard.length} profiles`);
 
-            // Test 5: Verify updated stats in leaderboard
-            const updatedProfile = leaderboard.find(p => p.id === user.uid);
-            if (updatedProfile && updatedProfile.points === 150) {
-                addTestResult('Stats correctly reflected in leaderboard');
+            // Test 4: Verify own profile in leaderboard
+            const ownProfile = leaderboard.find(p => p.id === user.uid);
+            if (ownProfile && ownProfile.name === 'Test User') {
+                addTestResult('Profile correctly reflected in leaderboard');
             } else {
-                addTestResult('Stats not correctly reflected in leaderboard', false);
+                addTestResult('Profile not correctly reflected in leaderboard', false);
             }
 
             addTestResult('All tests completed successfully! 🎉');
@@ -202,15 +192,11 @@ export default function TestPublicProfilesContent() {
                             </li>
                             <li className="flex items-start">
                                 <span className="text-blue-600 mr-2">3.</span>
-                                <span>Updates your points and events attended</span>
-                            </li>
-                            <li className="flex items-start">
-                                <span className="text-blue-600 mr-2">4.</span>
                                 <span>Fetches the full leaderboard to test query permissions</span>
                             </li>
                             <li className="flex items-start">
-                                <span className="text-blue-600 mr-2">5.</span>
-                                <span>Verifies that your updated stats appear correctly in the leaderboard</span>
+                                <span className="text-blue-600 mr-2">4.</span>
+                                <span>Verifies that your profile appears correctly in the leaderboard</span>
                             </li>
                         </ul>
                         <div className="mt-4 p-3 bg-blue-50 rounded-lg">
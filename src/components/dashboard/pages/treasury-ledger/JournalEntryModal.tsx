@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, BookOpen } from 'lucide-react';
+import { Button } from '../../../ui/button';
+import { Input } from '../../../ui/input';
+import { Label } from '../../../ui/label';
+import { Textarea } from '../../../ui/textarea';
+import {
+    LEDGER_ACCOUNTS,
+    LEDGER_ACCOUNT_LABELS,
+    DEFAULT_LEDGER_ACCOUNT,
+    MAX_JOURNAL_LINES,
+    roundCents,
+    validateJournalLines,
+    type LedgerAccount
+} from '../../../../lib/treasuryLedger';
+import { submitJournalEntry } from './utils/treasuryLedgerUtils';
+
+interface JournalEntryModalProps {
+    onClose: () => void;
+}
+
+interface DraftLine {
+    account: LedgerAccount;
+    direction: 'in' | 'out';
+    amount: string;
+}
+
+const emptyLine = (direction: DraftLine['direction']): DraftLine => ({
+    account: DEFAULT_LEDGER_ACCOUNT,
+    direction,
+    amount: ''
+});
+
+export default function JournalEntryModal({ onClose }: JournalEntryModalProps) {
+    const [date, setDate] = useState(new Date().toLocaleDateString('en-CA'));
+    const [memo, setMemo] = useState('');
+    // Starts as a transfer: money out of one account and into another
+    const [lines, setLines] = useState<DraftLine[]>([emptyLine('out'), emptyLine('in')]);
+    const [submitting, setSubmitting] = useState(false);
+
+    const journalLines = lines.map(line => ({
+        account: line.account,
+        amount: roundCents((parseFloat(line.amount) || 0) * (line.direction === 'out' ? -1 : 1))
+    }));
+    const net = roundCents(journalLines.reduce((sum, line) => sum + line.amount, 0));
+    const linesError = validateJournalLines(journalLines);
+
+    const updateLine = (index: number, changes: Partial<DraftLine>) => {
+        setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+    };
+
+    const handleSubmit = async () => {
+        try {
+            setSubmitting(true);
+            await submitJournalEntry({ date, memo: memo.trim(), lines: journalLines });
+            onClose();
+        } catch (error) {
+            console.error('Error submitting journal entry:', error);
+            alert(error instanceof Error ? error.message : 'Failed to submit journal entry');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                    <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+                        <BookOpen className="w-5 h-5 mr-2 text-blue-600" />
+                        New Journal Entry
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <Label htmlFor="journalDate" className="text-sm font-medium text-gray-700">Date *</Label>
+                            <Input
+                                id="journalDate"
+                                type="date"
+                                value={date}
+                                onChange={(e) => setDate(e.target.value)}
+                            />
+                        </div>
+                        <div className="md:col-span-2">
+                            <Label htmlFor="journalMemo" className="text-sm font-medium text-gray-700">Memo *</Label>
+                            <Textarea
+                                id="journalMemo"
+                                value={memo}
+                                onChange={(e) => setMemo(e.target.value)}
+                                placeholder="e.g., Move sponsorship funds to cover general expenses"
+                                rows={2}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-3">
+                        <Label className="text-sm font-medium text-gray-700">Lines</Label>
+                        {lines.map((line, index) => (
+                            <div key={index} className="flex items-center gap-2">
+                                <select
+                                    value={line.account}
+                                    onChange={(e) => updateLine(index, { account: e.target.value as LedgerAccount })}
+                                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    {LEDGER_ACCOUNTS.map(account => (
+                                        <option key={account} value={account}>{LEDGER_ACCOUNT_LABELS[account]}</option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={line.direction}
+                                    onChange={(e) => updateLine(index, { direction: e.target.value as DraftLine['direction'] })}
+                                    className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    <option value="in">Money in</option>
+                                    <option value="out">Money out</option>
+                                </select>
+                                <Input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={line.amount}
+                                    onChange={(e) => updateLine(index, { amount: e.target.value })}
+                                    placeholder="0.00"
+                                    className="w-32"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                                    disabled={lines.length === 1}
+                                    className="text-red-600 hover:text-red-800 disabled:opacity-30"
+                                    title="Remove line"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                        {lines.length < MAX_JOURNAL_LINES && (
+                            <button
+                                type="button"
+                                onClick={() => setLines(prev => [...prev, emptyLine('in')])}
+                                className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                            >
+                                <Plus className="w-4 h-4 mr-1" />
+                                Add line
+                            </button>
+                        )}
+                    </div>
+
+                    <p className="text-sm text-gray-600">
+                        {net === 0
+                            ? 'Lines balance, so this is a transfer between accounts.'
+                            : `Net change to the organization's balance: ${net > 0 ? '+' : '-'}$${Math.abs(net).toFixed(2)}`}
+                    </p>
+
+                    <div className="flex items-center justify-between pt-6 border-t border-gray-200">
+                        <p className="text-sm text-gray-500">Another executive has to approve this before it posts.</p>
+                        <div className="flex space-x-3">
+                            <Button type="button" variant="outline" onClick={onClose}>
+                                Cancel
+                            </Button>
+                            <Button
+                                type="button"
+                                disabled={submitting || !memo.trim() || !date || !!linesError}
+                                onClick={handleSubmit}
+                                title={linesError || undefined}
+                            >
+                                {submitting ? 'Submitting...' : 'Submit for Approval'}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
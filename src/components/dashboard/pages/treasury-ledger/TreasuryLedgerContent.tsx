@@ -0,0 +1,381 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Landmark, Plus, Download, RefreshCw, Check, X, ArrowDownLeft, ArrowUpRight, BookOpen } from 'lucide-react';
+import { collection, query, orderBy, onSnapshot, doc, getDoc } from 'firebase/firestore';
+import { db, auth } from '../../../../firebase/client';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import DashboardHeader from '../../shared/DashboardHeader';
+import { MetricCardSkeleton, TableSkeleton } from '../../../ui/loading';
+import type { UserRole, LedgerEntry, JournalEntry } from '../../shared/types/firestore';
+import {
+    LEDGER_ACCOUNTS,
+    LEDGER_ACCOUNT_LABELS,
+    buildStatement,
+    computeBalances,
+    roundCents,
+    type LedgerAccount
+} from '../../../../lib/treasuryLedger';
+import JournalEntryModal from './JournalEntryModal';
+import {
+    downloadStatement,
+    reconcileTreasuryLedger,
+    reviewJournalEntry,
+    type StatementFormat
+} from './utils/treasuryLedgerUtils';
+
+type StoredLedgerEntry = LedgerEntry & { id: string };
+type StoredJournalEntry = JournalEntry & { id: string };
+
+const SOURCE_LABELS: Record<LedgerEntry['source'], string> = {
+    deposit: 'Deposit',
+    reimbursement: 'Reimbursement',
+    journal: 'Journal entry'
+};
+
+const formatMoney = (amount: number) =>
+    `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const today = () => new Date().toLocaleDateString('en-CA');
+const startOfMonth = () => `${today().slice(0, 8)}01`;
+
+export default function TreasuryLedgerContent() {
+    const [user] = useAuthState(auth);
+    const [userRole, setUserRole] = useState<UserRole | null>(null);
+    const [entries, setEntries] = useState<StoredLedgerEntry[]>([]);
+    const [journals, setJournals] = useState<StoredJournalEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [accountFilter, setAccountFilter] = useState<LedgerAccount | 'all'>('all');
+    const [statementRange, setStatementRange] = useState({ start: startOfMonth(), end: today() });
+    const [exporting, setExporting] = useState(false);
+    const [syncing, setSyncing] = useState(false);
+    const [showJournalModal, setShowJournalModal] = useState(false);
+
+    const isExecutive = userRole === 'Executive Officer' || userRole === 'Administrator';
+
+    useEffect(() => {
+        if (!user) return;
+
+        const fetchUserRole = async () => {
+            try {
+                const userDoc = await getDoc(doc(db, 'users', user.uid));
+                setUserRole(userDoc.exists() ? userDoc.data().role || 'Member' : 'Member');
+            } catch (error) {
+                console.error('Error fetching user role:', error);
+                setUserRole('Member');
+            }
+        };
+
+        fetchUserRole();
+    }, [user]);
+
+    useEffect(() => {
+        if (!isExecutive) {
+            if (userRole) setLoading(false);
+            return;
+        }
+
+        // Posting order; buildStatement sorts by date and keeps this order within a day
+        const unsubscribeEntries = onSnapshot(
+            query(collection(db, 'ledger_entries'), orderBy('postedAt', 'asc')),
+            snapshot => {
+                setEntries(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as StoredLedgerEntry));
+                setLoading(false);
+            },
+            error => {
+                console.error('Error loading ledger entries:', error);
+                setLoading(false);
+            }
+        );
+        const unsubscribeJournals = onSnapshot(
+            query(collection(db, 'journal_entries'), orderBy('createdAt', 'desc')),
+            snapshot => setJournals(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as StoredJournalEntry)),
+            error => console.error('Error loading journal entries:', error)
+        );
+
+        return () => {
+            unsubscribeEntries();
+            unsubscribeJournals();
+        };
+    }, [isExecutive, userRole]);
+
+    const balances = useMemo(() => computeBalances(entries), [entries]);
+    const totalBalance = roundCents(LEDGER_ACCOUNTS.reduce((sum, account) => sum + balances[account], 0));
+
+    // Newest first, each line with the running balance of the selected account(s)
+    const ledgerLines = useMemo(() => {
+        const { lines } = buildStatement(entries, accountFilter === 'all' ? {} : { account: accountFilter });
+        const search = searchTerm.trim().toLowerCase();
+        return lines
+            .filter(line => !search || line.description.toLowerCase().includes(search))
+            .reverse();
+    }, [entries, accountFilter, searchTerm]);
+
+    const pendingJournals = journals.filter(journal => journal.status === 'pending');
+
+    const handleReview = async (journal: StoredJournalEntry, decision: 'approve' | 'reject') => {
+        let reason: string | undefined;
+        if (decision === 'reject') {
+            reason = prompt('Reason for rejecting this journal entry:')?.trim();
+            if (!reason) return;
+        } else if (!confirm(`Approve "${journal.memo}" and post it to the ledger?`)) {
+            return;
+        }
+
+        try {
+            await reviewJournalEntry(journal.id, decision, reason);
+        } catch (error) {
+            console.error('Error reviewing journal entry:', error);
+            alert(error instanceof Error ? error.message : 'Failed to review journal entry');
+        }
+    };
+
+    const handleExport = async (format: StatementFormat) => {
+        try {
+            setExporting(true);
+            await downloadStatement(statementRange, accountFilter === 'all' ? undefined : accountFilter, format);
+        } catch (error) {
+            console.error('Error exporting statement:', error);
+            alert(error instanceof Error ? error.message : 'Failed to export statement');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const handleSync = async () => {
+        if (!confirm('Post every verified deposit and paid reimbursement that is missing from the ledger?')) return;
+
+        try {
+            setSyncing(true);
+            const { depositsPosted, reimbursementsPosted } = await reconcileTreasuryLedger();
+            alert(`Posted ${depositsPosted} deposit${depositsPosted === 1 ? '' : 's'} and ${reimbursementsPosted} reimbursement${reimbursementsPosted === 1 ? '' : 's'}.`);
+        } catch (error) {
+            console.error('Error syncing ledger:', error);
+            alert(error instanceof Error ? error.message : 'Failed to sync the ledger');
+        } finally {
+            setSyncing(false);
+        }
+    };
+
+    if (userRole && !isExecutive) {
+        return (
+            <div className="flex-1 overflow-auto">
+                <DashboardHeader title="Treasury Ledger" subtitle="Organization balances across every account" showSearch={false} />
+                <main className="p-6">
+                    <p className="text-gray-600">Only executive officers can view the treasury ledger.</p>
+                </main>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex-1 overflow-auto">
+            <DashboardHeader
+                title="Treasury Ledger"
+                subtitle="Organization balances across every account"
+                searchPlaceholder="Search entries..."
+                searchValue={searchTerm}
+                onSearchChange={setSearchTerm}
+            >
+                {userRole === 'Administrator' && (
+                    <button
+                        onClick={handleSync}
+                        disabled={syncing}
+                        className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                        <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+                        <span>Sync Postings</span>
+                    </button>
+                )}
+                <button
+                    onClick={() => setShowJournalModal(true)}
+                    className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                    <Plus className="w-4 h-4" />
+                    <span>Journal Entry</span>
+                </button>
+            </DashboardHeader>
+
+            <main className="p-6 space-y-6">
+                {/* Balances */}
+                <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+                    {loading ? (
+                        [...Array(6)].map((_, index) => <MetricCardSkeleton key={index} />)
+                    ) : (
+                        <>
+                            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                                <div className="flex items-center text-sm font-medium text-gray-600">
+                                    <Landmark className="w-4 h-4 mr-2 text-blue-600" />
+                                    Total
+                                </div>
+                                <p className={`text-xl font-bold mt-2 ${totalBalance < 0 ? 'text-red-600' : 'text-gray-900'}`}>{formatMoney(totalBalance)}</p>
+                            </div>
+                            {LEDGER_ACCOUNTS.map(account => (
+                                <button
+                                    key={account}
+                                    onClick={() => setAccountFilter(accountFilter === account ? 'all' : account)}
+                                    className={`text-left bg-white rounded-lg shadow-sm border p-4 transition-colors ${accountFilter === account ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200 hover:border-gray-300'}`}
+                                >
+                                    <p className="text-sm font-medium text-gray-600">{LEDGER_ACCOUNT_LABELS[account]}</p>
+                                    <p className={`text-xl font-bold mt-2 ${balances[account] < 0 ? 'text-red-600' : 'text-gray-900'}`}>{formatMoney(balances[account])}</p>
+                                </button>
+                            ))}
+                        </>
+                    )}
+                </div>
+
+                {/* Pending journal entries */}
+                {pendingJournals.length > 0 && (
+                    <div className="bg-white rounded-lg shadow-sm border border-amber-200">
+                        <div className="p-4 border-b border-amber-200 bg-amber-50 rounded-t-lg">
+                            <h2 className="font-semibold text-amber-900 flex items-center">
+                                <BookOpen className="w-4 h-4 mr-2" />
+                                Journal Entries Awaiting Approval ({pendingJournals.length})
+                            </h2>
+                        </div>
+                        <div className="divide-y divide-gray-200">
+                            {pendingJournals.map(journal => (
+                                <div key={journal.id} className="p-4 flex items-start justify-between gap-4">
+                                    <div>
+                                        <p className="font-medium text-gray-900">{journal.memo}</p>
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            {journal.date} · submitted by {journal.createdByName}
+                                        </p>
+                                        <ul className="mt-2 space-y-0.5">
+                                            {journal.lines.map((line, index) => (
+                                                <li key={index} className="text-sm text-gray-700">
+                                                    {LEDGER_ACCOUNT_LABELS[line.account]}:{' '}
+                                                    <span className={line.amount < 0 ? 'text-red-600' : 'text-emerald-600'}>
+                                                        {line.amount > 0 ? '+' : ''}{formatMoney(line.amount)}
+                                                    </span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                    <div className="flex items-center space-x-2 flex-shrink-0">
+                                        <button
+                                            onClick={() => handleReview(journal, 'approve')}
+                                            disabled={journal.createdBy === user?.uid}
+                                            title={journal.createdBy === user?.uid ? 'Another executive has to approve your entry' : 'Approve and post'}
+                                            className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                                        >
+                                            <Check className="w-4 h-4" />
+                                            <span>Approve</span>
+                                        </button>
+                                        <button
+                                            onClick={() => handleReview(journal, 'reject')}
+                                            className="flex items-center space-x-1 px-3 py-1.5 text-sm border border-gray-300 text-red-600 rounded-lg hover:bg-gray-50"
+                                        >
+                                            <X className="w-4 h-4" />
+                                            <span>Reject</span>
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Statement export */}
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-wrap items-end gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Account</label>
+                        <select
+                            value={accountFilter}
+                            onChange={(e) => setAccountFilter(e.target.value as LedgerAccount | 'all')}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            <option value="all">All accounts</option>
+                            {LEDGER_ACCOUNTS.map(account => (
+                                <option key={account} value={account}>{LEDGER_ACCOUNT_LABELS[account]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                        <input
+                            type="date"
+                            value={statementRange.start}
+                            onChange={(e) => setStatementRange({ ...statementRange, start: e.target.value })}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                        <input
+                            type="date"
+                            value={statementRange.end}
+                            onChange={(e) => setStatementRange({ ...statementRange, end: e.target.value })}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <div className="flex items-center space-x-2">
+                        {(['csv', 'xlsx'] as StatementFormat[]).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => handleExport(format)}
+                                disabled={exporting || !statementRange.start || !statementRange.end || statementRange.start > statementRange.end}
+                                className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                            >
+                                <Download className="w-4 h-4" />
+                                <span>Statement {format.toUpperCase()}</span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Entries */}
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+                    <div className="p-4 border-b border-gray-200">
+                        <h2 className="font-semibold text-gray-900">
+                            {accountFilter === 'all' ? 'All Entries' : `${LEDGER_ACCOUNT_LABELS[accountFilter]} Entries`}
+                        </h2>
+                    </div>
+                    {loading ? (
+                        <TableSkeleton />
+                    ) : ledgerLines.length === 0 ? (
+                        <p className="p-6 text-sm text-gray-500">No ledger entries yet.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Account</th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white divide-y divide-gray-200">
+                                    {ledgerLines.map(line => (
+                                        <tr key={line.id} className="hover:bg-gray-50">
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{line.date}</td>
+                                            <td className="px-6 py-4 text-sm text-gray-900">
+                                                <div>{line.description}</div>
+                                                <div className="text-xs text-gray-400">Posted by {line.postedByName}</div>
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{LEDGER_ACCOUNT_LABELS[line.account]}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{SOURCE_LABELS[line.source]}</td>
+                                            <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium text-right ${line.amount < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                                                <span className="inline-flex items-center">
+                                                    {line.amount < 0 ? <ArrowUpRight className="w-3 h-3 mr-1" /> : <ArrowDownLeft className="w-3 h-3 mr-1" />}
+                                                    {formatMoney(line.amount)}
+                                                </span>
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-right text-gray-900">{formatMoney(line.balance)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            </main>
+
+            {showJournalModal && (
+                <JournalEntryModal onClose={() => setShowJournalModal(false)} />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,87 @@
+/**
+ * Client helpers for the /api/treasury routes
+ */
+
+import type { JournalLine, LedgerAccount } from '../../../../../lib/treasuryLedger';
+
+export type StatementFormat = 'csv' | 'xlsx';
+
+async function postJson(path: string, body: Record<string, unknown>) {
+    const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+        throw new Error(result?.message || `Request failed (${response.status})`);
+    }
+
+    return result;
+}
+
+/**
+ * Submits a manual journal entry. It posts once another executive approves it.
+ *
+ * @throws Error with the server's message when the entry is rejected
+ */
+export async function submitJournalEntry(entry: { date: string; memo: string; lines: JournalLine[] }): Promise<string> {
+    const result = await postJson('/api/treasury/journal-entries', { action: 'create', ...entry });
+    return result.message;
+}
+
+/**
+ * Approves (and posts) or rejects a pending journal entry
+ *
+ * @throws Error with the server's message when the review is rejected
+ */
+export async function reviewJournalEntry(journalId: string, decision: 'approve' | 'reject', reason?: string): Promise<string> {
+    const result = await postJson('/api/treasury/journal-entries', { action: decision, journalId, reason });
+    return result.message;
+}
+
+/**
+ * Posts verified deposits and paid reimbursements that aren't in the ledger yet.
+ * Administrator only.
+ *
+ * @throws Error with the server's message when the sync fails
+ */
+export async function reconcileTreasuryLedger(): Promise<{ depositsPosted: number; reimbursementsPosted: number }> {
+    const result = await postJson('/api/treasury/reconcile', {});
+    return { depositsPosted: result.depositsPosted, reimbursementsPosted: result.reimbursementsPosted };
+}
+
+/**
+ * Downloads a statement for a date range and saves it with the filename chosen
+ * by the server
+ *
+ * @param account - One account, or undefined for every account combined
+ * @throws Error with the server's message when the export fails
+ */
+export async function downloadStatement(
+    range: { start: string; end: string },
+    account: LedgerAccount | undefined,
+    format: StatementFormat
+): Promise<void> {
+    const searchParams = new URLSearchParams({ ...range, format, ...(account && { account }) });
+    const response = await fetch(`/api/treasury/statement?${searchParams.toString()}`);
+
+    if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.message || `Export failed (${response.status})`);
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `statement.${format}`;
+
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
@@ -39,6 +39,7 @@ export default function DashboardLayout({ children, currentPath }: DashboardLayo
             '/dashboard/leaderboard': 'Leaderboard',
             '/dashboard/manage-events': 'Manage Events',
             '/dashboard/manage-reimbursements': 'Manage Reimbursements',
+            '/dashboard/treasury-ledger': 'Treasury Ledger',
             '/dashboard/fund-deposits': 'Fund Deposits',
             '/dashboard/slack-access': 'Slack Access',
             '/dashboard/manage-users': 'Manage Users',
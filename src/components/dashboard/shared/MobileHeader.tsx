@@ -3,7 +3,8 @@ import { Menu, X, Bell, User, Calendar, Award, Settings, LogOut } from 'lucide-r
 import { useAuthState } from 'react-firebase-hooks/auth';
 import { getFirestore, doc, getDoc, collection, query, where, orderBy, limit, onSnapshot } from 'firebase/firestore';
 import { auth } from '../../../firebase/client';
-import type { User as UserType } from './types/firestore';
+import type { User as UserType, Notification as NotificationDoc } from './types/firestore';
+import { NotificationService } from './services/notificationService';
 
 interface MobileHeaderProps {
     title: string;
@@ -11,13 +12,8 @@ interface MobileHeaderProps {
     isMenuOpen: boolean;
 }
 
-interface Notification {
+interface Notification extends NotificationDoc {
     id: string;
-    title: string;
-    message: string;
-    type: 'reimbursement' | 'event' | 'system';
-    createdAt: any;
-    read: boolean;
 }
 
 export default function MobileHeader({ title, onMenuToggle, isMenuOpen }: MobileHeaderProps) {
@@ -66,18 +62,59 @@ export default function MobileHeader({ title, onMenuToggle, isMenuOpen }: Mobile
             })) as Notification[];
 
             setNotifications(notifs);
-            setUnreadCount(notifs.filter(n => !n.read).length);
+        });
+
+        // Count every unread notification, not just the ones in the dropdown
+        const unreadQuery = query(
+            collection(db, 'notifications'),
+            where('userId', '==', user.uid),
+            where('read', '==', false)
+        );
+
+        const unsubscribeUnread = onSnapshot(unreadQuery, (snapshot) => {
+            setUnreadCount(snapshot.size);
         });
 
         return () => {
             unsubscribeNotifications();
+            unsubscribeUnread();
         };
     }, [user, db]);
 
+    const handleNotificationClick = async (notification: Notification) => {
+        try {
+            if (!notification.read) {
+                await NotificationService.markAsRead(notification.id);
+            }
+        } catch (error) {
+            console.error('Error marking notification as read:', error);
+        }
+        if (notification.link) {
+            window.location.href = notification.link;
+        }
+    };
+
+    const handleMarkAllRead = async () => {
+        if (!user) return;
+        try {
+            await NotificationService.markAllAsRead(user.uid);
+        } catch (error) {
+            console.error('Error marking notifications as read:', error);
+        }
+    };
+
     const NotificationDropdown = () => (
         <div className="absolute right-0 top-full mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-lg shadow-lg border border-gray-200 z-50">
-            <div className="p-4 border-b border-gray-200">
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
                 <h3 className="font-semibold text-gray-900">Notifications</h3>
+                {unreadCount > 0 && (
+                    <button
+                        onClick={handleMarkAllRead}
+                        className="text-xs text-blue-600 hover:text-blue-800"
+                    >
+                        Mark all read
+                    </button>
+                )}
             </div>
             <div className="max-h-64 overflow-y-auto">
                 {notifications.length === 0 ? (
@@ -86,7 +123,11 @@ export default function MobileHeader({ title, onMenuToggle, isMenuOpen }: Mobile
                     </div>
                 ) : (
                     notifications.map((notification) => (
-                        <div key={notification.id} className={`p-4 border-b border-gray-100 hover:bg-gray-50 ${!notification.read ? 'bg-blue-50' : ''}`}>
+                        <div
+                            key={notification.id}
+                            onClick={() => handleNotificationClick(notification)}
+                            className={`p-4 border-b border-gray-100 hover:bg-gray-50 cursor-pointer ${!notification.read ? 'bg-blue-50' : ''}`}
+                        >
                             <h4 className="font-medium text-gray-900 text-sm">{notification.title}</h4>
                             <p className="text-sm text-gray-600 mt-1 line-clamp-2">{notification.message}</p>
                             <p className="text-xs text-gray-400 mt-2">
@@ -96,6 +137,14 @@ export default function MobileHeader({ title, onMenuToggle, isMenuOpen }: Mobile
                     ))
                 )}
             </div>
+            <div className="p-3 border-t border-gray-200">
+                <a
+                    href="/dashboard/notifications"
+                    className="text-sm text-blue-600 hover:text-blue-800 min-h-[44px] flex items-center"
+                >
+                    View all notifications →
+                </a>
+            </div>
         </div>
     );
 
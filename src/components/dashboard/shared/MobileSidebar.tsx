@@ -12,7 +12,9 @@ import {
     Banknote,
     FileText,
     X,
-    MessageSquare
+    MessageSquare,
+    Bell,
+    Landmark
 } from 'lucide-react';
 import { useAuthState } from 'react-firebase-hooks/auth';
 import { getFirestore, doc, getDoc } from 'firebase/firestore';
@@ -52,6 +54,7 @@ const navigationCategories: NavigationCategory[] = [
         requiresRole: ['Executive Officer', 'Administrator'],
         items: [
             { icon: DollarSign, label: 'Manage Reimbursements', href: NAVIGATION_PATHS.MANAGE_REIMBURSEMENTS },
+            { icon: Landmark, label: 'Treasury Ledger', href: NAVIGATION_PATHS.TREASURY_LEDGER },
             { icon: Users, label: 'Manage Users', href: NAVIGATION_PATHS.MANAGE_USERS },
             { icon: FileText, label: 'Constitution Builder', href: NAVIGATION_PATHS.CONSTITUTION_BUILDER },
         ]
@@ -59,6 +62,7 @@ const navigationCategories: NavigationCategory[] = [
     {
         title: "Account",
         items: [
+            { icon: Bell, label: 'Notifications', href: NAVIGATION_PATHS.NOTIFICATIONS },
             { icon: Settings, label: 'Settings', href: NAVIGATION_PATHS.SETTINGS },
             { icon: LogOut, label: 'Sign Out', href: NAVIGATION_PATHS.SIGNOUT },
         ]
@@ -1,186 +1,262 @@
-import React from 'react';
-import { MoreHorizontal } from 'lucide-react';
-
-const weeklyData = [
-    { day: 'Mo', value: 200 },
-    { day: 'Tu', value: 300 },
-    { day: 'We', value: 400 },
-    { day: 'Th', value: 500 },
-    { day: 'Fr', value: 300 },
-    { day: 'Sa', value: 250 },
-    { day: 'Su', value: 350 }
-];
-
-const earningsData = [
-    { day: 'Mo', value: 180 },
-    { day: 'Tu', value: 220 },
-    { day: 'We', value: 280 },
-    { day: 'Th', value: 350 },
-    { day: 'Fr', value: 420 },
-    { day: 'Sa', value: 320 },
-    { day: 'Su', value: 280 }
-];
-
-const followerData = [
-    { day: 'Mo', value: 30 },
-    { day: 'Tu', value: 45 },
-    { day: 'We', value: 60 },
-    { day: 'Th', value: 40 },
-    { day: 'Fr', value: 70 },
-    { day: 'Sa', value: 50 },
-    { day: 'Su', value: 80 }
-];
+import React, { useEffect, useMemo, useState } from 'react';
+import { CalendarRange, CheckCircle, DollarSign, Banknote, UserPlus } from 'lucide-react';
+import { getRecentQuarters } from '../../../lib/academicQuarters';
+import type { ReportsSummary } from './types/analytics';
 
-export function ReportsSection() {
-    return (
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-            {/* Earnings Report */}
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-                <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-semibold text-gray-900">Earning Report</h3>
-                    <button className="text-gray-400 hover:text-gray-600">
-                        <MoreHorizontal className="w-5 h-5" />
-                    </button>
-                </div>
-                <p className="text-sm text-gray-500 mb-6">Earning Report Lorem Ipsum</p>
+type RangePreset = 'last30' | 'custom' | string; // quarter labels, e.g. "Fall 2025"
 
-                <div className="mb-6">
-                    <span className="text-3xl font-bold text-gray-900">$508</span>
-                </div>
+interface WeeklyChartProps {
+    weeks: string[];
+    values: number[];
+    color: string;
+    formatValue: (value: number) => string;
+}
 
-                {/* Weekly Chart */}
-                <div className="h-32 flex items-end justify-between space-x-2 mb-4">
-                    {weeklyData.map((item, index) => (
-                        <div key={index} className="flex-1 flex flex-col items-center">
-                            <div
-                                className="w-full bg-yellow-400 rounded-t-sm"
-                                style={{ height: `${(item.value / 500) * 100}px` }}
-                            ></div>
-                            <span className="text-xs text-gray-500 mt-2">{item.day}</span>
-                        </div>
-                    ))}
-                </div>
+const toInputDate = (date: Date) => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
 
-                {/* Legend */}
-                <div className="space-y-2">
-                    <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-2">
-                            <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                            <span className="text-sm text-gray-600">Earning Report</span>
-                        </div>
-                        <span className="text-sm font-medium text-gray-900">$508.6</span>
-                    </div>
-                    <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-2">
-                            <div className="w-3 h-3 bg-purple-500 rounded-full"></div>
-                            <span className="text-sm text-gray-600">Profit</span>
-                        </div>
-                        <span className="text-sm font-medium text-gray-900">$508.6</span>
-                    </div>
-                    <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-2">
-                            <div className="w-3 h-3 bg-orange-500 rounded-full"></div>
-                            <span className="text-sm text-gray-600">Withdraw</span>
-                        </div>
-                        <span className="text-sm font-medium text-gray-900">$508.6</span>
-                    </div>
-                </div>
+const formatCurrency = (value: number) =>
+    value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const formatCount = (value: number) => value.toLocaleString('en-US');
+
+const formatWeekLabel = (iso: string) => {
+    const date = new Date(iso);
+    return `${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+function WeeklyChart({ weeks, values, color, formatValue }: WeeklyChartProps) {
+    const max = Math.max(...values, 0);
+    // Keep the axis readable for long ranges by labelling every few weeks
+    const labelEvery = Math.max(1, Math.ceil(weeks.length / 8));
+
+    if (max === 0) {
+        return (
+            <div className="h-32 flex items-center justify-center text-sm text-gray-400">
+                No activity in this range
             </div>
+        );
+    }
 
-            {/* Sales */}
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-                <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-semibold text-gray-900">Sales</h3>
-                    <button className="text-gray-400 hover:text-gray-600">
-                        <MoreHorizontal className="w-5 h-5" />
-                    </button>
-                </div>
-                <p className="text-sm text-gray-500 mb-6">Earning Report Lorem Ipsum</p>
-
-                <div className="flex items-center space-x-4 mb-6">
-                    <div className="w-16 h-16 bg-blue-500 rounded-lg flex items-center justify-center">
-                        <span className="text-white font-bold text-lg">540</span>
-                    </div>
-                    <div>
-                        <span className="text-2xl font-bold text-gray-900">540</span>
-                        <p className="text-sm text-gray-500">Sale</p>
-                    </div>
+    return (
+        <div className="h-36 flex items-end justify-between space-x-1">
+            {values.map((value, index) => (
+                <div key={weeks[index]} className="flex-1 flex flex-col items-center min-w-0">
+                    <div
+                        className={`w-full ${color} rounded-t-sm`}
+                        style={{ height: `${Math.max((value / max) * 112, value > 0 ? 2 : 0)}px` }}
+                        title={`Week of ${formatWeekLabel(weeks[index])}: ${formatValue(value)}`}
+                    ></div>
+                    <span className="text-[10px] text-gray-500 mt-2 h-3">
+                        {index % labelEvery === 0 ? formatWeekLabel(weeks[index]) : ''}
+                    </span>
                 </div>
+            ))}
+        </div>
+    );
+}
 
-                {/* Weekly Chart */}
-                <div className="h-32 flex items-end justify-between space-x-2">
-                    {weeklyData.map((item, index) => (
-                        <div key={index} className="flex-1 flex flex-col items-center">
-                            <div
-                                className="w-full bg-blue-500 rounded-t-sm"
-                                style={{ height: `${(item.value / 500) * 100}px` }}
-                            ></div>
-                            <span className="text-xs text-gray-500 mt-2">{item.day}</span>
-                        </div>
-                    ))}
-                </div>
-            </div>
+export function ReportsSection() {
+    const quarters = useMemo(() => getRecentQuarters(4), []);
+    const [preset, setPreset] = useState<RangePreset>(quarters[0].label);
+    const [customStart, setCustomStart] = useState(toInputDate(quarters[0].start));
+    const [customEnd, setCustomEnd] = useState(toInputDate(new Date()));
+    const [summary, setSummary] = useState<ReportsSummary | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const range = useMemo(() => {
+        if (preset === 'last30') {
+            const end = new Date();
+            return { start: new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000), end };
+        }
+        if (preset === 'custom') {
+            const start = new Date(`${customStart}T00:00:00`);
+            const end = new Date(`${customEnd}T23:59:59.999`);
+            return { start, end };
+        }
+        const quarter = quarters.find(q => q.label === preset) || quarters[0];
+        return { start: quarter.start, end: quarter.end };
+    }, [preset, customStart, customEnd, quarters]);
+
+    useEffect(() => {
+        if (Number.isNaN(range.start.getTime()) || Number.isNaN(range.end.getTime()) || range.end <= range.start) {
+            setError('Choose an end date after the start date');
+            setLoading(false);
+            return;
+        }
+
+        let cancelled = false;
+        const fetchSummary = async () => {
+            setLoading(true);
+            setError(null);
+            try {
+                const params = new URLSearchParams({
+                    start: range.start.toISOString(),
+                    end: range.end.toISOString()
+                });
+                const response = await fetch(`/api/analytics/reports?${params.toString()}`);
+                const result = await response.json();
+                if (cancelled) return;
+
+                if (!response.ok || !result.success) {
+                    setError(result.message || 'Failed to load reports');
+                    setSummary(null);
+                } else {
+                    setSummary(result.data);
+                }
+            } catch (err) {
+                console.error('Error fetching reports:', err);
+                if (!cancelled) {
+                    setError('Failed to load reports');
+                    setSummary(null);
+                }
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        fetchSummary();
+        return () => {
+            cancelled = true;
+        };
+    }, [range]);
 
-            {/* Earning */}
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-                <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-semibold text-gray-900">Earning</h3>
-                    <button className="text-gray-400 hover:text-gray-600">
-                        <MoreHorizontal className="w-5 h-5" />
-                    </button>
+    const rangeLabel = `${range.start.toLocaleDateString()} – ${range.end.toLocaleDateString()}`;
+
+    const cards = summary ? [
+        {
+            title: 'Event Check-ins',
+            description: 'Members checked in to events',
+            icon: CheckCircle,
+            iconColor: 'bg-blue-100 text-blue-600',
+            barColor: 'bg-blue-500',
+            value: formatCount(summary.checkIns.total),
+            detail: `${summary.weeks.length} week${summary.weeks.length === 1 ? '' : 's'}`,
+            series: summary.checkIns.weekly,
+            formatValue: formatCount
+        },
+        {
+            title: 'Reimbursements Paid',
+            description: 'Dollars paid out to members',
+            icon: DollarSign,
+            iconColor: 'bg-green-100 text-green-600',
+            barColor: 'bg-green-500',
+            value: formatCurrency(summary.reimbursementsPaid.total),
+            detail: `${summary.reimbursementsPaid.count} request${summary.reimbursementsPaid.count === 1 ? '' : 's'}`,
+            series: summary.reimbursementsPaid.weekly,
+            formatValue: formatCurrency
+        },
+        {
+            title: 'Deposits Verified',
+            description: 'Fund deposits verified by the treasurer',
+            icon: Banknote,
+            iconColor: 'bg-yellow-100 text-yellow-600',
+            barColor: 'bg-yellow-400',
+            value: formatCurrency(summary.depositsVerified.total),
+            detail: `${summary.depositsVerified.count} deposit${summary.depositsVerified.count === 1 ? '' : 's'}`,
+            series: summary.depositsVerified.weekly,
+            formatValue: formatCurrency
+        },
+        {
+            title: 'New Members',
+            description: 'Accounts created in this range',
+            icon: UserPlus,
+            iconColor: 'bg-purple-100 text-purple-600',
+            barColor: 'bg-purple-500',
+            value: `+${formatCount(summary.newMembers.total)}`,
+            detail: 'by join date',
+            series: summary.newMembers.weekly,
+            formatValue: formatCount
+        }
+    ] : [];
+
+    return (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 md:p-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-6">
+                <div>
+                    <h2 className="text-base md:text-lg font-semibold text-gray-900">Reports</h2>
+                    <p className="text-sm text-gray-500 flex items-center">
+                        <CalendarRange className="w-4 h-4 mr-1" />
+                        {rangeLabel}
+                    </p>
                 </div>
-                <p className="text-sm text-gray-500 mb-6">Earning Report Lorem Ipsum</p>
-
-                <div className="flex items-center space-x-4 mb-6">
-                    <div className="w-16 h-16 bg-blue-500 rounded-lg flex items-center justify-center">
-                        <span className="text-white font-bold text-lg">540</span>
-                    </div>
-                    <div>
-                        <span className="text-2xl font-bold text-gray-900">540</span>
-                        <p className="text-sm text-gray-500">Sale</p>
-                    </div>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <select
+                        value={preset}
+                        onChange={(e) => setPreset(e.target.value)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        {quarters.map((quarter, index) => (
+                            <option key={quarter.label} value={quarter.label}>
+                                {quarter.label}{index === 0 ? ' (current)' : ''}
+                            </option>
+                        ))}
+                        <option value="last30">Last 30 days</option>
+                        <option value="custom">Custom range</option>
+                    </select>
+                    {preset === 'custom' && (
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="date"
+                                value={customStart}
+                                onChange={(e) => setCustomStart(e.target.value)}
+                                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <span className="text-sm text-gray-500">to</span>
+                            <input
+                                type="date"
+                                value={customEnd}
+                                onChange={(e) => setCustomEnd(e.target.value)}
+                                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        </div>
+                    )}
                 </div>
+            </div>
 
-                {/* Weekly Chart */}
-                <div className="h-32 flex items-end justify-between space-x-2">
-                    {earningsData.map((item, index) => (
-                        <div key={index} className="flex-1 flex flex-col items-center">
-                            <div
-                                className="w-full bg-blue-500 rounded-t-sm"
-                                style={{ height: `${(item.value / 500) * 100}px` }}
-                            ></div>
-                            <span className="text-xs text-gray-500 mt-2">{item.day}</span>
+            {error ? (
+                <div className="text-center py-8 text-sm text-red-600">{error}</div>
+            ) : loading || !summary ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 md:gap-6">
+                    {[0, 1, 2, 3].map(index => (
+                        <div key={index} className="border border-gray-200 rounded-lg p-4 animate-pulse">
+                            <div className="h-4 bg-gray-200 rounded w-1/2 mb-4"></div>
+                            <div className="h-8 bg-gray-200 rounded w-1/3 mb-6"></div>
+                            <div className="h-32 bg-gray-100 rounded"></div>
                         </div>
                     ))}
                 </div>
-            </div>
-
-            {/* Follower */}
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Follower</h3>
-                <p className="text-sm text-gray-500 mb-6">Follower Report Lorem Ipsum</p>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 md:gap-6">
+                    {cards.map(card => (
+                        <div key={card.title} className="border border-gray-200 rounded-lg p-4">
+                            <div className="flex items-center justify-between mb-2">
+                                <h3 className="text-sm font-semibold text-gray-900">{card.title}</h3>
+                                <div className={`w-8 h-8 ${card.iconColor} rounded-full flex items-center justify-center`}>
+                                    <card.icon className="w-4 h-4" />
+                                </div>
+                            </div>
+                            <p className="text-xs text-gray-500 mb-4">{card.description}</p>
 
-                <div className="mb-6">
-                    <span className="text-3xl font-bold text-gray-900">+58</span>
-                </div>
+                            <div className="mb-4">
+                                <span className="text-2xl font-bold text-gray-900">{card.value}</span>
+                                <span className="text-xs text-gray-500 ml-2">{card.detail}</span>
+                            </div>
 
-                <p className="text-sm text-gray-500 mb-6">
-                    Lorem ipsum is simply dummy text of the printing
-                </p>
-
-                {/* Weekly Chart */}
-                <div className="h-32 flex items-end justify-between space-x-2">
-                    {followerData.map((item, index) => (
-                        <div key={index} className="flex-1 flex flex-col items-center">
-                            <div
-                                className="w-full bg-yellow-400 rounded-t-sm"
-                                style={{ height: `${(item.value / 100) * 100}px` }}
-                            ></div>
-                            <span className="text-xs text-gray-500 mt-2">{item.day}</span>
+                            <WeeklyChart
+                                weeks={summary.weeks}
+                                values={card.series}
+                                color={card.barColor}
+                                formatValue={card.formatValue}
+                            />
                         </div>
                     ))}
                 </div>
-            </div>
+            )}
         </div>
     );
-} 
\ No newline at end of file
+}
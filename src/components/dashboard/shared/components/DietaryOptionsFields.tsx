@@ -0,0 +1,49 @@
+import React from 'react';
+import { DIETARY_RESTRICTIONS, MAX_ALLERGIES_LENGTH } from '../../../../lib/dietaryPreferences';
+import type { DietaryPreferences, DietaryRestriction } from '../types/firestore';
+
+interface DietaryOptionsFieldsProps {
+    value: DietaryPreferences;
+    onChange: (value: DietaryPreferences) => void;
+    disabled?: boolean;
+}
+
+export default function DietaryOptionsFields({ value, onChange, disabled }: DietaryOptionsFieldsProps) {
+    const toggleRestriction = (restriction: DietaryRestriction, checked: boolean) => {
+        const restrictions = checked
+            ? [...value.restrictions, restriction]
+            : value.restrictions.filter(r => r !== restriction);
+        onChange({ ...value, restrictions });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {DIETARY_RESTRICTIONS.map(option => (
+                    <label key={option.key} className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            checked={value.restrictions.includes(option.key)}
+                            onChange={(e) => toggleRestriction(option.key, e.target.checked)}
+                            disabled={disabled}
+                        />
+                        <span>{option.label}</span>
+                    </label>
+                ))}
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Allergies</label>
+                <input
+                    type="text"
+                    placeholder="e.g. peanuts, shellfish"
+                    value={value.allergies || ''}
+                    onChange={(e) => onChange({ ...value, allergies: e.target.value })}
+                    maxLength={MAX_ALLERGIES_LENGTH}
+                    disabled={disabled}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Calendar, Gift, History, MinusCircle, SlidersHorizontal, Undo2 } from 'lucide-react';
+import { POINT_TRANSACTION_LABELS, type PointTransactionRecord } from '../services/pointsService';
+import type { PointTransactionType } from '../types/firestore';
+
+interface PointsHistoryListProps {
+    transactions: PointTransactionRecord[];
+    emptyMessage?: string;
+    // Officer view: offer to revoke entries that haven't been revoked yet
+    onRevoke?: (transaction: PointTransactionRecord) => void;
+}
+
+const TYPE_ICONS: Record<PointTransactionType, React.ComponentType<{ className?: string }>> = {
+    check_in: Calendar,
+    adjustment: SlidersHorizontal,
+    bonus: Gift,
+    revocation: MinusCircle,
+    opening_balance: History,
+};
+
+const formatDate = (value: any) => {
+    const date = value?.toDate ? value.toDate() : null;
+    return date ? date.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric'
+    }) : 'Just now';
+};
+
+export default function PointsHistoryList({ transactions, emptyMessage = 'No points activity yet', onRevoke }: PointsHistoryListProps) {
+    const revokedIds = new Set(transactions.map(transaction => transaction.revokesTransactionId).filter(Boolean));
+
+    if (transactions.length === 0) {
+        return <p className="text-sm text-gray-500 text-center py-6">{emptyMessage}</p>;
+    }
+
+    return (
+        <ul className="divide-y divide-gray-100">
+            {transactions.map(transaction => {
+                const Icon = TYPE_ICONS[transaction.type] || SlidersHorizontal;
+                const revoked = revokedIds.has(transaction.id);
+                const canRevoke = onRevoke && !revoked && transaction.type !== 'revocation' && transaction.points > 0;
+
+                return (
+                    <li key={transaction.id} className="flex items-start gap-3 py-3">
+                        <div className="w-8 h-8 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                            <Icon className="w-4 h-4 text-gray-600" />
+                        </div>
+                        <div className="min-w-0 flex-1">
+                            <div className="flex items-center gap-2">
+                                <span className="text-sm font-medium text-gray-900">
+                                    {POINT_TRANSACTION_LABELS[transaction.type] || transaction.type}
+                                </span>
+                                {revoked && (
+                                    <span className="inline-flex px-2 py-0.5 text-xs font-medium bg-red-100 text-red-700 rounded-full">
+                                        Revoked
+                                    </span>
+                                )}
+                            </div>
+                            <p className={`text-sm text-gray-600 ${revoked ? 'line-through' : ''}`}>{transaction.reason}</p>
+                            <p className="text-xs text-gray-400 mt-0.5">
+                                {formatDate(transaction.createdAt)}
+                                {transaction.type !== 'check_in' && transaction.performedByName && ` · by ${transaction.performedByName}`}
+                            </p>
+                        </div>
+                        <div className="flex flex-col items-end gap-1">
+                            <span className={`text-sm font-semibold ${transaction.points >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {transaction.points >= 0 ? '+' : ''}{transaction.points} pts
+                            </span>
+                            {canRevoke && (
+                                <button
+                                    onClick={() => onRevoke(transaction)}
+                                    className="flex items-center gap-1 text-xs text-red-600 hover:text-red-800"
+                                >
+                                    <Undo2 className="w-3 h-3" />
+                                    Revoke
+                                </button>
+                            )}
+                        </div>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
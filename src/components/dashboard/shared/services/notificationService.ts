@@ -0,0 +1,76 @@
+import {
+  getFirestore,
+  collection,
+  doc,
+  getDocs,
+  query,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { app } from "../../../../firebase/client";
+
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 500;
+
+export class NotificationService {
+  private static db = getFirestore(app);
+
+  /**
+   * Mark a single notification as read
+   */
+  static async markAsRead(notificationId: string): Promise<void> {
+    await updateDoc(doc(this.db, "notifications", notificationId), {
+      read: true,
+      readAt: new Date(),
+    });
+  }
+
+  /**
+   * Mark every unread notification for a user as read
+   */
+  static async markAllAsRead(userId: string): Promise<number> {
+    const unreadSnapshot = await getDocs(
+      query(
+        collection(this.db, "notifications"),
+        where("userId", "==", userId),
+        where("read", "==", false),
+      ),
+    );
+
+    const readAt = new Date();
+    for (let i = 0; i < unreadSnapshot.docs.length; i += BATCH_SIZE) {
+      const batch = writeBatch(this.db);
+      unreadSnapshot.docs.slice(i, i + BATCH_SIZE).forEach((notification) => {
+        batch.update(notification.ref, { read: true, readAt });
+      });
+      await batch.commit();
+    }
+
+    return unreadSnapshot.size;
+  }
+
+  /**
+   * Tell members about a newly published event. Notifications are created
+   * server-side, and only the first time an event is published.
+   */
+  static async notifyEventPublished(eventId: string): Promise<void> {
+    try {
+      const response = await fetch("/api/notifications/event-published", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ eventId }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        console.error(
+          "Event published notification API error:",
+          result?.message,
+        );
+      }
+    } catch (error) {
+      console.error("Failed to send event published notifications:", error);
+    }
+  }
+}
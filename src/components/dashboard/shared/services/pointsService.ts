@@ -0,0 +1,83 @@
+import {
+  getFirestore,
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  where,
+} from "firebase/firestore";
+import { app } from "../../../../firebase/client";
+import type {
+  PointTransaction,
+  PointTransactionType,
+} from "../types/firestore";
+
+export type PointTransactionRecord = PointTransaction & { id: string };
+
+export interface PointTransactionRequest {
+  userId: string;
+  type: Exclude<PointTransactionType, "check_in" | "opening_balance">;
+  points?: number;
+  reason: string;
+  eventId?: string;
+  revokesTransactionId?: string;
+}
+
+export const POINT_TRANSACTION_LABELS: Record<PointTransactionType, string> = {
+  check_in: "Check-in",
+  adjustment: "Adjustment",
+  bonus: "Bonus",
+  revocation: "Revocation",
+  opening_balance: "Opening balance",
+};
+
+export class PointsService {
+  private static db = getFirestore(app);
+
+  /**
+   * Get a member's most recent ledger entries, newest first
+   */
+  static async getUserTransactions(
+    userId: string,
+    maxEntries = 50,
+  ): Promise<PointTransactionRecord[]> {
+    const snapshot = await getDocs(
+      query(
+        collection(this.db, "point_transactions"),
+        where("userId", "==", userId),
+        orderBy("createdAt", "desc"),
+        limit(maxEntries),
+      ),
+    );
+
+    return snapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...(doc.data() as PointTransaction),
+    }));
+  }
+
+  /**
+   * Grant or revoke points. Ledger entries are only written server-side so the
+   * member's totals are recomputed in the same transaction.
+   */
+  static async recordTransaction(request: PointTransactionRequest): Promise<{
+    transactionId: string;
+    pointsChanged: number;
+    totalPoints: number;
+    eventsAttended: number;
+  }> {
+    const response = await fetch("/api/points/transactions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+      throw new Error(result?.message || "Failed to update points");
+    }
+
+    return result.data;
+  }
+}
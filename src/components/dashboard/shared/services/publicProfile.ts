@@ -2,7 +2,6 @@ import {
   doc,
   setDoc,
   getDoc,
-  updateDoc,
   collection,
   query,
   orderBy,
@@ -118,43 +117,6 @@ export class PublicProfileService {
     }
   }
 
-  /**
-   * Updates points and events attended for a user
-   */
-  static async updateUserStats(
-    userId: string,
-    updates: { points?: number; eventsAttended?: number },
-  ): Promise<void> {
-    try {
-      // Update top-level collection
-      const publicProfileRef = doc(db, "public_profiles", userId);
-
-      await updateDoc(publicProfileRef, {
-        ...updates,
-        lastUpdated: new Date(),
-      });
-
-      // Also update subcollection for backup/compatibility
-      try {
-        const subCollectionRef = doc(
-          db,
-          "users",
-          userId,
-          "public_profile",
-          "profile",
-        );
-        await updateDoc(subCollectionRef, {
-          ...updates,
-          lastUpdated: new Date(),
-        });
-      } catch (subError) {
-        // Failed to update subcollection, but main update succeeded
-      }
-    } catch (error) {
-      throw error;
-    }
-  }
-
   /**
    * Migrates existing user data to public profiles
    */
@@ -0,0 +1,19 @@
+// Response shape of GET /api/analytics/reports
+
+export interface WeeklySeries {
+  total: number;
+  weekly: number[];
+}
+
+export interface WeeklyAmountSeries extends WeeklySeries {
+  count: number;
+}
+
+export interface ReportsSummary {
+  range: { start: string; end: string };
+  weeks: string[]; // ISO start of each weekly bucket
+  checkIns: WeeklySeries;
+  reimbursementsPaid: WeeklyAmountSeries;
+  depositsVerified: WeeklyAmountSeries;
+  newMembers: WeeklySeries;
+}
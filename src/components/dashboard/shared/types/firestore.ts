@@ -1,4 +1,11 @@
 import type { Timestamp } from "firebase/firestore";
+import type { ReimbursementStatus } from "../../../../lib/reimbursementStatus";
+import type { PolicyViolation } from "../../../../lib/reimbursementPolicy";
+import type {
+  JournalLine,
+  LedgerAccount,
+  LedgerSource,
+} from "../../../../lib/treasuryLedger";
 
 export type UserRole =
   | "Member"
@@ -9,6 +16,29 @@ export type UserRole =
   | "Sponsor"
   | "Administrator";
 
+export type NotificationCategory =
+  | "eventRequestUpdates"
+  | "reimbursementStatus"
+  | "auditRequests"
+  | "newEvents"
+  | "weeklyDigest";
+
+// Missing categories fall back to DEFAULT_NOTIFICATION_PREFERENCES
+export type NotificationPreferences = Partial<
+  Record<NotificationCategory, boolean>
+>;
+
+export type DietaryRestriction =
+  | "vegetarian"
+  | "vegan"
+  | "halal"
+  | "gluten_free";
+
+export interface DietaryPreferences {
+  restrictions: DietaryRestriction[];
+  allergies?: string; // free text, e.g. "peanuts, shellfish"
+}
+
 export interface User {
   email: string;
   emailVisibility: boolean;
@@ -22,7 +52,8 @@ export interface User {
   major?: string;
   zelleInformation?: string;
   lastLogin?: Timestamp;
-  notificationPreferences: Record<string, unknown>;
+  notificationPreferences: NotificationPreferences;
+  dietaryPreferences?: DietaryPreferences;
   displayPreferences: Record<string, unknown>;
   accessibilitySettings: Record<string, unknown>;
   resume?: string;
@@ -32,8 +63,8 @@ export interface User {
   position?: string; // Specific position like "Webmaster", "President", etc.
   status: "active" | "inactive" | "suspended";
   joinDate: Timestamp;
-  eventsAttended?: number;
-  points?: number;
+  eventsAttended?: number; // derived from point_transactions, never edited directly
+  points?: number; // derived from point_transactions, never edited directly
   invitedBy?: string; // uid of the user who invited them
   inviteAccepted?: Timestamp; // when they accepted the invite
   lastUpdated?: Timestamp; // when the user data was last updated
@@ -77,13 +108,78 @@ export interface Event {
     | "projects"
     | "other";
   hasFood: boolean;
+  capacity?: number | null; // RSVP limit; unset means unlimited
+  rsvpCount?: number; // maintained by /api/events/rsvp
+  waitlistCount?: number;
+}
+
+// events/{eventId}/rsvps/{userId}. Cancelling deletes the document.
+export interface EventRsvp {
+  userId: string;
+  name: string;
+  status: "going" | "waitlisted";
+  createdAt: Timestamp;
+  promotedAt?: Timestamp; // when the member moved off the waitlist
+  dietary?: DietaryPreferences; // for events with food, confirmed at RSVP time
 }
 
 export interface Attendee {
   userId: string;
   timeCheckedIn: Timestamp;
   food: string;
+  dietary?: DietaryPreferences; // copied from the RSVP or profile at check-in
   pointsEarned: number;
+  checkInMethod?: "code" | "qr" | "officer";
+  addedBy?: string; // officer who added the attendee by hand
+}
+
+export type PointTransactionType =
+  | "check_in"
+  | "adjustment"
+  | "bonus"
+  | "revocation"
+  | "opening_balance";
+
+// Append-only: entries are never edited or deleted. Mistakes are corrected by
+// writing a revocation or adjustment, and users.points / eventsAttended are
+// recomputed from the full ledger on every write.
+export interface PointTransaction {
+  userId: string;
+  type: PointTransactionType;
+  points: number; // signed; revocations are negative
+  reason: string;
+  eventId?: string;
+  eventName?: string;
+  performedBy: string; // the member for self check-ins, otherwise the officer
+  performedByName?: string;
+  revokesTransactionId?: string; // entry cancelled by this revocation
+  openingEventsAttended?: number; // attendance carried over from before the ledger
+  createdAt: Timestamp;
+}
+
+export interface SeasonStanding {
+  userId: string;
+  name: string;
+  major?: string;
+  graduationYear?: number;
+  position?: string;
+  points: number; // earned during the season only
+  eventsAttended: number;
+  rank: number;
+}
+
+// Frozen standings for a closed leaderboard season. The document id is the
+// quarter id from getQuarterId, e.g. "2025-fall".
+export interface LeaderboardSeason {
+  label: string;
+  start: Timestamp;
+  end: Timestamp;
+  standings: SeasonStanding[];
+  winners: SeasonStanding[]; // top members snapshotted for prizes
+  prizeCount: number;
+  closedAt: Timestamp;
+  closedBy: string;
+  closedByName?: string;
 }
 
 export interface InvoiceItem {
@@ -101,6 +197,8 @@ export interface Invoice {
   tip: number;
   invoiceFile?: string;
   additionalFiles: string[];
+  // Content hashes of the invoice files, for duplicate receipt checks
+  invoiceFileHashes?: string[];
   subtotal: number;
   total: number;
 }
@@ -137,6 +235,8 @@ export interface EventRequest {
   }[];
   invoice?: string;
   invoiceFiles?: string[];
+  // Every invoice file hash across `invoices`, queried by duplicate receipt checks
+  invoiceFileHashes?: string[];
   needsGraphics: boolean;
   needsAsFunding: boolean;
   status: "submitted" | "pending" | "completed" | "declined" | "needs_review";
@@ -144,6 +244,45 @@ export interface EventRequest {
   reviewFeedback?: string;
   requestedUser: string;
   auditLogs?: EventAuditLog[];
+  seriesId?: string; // shared by every occurrence of a recurring event
+  seriesIndex?: number; // 0 for the first occurrence
+  deadlineOverride?: {
+    reason: string;
+    rules: string[]; // lead-time rule keys that were missed
+    overriddenBy: string;
+    overriddenAt: Timestamp;
+  };
+}
+
+export interface EventTemplateInvoice {
+  vendor: string;
+  items: InvoiceItem[];
+  tax: number;
+  tip: number;
+}
+
+// Shared starting point for new event requests, stored in `templates`
+export interface EventTemplate {
+  name: string; // also the default event name
+  defaultLocation: string;
+  eventDescription: string;
+  department: string;
+  expectedAttendance?: number;
+  needsGraphics: boolean;
+  flyersNeeded: boolean;
+  flyerType: string[];
+  otherFlyerType?: string;
+  requiredLogos: string[];
+  otherLogos: string[]; // uploaded logo file URLs
+  photographyNeeded: boolean;
+  asFundingRequired: boolean;
+  foodDrinksBeingServed: boolean;
+  invoices: EventTemplateInvoice[]; // typical orders, without receipt files
+  sourceRequestId?: string;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedBy: string;
+  updatedAt: Timestamp;
 }
 
 export interface EventAuditLog {
@@ -157,7 +296,9 @@ export interface EventAuditLog {
     | "file_deleted"
     | "graphics_updated"
     | "published"
-    | "unpublished";
+    | "unpublished"
+    | "attendance_updated"
+    | "deadline_overridden";
   performedBy: string;
   performedByName?: string;
   timestamp: Timestamp;
@@ -192,6 +333,26 @@ export interface Log {
   created: Timestamp;
 }
 
+export type NotificationType =
+  | "event_request"
+  | "reimbursement"
+  | "audit"
+  | "invite"
+  | "event"
+  | "system";
+
+export interface Notification {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string; // dashboard path to open when the notification is clicked
+  read: boolean;
+  readAt?: Timestamp;
+  createdAt: Timestamp;
+  metadata?: Record<string, unknown>;
+}
+
 export interface Officer {
   userId: string;
   role: string;
@@ -203,7 +364,7 @@ export interface Reimbursement {
   totalAmount: number;
   dateOfPurchase: Timestamp;
   paymentMethod: string;
-  status: "submitted" | "declined" | "approved" | "paid";
+  status: ReimbursementStatus;
   submittedBy: string;
   additionalInfo: string;
   department: "internal" | "external" | "projects" | "events" | "other";
@@ -218,7 +379,93 @@ export interface Reimbursement {
     auditNotes?: string;
     completedAt?: Timestamp;
   }[];
+  // Content hashes of every receipt, for duplicate receipt checks
+  receiptHashes?: string[];
+  // Rules broken when the request was submitted
+  policyViolations?: PolicyViolation[];
   requiresExecutiveOverride?: boolean;
+  // Set when an executive approves a flagged request
+  executiveOverride?: {
+    approvedBy: string;
+    approvedByName: string;
+    reason: string;
+    approvedAt: Timestamp;
+  };
+  paymentConfirmation?: {
+    confirmationNumber: string;
+    photoAttachment: string | null;
+    paidBy: string;
+    paidByName: string;
+    paidAt: Timestamp;
+    payoutBatchId?: string;
+    ledgerAccount?: LedgerAccount; // account the payment was posted from
+  };
+  // Draft or paid payout batch this reimbursement belongs to
+  payoutBatchId?: string;
+}
+
+export type PayoutMethod = "zelle" | "check";
+
+// Payee details are copied in when the batch is created so the payout sheet
+// matches what was paid
+export interface PayoutBatchItem {
+  reimbursementId: string;
+  title: string;
+  amount: number;
+  payeeId: string;
+  payeeName: string;
+  payeeEmail: string;
+  zelleInformation: string;
+}
+
+export interface PayoutBatch {
+  name: string;
+  method: PayoutMethod;
+  status: "draft" | "paid" | "cancelled";
+  reimbursementIds: string[];
+  items: PayoutBatchItem[];
+  totalAmount: number;
+  createdBy: string;
+  createdByName: string;
+  createdAt: Timestamp;
+  confirmationReference?: string;
+  paidBy?: string;
+  paidByName?: string;
+  paidAt?: Timestamp;
+  cancelledBy?: string;
+  cancelledByName?: string;
+  cancelledAt?: Timestamp;
+  ledgerAccount?: LedgerAccount;
+}
+
+// Append-only like the points ledger. Deposit and reimbursement entries use
+// deterministic ids (deposit_<id>, reimbursement_<id>) so nothing posts twice;
+// mistakes are corrected with a journal entry.
+export interface LedgerEntry {
+  account: LedgerAccount;
+  amount: number; // signed; money out is negative
+  date: string; // "YYYY-MM-DD" the money moved
+  description: string;
+  source: LedgerSource;
+  sourceId: string; // fundDeposits, reimbursements or journal_entries doc
+  postedBy: string;
+  postedByName: string;
+  postedAt: Timestamp;
+}
+
+// Posts its lines to the ledger once a different executive approves it
+export interface JournalEntry {
+  date: string; // "YYYY-MM-DD"
+  memo: string;
+  lines: JournalLine[];
+  status: "pending" | "approved" | "rejected";
+  createdBy: string;
+  createdByName: string;
+  createdAt: Timestamp;
+  reviewedBy?: string;
+  reviewedByName?: string;
+  reviewedAt?: Timestamp;
+  rejectionReason?: string;
 }
 
 export interface Receipt {
@@ -41,10 +41,12 @@ export const NAVIGATION_PATHS = {
   LEADERBOARD: "/dashboard/leaderboard",
   MANAGE_EVENTS: "/dashboard/manage-events",
   MANAGE_REIMBURSEMENTS: "/dashboard/manage-reimbursements",
+  TREASURY_LEDGER: "/dashboard/treasury-ledger",
   FUND_DEPOSITS: "/dashboard/fund-deposits",
   SLACK_ACCESS: "/dashboard/slack-access",
   MANAGE_USERS: "/dashboard/manage-users",
   CONSTITUTION_BUILDER: "/dashboard/constitution-builder",
+  NOTIFICATIONS: "/dashboard/notifications",
   SETTINGS: "/dashboard/settings",
   SIGNOUT: "/dashboard/signout",
   GET_STARTED: "/dashboard/get-started",
@@ -0,0 +1,140 @@
+export type QuarterName = "Winter" | "Spring" | "Summer" | "Fall";
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface QuarterRange extends DateRange {
+  name: QuarterName;
+  year: number;
+  label: string;
+}
+
+// Quarter start dates in calendar order as [name, month (0-based), day]. The
+// boundaries approximate UCSD's academic calendar and are contiguous so every
+// date belongs to exactly one quarter.
+const QUARTER_STARTS: [QuarterName, number, number][] = [
+  ["Winter", 0, 1],
+  ["Spring", 2, 28],
+  ["Summer", 5, 21],
+  ["Fall", 8, 21],
+];
+
+// Boundaries fall at midnight on campus, whatever zone the server or browser
+// runs in
+const TIME_ZONE = "America/Los_Angeles";
+
+const pacificFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: TIME_ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "numeric",
+  minute: "numeric",
+  second: "numeric",
+});
+
+function pacificParts(date: Date) {
+  const parts: Record<string, number> = {};
+  pacificFormat.formatToParts(date).forEach(({ type, value }) => {
+    parts[type] = Number(value);
+  });
+  return parts;
+}
+
+// Milliseconds Pacific wall-clock time is ahead of UTC at `date` (negative)
+function pacificOffset(date: Date): number {
+  const parts = pacificParts(date);
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function pacificMidnight(year: number, month: number, day: number): Date {
+  const utcMidnight = Date.UTC(year, month, day);
+  const guess = utcMidnight - pacificOffset(new Date(utcMidnight));
+  // Re-check in case a daylight saving change falls between the two
+  return new Date(utcMidnight - pacificOffset(new Date(guess)));
+}
+
+function buildQuarter(year: number, index: number): QuarterRange {
+  const [name, month, day] = QUARTER_STARTS[index];
+  const start = pacificMidnight(year, month, day);
+  const next =
+    index + 1 < QUARTER_STARTS.length
+      ? pacificMidnight(
+          year,
+          QUARTER_STARTS[index + 1][1],
+          QUARTER_STARTS[index + 1][2],
+        )
+      : pacificMidnight(year + 1, 0, 1);
+
+  return {
+    name,
+    year,
+    label: `${name} ${year}`,
+    start,
+    end: new Date(next.getTime() - 1),
+  };
+}
+
+export function getQuarterForDate(date: Date): QuarterRange {
+  const year = pacificParts(date).year;
+  let index = 0;
+  QUARTER_STARTS.forEach(([, month, day], i) => {
+    if (date >= pacificMidnight(year, month, day)) {
+      index = i;
+    }
+  });
+  return buildQuarter(year, index);
+}
+
+/**
+ * The current quarter followed by the `count - 1` quarters before it, most
+ * recent first.
+ */
+export function getRecentQuarters(
+  count: number,
+  now: Date = new Date(),
+): QuarterRange[] {
+  const current = getQuarterForDate(now);
+  let year = current.year;
+  let index = QUARTER_STARTS.findIndex(([name]) => name === current.name);
+
+  const quarters: QuarterRange[] = [];
+  for (let i = 0; i < count; i++) {
+    quarters.push(buildQuarter(year, index));
+    index -= 1;
+    if (index < 0) {
+      index = QUARTER_STARTS.length - 1;
+      year -= 1;
+    }
+  }
+  return quarters;
+}
+
+/**
+ * Stable identifier for a quarter, e.g. "2025-fall". Used as the document id
+ * for archived leaderboard seasons.
+ */
+export function getQuarterId(quarter: { name: QuarterName; year: number }) {
+  return `${quarter.year}-${quarter.name.toLowerCase()}`;
+}
+
+export function getQuarterById(id: string): QuarterRange | null {
+  const match = /^(\d{4})-(winter|spring|summer|fall)$/.exec(id);
+  if (!match) return null;
+
+  const index = QUARTER_STARTS.findIndex(
+    ([name]) => name.toLowerCase() === match[2],
+  );
+  return buildQuarter(Number(match[1]), index);
+}
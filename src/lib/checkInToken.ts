@@ -0,0 +1,68 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Signed, short-lived check-in tokens for the event kiosk QR code.
+ *
+ * A token is `<eventId>.<window>.<signature>` where `window` is the 30 second
+ * slot it was issued in. A token stays valid for a couple of slots after it
+ * rotates off the kiosk so members have time to pick a food preference.
+ * Server-side only: the signing secret must never reach the browser.
+ */
+
+export const CHECK_IN_TOKEN_ROTATION_MS = 30 * 1000;
+const CHECK_IN_TOKEN_GRACE_WINDOWS = 2;
+
+function getSecret(): string {
+  const secret = import.meta.env.CHECK_IN_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("Missing CHECK_IN_TOKEN_SECRET configuration");
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSecret()).update(payload).digest("base64url");
+}
+
+function getWindow(now: number): number {
+  return Math.floor(now / CHECK_IN_TOKEN_ROTATION_MS);
+}
+
+export function createCheckInToken(
+  eventId: string,
+  now: number = Date.now(),
+): { token: string; expiresAt: number } {
+  const window = getWindow(now);
+  const payload = `${eventId}.${window}`;
+  return {
+    token: `${payload}.${sign(payload)}`,
+    expiresAt: (window + 1) * CHECK_IN_TOKEN_ROTATION_MS,
+  };
+}
+
+export function verifyCheckInToken(
+  token: string,
+  now: number = Date.now(),
+): { valid: true; eventId: string } | { valid: false; reason: string } {
+  const parts = typeof token === "string" ? token.split(".") : [];
+  if (parts.length !== 3) {
+    return { valid: false, reason: "Invalid check-in link" };
+  }
+
+  const [eventId, windowPart, signature] = parts;
+  const expected = Buffer.from(sign(`${eventId}.${windowPart}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: "Invalid check-in link" };
+  }
+
+  const age = getWindow(now) - Number(windowPart);
+  if (!Number.isInteger(age) || age < 0 || age > CHECK_IN_TOKEN_GRACE_WINDOWS) {
+    return {
+      valid: false,
+      reason: "This QR code has expired. Please scan the current code.",
+    };
+  }
+
+  return { valid: true, eventId };
+}
@@ -0,0 +1,97 @@
+import type {
+  DietaryPreferences,
+  DietaryRestriction,
+} from "../components/dashboard/shared/types/firestore";
+
+export const DIETARY_RESTRICTIONS: {
+  key: DietaryRestriction;
+  label: string;
+}[] = [
+  { key: "vegetarian", label: "Vegetarian" },
+  { key: "vegan", label: "Vegan" },
+  { key: "halal", label: "Halal" },
+  { key: "gluten_free", label: "Gluten-free" },
+];
+
+export const MAX_ALLERGIES_LENGTH = 200;
+
+export function isDietaryRestriction(
+  value: unknown,
+): value is DietaryRestriction {
+  return DIETARY_RESTRICTIONS.some((option) => option.key === value);
+}
+
+/**
+ * Drops unknown restrictions and trims allergies. Returns null when nothing is
+ * set so callers can leave the field off entirely.
+ */
+export function normalizeDietaryPreferences(
+  input: unknown,
+): DietaryPreferences | null {
+  if (!input || typeof input !== "object") return null;
+
+  const { restrictions, allergies } = input as Record<string, unknown>;
+  const validRestrictions = Array.isArray(restrictions)
+    ? [...new Set(restrictions.filter(isDietaryRestriction))]
+    : [];
+  const trimmedAllergies =
+    typeof allergies === "string"
+      ? allergies.trim().slice(0, MAX_ALLERGIES_LENGTH)
+      : "";
+
+  if (validRestrictions.length === 0 && !trimmedAllergies) return null;
+  return {
+    restrictions: validRestrictions,
+    ...(trimmedAllergies && { allergies: trimmedAllergies }),
+  };
+}
+
+export function formatDietaryPreferences(
+  preferences?: DietaryPreferences | null,
+): string {
+  if (!preferences) return "";
+  const labels = DIETARY_RESTRICTIONS.filter((option) =>
+    preferences.restrictions?.includes(option.key),
+  ).map((option) => option.label);
+  if (preferences.allergies) labels.push(`Allergies: ${preferences.allergies}`);
+  return labels.join(", ");
+}
+
+export interface DietaryHeadcount {
+  total: number;
+  noRestrictions: number;
+  byRestriction: Record<DietaryRestriction, number>;
+  allergies: { name: string; allergies: string }[];
+}
+
+/**
+ * Counts people per restriction. A vegan vegetarian counts toward both, so the
+ * restriction counts can add up to more than the total.
+ */
+export function summarizeDietary(
+  people: { name: string; dietary?: DietaryPreferences | null }[],
+): DietaryHeadcount {
+  const byRestriction = Object.fromEntries(
+    DIETARY_RESTRICTIONS.map((option) => [option.key, 0]),
+  ) as Record<DietaryRestriction, number>;
+  const allergies: DietaryHeadcount["allergies"] = [];
+  let noRestrictions = 0;
+
+  people.forEach((person) => {
+    const restrictions = person.dietary?.restrictions || [];
+    restrictions.forEach((restriction) => {
+      if (restriction in byRestriction) byRestriction[restriction]++;
+    });
+    if (person.dietary?.allergies) {
+      allergies.push({
+        name: person.name,
+        allergies: person.dietary.allergies,
+      });
+    }
+    if (restrictions.length === 0 && !person.dietary?.allergies) {
+      noRestrictions++;
+    }
+  });
+
+  return { total: people.length, noRestrictions, byRestriction, allergies };
+}
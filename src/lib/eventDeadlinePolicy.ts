@@ -0,0 +1,170 @@
+/**
+ * Lead-time policy for event requests. Each rule sets how long before the
+ * event a request needing that service has to be submitted. Executive officers
+ * edit the lead times and enforcement from Manage Events; the policy is stored
+ * in Firestore and missing or malformed values fall back to the defaults here.
+ *
+ * "block" rules stop submission in the event request form unless an executive
+ * officer records an exception through /api/events/deadline-override; "warn"
+ * rules only flag the request. Blocking is enforced by the form only: requests
+ * are written to Firestore directly, and the security rules don't check lead
+ * times, so a late request written outside the dashboard is shown as missed
+ * rather than rejected.
+ */
+
+export type DeadlineRequirement = "asFunding" | "flyers" | "roomBooking";
+
+export type DeadlineEnforcement = "block" | "warn";
+
+export interface DeadlineRule {
+  key: DeadlineRequirement;
+  label: string;
+  minDays: number;
+  enforcement: DeadlineEnforcement;
+}
+
+// Firestore document holding the current policy
+export const EVENT_DEADLINE_POLICY_PATH = "settings/eventDeadlinePolicy";
+
+export const DEFAULT_EVENT_DEADLINE_RULES: DeadlineRule[] = [
+  {
+    key: "asFunding",
+    label: "AS funding",
+    minDays: 42,
+    enforcement: "block",
+  },
+  {
+    key: "flyers",
+    label: "Flyers & graphics",
+    minDays: 14,
+    enforcement: "warn",
+  },
+  {
+    key: "roomBooking",
+    label: "Room booking",
+    minDays: 21,
+    enforcement: "warn",
+  },
+];
+
+export interface EventDeadlinePolicy {
+  // Every rule, in the default order; stored as a map keyed by rule key
+  rules: DeadlineRule[];
+  updatedBy?: string;
+  updatedByName?: string;
+  updatedAt?: unknown;
+}
+
+/**
+ * Policy from a stored document, falling back to the defaults for any rule or
+ * value that is missing or malformed. Labels always come from the defaults.
+ */
+export const normalizeEventDeadlinePolicy = (
+  data: any,
+): EventDeadlinePolicy => {
+  const rules = DEFAULT_EVENT_DEADLINE_RULES.map((rule) => {
+    const stored = data?.rules?.[rule.key];
+    return {
+      ...rule,
+      minDays:
+        Number.isInteger(stored?.minDays) && stored.minDays >= 0
+          ? stored.minDays
+          : rule.minDays,
+      enforcement:
+        stored?.enforcement === "block" || stored?.enforcement === "warn"
+          ? stored.enforcement
+          : rule.enforcement,
+    };
+  });
+
+  return {
+    rules,
+    ...(data?.updatedBy && { updatedBy: data.updatedBy }),
+    ...(data?.updatedByName && { updatedByName: data.updatedByName }),
+    ...(data?.updatedAt && { updatedAt: data.updatedAt }),
+  };
+};
+
+// Request fields the policy looks at, from form data or a stored request
+export interface DeadlineRequestFields {
+  startDateTime: Date | null;
+  needsAsFunding?: boolean;
+  needsGraphics?: boolean;
+  hasRoomBooking?: boolean; // false means the room still has to be booked
+}
+
+export interface DeadlineStatus {
+  rule: DeadlineRule;
+  deadline: Date;
+  // Whole days from `now` to the deadline; negative once it has passed
+  daysRemaining: number;
+  // Whether the request was submitted after the deadline
+  missed: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ruleApplies = (
+  rule: DeadlineRule,
+  fields: DeadlineRequestFields,
+): boolean => {
+  switch (rule.key) {
+    case "asFunding":
+      return !!fields.needsAsFunding;
+    case "flyers":
+      return !!fields.needsGraphics;
+    case "roomBooking":
+      return fields.hasRoomBooking === false;
+  }
+};
+
+/**
+ * Deadlines that apply to a request under `rules`. `submittedAt` is when the
+ * request was first submitted, so edits keep the original submission time.
+ */
+export const evaluateDeadlines = (
+  fields: DeadlineRequestFields,
+  rules: DeadlineRule[],
+  submittedAt: Date = new Date(),
+  now: Date = new Date(),
+): DeadlineStatus[] => {
+  if (!fields.startDateTime) return [];
+
+  return rules
+    .filter((rule) => ruleApplies(rule, fields))
+    .map((rule) => {
+      const deadline = new Date(
+        fields.startDateTime!.getTime() - rule.minDays * DAY_MS,
+      );
+      return {
+        rule,
+        deadline,
+        daysRemaining: Math.floor(
+          (deadline.getTime() - now.getTime()) / DAY_MS,
+        ),
+        missed: submittedAt > deadline,
+      };
+    });
+};
+
+export const getBlockingViolations = (statuses: DeadlineStatus[]) =>
+  statuses.filter(
+    (status) => status.missed && status.rule.enforcement === "block",
+  );
+
+export const formatLeadTime = (days: number) =>
+  days % 7 === 0 && days >= 14 ? `${days / 7} weeks` : `${days} days`;
+
+export const formatDeadlineMessage = (status: DeadlineStatus) =>
+  `${status.rule.label} requests must be submitted at least ${formatLeadTime(
+    status.rule.minDays,
+  )} before the event (deadline ${status.deadline.toLocaleDateString()})`;
+
+export const formatCountdown = (status: DeadlineStatus) => {
+  if (status.missed) return "Missed";
+  if (status.daysRemaining < 0) return "Passed";
+  if (status.daysRemaining === 0) return "Due today";
+  return status.daysRemaining === 1
+    ? "1 day left"
+    : `${status.daysRemaining} days left`;
+};
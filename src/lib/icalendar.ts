@@ -0,0 +1,163 @@
+/**
+ * Minimal RFC 5545 (iCalendar) writer for the public events feed.
+ *
+ * Event times are written as local times in America/Los_Angeles with a
+ * matching VTIMEZONE so calendar apps handle daylight saving correctly.
+ */
+
+const TIME_ZONE = "America/Los_Angeles";
+const UID_DOMAIN = "ieeeucsd.org";
+const PRODUCT_ID = "-//IEEE UCSD//Events//EN";
+const CRLF = "\r\n";
+
+// US daylight saving rules in effect since 2007
+const LOS_ANGELES_VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIME_ZONE}`,
+  `X-LIC-LOCATION:${TIME_ZONE}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:-0800",
+  "TZOFFSETTO:-0700",
+  "TZNAME:PDT",
+  "DTSTART:19700308T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:-0700",
+  "TZOFFSETTO:-0800",
+  "TZNAME:PST",
+  "DTSTART:19701101T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+export interface CalendarEvent {
+  id: string;
+  title: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  url?: string;
+  // Last time the event was edited; drives LAST-MODIFIED and SEQUENCE so
+  // subscribed calendars pick up changes.
+  lastModified?: Date;
+}
+
+const localTimeFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23",
+});
+
+function formatLocalDateTime(date: Date): string {
+  const parts = Object.fromEntries(
+    localTimeFormatter
+      .formatToParts(date)
+      .map(({ type, value }) => [type, value]),
+  );
+  return `${parts.year}${parts.month}${parts.day}T${parts.hour}${parts.minute}${parts.second}`;
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line so no physical line exceeds 75 octets, without
+ * splitting multi-byte characters.
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+
+  return chunks.join(`${CRLF} `);
+}
+
+function buildEventLines(event: CalendarEvent, generatedAt: Date): string[] {
+  const modified = event.lastModified ?? generatedAt;
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtcDateTime(generatedAt)}`,
+    `LAST-MODIFIED:${formatUtcDateTime(modified)}`,
+    // Seconds since the epoch only ever increase between edits
+    `SEQUENCE:${event.lastModified ? Math.floor(event.lastModified.getTime() / 1000) : 0}`,
+    `DTSTART;TZID=${TIME_ZONE}:${formatLocalDateTime(event.start)}`,
+    `DTEND;TZID=${TIME_ZONE}:${formatLocalDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function buildCalendar(
+  events: CalendarEvent[],
+  options: { name?: string; generatedAt?: Date } = {},
+): string {
+  const generatedAt = options.generatedAt ?? new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+  lines.push(`X-WR-TIMEZONE:${TIME_ZONE}`);
+  lines.push(...LOS_ANGELES_VTIMEZONE);
+
+  events.forEach((event) => {
+    lines.push(...buildEventLines(event, generatedAt));
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
@@ -0,0 +1,74 @@
+import type {
+  NotificationCategory,
+  NotificationPreferences,
+} from "../components/dashboard/shared/types/firestore";
+
+export const NOTIFICATION_CATEGORIES: {
+  key: NotificationCategory;
+  label: string;
+  description: string;
+}[] = [
+  {
+    key: "eventRequestUpdates",
+    label: "Event request updates",
+    description:
+      "Confirmations, status changes and edits for event requests you submitted",
+  },
+  {
+    key: "reimbursementStatus",
+    label: "Reimbursement status",
+    description:
+      "Submission receipts and approval, decline and payment updates for your reimbursements",
+  },
+  {
+    key: "auditRequests",
+    label: "Audit requests",
+    description:
+      "Reimbursement audits assigned to you and results of audits you requested",
+  },
+  {
+    key: "newEvents",
+    label: "New published events",
+    description: "An email when a new event is published",
+  },
+  {
+    key: "weeklyDigest",
+    label: "Weekly digest",
+    description: "A weekly summary of upcoming events",
+  },
+];
+
+// Updates about a member's own requests are on by default; announcement-style
+// emails are opt-in.
+export const DEFAULT_NOTIFICATION_PREFERENCES: Record<
+  NotificationCategory,
+  boolean
+> = {
+  eventRequestUpdates: true,
+  reimbursementStatus: true,
+  auditRequests: true,
+  newEvents: false,
+  weeklyDigest: false,
+};
+
+export function isNotificationCategory(
+  value: unknown,
+): value is NotificationCategory {
+  return NOTIFICATION_CATEGORIES.some((category) => category.key === value);
+}
+
+/**
+ * Fills in defaults for categories the user has never set. Older accounts were
+ * created with an empty `{}` object.
+ */
+export function resolveNotificationPreferences(
+  stored?: NotificationPreferences | null,
+): Record<NotificationCategory, boolean> {
+  const resolved = { ...DEFAULT_NOTIFICATION_PREFERENCES };
+  NOTIFICATION_CATEGORIES.forEach(({ key }) => {
+    if (typeof stored?.[key] === "boolean") {
+      resolved[key] = stored[key] as boolean;
+    }
+  });
+  return resolved;
+}
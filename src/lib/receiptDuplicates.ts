@@ -0,0 +1,123 @@
+/**
+ * Duplicate receipt detection. Uploaded receipts and invoices are hashed so the
+ * exact same file can be found again, and records are also compared on
+ * vendor, amount and date to catch rescans or photos of the same purchase.
+ */
+
+// Purchases this many days apart can still be the same one (an invoice is
+// dated around the event, a reimbursement by the purchase)
+export const DUPLICATE_DATE_TOLERANCE_DAYS = 7;
+
+// Amounts under a dollar match too many unrelated purchases
+const MIN_MATCHED_AMOUNT = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * SHA-256 of a file's contents as hex. Runs in the browser before upload.
+ */
+export const hashReceiptFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await file.arrayBuffer(),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+export type DuplicateReason =
+  | "same_file"
+  | "same_vendor"
+  | "same_amount"
+  | "same_date";
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  same_file: "Same receipt file",
+  same_vendor: "Same vendor",
+  same_amount: "Same amount",
+  same_date: "Close date",
+};
+
+// A reimbursement or event invoice reduced to what gets compared
+export interface ReceiptRecord {
+  vendor: string;
+  // The total plus each line, so one expense can match a whole invoice
+  amounts: number[];
+  date: Date | null;
+  hashes: string[];
+}
+
+// Words that vary between how people write the same vendor
+const VENDOR_FILLER_WORDS = new Set([
+  "the",
+  "inc",
+  "llc",
+  "co",
+  "corp",
+  "company",
+  "store",
+  "restaurant",
+]);
+
+const vendorTokens = (vendor: string): string[] =>
+  vendor
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((token) => token && !VENDOR_FILLER_WORDS.has(token));
+
+/**
+ * True when two vendor names likely refer to the same business, e.g.
+ * "Domino's Pizza" and "DOMINOS". Every token of the shorter name must appear
+ * in the longer one.
+ */
+export const vendorsMatch = (a: string, b: string): boolean => {
+  const tokensA = vendorTokens(a || "");
+  const tokensB = vendorTokens(b || "");
+  if (tokensA.length === 0 || tokensB.length === 0) return false;
+
+  const [shorter, longer] =
+    tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const longerSet = new Set(longer);
+  return shorter.every((token) => longerSet.has(token));
+};
+
+const amountsMatch = (a: number[], b: number[]): boolean =>
+  a.some(
+    (amountA) =>
+      amountA >= MIN_MATCHED_AMOUNT &&
+      b.some((amountB) => Math.abs(amountA - amountB) < 0.01),
+  );
+
+/**
+ * Why two records look like the same purchase, or an empty list when they
+ * don't. A shared file is always a duplicate; otherwise the amount and the
+ * vendor have to match, with a close date as supporting evidence. Amount and
+ * date alone match too many unrelated purchases to flag.
+ */
+export const getDuplicateReasons = (
+  record: ReceiptRecord,
+  other: ReceiptRecord,
+): DuplicateReason[] => {
+  const reasons: DuplicateReason[] = [];
+  if (record.hashes.some((hash) => other.hashes.includes(hash))) {
+    reasons.push("same_file");
+  }
+
+  const sameAmount = amountsMatch(record.amounts, other.amounts);
+  const sameVendor = vendorsMatch(record.vendor, other.vendor);
+  const closeDate =
+    !!record.date &&
+    !!other.date &&
+    Math.abs(record.date.getTime() - other.date.getTime()) <=
+      DUPLICATE_DATE_TOLERANCE_DAYS * DAY_MS;
+
+  if (sameAmount && sameVendor) {
+    reasons.push("same_amount", "same_vendor");
+    if (closeDate) reasons.push("same_date");
+  }
+
+  return reasons;
+};
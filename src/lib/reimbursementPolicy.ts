@@ -0,0 +1,279 @@
+/**
+ * Reimbursement spending policy. Executive officers edit it from Manage
+ * Reimbursements; requests are checked against it when they are submitted and
+ * again by /api/reimbursements/status before approval. Breaking a rule doesn't
+ * stop submission, it flags the request so approving it needs an executive
+ * override.
+ */
+
+export const EXPENSE_CATEGORIES = [
+  "Food & Beverages",
+  "Transportation",
+  "Materials & Supplies",
+  "Registration Fees",
+  "Equipment",
+  "Software/Subscriptions",
+  "Printing/Marketing",
+  "Other",
+];
+
+// Firestore document holding the current policy
+export const REIMBURSEMENT_POLICY_PATH = "settings/reimbursementPolicy";
+
+export interface ReimbursementPolicy {
+  // Maximum total per category in a single request; missing means no cap
+  categoryCaps: Record<string, number>;
+  // Days between purchase and submission; null means no limit
+  maxPurchaseAgeDays: number | null;
+  // Expenses above this amount need a receipt; 0 requires one for everything
+  receiptRequiredAbove: number;
+  // Tips as a percentage of the request's food subtotal; null means no limit
+  maxTipPercent: number | null;
+  alcoholAllowed: boolean;
+  updatedBy?: string;
+  updatedByName?: string;
+  updatedAt?: unknown;
+}
+
+export const DEFAULT_REIMBURSEMENT_POLICY: ReimbursementPolicy = {
+  categoryCaps: {
+    "Food & Beverages": 750,
+    Transportation: 300,
+    "Registration Fees": 500,
+    Equipment: 1000,
+    "Software/Subscriptions": 300,
+  },
+  maxPurchaseAgeDays: 60,
+  receiptRequiredAbove: 0,
+  maxTipPercent: 20,
+  alcoholAllowed: false,
+};
+
+export type PolicyRule =
+  | "category_cap"
+  | "purchase_age"
+  | "missing_receipt"
+  | "alcohol"
+  | "tip";
+
+export const POLICY_RULE_LABELS: Record<PolicyRule, string> = {
+  category_cap: "Category cap",
+  purchase_age: "Purchase age",
+  missing_receipt: "Missing receipt",
+  alcohol: "Alcohol",
+  tip: "Tip limit",
+};
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+  expenseId?: string;
+}
+
+// Request fields the policy looks at, from the submission form or a stored request
+export interface PolicyRequestFields {
+  dateOfPurchase: string;
+  expenses: {
+    id?: string;
+    description: string;
+    category: string;
+    amount: number;
+    receipt?: { url?: string } | null;
+  }[];
+}
+
+const ALCOHOL_PATTERN =
+  /\b(alcohol|alcoholic|beer|beers|wine|wines|liquor|vodka|whiskey|whisky|tequila|rum|gin|seltzers?|cocktails?|champagne|sake|soju)\b/i;
+const TIP_PATTERN = /\b(tip|tips|gratuity)\b/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+const toNumberOrNull = (value: unknown): number | null =>
+  typeof value === "number" && isFinite(value) && value >= 0 ? value : null;
+
+/**
+ * Policy from a stored document, falling back to the defaults for anything
+ * missing or malformed.
+ */
+export const normalizeReimbursementPolicy = (
+  data: any,
+): ReimbursementPolicy => {
+  if (!data) return DEFAULT_REIMBURSEMENT_POLICY;
+
+  const categoryCaps: Record<string, number> = {};
+  Object.entries(data.categoryCaps || {}).forEach(([category, cap]) => {
+    const value = toNumberOrNull(cap);
+    if (EXPENSE_CATEGORIES.includes(category) && value !== null) {
+      categoryCaps[category] = value;
+    }
+  });
+
+  return {
+    categoryCaps,
+    maxPurchaseAgeDays:
+      data.maxPurchaseAgeDays === null
+        ? null
+        : (toNumberOrNull(data.maxPurchaseAgeDays) ??
+          DEFAULT_REIMBURSEMENT_POLICY.maxPurchaseAgeDays),
+    receiptRequiredAbove:
+      toNumberOrNull(data.receiptRequiredAbove) ??
+      DEFAULT_REIMBURSEMENT_POLICY.receiptRequiredAbove,
+    maxTipPercent:
+      data.maxTipPercent === null
+        ? null
+        : (toNumberOrNull(data.maxTipPercent) ??
+          DEFAULT_REIMBURSEMENT_POLICY.maxTipPercent),
+    alcoholAllowed: !!data.alcoholAllowed,
+    ...(data.updatedBy && { updatedBy: data.updatedBy }),
+    ...(data.updatedByName && { updatedByName: data.updatedByName }),
+    ...(data.updatedAt && { updatedAt: data.updatedAt }),
+  };
+};
+
+export const isTipExpense = (description: string) =>
+  TIP_PATTERN.test(description || "");
+
+export const receiptRequired = (policy: ReimbursementPolicy, amount: number) =>
+  amount > policy.receiptRequiredAbove;
+
+/**
+ * Rules a request breaks. `submittedAt` is the submission time the purchase
+ * age is measured against.
+ */
+export const evaluateReimbursementPolicy = (
+  request: PolicyRequestFields,
+  policy: ReimbursementPolicy,
+  submittedAt: Date = new Date(),
+): PolicyViolation[] => {
+  const violations: PolicyViolation[] = [];
+  const expenses = request.expenses || [];
+
+  const categoryTotals: Record<string, number> = {};
+  expenses.forEach((expense) => {
+    categoryTotals[expense.category] =
+      (categoryTotals[expense.category] || 0) + (expense.amount || 0);
+  });
+  Object.entries(categoryTotals).forEach(([category, total]) => {
+    const cap = policy.categoryCaps[category];
+    if (cap !== undefined && total > cap) {
+      violations.push({
+        rule: "category_cap",
+        message: `${category} total of ${formatAmount(total)} is over the ${formatAmount(cap)} cap`,
+      });
+    }
+  });
+
+  if (request.dateOfPurchase) {
+    const purchased = new Date(`${request.dateOfPurchase}T00:00:00`);
+    if (!isNaN(purchased.getTime())) {
+      const ageDays = Math.floor(
+        (submittedAt.getTime() - purchased.getTime()) / DAY_MS,
+      );
+      if (ageDays < 0) {
+        violations.push({
+          rule: "purchase_age",
+          message: "Date of purchase is after the submission date",
+        });
+      } else if (
+        policy.maxPurchaseAgeDays !== null &&
+        ageDays > policy.maxPurchaseAgeDays
+      ) {
+        violations.push({
+          rule: "purchase_age",
+          message: `Purchased ${ageDays} days before submission; the limit is ${policy.maxPurchaseAgeDays} days`,
+        });
+      }
+    }
+  }
+
+  expenses.forEach((expense) => {
+    const label = expense.description || expense.category || "Expense";
+    if (receiptRequired(policy, expense.amount || 0) && !expense.receipt?.url) {
+      violations.push({
+        rule: "missing_receipt",
+        message: `No receipt for ${label} (${formatAmount(expense.amount || 0)})`,
+        expenseId: expense.id,
+      });
+    }
+    if (!policy.alcoholAllowed && ALCOHOL_PATTERN.test(expense.description)) {
+      violations.push({
+        rule: "alcohol",
+        message: `${label} looks like alcohol, which isn't reimbursable`,
+        expenseId: expense.id,
+      });
+    }
+  });
+
+  if (policy.maxTipPercent !== null) {
+    const tipTotal = expenses
+      .filter((expense) => isTipExpense(expense.description))
+      .reduce((sum, expense) => sum + (expense.amount || 0), 0);
+    const foodSubtotal = expenses
+      .filter(
+        (expense) =>
+          expense.category === "Food & Beverages" &&
+          !isTipExpense(expense.description),
+      )
+      .reduce((sum, expense) => sum + (expense.amount || 0), 0);
+    const tipLimit = (foodSubtotal * policy.maxTipPercent) / 100;
+    if (tipTotal > 0 && tipTotal > tipLimit + 0.005) {
+      violations.push({
+        rule: "tip",
+        message:
+          foodSubtotal > 0
+            ? `Tips of ${formatAmount(tipTotal)} are over ${policy.maxTipPercent}% of the ${formatAmount(foodSubtotal)} food subtotal`
+            : `Tips of ${formatAmount(tipTotal)} have no food purchase to go with them`,
+      });
+    }
+  }
+
+  return violations;
+};
+
+// Purchase dates are stored as "YYYY-MM-DD" strings, or timestamps on older requests
+const toDateString = (value: any): string => {
+  if (!value) return "";
+  if (typeof value === "string") return value;
+  const date: Date = value.toDate ? value.toDate() : new Date(value);
+  return isNaN(date.getTime()) ? "" : date.toISOString().slice(0, 10);
+};
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  const date: Date = value.toDate ? value.toDate() : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Whether approving a stored request needs an executive override, and the
+ * violations to show for it. The request is re-checked against the current
+ * policy, so requests submitted before a rule was added or tightened are
+ * flagged too; a request flagged at submission stays flagged. Used by
+ * /api/reimbursements/status, /api/reimbursements/payout-batches and the
+ * review modal so they always agree.
+ */
+export const getOverrideRequirement = (
+  reimbursement: any,
+  policy: ReimbursementPolicy,
+): { required: boolean; violations: PolicyViolation[] } => {
+  if (reimbursement.executiveOverride) {
+    return { required: false, violations: [] };
+  }
+
+  const current = evaluateReimbursementPolicy(
+    {
+      dateOfPurchase: toDateString(reimbursement.dateOfPurchase),
+      expenses: reimbursement.expenses || [],
+    },
+    policy,
+    toDate(reimbursement.submittedAt) || new Date(),
+  );
+
+  return {
+    required: !!reimbursement.requiresExecutiveOverride || current.length > 0,
+    violations:
+      current.length > 0 ? current : reimbursement.policyViolations || [],
+  };
+};
@@ -0,0 +1,56 @@
+/**
+ * Reimbursement status workflow, shared by /api/reimbursements/status and the
+ * dashboard so both agree on which actions are available.
+ */
+
+export type ReimbursementStatus =
+  | "submitted"
+  | "under_review"
+  | "approved"
+  | "paid"
+  | "declined";
+
+export const REIMBURSEMENT_STATUSES: ReimbursementStatus[] = [
+  "submitted",
+  "under_review",
+  "approved",
+  "paid",
+  "declined",
+];
+
+// Allowed next statuses. Declined requests go back to submitted when the
+// submitter resubmits them; paid is final.
+export const REIMBURSEMENT_TRANSITIONS: Record<
+  ReimbursementStatus,
+  ReimbursementStatus[]
+> = {
+  submitted: ["approved", "declined", "under_review"],
+  under_review: ["approved", "declined"],
+  approved: ["paid"],
+  paid: [],
+  declined: ["submitted"],
+};
+
+// Statuses that approve payment and therefore need an executive override on
+// flagged requests
+export const APPROVAL_STATUSES: ReimbursementStatus[] = ["approved", "paid"];
+
+export const isReimbursementStatus = (
+  value: unknown,
+): value is ReimbursementStatus =>
+  REIMBURSEMENT_STATUSES.includes(value as ReimbursementStatus);
+
+/**
+ * Steps from one status to another. "Approve and mark paid" is approved then
+ * paid, so each step is logged. Returns null when the move isn't allowed.
+ */
+export const getTransitionPath = (
+  from: ReimbursementStatus,
+  to: ReimbursementStatus,
+): ReimbursementStatus[] | null => {
+  if (REIMBURSEMENT_TRANSITIONS[from].includes(to)) return [to];
+  if (to === "paid" && REIMBURSEMENT_TRANSITIONS[from].includes("approved")) {
+    return ["approved", "paid"];
+  }
+  return null;
+};
@@ -0,0 +1,169 @@
+import JSZip from "jszip";
+
+/**
+ * CSV and XLSX writers for officer exports (attendance lists, rosters).
+ *
+ * XLSX files are assembled by hand from the minimal set of SpreadsheetML parts
+ * Excel, Numbers and Google Sheets need, using inline strings so no shared
+ * string table is required.
+ */
+
+export type SpreadsheetCell = string | number | null | undefined;
+
+export interface SpreadsheetSheet {
+  name: string;
+  headers: string[];
+  rows: SpreadsheetCell[][];
+}
+
+export type ExportFormat = "csv" | "xlsx";
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return value === "csv" || value === "xlsx";
+}
+
+function escapeCsvCell(value: SpreadsheetCell): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  // Stop spreadsheet apps from evaluating user-entered text as a formula
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(sheet: SpreadsheetSheet): string {
+  // Leading BOM so Excel opens the file as UTF-8
+  return (
+    "\uFEFF" +
+    [sheet.headers, ...sheet.rows]
+      .map((row) => row.map(escapeCsvCell).join(","))
+      .join("\r\n")
+  );
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab and newlines are invalid in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function buildCell(value: SpreadsheetCell, ref: string): string {
+  if (value === null || value === undefined || value === "") return "";
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function buildWorksheet(sheet: SpreadsheetSheet): string {
+  const rows = [sheet.headers, ...sheet.rows]
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, columnIndex) =>
+          buildCell(value, `${columnName(columnIndex)}${rowIndex + 1}`),
+        )
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows}</sheetData></worksheet>`;
+}
+
+// Sheet names are limited to 31 characters and cannot contain : \ / ? * [ ]
+const sanitizeSheetName = (name: string, index: number) =>
+  name
+    .replace(/[:\\/?*[\]]/g, " ")
+    .slice(0, 31)
+    .trim() || `Sheet${index + 1}`;
+
+export async function toXlsx(sheets: SpreadsheetSheet[]): Promise<Uint8Array> {
+  const zip = new JSZip();
+  // Folder entries are not valid package parts, so only add the files
+  const addPart = (path: string, content: string) =>
+    zip.file(path, content, { createFolders: false });
+
+  addPart(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${sheets
+      .map(
+        (_, i) =>
+          `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+      )
+      .join("")}</Types>`,
+  );
+
+  addPart(
+    "_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+  );
+
+  addPart(
+    "xl/workbook.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheets
+      .map(
+        (sheet, i) =>
+          `<sheet name="${escapeXml(sanitizeSheetName(sheet.name, i))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+      )
+      .join("")}</sheets></workbook>`,
+  );
+
+  addPart(
+    "xl/_rels/workbook.xml.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+      .map(
+        (_, i) =>
+          `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+      )
+      .join("")}</Relationships>`,
+  );
+
+  sheets.forEach((sheet, i) => {
+    addPart(`xl/worksheets/sheet${i + 1}.xml`, buildWorksheet(sheet));
+  });
+
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
+
+/**
+ * Builds the download response for an export. CSV exports only include the
+ * first sheet.
+ */
+export async function exportResponse(
+  format: ExportFormat,
+  filename: string,
+  sheets: SpreadsheetSheet[],
+): Promise<Response> {
+  const body = format === "xlsx" ? await toXlsx(sheets) : toCsv(sheets[0]);
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}.${format}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,160 @@
+/**
+ * Treasury ledger accounts and balance math, shared by the ledger page and the
+ * /api/treasury routes.
+ *
+ * Verified fund deposits post money in and paid reimbursements post money out.
+ * Anything else (transfers between accounts, bank fees, corrections) is a
+ * manual journal entry that a second executive approves before it posts.
+ */
+
+export const LEDGER_ACCOUNTS = [
+  "as_funding",
+  "ieee_upp",
+  "section",
+  "sponsorship",
+  "general",
+] as const;
+
+export type LedgerAccount = (typeof LEDGER_ACCOUNTS)[number];
+
+export const LEDGER_ACCOUNT_LABELS: Record<LedgerAccount, string> = {
+  as_funding: "AS Funding",
+  ieee_upp: "IEEE UPP",
+  section: "IEEE Section",
+  sponsorship: "Sponsorship",
+  general: "General",
+};
+
+export const isLedgerAccount = (value: unknown): value is LedgerAccount =>
+  LEDGER_ACCOUNTS.includes(value as LedgerAccount);
+
+export type LedgerSource = "deposit" | "reimbursement" | "journal";
+
+// Reimbursements are paid from here unless the treasurer picks another account
+export const DEFAULT_LEDGER_ACCOUNT: LedgerAccount = "general";
+
+/**
+ * Account a deposit most likely belongs to. IEEE deposits go to the account
+ * for the part of IEEE that sent them; the verifier can pick another.
+ */
+export const suggestDepositAccount = (deposit: {
+  isIeeeDeposit?: boolean;
+  ieeeDepositSource?: string;
+}): LedgerAccount => {
+  if (deposit.isIeeeDeposit && deposit.ieeeDepositSource === "upp") {
+    return "ieee_upp";
+  }
+  if (deposit.isIeeeDeposit && deposit.ieeeDepositSource === "section") {
+    return "section";
+  }
+  return DEFAULT_LEDGER_ACCOUNT;
+};
+
+export const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export const isLedgerDate = (value: unknown): value is string =>
+  typeof value === "string" &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+// One line of a manual journal entry; money out is negative
+export interface JournalLine {
+  account: LedgerAccount;
+  amount: number;
+}
+
+export const MAX_JOURNAL_LINES = 10;
+
+/**
+ * Why a set of journal lines can't be posted, or null when they can. Lines
+ * don't have to balance, so a bank fee can be a single negative line while a
+ * transfer is a matching pair.
+ */
+export function validateJournalLines(lines: unknown): string | null {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    return "Add at least one line";
+  }
+  if (lines.length > MAX_JOURNAL_LINES) {
+    return `A journal entry can have at most ${MAX_JOURNAL_LINES} lines`;
+  }
+  for (const line of lines) {
+    if (!isLedgerAccount(line?.account)) {
+      return `Unknown account: ${line?.account}`;
+    }
+    const amount = Number(line.amount);
+    if (!Number.isFinite(amount) || roundCents(amount) === 0) {
+      return "Every line needs a non-zero amount";
+    }
+  }
+  return null;
+}
+
+// The fields balances are computed from
+export interface LedgerAmount {
+  account: LedgerAccount;
+  amount: number;
+  date: string; // "YYYY-MM-DD"
+}
+
+export type AccountBalances = Record<LedgerAccount, number>;
+
+export function computeBalances(entries: LedgerAmount[]): AccountBalances {
+  const balances = Object.fromEntries(
+    LEDGER_ACCOUNTS.map((account) => [account, 0]),
+  ) as AccountBalances;
+  entries.forEach((entry) => {
+    if (isLedgerAccount(entry.account)) {
+      balances[entry.account] = roundCents(
+        balances[entry.account] + (Number(entry.amount) || 0),
+      );
+    }
+  });
+  return balances;
+}
+
+export interface LedgerStatement<T extends LedgerAmount> {
+  openingBalance: number;
+  closingBalance: number;
+  totalIn: number;
+  totalOut: number;
+  // Entries in the range, each with the balance after it
+  lines: (T & { balance: number })[];
+}
+
+/**
+ * Statement for one account, or every account combined, between two
+ * "YYYY-MM-DD" dates inclusive. Entries should be in posting order; they are
+ * sorted by date and same-day entries keep that order.
+ */
+export function buildStatement<T extends LedgerAmount>(
+  entries: T[],
+  options: { start?: string; end?: string; account?: LedgerAccount } = {},
+): LedgerStatement<T> {
+  const sorted = entries
+    .filter((entry) => !options.account || entry.account === options.account)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  let balance = 0;
+  let totalIn = 0;
+  let totalOut = 0;
+  const lines: (T & { balance: number })[] = [];
+
+  sorted.forEach((entry) => {
+    if (options.end && entry.date > options.end) return;
+    const amount = Number(entry.amount) || 0;
+    balance = roundCents(balance + amount);
+    if (options.start && entry.date < options.start) return;
+
+    if (amount > 0) totalIn = roundCents(totalIn + amount);
+    else totalOut = roundCents(totalOut - amount);
+    lines.push({ ...entry, balance });
+  });
+
+  return {
+    openingBalance: roundCents(balance - totalIn + totalOut),
+    closingBalance: balance,
+    totalIn,
+    totalOut,
+    lines,
+  };
+}
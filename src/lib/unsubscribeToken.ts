@@ -0,0 +1,55 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { NotificationCategory } from "../components/dashboard/shared/types/firestore";
+import { isNotificationCategory } from "./notificationPreferences";
+
+/**
+ * Signed one-click unsubscribe tokens for notification emails.
+ *
+ * A token is `<userId>.<category>.<signature>`. Tokens do not expire so links
+ * in old emails keep working; they can only ever turn a category off.
+ * Server-side only: the signing secret must never reach the browser.
+ */
+
+function getSecret(): string {
+  const secret = import.meta.env.UNSUBSCRIBE_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("Missing UNSUBSCRIBE_TOKEN_SECRET configuration");
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSecret()).update(payload).digest("base64url");
+}
+
+export function createUnsubscribeToken(
+  userId: string,
+  category: NotificationCategory,
+): string {
+  const payload = `${userId}.${category}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyUnsubscribeToken(
+  token: string,
+):
+  | { valid: true; userId: string; category: NotificationCategory }
+  | { valid: false; reason: string } {
+  const parts = typeof token === "string" ? token.split(".") : [];
+  if (parts.length !== 3) {
+    return { valid: false, reason: "Invalid unsubscribe link" };
+  }
+
+  const [userId, category, signature] = parts;
+  const expected = Buffer.from(sign(`${userId}.${category}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: "Invalid unsubscribe link" };
+  }
+
+  if (!userId || !isNotificationCategory(category)) {
+    return { valid: false, reason: "Invalid unsubscribe link" };
+  }
+
+  return { valid: true, userId, category };
+}
@@ -0,0 +1,194 @@
+import type { APIContext } from "astro";
+import { getFirestore } from "firebase-admin/firestore";
+import { adminAuth, app } from "../firebase/server";
+import type { UserRole } from "../components/dashboard/shared/types/firestore";
+
+const db = getFirestore(app);
+
+/**
+ * The authenticated caller, attached to `context.locals.user` for every
+ * guarded /api route.
+ */
+export interface ApiUser {
+  uid: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  ieeeEmail?: string;
+}
+
+interface ApiRoutePolicy {
+  // Skip authentication entirely (sign-in, public feeds)
+  public?: boolean;
+  // Roles allowed to call the route; omitted means any signed-in user
+  roles?: UserRole[];
+}
+
+export const OFFICER_ROLES: UserRole[] = [
+  "General Officer",
+  "Executive Officer",
+  "Administrator",
+];
+
+export const EXECUTIVE_ROLES: UserRole[] = [
+  "Executive Officer",
+  "Administrator",
+];
+
+/**
+ * Per-route requirements. Every /api route must be listed here; routes that
+ * are not listed are rejected.
+ */
+const API_ROUTE_POLICIES: Record<string, ApiRoutePolicy> = {
+  "/api/set-session": { public: true },
+  "/api/logout": { public: true },
+  "/api/notifications/unsubscribe": { public: true },
+  "/api/events/calendar.ics": { public: true },
+  // Authenticated with CRON_SECRET inside the route
+  "/api/email/send-weekly-digest": { public: true },
+  "/api/events/check-in-token": { roles: OFFICER_ROLES },
+  "/api/events/attendance-export": { roles: OFFICER_ROLES },
+  "/api/events/attendance": { roles: OFFICER_ROLES },
+  "/api/events/capacity": { roles: OFFICER_ROLES },
+  "/api/events/deadline-override": { roles: EXECUTIVE_ROLES },
+  "/api/notifications/event-published": { roles: OFFICER_ROLES },
+  "/api/email/send-firebase-event-email": { roles: OFFICER_ROLES },
+  "/api/email/send-user-invite": { roles: EXECUTIVE_ROLES },
+  "/api/email/send-officer-notification": { roles: EXECUTIVE_ROLES },
+  "/api/email/preview-weekly-digest": { roles: OFFICER_ROLES },
+  "/api/analytics/reports": { roles: EXECUTIVE_ROLES },
+  "/api/points/transactions": { roles: EXECUTIVE_ROLES },
+  "/api/points/reconcile": { roles: ["Administrator"] },
+  "/api/leaderboard/close-season": { roles: EXECUTIVE_ROLES },
+  "/api/reimbursements/payout-batches": { roles: EXECUTIVE_ROLES },
+  "/api/reimbursements/audit": { roles: EXECUTIVE_ROLES },
+  "/api/treasury/journal-entries": { roles: EXECUTIVE_ROLES },
+  "/api/treasury/statement": { roles: EXECUTIVE_ROLES },
+  "/api/treasury/reconcile": { roles: ["Administrator"] },
+  "/api/fund-deposits/status": { roles: ["Administrator"] },
+  // Any signed-in member; routes that act on an account check ownership themselves
+  "/api/check-email-exists": {},
+  "/api/create-ieee-email": {},
+  "/api/delete-ieee-email": {},
+  "/api/disable-ieee-email": {},
+  "/api/enable-ieee-email": {},
+  "/api/reset-email-password": {},
+  "/api/update-ieee-email": {},
+  "/api/fetch-emails": {},
+  "/api/fetch-email-content": {},
+  "/api/export-pdf-fallback": {},
+  "/api/export-pdf-puppeteer": {},
+  "/api/email/send-reimbursement-notification": {},
+  "/api/events/rsvp": {},
+  "/api/events/check-in": {},
+  "/api/leaderboard/season": {},
+  "/api/reimbursements/status": {},
+  "/api/reimbursements/submit": {},
+};
+
+export function apiError(status: 401 | 403, message: string): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: status === 401 ? "Unauthorized" : "Forbidden",
+      message,
+    }),
+    {
+      status,
+      headers: { "Content-Type": "application/json" },
+    },
+  );
+}
+
+function getPolicy(path: string): ApiRoutePolicy | undefined {
+  const normalizedPath = path.length > 1 ? path.replace(/\/$/, "") : path;
+  return API_ROUTE_POLICIES[normalizedPath];
+}
+
+/**
+ * Verifies the session cookie and the route's role requirement. Returns an
+ * error response to short-circuit the request, or null to let it through with
+ * `context.locals.user` populated.
+ */
+export async function guardApiRequest(
+  context: APIContext,
+): Promise<Response | null> {
+  const policy = getPolicy(context.url.pathname);
+  if (!policy) {
+    return apiError(403, "This endpoint is not available");
+  }
+  if (policy.public) {
+    return null;
+  }
+
+  const session = context.cookies.get("session")?.value;
+  if (!session) {
+    return apiError(401, "You must be signed in to use this endpoint");
+  }
+
+  let uid: string;
+  try {
+    const decoded = await adminAuth.verifySessionCookie(session, true);
+    uid = decoded.uid;
+  } catch (error) {
+    return apiError(401, "Your session has expired. Please sign in again.");
+  }
+
+  const userSnap = await db.collection("users").doc(uid).get();
+  const userData = userSnap.data();
+  if (!userSnap.exists || !userData) {
+    return apiError(403, "No user profile found for this account");
+  }
+
+  if (userData.status === "suspended" || userData.status === "inactive") {
+    return apiError(403, "Your account is not active");
+  }
+
+  const role: UserRole = userData.role || "Member";
+  if (policy.roles && !policy.roles.includes(role)) {
+    return apiError(403, "You do not have permission to perform this action");
+  }
+
+  context.locals.user = {
+    uid,
+    email: userData.email || "",
+    name: userData.name || "",
+    role,
+    ...(userData.ieeeEmail && { ieeeEmail: userData.ieeeEmail }),
+  };
+
+  return null;
+}
+
+/**
+ * Account-scoped routes may only act on the caller's own account unless the
+ * caller is an Administrator. Pass whichever identifiers the route received;
+ * every one that is present must belong to the caller.
+ */
+export function requireAccountAccess(
+  user: ApiUser | undefined,
+  target: { userId?: string; email?: string; ieeeEmail?: string },
+): Response | null {
+  if (!user) {
+    return apiError(401, "You must be signed in to use this endpoint");
+  }
+
+  if (user.role === "Administrator") {
+    return null;
+  }
+
+  const sameEmail = (a?: string, b?: string) =>
+    !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+  const ownsAccount =
+    (target.userId === undefined || target.userId === user.uid) &&
+    (target.email === undefined || sameEmail(target.email, user.email)) &&
+    (target.ieeeEmail === undefined ||
+      sameEmail(target.ieeeEmail, user.ieeeEmail));
+
+  if (!ownsAccount) {
+    return apiError(403, "You can only manage your own account");
+  }
+
+  return null;
+}
@@ -1,12 +1,24 @@
 import type { APIContext } from 'astro';
 import { adminAuth } from '../firebase/server';
 import { db } from '../pages/api/set-session';
+import { guardApiRequest } from './apiAuth';
+import { rejectCrossSiteForm } from './originCheck';
 
 export async function onRequest(context: APIContext, next: () => Promise<Response>) {
   const { url, cookies, redirect } = context;
   const path = url.pathname;
 
-  if (path.startsWith('/dashboard') && !path.startsWith('/dashboard/signin') && !path.startsWith('/dashboard/signout') && !path.startsWith('/api/')) {
+  const crossSite = rejectCrossSiteForm(context);
+  if (crossSite) {
+    return crossSite;
+  }
+
+  if (path.startsWith('/api/')) {
+    const denied = await guardApiRequest(context);
+    return denied ?? next();
+  }
+
+  if (path.startsWith('/dashboard') && !path.startsWith('/dashboard/signin') && !path.startsWith('/dashboard/signout')) {
     const session = cookies.get('session')?.value;
 
     if (!session) {
@@ -0,0 +1,178 @@
+import type { APIRoute } from "astro";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import type { ReportsSummary } from "../../../components/dashboard/shared/types/analytics";
+
+const db = getFirestore(app);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const MAX_RANGE_DAYS = 366;
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Firestore values here are a mix of Timestamps, ISO strings and the odd
+// legacy number, depending on which screen wrote them.
+const toMillis = (value: any): number | null => {
+  if (!value) return null;
+  if (typeof value.toMillis === "function") return value.toMillis();
+  const parsed = new Date(value).getTime();
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+// Aggregates for the executive reports on the overview page. Restricted to
+// executive officers by the API guard; runs with the Admin SDK because
+// officers cannot read every fund deposit directly.
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const start = new Date(url.searchParams.get("start") || "");
+    const end = new Date(url.searchParams.get("end") || "");
+
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      return jsonResponse(
+        {
+          success: false,
+          message: "Missing or invalid date range (start, end)",
+        },
+        400,
+      );
+    }
+    if (end <= start) {
+      return jsonResponse(
+        { success: false, message: "The end date must be after the start" },
+        400,
+      );
+    }
+    if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return jsonResponse(
+        {
+          success: false,
+          message: `Date range cannot exceed ${MAX_RANGE_DAYS} days`,
+        },
+        400,
+      );
+    }
+
+    const startMs = start.getTime();
+    const endMs = end.getTime();
+    const weekCount = Math.ceil((endMs - startMs + 1) / WEEK_MS);
+
+    const weeks = Array.from({ length: weekCount }, (_, i) =>
+      new Date(startMs + i * WEEK_MS).toISOString(),
+    );
+
+    const emptySeries = () => new Array<number>(weekCount).fill(0);
+    const weekIndex = (millis: number | null) =>
+      millis === null || millis < startMs || millis > endMs
+        ? -1
+        : Math.floor((millis - startMs) / WEEK_MS);
+
+    const [eventsSnap, reimbursementsSnap, depositsSnap, usersSnap] =
+      await Promise.all([
+        // Check-ins can happen a little before an event's listed start, so
+        // widen the window by a day and bucket on the check-in time below.
+        db
+          .collection("events")
+          .where("startDate", ">=", Timestamp.fromMillis(startMs - DAY_MS))
+          .where("startDate", "<=", Timestamp.fromMillis(endMs))
+          .get(),
+        db.collection("reimbursements").where("status", "==", "paid").get(),
+        db.collection("fundDeposits").where("status", "==", "verified").get(),
+        db
+          .collection("users")
+          .where("joinDate", ">=", Timestamp.fromMillis(startMs))
+          .where("joinDate", "<=", Timestamp.fromMillis(endMs))
+          .get(),
+      ]);
+
+    // Weekly check-ins from each event's attendees subcollection
+    const checkIns = emptySeries();
+    const attendeeSnaps = await Promise.all(
+      eventsSnap.docs.map((eventDoc) =>
+        eventDoc.ref.collection("attendees").get(),
+      ),
+    );
+    attendeeSnaps.forEach((snap) => {
+      snap.docs.forEach((attendeeDoc) => {
+        const index = weekIndex(toMillis(attendeeDoc.data().timeCheckedIn));
+        if (index >= 0) checkIns[index] += 1;
+      });
+    });
+
+    // Reimbursement dollars by the week they were paid. Older records marked
+    // paid from the audit modal have no paymentConfirmation, so fall back to
+    // the most recent audit log entry.
+    const reimbursementsPaid = emptySeries();
+    let reimbursementsPaidCount = 0;
+    reimbursementsSnap.docs.forEach((reimbursementDoc) => {
+      const data = reimbursementDoc.data();
+      const auditLogs = data.auditLogs || [];
+      const paidAt =
+        toMillis(data.paymentConfirmation?.paidAt) ??
+        toMillis(auditLogs[auditLogs.length - 1]?.timestamp) ??
+        toMillis(data.submittedAt);
+      const index = weekIndex(paidAt);
+      if (index >= 0) {
+        reimbursementsPaid[index] += Number(data.totalAmount) || 0;
+        reimbursementsPaidCount += 1;
+      }
+    });
+
+    // Verified deposit dollars by the week they were verified
+    const depositsVerified = emptySeries();
+    let depositsVerifiedCount = 0;
+    depositsSnap.docs.forEach((depositDoc) => {
+      const data = depositDoc.data();
+      const index = weekIndex(
+        toMillis(data.verifiedAt) ?? toMillis(data.depositDate),
+      );
+      if (index >= 0) {
+        depositsVerified[index] += Number(data.amount) || 0;
+        depositsVerifiedCount += 1;
+      }
+    });
+
+    const newMembers = emptySeries();
+    usersSnap.docs.forEach((userDoc) => {
+      const index = weekIndex(toMillis(userDoc.data().joinDate));
+      if (index >= 0) newMembers[index] += 1;
+    });
+
+    const sum = (values: number[]) =>
+      values.reduce((total, value) => total + value, 0);
+    const roundCents = (values: number[]) =>
+      values.map((value) => Math.round(value * 100) / 100);
+
+    const summary: ReportsSummary = {
+      range: { start: start.toISOString(), end: end.toISOString() },
+      weeks,
+      checkIns: { total: sum(checkIns), weekly: checkIns },
+      reimbursementsPaid: {
+        total: Math.round(sum(reimbursementsPaid) * 100) / 100,
+        count: reimbursementsPaidCount,
+        weekly: roundCents(reimbursementsPaid),
+      },
+      depositsVerified: {
+        total: Math.round(sum(depositsVerified) * 100) / 100,
+        count: depositsVerifiedCount,
+        weekly: roundCents(depositsVerified),
+      },
+      newMembers: { total: sum(newMembers), weekly: newMembers },
+    };
+
+    return jsonResponse({ success: true, data: summary }, 200);
+  } catch (error) {
+    console.error("Error in analytics/reports:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
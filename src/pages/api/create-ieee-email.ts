@@ -1,6 +1,11 @@
 import type { APIRoute } from "astro";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { app } from "../../firebase/server";
+import { requireAccountAccess } from "../../middleware/apiAuth";
 
-export const POST: APIRoute = async ({ request }) => {
+const db = getFirestore(app);
+
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     console.log("Email creation request received");
 
@@ -17,6 +22,12 @@ export const POST: APIRoute = async ({ request }) => {
 
     const { userId, name, email, password } = requestBody;
 
+    // Only Administrators may act on someone else's email account
+    const accessDenied = requireAccountAccess(locals.user, { userId, email });
+    if (accessDenied) {
+      return accessDenied;
+    }
+
     if (!userId || !name || !email || !password) {
       console.log("Missing required parameters");
       return new Response(
@@ -138,6 +149,16 @@ export const POST: APIRoute = async ({ request }) => {
 
     console.log("Email account created successfully");
 
+    // Members can't write ieeeEmail on their own user document
+    await db
+      .collection("users")
+      .doc(userId)
+      .update({
+        hasIEEEEmail: true,
+        ieeeEmail: `${cleanUsername}@${emailDomain}`,
+        ieeeEmailCreatedAt: FieldValue.serverTimestamp(),
+      });
+
     console.log("Sending notification to webmaster");
     await sendWebmasterNotification(
       userId,
@@ -1,6 +1,7 @@
 import type { APIRoute } from "astro";
+import { requireAccountAccess } from "../../middleware/apiAuth";
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     console.log("Email delete request received");
 
@@ -16,6 +17,15 @@ export const POST: APIRoute = async ({ request }) => {
 
     const { userId, email, adminUserId } = requestBody;
 
+    // Only Administrators may act on someone else's email account
+    const accessDenied = requireAccountAccess(locals.user, {
+      userId,
+      ieeeEmail: email,
+    });
+    if (accessDenied) {
+      return accessDenied;
+    }
+
     if (!userId || !email || !adminUserId) {
       console.log("Missing required parameters");
       return new Response(
@@ -0,0 +1,30 @@
+import type { APIRoute } from "astro";
+import { buildWeeklyDigest } from "../../../scripts/email/DigestEmailFunctions";
+
+// Renders the weekly digest exactly as members would receive it (minus the
+// per-member unsubscribe footer). Restricted to officers by the API guard.
+export const GET: APIRoute = async () => {
+  try {
+    const digest = await buildWeeklyDigest();
+
+    return new Response(digest.html, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+        "X-Digest-Subject": encodeURIComponent(digest.subject),
+        "X-Digest-Event-Count": String(digest.eventCount),
+      },
+    });
+  } catch (error) {
+    console.error("Error in email/preview-weekly-digest:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } },
+    );
+  }
+};
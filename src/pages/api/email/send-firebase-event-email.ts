@@ -6,6 +6,7 @@ import {
   sendFirebaseEventEditEmail,
   sendFirebaseEventDeleteEmail,
 } from "../../../scripts/email/FirebaseEventEmailFunctions";
+import { notifyEventRequestStatusChange } from "../../../scripts/notifications/NotificationFunctions";
 
 export const POST: APIRoute = async ({ request }) => {
   try {
@@ -91,6 +92,10 @@ export const POST: APIRoute = async ({ request }) => {
             declinedReason,
           },
         );
+        await notifyEventRequestStatusChange({
+          eventRequestId,
+          declinedReason,
+        });
         break;
 
       case "event_edit":
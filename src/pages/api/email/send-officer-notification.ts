@@ -0,0 +1,104 @@
+import type { APIRoute } from "astro";
+import { Resend } from "resend";
+import {
+  sendOfficerRoleChangeEmail,
+  sendOfficerStatusChangeEmail,
+} from "../../../scripts/email/OfficerEmailFunctions";
+
+// Restricted to executive officers by the API guard. The changer is always the
+// signed-in caller, never a client-supplied id.
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const { type, officerId, previousStatus, additionalContext } =
+      await request.json();
+
+    if (!type || !officerId) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Missing required parameters (type, officerId)",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    if (!import.meta.env.RESEND_API_KEY) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Email service not configured",
+        }),
+        { status: 500, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const resend = new Resend(import.meta.env.RESEND_API_KEY);
+    const fromEmail =
+      import.meta.env.FROM_EMAIL || "IEEE UCSD <noreply@ieeeatucsd.org>";
+    const replyToEmail = import.meta.env.REPLY_TO_EMAIL || "ieee@ucsd.edu";
+    const changedByUserId = locals.user!.uid;
+
+    let success = false;
+
+    switch (type) {
+      case "officer_role_change":
+        success = await sendOfficerRoleChangeEmail(
+          resend,
+          fromEmail,
+          replyToEmail,
+          {
+            officerId,
+            previousRole: additionalContext?.previousRole,
+            previousPosition: additionalContext?.previousPosition,
+            isNewOfficer: additionalContext?.isNewOfficer,
+            changedByUserId,
+          },
+        );
+        break;
+
+      case "officer_status_change":
+        success = await sendOfficerStatusChangeEmail(
+          resend,
+          fromEmail,
+          replyToEmail,
+          {
+            officerId,
+            previousStatus,
+            changedByUserId,
+          },
+        );
+        break;
+
+      default:
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: `Unknown officer notification type: ${type}`,
+          }),
+          { status: 400, headers: { "Content-Type": "application/json" } },
+        );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success,
+        message: success
+          ? "Officer notification sent successfully"
+          : "Failed to send officer notification",
+      }),
+      {
+        status: success ? 200 : 500,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } },
+    );
+  }
+};
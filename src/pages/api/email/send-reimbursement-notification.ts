@@ -3,9 +3,16 @@ import { Resend } from "resend";
 import {
   sendReimbursementSubmissionEmail,
   sendAuditRequestEmail,
+  sendReimbursementStatusChangeEmail,
+  sendAuditCompletedEmail,
 } from "../../../scripts/email/ReimbursementEmailFunctions";
+import {
+  notifyAuditRequested,
+  notifyReimbursementStatusChange,
+} from "../../../scripts/notifications/NotificationFunctions";
+import { apiError, EXECUTIVE_ROLES } from "../../../middleware/apiAuth";
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     const data = await request.json();
 
@@ -29,12 +36,62 @@ export const POST: APIRoute = async ({ request }) => {
         break;
 
       case "audit_request":
+        if (!locals.user || !EXECUTIVE_ROLES.includes(locals.user.role)) {
+          return apiError(403, "Only executive officers can request audits");
+        }
         success = await sendAuditRequestEmail(
           resend,
           fromEmail,
           replyToEmail,
           data,
         );
+        if (data.auditorId) {
+          await notifyAuditRequested({
+            reimbursementId: data.reimbursementId,
+            auditorId: data.auditorId,
+            requestedByName: locals.user.name,
+          });
+        }
+        break;
+
+      case "status_change":
+        if (!locals.user || !EXECUTIVE_ROLES.includes(locals.user.role)) {
+          return apiError(
+            403,
+            "Only executive officers can change reimbursement status",
+          );
+        }
+        success = await sendReimbursementStatusChangeEmail(
+          resend,
+          fromEmail,
+          replyToEmail,
+          {
+            reimbursementId: data.reimbursementId,
+            newStatus: data.newStatus,
+            previousStatus: data.previousStatus,
+            declineReason: data.additionalContext?.declineReason,
+            changedByUserId: locals.user.uid,
+          },
+        );
+        await notifyReimbursementStatusChange({
+          reimbursementId: data.reimbursementId,
+          declineReason: data.additionalContext?.declineReason,
+        });
+        break;
+
+      case "audit_completed":
+        if (!locals.user || !EXECUTIVE_ROLES.includes(locals.user.role)) {
+          return apiError(403, "Only executive officers can complete audits");
+        }
+        success = await sendAuditCompletedEmail(
+          resend,
+          fromEmail,
+          replyToEmail,
+          {
+            reimbursementId: data.reimbursementId,
+            auditorId: locals.user.uid,
+          },
+        );
         break;
 
       default:
@@ -0,0 +1,188 @@
+import type { APIRoute } from "astro";
+import { timingSafeEqual } from "node:crypto";
+import { Resend } from "resend";
+import {
+  getFirestore,
+  FieldValue,
+  type DocumentReference,
+} from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import { sendWeeklyDigestEmails } from "../../../scripts/email/DigestEmailFunctions";
+
+const db = getFirestore(app);
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// A run still marked "sending" after this long is assumed to have crashed
+const STALE_RUN_MS = 15 * 60 * 1000;
+// gRPC status Firestore returns when create() finds an existing document
+const ALREADY_EXISTS = 6;
+
+type RunClaim = { resumeAfter: string | null } | { conflict: string };
+
+/**
+ * Claims the day's digest run before anything is sent. The first call creates
+ * the record; later calls may only take over a run that failed part way or
+ * went stale, and resume after the last recipient it recorded. `force` starts a
+ * completed run over from the beginning.
+ */
+async function claimDigestRun(
+  runRef: DocumentReference,
+  now: Date,
+  force: boolean,
+): Promise<RunClaim> {
+  try {
+    await runRef.create({
+      status: "sending",
+      startedAt: now,
+      updatedAt: now,
+      forced: force,
+      sent: 0,
+      lastUserId: null,
+    });
+    return { resumeAfter: null };
+  } catch (error: any) {
+    if (error?.code !== ALREADY_EXISTS) throw error;
+  }
+
+  return db.runTransaction(async (transaction) => {
+    const run = (await transaction.get(runRef)).data() || {};
+    const updatedAt: Date | null = run.updatedAt?.toDate
+      ? run.updatedAt.toDate()
+      : null;
+
+    if (
+      run.status === "sending" &&
+      updatedAt &&
+      now.getTime() - updatedAt.getTime() < STALE_RUN_MS
+    ) {
+      return {
+        conflict: `The weekly digest for ${runRef.id} is already being sent`,
+      };
+    }
+
+    if (run.status === "complete" && !force) {
+      return { conflict: `The weekly digest was already sent on ${runRef.id}` };
+    }
+
+    const restart = run.status === "complete";
+    transaction.update(runRef, {
+      status: "sending",
+      updatedAt: now,
+      forced: force || !!run.forced,
+      ...(restart && { sent: 0, lastUserId: null }),
+    });
+    return { resumeAfter: restart ? null : run.lastUserId || null };
+  });
+}
+
+function hasValidCronSecret(request: Request): boolean {
+  const secret = import.meta.env.CRON_SECRET;
+  const header = request.headers.get("Authorization") || "";
+  if (!secret || !header.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(header.slice("Bearer ".length));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Sends the weekly upcoming-events digest. Meant to be hit by a scheduler with
+// `Authorization: Bearer $CRON_SECRET`, so it is public to the session guard.
+// Each run is claimed per day and records the last recipient of every batch, so
+// a retried cron call only sends to members who haven't received it yet; pass
+// `?force=true` to send a completed day's digest again.
+export const POST: APIRoute = async ({ request, url }) => {
+  if (!hasValidCronSecret(request)) {
+    return jsonResponse(
+      { success: false, error: "Unauthorized", message: "Invalid cron secret" },
+      401,
+    );
+  }
+
+  try {
+    if (!import.meta.env.RESEND_API_KEY) {
+      return jsonResponse(
+        { success: false, error: "Email service not configured" },
+        500,
+      );
+    }
+
+    const now = new Date();
+    const runId = now.toLocaleDateString("en-CA", {
+      timeZone: "America/Los_Angeles",
+    });
+    const runRef = db.collection("digest_runs").doc(runId);
+    const force = url.searchParams.get("force") === "true";
+
+    const claim = await claimDigestRun(runRef, now, force);
+    if ("conflict" in claim) {
+      return jsonResponse({ success: false, message: claim.conflict }, 409);
+    }
+
+    const resend = new Resend(import.meta.env.RESEND_API_KEY);
+    const fromEmail =
+      import.meta.env.FROM_EMAIL || "IEEE UCSD <noreply@ieeeatucsd.org>";
+    const replyToEmail = import.meta.env.REPLY_TO_EMAIL || "ieee@ucsd.edu";
+
+    let result;
+    try {
+      result = await sendWeeklyDigestEmails(
+        resend,
+        fromEmail,
+        replyToEmail,
+        now,
+        {
+          resumeAfter: claim.resumeAfter,
+          onBatchSent: (lastUserId, count) =>
+            runRef
+              .update({
+                lastUserId,
+                sent: FieldValue.increment(count),
+                updatedAt: new Date(),
+              })
+              .then(() => undefined),
+        },
+      );
+    } catch (error) {
+      // Leave the run resumable from the last recorded batch
+      await runRef.update({ status: "failed", updatedAt: new Date() });
+      throw error;
+    }
+
+    await runRef.update({
+      status: result.complete ? "complete" : "failed",
+      eventCount: result.eventCount,
+      failed: result.failed,
+      updatedAt: new Date(),
+      ...(result.complete && { ranAt: new Date() }),
+    });
+
+    return jsonResponse(
+      {
+        success: result.failed === 0,
+        message:
+          result.eventCount === 0
+            ? "No upcoming events, digest not sent"
+            : `Weekly digest sent to ${result.sent} of ${result.recipients} members`,
+        data: result,
+      },
+      result.failed === 0 ? 200 : 500,
+    );
+  } catch (error) {
+    console.error("Error in email/send-weekly-digest:", error);
+    return jsonResponse(
+      {
+        success: false,
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      500,
+    );
+  }
+};
@@ -1,10 +1,20 @@
 import type { APIRoute } from "astro";
+import { requireAccountAccess } from "../../middleware/apiAuth";
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     const requestBody = await request.json();
     const { userId, email, adminUserId } = requestBody;
 
+    // Only Administrators may act on someone else's email account
+    const accessDenied = requireAccountAccess(locals.user, {
+      userId,
+      ieeeEmail: email,
+    });
+    if (accessDenied) {
+      return accessDenied;
+    }
+
     if (!userId || !email || !adminUserId) {
       return new Response(
         JSON.stringify({
@@ -0,0 +1,284 @@
+import type { APIRoute } from "astro";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import {
+  exportResponse,
+  isExportFormat,
+  type ExportFormat,
+  type SpreadsheetCell,
+} from "../../../lib/spreadsheetExport";
+
+const db = getFirestore(app);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+const TIME_ZONE = "America/Los_Angeles";
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  const date = value.toDate ? value.toDate() : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const formatDateTime = (value: any) => {
+  const date = toDate(value);
+  return date
+    ? date.toLocaleString("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "numeric",
+        minute: "2-digit",
+        timeZone: TIME_ZONE,
+      })
+    : "";
+};
+
+const formatDate = (value: any) => {
+  const date = toDate(value);
+  return date
+    ? date.toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        timeZone: TIME_ZONE,
+      })
+    : "";
+};
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60) || "event";
+
+async function loadUsers(userIds: string[]) {
+  const uniqueIds = [...new Set(userIds.filter(Boolean))];
+  const users = new Map<string, any>();
+  if (uniqueIds.length === 0) return users;
+
+  const snaps = await db.getAll(
+    ...uniqueIds.map((id) => db.collection("users").doc(id)),
+  );
+  snaps.forEach((snap) => {
+    if (snap.exists) users.set(snap.id, snap.data());
+  });
+  return users;
+}
+
+const USER_HEADERS = ["Name", "PID", "Email", "Major", "Graduation Year"];
+
+const userColumns = (user: any): SpreadsheetCell[] => [
+  user?.name || "Unknown user",
+  user?.pid || "",
+  user?.email || "",
+  user?.major || "",
+  user?.graduationYear ?? "",
+];
+
+async function exportEventAttendance(eventId: string, format: ExportFormat) {
+  const eventRef = db.collection("events").doc(eventId);
+  const [eventSnap, attendeesSnap] = await Promise.all([
+    eventRef.get(),
+    eventRef.collection("attendees").get(),
+  ]);
+  if (!eventSnap.exists) {
+    return jsonResponse({ success: false, message: "Event not found" }, 404);
+  }
+
+  const event = eventSnap.data() || {};
+  const attendees = attendeesSnap.docs
+    .map((doc) => ({ ...doc.data(), userId: doc.data().userId || doc.id }))
+    .sort(
+      (a: any, b: any) =>
+        (toDate(a.timeCheckedIn)?.getTime() ?? 0) -
+        (toDate(b.timeCheckedIn)?.getTime() ?? 0),
+    ) as any[];
+  const users = await loadUsers(attendees.map((attendee) => attendee.userId));
+
+  const eventName = event.eventName || "Untitled Event";
+  return exportResponse(
+    format,
+    `attendance-${slugify(eventName)}-${formatDate(event.startDate).replace(/\//g, "-")}`,
+    [
+      {
+        name: "Attendance",
+        headers: [
+          ...USER_HEADERS,
+          "Check-in Time",
+          "Food Preference",
+          "Points Earned",
+        ],
+        rows: attendees.map((attendee) => [
+          ...userColumns(users.get(attendee.userId)),
+          formatDateTime(attendee.timeCheckedIn),
+          attendee.food || "",
+          Number(attendee.pointsEarned) || 0,
+        ]),
+      },
+    ],
+  );
+}
+
+async function exportRoster(start: Date, end: Date, format: ExportFormat) {
+  const eventsSnap = await db
+    .collection("events")
+    .where("startDate", ">=", Timestamp.fromDate(start))
+    .where("startDate", "<=", Timestamp.fromDate(end))
+    .orderBy("startDate", "asc")
+    .get();
+
+  const attendeeSnaps = await Promise.all(
+    eventsSnap.docs.map((eventDoc) =>
+      eventDoc.ref.collection("attendees").get(),
+    ),
+  );
+
+  const roster = new Map<
+    string,
+    { events: number; points: number; first: Date | null; last: Date | null }
+  >();
+  const eventRows: SpreadsheetCell[][] = [];
+
+  eventsSnap.docs.forEach((eventDoc, index) => {
+    const event = eventDoc.data();
+    const attendees = attendeeSnaps[index].docs;
+    let eventPoints = 0;
+
+    attendees.forEach((attendeeDoc) => {
+      const attendee = attendeeDoc.data();
+      const userId = attendee.userId || attendeeDoc.id;
+      const checkedIn = toDate(attendee.timeCheckedIn);
+      const points = Number(attendee.pointsEarned) || 0;
+      eventPoints += points;
+
+      const entry = roster.get(userId) || {
+        events: 0,
+        points: 0,
+        first: null,
+        last: null,
+      };
+      entry.events += 1;
+      entry.points += points;
+      if (checkedIn && (!entry.first || checkedIn < entry.first)) {
+        entry.first = checkedIn;
+      }
+      if (checkedIn && (!entry.last || checkedIn > entry.last)) {
+        entry.last = checkedIn;
+      }
+      roster.set(userId, entry);
+    });
+
+    eventRows.push([
+      event.eventName || "Untitled Event",
+      formatDate(event.startDate),
+      event.location || "",
+      attendees.length,
+      eventPoints,
+    ]);
+  });
+
+  const users = await loadUsers([...roster.keys()]);
+  const rosterRows = [...roster.entries()]
+    .sort(
+      ([idA, a], [idB, b]) =>
+        b.events - a.events ||
+        (users.get(idA)?.name || "").localeCompare(users.get(idB)?.name || ""),
+    )
+    .map(([userId, entry]) => [
+      ...userColumns(users.get(userId)),
+      entry.events,
+      entry.points,
+      formatDate(entry.first),
+      formatDate(entry.last),
+    ]);
+
+  return exportResponse(
+    format,
+    `roster-${formatDate(start).replace(/\//g, "-")}-to-${formatDate(end).replace(/\//g, "-")}`,
+    [
+      {
+        name: "Roster",
+        headers: [
+          ...USER_HEADERS,
+          "Events Attended",
+          "Points Earned",
+          "First Check-in",
+          "Last Check-in",
+        ],
+        rows: rosterRows,
+      },
+      {
+        name: "Events",
+        headers: ["Event", "Date", "Location", "Attendees", "Points Awarded"],
+        rows: eventRows,
+      },
+    ],
+  );
+}
+
+// Attendance exports for AS funding reports. Pass `eventId` for a single
+// event's check-ins, or `start` and `end` (ISO) for a roster of unique
+// attendees across every event in the range. Restricted to officers by the
+// API guard; member PIDs are never sent to the client otherwise.
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const format = url.searchParams.get("format") || "csv";
+    if (!isExportFormat(format)) {
+      return jsonResponse(
+        { success: false, message: "Format must be csv or xlsx" },
+        400,
+      );
+    }
+
+    const eventId = url.searchParams.get("eventId");
+    if (eventId) {
+      return await exportEventAttendance(eventId, format);
+    }
+
+    const start = new Date(url.searchParams.get("start") || "");
+    const end = new Date(url.searchParams.get("end") || "");
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      return jsonResponse(
+        {
+          success: false,
+          message: "Provide an eventId or a date range (start, end)",
+        },
+        400,
+      );
+    }
+    if (end <= start) {
+      return jsonResponse(
+        { success: false, message: "The end date must be after the start" },
+        400,
+      );
+    }
+    if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return jsonResponse(
+        {
+          success: false,
+          message: `Date range cannot exceed ${MAX_RANGE_DAYS} days`,
+        },
+        400,
+      );
+    }
+
+    return await exportRoster(start, end, format);
+  } catch (error) {
+    console.error("Error in events/attendance-export:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
@@ -0,0 +1,409 @@
+import type { APIRoute } from "astro";
+import {
+  getFirestore,
+  FieldValue,
+  type QuerySnapshot,
+} from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import { normalizeDietaryPreferences } from "../../../lib/dietaryPreferences";
+import {
+  appendLedgerEntries,
+  checkInTransactionId,
+  getUserLedger,
+  type PointTransactionInput,
+} from "../../../scripts/points/PointsLedger";
+
+const db = getFirestore(app);
+
+const ACTIONS = ["add", "remove", "update_food"] as const;
+type AttendanceAction = (typeof ACTIONS)[number];
+
+const MAX_REASON_LENGTH = 500;
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+interface CorrectionResult {
+  status: number;
+  message: string;
+  data?: {
+    attendeeName: string;
+    pointsChanged: number;
+    previousFood?: string;
+    food?: string;
+  };
+}
+
+interface AttendanceChange {
+  action: "added" | "removed" | "food_updated";
+  attendeeName: string;
+  pointsChanged: number;
+  previousFood?: string;
+  food?: string;
+}
+
+/**
+ * Builds the "attendance_updated" entry for the event request's activity
+ * history, in the same shape EventAuditService writes from the dashboard.
+ */
+function buildAttendanceAuditLog(
+  eventRequestId: string,
+  change: AttendanceChange,
+  input: {
+    userId: string;
+    reason: string;
+    officer: { uid: string; name: string };
+  },
+) {
+  const changes =
+    change.action === "food_updated"
+      ? [
+          {
+            field: "attendeeFood",
+            fieldDisplayName: `Food preference for ${change.attendeeName}`,
+            oldValue: change.previousFood || null,
+            newValue: change.food || null,
+            changeType: "updated",
+          },
+        ]
+      : [
+          {
+            field: "attendees",
+            fieldDisplayName: "Attendee",
+            oldValue: change.action === "removed" ? change.attendeeName : null,
+            newValue: change.action === "added" ? change.attendeeName : null,
+            changeType: change.action,
+          },
+        ];
+
+  return {
+    id: `audit_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    eventRequestId,
+    action: "attendance_updated",
+    performedBy: input.officer.uid,
+    ...(input.officer.name && { performedByName: input.officer.name }),
+    timestamp: new Date(),
+    changes,
+    statusReason: input.reason,
+    metadata: {
+      attendeeId: input.userId,
+      attendanceAction: change.action,
+      pointsChanged: change.pointsChanged,
+    },
+  };
+}
+
+// Officer corrections to an event's attendee list. Restricted to officers by
+// the API guard. Points follow the attendee record: adding someone records a
+// check-in on their ledger and removing them revokes it. Every correction is
+// recorded in the event request's activity history in the same transaction.
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const officer = locals.user!;
+    const { action, eventId, userId, food, reason } = await request.json();
+
+    if (!ACTIONS.includes(action)) {
+      return jsonResponse(
+        { success: false, message: `Unsupported action: ${action}` },
+        400,
+      );
+    }
+    if (!eventId || !userId) {
+      return jsonResponse(
+        {
+          success: false,
+          message: "Missing required parameters (eventId, userId)",
+        },
+        400,
+      );
+    }
+    if (typeof reason !== "string" || !reason.trim()) {
+      return jsonResponse(
+        { success: false, message: "A reason is required" },
+        400,
+      );
+    }
+    if (reason.trim().length > MAX_REASON_LENGTH) {
+      return jsonResponse(
+        {
+          success: false,
+          message: `Reason must be ${MAX_REASON_LENGTH} characters or fewer`,
+        },
+        400,
+      );
+    }
+    if (userId === officer.uid && action !== "update_food") {
+      return jsonResponse(
+        {
+          success: false,
+          message: "You cannot change your own attendance",
+        },
+        403,
+      );
+    }
+
+    const result = await applyCorrection(action, {
+      eventId,
+      userId,
+      food: typeof food === "string" ? food.trim() : "",
+      reason: reason.trim(),
+      officer,
+    });
+
+    return jsonResponse(
+      {
+        success: result.status === 200,
+        message: result.message,
+        ...(result.data && { data: result.data }),
+      },
+      result.status,
+    );
+  } catch (error) {
+    console.error("Error in events/attendance:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
+
+// Ledger entries that a later revocation cancelled
+const getRevokedIds = (ledger: QuerySnapshot): Set<string> =>
+  new Set(
+    ledger.docs.map((doc) => doc.data().revokesTransactionId).filter(Boolean),
+  );
+
+function applyCorrection(
+  action: AttendanceAction,
+  input: {
+    eventId: string;
+    userId: string;
+    food: string;
+    reason: string;
+    officer: { uid: string; name: string };
+  },
+): Promise<CorrectionResult> {
+  const eventRef = db.collection("events").doc(input.eventId);
+  const attendeeRef = eventRef.collection("attendees").doc(input.userId);
+  const userRef = db.collection("users").doc(input.userId);
+
+  return db.runTransaction(async (transaction): Promise<CorrectionResult> => {
+    const [eventSnap, attendeeSnap, userSnap, ledger] = await Promise.all([
+      transaction.get(eventRef),
+      transaction.get(attendeeRef),
+      transaction.get(userRef),
+      getUserLedger(transaction, input.userId),
+    ]);
+
+    if (!eventSnap.exists) {
+      return { status: 404, message: "Event not found" };
+    }
+    if (!userSnap.exists) {
+      return { status: 404, message: "User not found" };
+    }
+
+    const event = eventSnap.data()!;
+    const userData = userSnap.data()!;
+    const eventName = event.eventName || event.name || "Untitled Event";
+    const attendeeName = userData.name || userData.email || input.userId;
+
+    const requestSnap = event.createdFrom
+      ? await transaction.get(
+          db.collection("event_requests").doc(event.createdFrom),
+        )
+      : null;
+    const logAttendanceChange = (change: AttendanceChange) => {
+      if (!requestSnap?.exists) return;
+      transaction.update(requestSnap.ref, {
+        auditLogs: FieldValue.arrayUnion(
+          buildAttendanceAuditLog(requestSnap.id, change, input),
+        ),
+        updatedAt: new Date(),
+      });
+    };
+
+    if (action === "update_food") {
+      if (!attendeeSnap.exists) {
+        return { status: 404, message: `${attendeeName} is not checked in` };
+      }
+      const previousFood = attendeeSnap.data()!.food || "";
+      const food = input.food || "No preference";
+      transaction.update(attendeeRef, { food });
+      logAttendanceChange({
+        action: "food_updated",
+        attendeeName,
+        pointsChanged: 0,
+        previousFood,
+        food,
+      });
+      return {
+        status: 200,
+        message: `Updated food preference for ${attendeeName}`,
+        data: { attendeeName, pointsChanged: 0, previousFood, food },
+      };
+    }
+
+    if (action === "add") {
+      if (attendeeSnap.exists) {
+        return {
+          status: 409,
+          message: `${attendeeName} is already checked in to this event`,
+        };
+      }
+
+      const now = new Date();
+      const pointsEarned = Number(event.pointsToReward) || 0;
+      const food = event.hasFood ? input.food || "No preference" : "";
+      const dietary = event.hasFood
+        ? normalizeDietaryPreferences(userData.dietaryPreferences)
+        : null;
+      const revokedIds = getRevokedIds(ledger);
+      const unrevokedCheckIn = ledger.docs.some(
+        (doc) =>
+          doc.data().type === "check_in" &&
+          doc.data().eventId === input.eventId &&
+          !revokedIds.has(doc.id),
+      );
+      if (unrevokedCheckIn) {
+        return {
+          status: 409,
+          message: `${attendeeName} already has points for this event`,
+        };
+      }
+      // A revoked check-in keeps its id, so a re-added member gets a new entry
+      const checkInId = checkInTransactionId(input.eventId, input.userId);
+      const previouslyRevoked = revokedIds.has(checkInId);
+
+      transaction.set(attendeeRef, {
+        userId: input.userId,
+        timeCheckedIn: now,
+        food,
+        ...(dietary && { dietary }),
+        pointsEarned,
+        eventCode: event.eventCode,
+        checkInMethod: "officer",
+        addedBy: input.officer.uid,
+      });
+      transaction.update(eventRef, {
+        attendees: FieldValue.arrayUnion(input.userId),
+      });
+      appendLedgerEntries(transaction, {
+        userId: input.userId,
+        ledger,
+        legacyTotals: userData,
+        entries: [
+          {
+            id: previouslyRevoked ? undefined : checkInId,
+            userId: input.userId,
+            type: "check_in",
+            points: pointsEarned,
+            reason: input.reason,
+            eventId: input.eventId,
+            eventName,
+            performedBy: input.officer.uid,
+            performedByName: input.officer.name,
+            createdAt: now,
+          },
+        ],
+        userFields: { lastEventAttended: eventName },
+      });
+      logAttendanceChange({
+        action: "added",
+        attendeeName,
+        pointsChanged: pointsEarned,
+        food,
+      });
+
+      return {
+        status: 200,
+        message: `Added ${attendeeName} to ${eventName}`,
+        data: { attendeeName, pointsChanged: pointsEarned, food },
+      };
+    }
+
+    // action === "remove"
+    if (!attendeeSnap.exists) {
+      return { status: 404, message: `${attendeeName} is not checked in` };
+    }
+
+    const attendee = attendeeSnap.data()!;
+    const revokedIds = getRevokedIds(ledger);
+    const checkIn = ledger.docs.find(
+      (doc) =>
+        doc.data().type === "check_in" &&
+        doc.data().eventId === input.eventId &&
+        !revokedIds.has(doc.id),
+    );
+    const revocation: PointTransactionInput = {
+      userId: input.userId,
+      type: "revocation",
+      points: -(Number(checkIn?.data().points ?? attendee.pointsEarned) || 0),
+      reason: input.reason,
+      eventId: input.eventId,
+      eventName,
+      performedBy: input.officer.uid,
+      performedByName: input.officer.name,
+      ...(checkIn && { revokesTransactionId: checkIn.id }),
+    };
+
+    let entries = [revocation];
+    let legacyTotals: { points?: number; eventsAttended?: number } = userData;
+    if (!checkIn && ledger.empty) {
+      // Checked in before the ledger existed: replay that check-in out of the
+      // opening balance so the revocation can cancel it like any other
+      const pointsEarned = Number(attendee.pointsEarned) || 0;
+      const replayedId = checkInTransactionId(input.eventId, input.userId);
+      legacyTotals = {
+        points: (Number(userData.points) || 0) - pointsEarned,
+        eventsAttended: Math.max((Number(userData.eventsAttended) || 0) - 1, 0),
+      };
+      entries = [
+        {
+          id: replayedId,
+          userId: input.userId,
+          type: "check_in",
+          points: pointsEarned,
+          reason: `Checked in to ${eventName}`,
+          eventId: input.eventId,
+          eventName,
+          performedBy: input.userId,
+          createdAt: attendee.timeCheckedIn?.toDate?.() ?? undefined,
+        },
+        { ...revocation, revokesTransactionId: replayedId },
+      ];
+    }
+
+    transaction.delete(attendeeRef);
+    transaction.update(eventRef, {
+      attendees: FieldValue.arrayRemove(input.userId),
+    });
+    appendLedgerEntries(transaction, {
+      userId: input.userId,
+      ledger,
+      legacyTotals,
+      entries,
+    });
+    logAttendanceChange({
+      action: "removed",
+      attendeeName,
+      pointsChanged: revocation.points,
+      previousFood: attendee.food || "",
+    });
+
+    return {
+      status: 200,
+      message: `Removed ${attendeeName} from ${eventName}`,
+      data: {
+        attendeeName,
+        pointsChanged: revocation.points,
+        previousFood: attendee.food || "",
+      },
+    };
+  });
+}
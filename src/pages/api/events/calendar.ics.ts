@@ -0,0 +1,95 @@
+import type { APIRoute } from "astro";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import { buildCalendar, type CalendarEvent } from "../../../lib/icalendar";
+
+const db = getFirestore(app);
+
+// Past events older than this are left out of the subscription feed
+const FEED_HISTORY_DAYS = 180;
+const DEFAULT_DURATION_MS = 60 * 60 * 1000;
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  const date = value.toDate ? value.toDate() : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Only public details go into the feed; the check-in code is never exposed.
+function toCalendarEvent(id: string, data: any): CalendarEvent | null {
+  const start = toDate(data.startDate);
+  if (!start) return null;
+
+  const end = toDate(data.endDate);
+  return {
+    id,
+    title: data.eventName || "IEEE UCSD Event",
+    description: data.eventDescription || "",
+    location: data.location || "",
+    start,
+    end:
+      end && end > start
+        ? end
+        : new Date(start.getTime() + DEFAULT_DURATION_MS),
+    url: "https://ieeeucsd.org/dashboard/events",
+    lastModified: toDate(data.updatedAt) ?? toDate(data.createdAt) ?? undefined,
+  };
+}
+
+const calendarResponse = (body: string, filename?: string) =>
+  new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Cache-Control": "public, max-age=900",
+      ...(filename
+        ? { "Content-Disposition": `attachment; filename="${filename}"` }
+        : {}),
+    },
+  });
+
+// Public iCalendar feed of published events. Pass `eventId` to download a
+// single event for "Add to calendar".
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const eventId = url.searchParams.get("eventId");
+
+    if (eventId) {
+      const eventSnap = await db.collection("events").doc(eventId).get();
+      const data = eventSnap.data();
+      const event =
+        eventSnap.exists && data?.published === true
+          ? toCalendarEvent(eventSnap.id, data)
+          : null;
+      if (!event) {
+        return new Response("Event not found", { status: 404 });
+      }
+
+      return calendarResponse(
+        buildCalendar([event]),
+        `ieee-ucsd-${eventSnap.id}.ics`,
+      );
+    }
+
+    const since = new Date(
+      Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000,
+    );
+    const eventsSnap = await db
+      .collection("events")
+      .where("startDate", ">=", Timestamp.fromDate(since))
+      .orderBy("startDate", "asc")
+      .get();
+
+    const events = eventsSnap.docs
+      .filter((doc) => doc.data().published === true)
+      .map((doc) => toCalendarEvent(doc.id, doc.data()))
+      .filter((event): event is CalendarEvent => event !== null);
+
+    return calendarResponse(
+      buildCalendar(events, { name: "IEEE UCSD Events" }),
+    );
+  } catch (error) {
+    console.error("Error in events/calendar.ics:", error);
+    return new Response("Unable to load the events calendar", { status: 500 });
+  }
+};
@@ -0,0 +1,112 @@
+import type { APIRoute } from "astro";
+import { getFirestore } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import {
+  getWaitlist,
+  openSpots,
+  promoteFromWaitlist,
+} from "../../../scripts/events/EventRsvps";
+import { notifyRsvpPromoted } from "../../../scripts/notifications/NotificationFunctions";
+
+const db = getFirestore(app);
+
+const MAX_CAPACITY = 10000;
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Sets or clears an event's RSVP capacity. Restricted to officers by the API
+// guard. Raising the capacity promotes waitlisted members into the new spots;
+// lowering it below the current RSVP count never bumps anyone who is going.
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const { eventId, capacity } = await request.json();
+
+    if (!eventId) {
+      return jsonResponse(
+        { success: false, message: "Missing required parameter (eventId)" },
+        400,
+      );
+    }
+    if (
+      capacity !== null &&
+      (!Number.isInteger(capacity) || capacity < 1 || capacity > MAX_CAPACITY)
+    ) {
+      return jsonResponse(
+        {
+          success: false,
+          message: `Capacity must be a whole number between 1 and ${MAX_CAPACITY}, or empty for no limit`,
+        },
+        400,
+      );
+    }
+
+    const eventRef = db.collection("events").doc(eventId);
+    const result = await db.runTransaction(async (transaction) => {
+      const eventSnap = await transaction.get(eventRef);
+      if (!eventSnap.exists) return null;
+
+      const event = eventSnap.data()!;
+      const waitlist = await getWaitlist(transaction, eventRef);
+      const rsvpCount: number = event.rsvpCount || 0;
+
+      const promoted = promoteFromWaitlist(
+        transaction,
+        waitlist,
+        openSpots(capacity, rsvpCount, waitlist.length),
+      );
+      transaction.update(eventRef, {
+        capacity,
+        rsvpCount: rsvpCount + promoted.length,
+        waitlistCount: waitlist.length - promoted.length,
+      });
+
+      return {
+        eventName: event.eventName || event.name || "Untitled Event",
+        promoted,
+        rsvpCount: rsvpCount + promoted.length,
+        waitlistCount: waitlist.length - promoted.length,
+      };
+    });
+
+    if (!result) {
+      return jsonResponse({ success: false, message: "Event not found" }, 404);
+    }
+
+    if (result.promoted.length) {
+      await notifyRsvpPromoted({
+        eventId,
+        eventName: result.eventName,
+        userIds: result.promoted,
+      });
+    }
+
+    return jsonResponse(
+      {
+        success: true,
+        message: result.promoted.length
+          ? `Capacity updated. ${result.promoted.length} waitlisted ${result.promoted.length === 1 ? "member was" : "members were"} moved to going.`
+          : "Capacity updated",
+        data: {
+          capacity,
+          rsvpCount: result.rsvpCount,
+          waitlistCount: result.waitlistCount,
+          promoted: result.promoted.length,
+        },
+      },
+      200,
+    );
+  } catch (error) {
+    console.error("Error in events/capacity:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
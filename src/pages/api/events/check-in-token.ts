@@ -0,0 +1,56 @@
+import type { APIRoute } from "astro";
+import { getFirestore } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import { createCheckInToken } from "../../../lib/checkInToken";
+
+const db = getFirestore(app);
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+    },
+  });
+
+// Issues the current kiosk QR token for an event. Restricted to officers by
+// the API guard.
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const eventId = url.searchParams.get("eventId");
+    if (!eventId) {
+      return jsonResponse(
+        { success: false, message: "Missing required parameter (eventId)" },
+        400,
+      );
+    }
+
+    const eventSnap = await db.collection("events").doc(eventId).get();
+    if (!eventSnap.exists) {
+      return jsonResponse({ success: false, message: "Event not found" }, 404);
+    }
+    if (!eventSnap.data()?.published) {
+      return jsonResponse(
+        {
+          success: false,
+          message: "Publish the event before opening the check-in kiosk",
+        },
+        400,
+      );
+    }
+
+    const { token, expiresAt } = createCheckInToken(eventId);
+
+    return jsonResponse({ success: true, data: { token, expiresAt } }, 200);
+  } catch (error) {
+    console.error("Error in events/check-in-token:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
@@ -0,0 +1,214 @@
+import type { APIRoute } from "astro";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import { verifyCheckInToken } from "../../../lib/checkInToken";
+import {
+  formatDietaryPreferences,
+  normalizeDietaryPreferences,
+} from "../../../lib/dietaryPreferences";
+import { EVENT_RSVPS } from "../../../scripts/events/EventRsvps";
+import {
+  appendLedgerEntries,
+  checkInTransactionId,
+  getUserLedger,
+} from "../../../scripts/points/PointsLedger";
+
+const db = getFirestore(app);
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // The API guard has already verified the session cookie
+    const uid = locals.user!.uid;
+
+    const body = await request.json();
+    const { eventCode, token, food, dietary } = body;
+    let eventId: string | undefined = body.eventId;
+
+    // Kiosk QR scans carry a signed token instead of the typed event code
+    if (token) {
+      const verification = verifyCheckInToken(token);
+      if (!verification.valid) {
+        return jsonResponse(
+          { success: false, message: verification.reason },
+          400,
+        );
+      }
+      eventId = verification.eventId;
+    } else if (!eventId || typeof eventCode !== "string" || !eventCode.trim()) {
+      return jsonResponse(
+        {
+          success: false,
+          message: "Missing required parameters (eventId, eventCode)",
+        },
+        400,
+      );
+    }
+
+    const eventRef = db.collection("events").doc(eventId);
+    const attendeeRef = eventRef.collection("attendees").doc(uid);
+    const userRef = db.collection("users").doc(uid);
+    const rsvpRef = eventRef.collection(EVENT_RSVPS).doc(uid);
+
+    // All reads happen inside the transaction so the duplicate check and the
+    // point totals are evaluated against the same snapshot that gets written.
+    const result = await db.runTransaction(async (transaction) => {
+      const [eventSnap, attendeeSnap, userSnap, rsvpSnap, ledger] =
+        await Promise.all([
+          transaction.get(eventRef),
+          transaction.get(attendeeRef),
+          transaction.get(userRef),
+          transaction.get(rsvpRef),
+          getUserLedger(transaction, uid),
+        ]);
+
+      if (!eventSnap.exists) {
+        return { status: 404, message: "Event not found" };
+      }
+
+      const event = eventSnap.data()!;
+
+      if (!event.published) {
+        return {
+          status: 403,
+          message: "This event is not currently available for check-in.",
+        };
+      }
+
+      const now = new Date();
+      const startDate: Date | null = event.startDate?.toDate?.() ?? null;
+      const endDate: Date | null = event.endDate?.toDate?.() ?? null;
+
+      if (startDate && now < startDate) {
+        return {
+          status: 400,
+          message: `This event hasn't started yet. Check-in opens on ${startDate.toLocaleDateString("en-US", { timeZone: "America/Los_Angeles" })} at ${startDate.toLocaleTimeString("en-US", { timeZone: "America/Los_Angeles" })}.`,
+        };
+      }
+
+      if (endDate && now > endDate) {
+        return {
+          status: 400,
+          message:
+            "This event has already ended. Check-in is no longer available.",
+        };
+      }
+
+      if (
+        !token &&
+        eventCode.trim().toUpperCase() !==
+          String(event.eventCode || "").toUpperCase()
+      ) {
+        return {
+          status: 400,
+          message: "Incorrect event code. Please try again.",
+        };
+      }
+
+      if (attendeeSnap.exists) {
+        return {
+          status: 409,
+          message: "You have already checked in to this event.",
+        };
+      }
+
+      if (!userSnap.exists) {
+        return { status: 404, message: "User not found" };
+      }
+
+      const userData = userSnap.data()!;
+      const pointsEarned = Number(event.pointsToReward) || 0;
+      const eventName = event.eventName || event.name || "Untitled Event";
+      // Dietary needs confirmed at check-in win over the RSVP, which wins over
+      // the member's profile
+      const dietaryPreferences = event.hasFood
+        ? normalizeDietaryPreferences(dietary) ||
+          normalizeDietaryPreferences(rsvpSnap.data()?.dietary) ||
+          normalizeDietaryPreferences(userData.dietaryPreferences)
+        : null;
+      // The free-text food column is summarized from the structured choice
+      // unless an older client still sends one
+      const foodPreference = event.hasFood
+        ? (typeof food === "string" && food.trim()) ||
+          formatDietaryPreferences(dietaryPreferences) ||
+          "No preference"
+        : "";
+
+      transaction.set(attendeeRef, {
+        userId: uid,
+        timeCheckedIn: now,
+        food: foodPreference,
+        ...(dietaryPreferences && { dietary: dietaryPreferences }),
+        pointsEarned,
+        eventCode: event.eventCode,
+        checkInMethod: token ? "qr" : "code",
+      });
+
+      transaction.update(eventRef, {
+        attendees: FieldValue.arrayUnion(uid),
+      });
+
+      // A check-in that an officer revoked keeps its id in the ledger, so a
+      // fresh check-in to the same event gets a new one
+      const checkInId = checkInTransactionId(eventId!, uid);
+      const previouslyRevoked = ledger.docs.some((doc) => doc.id === checkInId);
+
+      // Totals are derived from the member's full ledger, never incremented
+      const totals = appendLedgerEntries(transaction, {
+        userId: uid,
+        ledger,
+        legacyTotals: userData,
+        entries: [
+          {
+            id: previouslyRevoked ? undefined : checkInId,
+            userId: uid,
+            type: "check_in",
+            points: pointsEarned,
+            reason: `Checked in to ${eventName}`,
+            eventId,
+            eventName,
+            performedBy: uid,
+            performedByName: userData.name,
+            createdAt: now,
+          },
+        ],
+        userFields: { lastEventAttended: eventName },
+      });
+
+      return {
+        status: 200,
+        message: `Successfully checked in to ${eventName}!`,
+        data: {
+          eventName,
+          pointsEarned,
+          food: foodPreference,
+          totalPoints: totals.points,
+          eventsAttended: totals.eventsAttended,
+        },
+      };
+    });
+
+    return jsonResponse(
+      {
+        success: result.status === 200,
+        message: result.message,
+        ...("data" in result && { data: result.data }),
+      },
+      result.status,
+    );
+  } catch (error) {
+    console.error("Error in events/check-in:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
@@ -0,0 +1,141 @@
+import type { APIRoute } from "astro";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import {
+  EVENT_DEADLINE_POLICY_PATH,
+  evaluateDeadlines,
+  getBlockingViolations,
+  normalizeEventDeadlinePolicy,
+} from "../../../lib/eventDeadlinePolicy";
+
+const db = getFirestore(app);
+
+const MAX_REASON_LENGTH = 500;
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const toDate = (value: any): Date | null =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : null;
+
+// Records an executive exception to the blocking lead-time deadlines a request
+// missed. Restricted to executive officers by the API guard. The missed rules
+// are worked out from the stored request under the current policy, counting
+// from its original submission, and the activity history entry is written in the same
+// transaction.
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const exec = locals.user!;
+    const { eventRequestId, reason } = await request.json();
+
+    if (!eventRequestId || typeof eventRequestId !== "string") {
+      return jsonResponse(
+        {
+          success: false,
+          message: "Missing required parameter (eventRequestId)",
+        },
+        400,
+      );
+    }
+    if (typeof reason !== "string" || !reason.trim()) {
+      return jsonResponse(
+        { success: false, message: "A reason is required" },
+        400,
+      );
+    }
+    if (reason.trim().length > MAX_REASON_LENGTH) {
+      return jsonResponse(
+        {
+          success: false,
+          message: `Reason must be ${MAX_REASON_LENGTH} characters or fewer`,
+        },
+        400,
+      );
+    }
+
+    const requestRef = db.collection("event_requests").doc(eventRequestId);
+    const policyRef = db.doc(EVENT_DEADLINE_POLICY_PATH);
+    const result = await db.runTransaction(async (transaction) => {
+      const [requestSnap, policySnap] = await Promise.all([
+        transaction.get(requestRef),
+        transaction.get(policyRef),
+      ]);
+      if (!requestSnap.exists) {
+        return { status: 404, message: "Event request not found" };
+      }
+
+      const eventRequest = requestSnap.data()!;
+      const alreadyOverridden: string[] =
+        eventRequest.deadlineOverride?.rules || [];
+      const missed = getBlockingViolations(
+        evaluateDeadlines(
+          {
+            startDateTime: toDate(eventRequest.startDateTime),
+            needsAsFunding: eventRequest.needsAsFunding,
+            needsGraphics: eventRequest.needsGraphics,
+            hasRoomBooking: eventRequest.hasRoomBooking,
+          },
+          normalizeEventDeadlinePolicy(policySnap.data()).rules,
+          toDate(eventRequest.createdAt) || undefined,
+        ),
+      )
+        .map((status) => status.rule.key)
+        .filter((rule) => !alreadyOverridden.includes(rule));
+
+      if (missed.length === 0) {
+        return {
+          status: 400,
+          message: "This request has no missed deadlines to override",
+        };
+      }
+
+      const now = new Date();
+      transaction.update(requestRef, {
+        deadlineOverride: {
+          reason: reason.trim(),
+          rules: [...alreadyOverridden, ...missed],
+          overriddenBy: exec.uid,
+          overriddenAt: now,
+        },
+        auditLogs: FieldValue.arrayUnion({
+          id: `audit_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+          eventRequestId,
+          action: "deadline_overridden",
+          performedBy: exec.uid,
+          ...(exec.name && { performedByName: exec.name }),
+          timestamp: now,
+          statusReason: reason.trim(),
+          metadata: { rules: missed },
+        }),
+        updatedAt: now,
+      });
+
+      return {
+        status: 200,
+        message: "Deadline exception recorded",
+        data: { rules: missed },
+      };
+    });
+
+    return jsonResponse(
+      {
+        success: result.status === 200,
+        message: result.message,
+        ...(result.data && { data: result.data }),
+      },
+      result.status,
+    );
+  } catch (error) {
+    console.error("Error in events/deadline-override:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
@@ -0,0 +1,214 @@
+import type { APIRoute } from "astro";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import { normalizeDietaryPreferences } from "../../../lib/dietaryPreferences";
+import {
+  EVENT_RSVPS,
+  getWaitlist,
+  openSpots,
+  promoteFromWaitlist,
+} from "../../../scripts/events/EventRsvps";
+import { notifyRsvpPromoted } from "../../../scripts/notifications/NotificationFunctions";
+
+const db = getFirestore(app);
+
+const ACTIONS = ["rsvp", "cancel"] as const;
+type RsvpAction = (typeof ACTIONS)[number];
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+interface RsvpResult {
+  status: number;
+  message: string;
+  data?: {
+    rsvpStatus: "going" | "waitlisted" | "cancelled";
+    waitlistPosition?: number;
+    rsvpCount: number;
+    waitlistCount: number;
+  };
+  eventName?: string;
+  promoted?: string[];
+}
+
+// Members RSVP to published events that haven't ended. Once the event's
+// capacity is reached new RSVPs join the waitlist, and a cancellation
+// promotes the next waitlisted member in the same transaction.
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const user = locals.user!;
+    const { eventId, action, dietary } = await request.json();
+
+    if (!ACTIONS.includes(action)) {
+      return jsonResponse(
+        { success: false, message: `Unsupported action: ${action}` },
+        400,
+      );
+    }
+    if (!eventId) {
+      return jsonResponse(
+        { success: false, message: "Missing required parameter (eventId)" },
+        400,
+      );
+    }
+
+    const result = await applyRsvp(action, eventId, user, dietary);
+
+    if (result.promoted?.length) {
+      await notifyRsvpPromoted({
+        eventId,
+        eventName: result.eventName || "Untitled Event",
+        userIds: result.promoted,
+      });
+    }
+
+    return jsonResponse(
+      {
+        success: result.status === 200,
+        message: result.message,
+        ...(result.data && { data: result.data }),
+      },
+      result.status,
+    );
+  } catch (error) {
+    console.error("Error in events/rsvp:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
+
+function applyRsvp(
+  action: RsvpAction,
+  eventId: string,
+  user: { uid: string; name: string },
+  dietary?: unknown,
+): Promise<RsvpResult> {
+  const eventRef = db.collection("events").doc(eventId);
+  const rsvpRef = eventRef.collection(EVENT_RSVPS).doc(user.uid);
+  const userRef = db.collection("users").doc(user.uid);
+
+  return db.runTransaction(async (transaction): Promise<RsvpResult> => {
+    const [eventSnap, rsvpSnap, userSnap] = await Promise.all([
+      transaction.get(eventRef),
+      transaction.get(rsvpRef),
+      transaction.get(userRef),
+    ]);
+
+    const event = eventSnap.data();
+    if (!eventSnap.exists || !event?.published) {
+      return { status: 404, message: "Event not found" };
+    }
+
+    const eventName = event.eventName || event.name || "Untitled Event";
+    const endDate: Date | null = event.endDate?.toDate
+      ? event.endDate.toDate()
+      : null;
+    if (endDate && endDate < new Date()) {
+      return {
+        status: 400,
+        message: "This event has already ended",
+      };
+    }
+
+    const capacity: number | null = event.capacity || null;
+    const rsvpCount: number = event.rsvpCount || 0;
+    const waitlistCount: number = event.waitlistCount || 0;
+
+    if (action === "rsvp") {
+      if (rsvpSnap.exists) {
+        const current = rsvpSnap.data()!.status;
+        return {
+          status: 409,
+          message:
+            current === "waitlisted"
+              ? `You're already on the waitlist for ${eventName}`
+              : `You've already RSVP'd to ${eventName}`,
+        };
+      }
+
+      const isFull = capacity !== null && rsvpCount >= capacity;
+      // Falls back to the profile so organizers can still plan food for
+      // members who skipped the dietary step
+      const dietaryPreferences = event.hasFood
+        ? normalizeDietaryPreferences(
+            dietary ?? userSnap.data()?.dietaryPreferences,
+          )
+        : null;
+      transaction.create(rsvpRef, {
+        userId: user.uid,
+        name: user.name,
+        status: isFull ? "waitlisted" : "going",
+        ...(dietaryPreferences && { dietary: dietaryPreferences }),
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      transaction.update(
+        eventRef,
+        isFull
+          ? { waitlistCount: FieldValue.increment(1) }
+          : { rsvpCount: FieldValue.increment(1) },
+      );
+
+      return {
+        status: 200,
+        message: isFull
+          ? `${eventName} is full. You've been added to the waitlist.`
+          : `You're going to ${eventName}!`,
+        data: {
+          rsvpStatus: isFull ? "waitlisted" : "going",
+          ...(isFull && { waitlistPosition: waitlistCount + 1 }),
+          rsvpCount: isFull ? rsvpCount : rsvpCount + 1,
+          waitlistCount: isFull ? waitlistCount + 1 : waitlistCount,
+        },
+      };
+    }
+
+    if (!rsvpSnap.exists) {
+      return { status: 404, message: `You haven't RSVP'd to ${eventName}` };
+    }
+
+    const wasGoing = rsvpSnap.data()!.status === "going";
+    // Reads have to happen before any write in the transaction
+    const waitlist = wasGoing
+      ? (await getWaitlist(transaction, eventRef)).filter(
+          (rsvp) => rsvp.id !== user.uid,
+        )
+      : [];
+
+    transaction.delete(rsvpRef);
+    const promoted = promoteFromWaitlist(
+      transaction,
+      waitlist,
+      wasGoing ? openSpots(capacity, rsvpCount - 1, waitlist.length) : 0,
+    );
+
+    const newRsvpCount = rsvpCount - (wasGoing ? 1 : 0) + promoted.length;
+    const newWaitlistCount =
+      waitlistCount - (wasGoing ? 0 : 1) - promoted.length;
+    transaction.update(eventRef, {
+      rsvpCount: Math.max(0, newRsvpCount),
+      waitlistCount: Math.max(0, newWaitlistCount),
+    });
+
+    return {
+      status: 200,
+      message: wasGoing
+        ? `Your RSVP to ${eventName} was cancelled`
+        : `You've left the waitlist for ${eventName}`,
+      data: {
+        rsvpStatus: "cancelled",
+        rsvpCount: Math.max(0, newRsvpCount),
+        waitlistCount: Math.max(0, newWaitlistCount),
+      },
+      eventName,
+      promoted,
+    };
+  });
+}
@@ -1,4 +1,5 @@
 import type { APIRoute } from "astro";
+import { requireAccountAccess } from "../../middleware/apiAuth";
 import { ImapFlow } from "imapflow";
 
 // Helper function to decode quoted-printable content
@@ -25,13 +26,21 @@ interface EmailContent {
   }>;
 }
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     console.log("Email content fetch request received");
 
     const requestBody = await request.json();
     const { email, password, uid } = requestBody;
 
+    // Only Administrators may act on someone else's email account
+    const accessDenied = requireAccountAccess(locals.user, {
+      ieeeEmail: email,
+    });
+    if (accessDenied) {
+      return accessDenied;
+    }
+
     if (!email || !password || !uid) {
       console.log("Missing email, password, or uid");
       return new Response(
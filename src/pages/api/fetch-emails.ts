@@ -1,4 +1,5 @@
 import type { APIRoute } from "astro";
+import { requireAccountAccess } from "../../middleware/apiAuth";
 import { ImapFlow } from "imapflow";
 
 interface EmailMessage {
@@ -12,13 +13,21 @@ interface EmailMessage {
   attachmentCount: number;
 }
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     console.log("Email fetch request received");
 
     const requestBody = await request.json();
     const { email, password } = requestBody;
 
+    // Only Administrators may act on someone else's email account
+    const accessDenied = requireAccountAccess(locals.user, {
+      ieeeEmail: email,
+    });
+    if (accessDenied) {
+      return accessDenied;
+    }
+
     if (!email || !password) {
       console.log("Missing email or password");
       return new Response(
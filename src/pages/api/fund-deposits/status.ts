@@ -0,0 +1,152 @@
+import type { APIRoute } from "astro";
+import { getFirestore, FieldValue, Timestamp } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import type { ApiUser } from "../../../middleware/apiAuth";
+import { postDepositEntry } from "../../../scripts/treasury/TreasuryLedger";
+import {
+  isLedgerAccount,
+  suggestDepositAccount,
+  type LedgerAccount,
+} from "../../../lib/treasuryLedger";
+
+const db = getFirestore(app);
+
+const DEPOSIT_DECISIONS = ["verified", "rejected"] as const;
+type DepositDecision = (typeof DEPOSIT_DECISIONS)[number];
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+interface DepositResult {
+  status: number;
+  message: string;
+  data?: { ledgerAccount?: LedgerAccount };
+}
+
+// Administrators verify or reject pending fund deposits. Verifying posts the
+// deposit to the treasury ledger in the same transaction, so a deposit is
+// never verified without its ledger entry.
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const user = locals.user!;
+    const { depositId, status, rejectionReason, ledgerAccount } =
+      await request.json();
+
+    if (!depositId || !DEPOSIT_DECISIONS.includes(status)) {
+      return jsonResponse(
+        {
+          success: false,
+          message: "Missing required parameters (depositId, status)",
+        },
+        400,
+      );
+    }
+    const reason = String(rejectionReason || "").trim();
+    if (status === "rejected" && !reason) {
+      return jsonResponse(
+        { success: false, message: "A reason is required to reject" },
+        400,
+      );
+    }
+    if (ledgerAccount !== undefined && !isLedgerAccount(ledgerAccount)) {
+      return jsonResponse(
+        { success: false, message: `Unknown account: ${ledgerAccount}` },
+        400,
+      );
+    }
+
+    const result = await decideDeposit(
+      depositId,
+      status,
+      user,
+      reason,
+      ledgerAccount,
+    );
+
+    return jsonResponse(
+      {
+        success: result.status === 200,
+        message: result.message,
+        ...(result.data && { data: result.data }),
+      },
+      result.status,
+    );
+  } catch (error) {
+    console.error("Error in fund-deposits/status:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
+
+function decideDeposit(
+  depositId: string,
+  status: DepositDecision,
+  user: ApiUser,
+  reason: string,
+  requestedAccount?: LedgerAccount,
+): Promise<DepositResult> {
+  const depositRef = db.collection("fundDeposits").doc(depositId);
+
+  return db.runTransaction(async (transaction): Promise<DepositResult> => {
+    const depositSnap = await transaction.get(depositRef);
+    const deposit = depositSnap.data();
+    if (!depositSnap.exists || !deposit) {
+      return { status: 404, message: "Deposit not found" };
+    }
+    if (deposit.status !== "pending") {
+      return {
+        status: 409,
+        message: `This deposit is already ${deposit.status}`,
+      };
+    }
+
+    const now = Timestamp.now();
+    const updateData: Record<string, any> = {
+      status,
+      [`${status}By`]: user.uid,
+      [`${status}ByName`]: user.name,
+      [`${status}At`]: now,
+      auditLogs: FieldValue.arrayUnion({
+        action: status,
+        createdBy: user.uid,
+        createdByName: user.name,
+        timestamp: now,
+        note: reason || `Status changed to ${status}`,
+        previousData: { status: deposit.status },
+        newData: { status },
+      }),
+    };
+
+    if (status === "rejected") {
+      updateData.notes = reason;
+      updateData.rejectionReason = reason;
+      transaction.update(depositRef, updateData);
+      return { status: 200, message: "Deposit rejected" };
+    }
+
+    const account = requestedAccount || suggestDepositAccount(deposit);
+    updateData.ledgerAccount = account;
+    transaction.update(depositRef, updateData);
+    postDepositEntry(transaction, {
+      depositId,
+      deposit,
+      account,
+      poster: { uid: user.uid, name: user.name },
+      postedAt: now,
+    });
+
+    return {
+      status: 200,
+      message: "Deposit verified and posted to the ledger",
+      data: { ledgerAccount: account },
+    };
+  });
+}
@@ -0,0 +1,107 @@
+import type { APIRoute } from "astro";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import { getQuarterById } from "../../../lib/academicQuarters";
+import {
+  LEADERBOARD_SEASONS,
+  MAX_ARCHIVED_STANDINGS,
+  computeSeasonStandings,
+} from "../../../scripts/leaderboard/SeasonStandings";
+
+const db = getFirestore(app);
+
+const MAX_PRIZE_COUNT = 25;
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Freezes a quarter's standings and snapshots the top members for prizes.
+// Restricted to executive officers by the API guard. A season can only be
+// closed once, and only after its quarter has ended.
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const exec = locals.user!;
+    const { seasonId, prizeCount } = await request.json();
+
+    const quarter =
+      typeof seasonId === "string" ? getQuarterById(seasonId) : null;
+    if (!quarter) {
+      return jsonResponse({ success: false, message: "Invalid season" }, 400);
+    }
+    if (quarter.end > new Date()) {
+      return jsonResponse(
+        { success: false, message: `${quarter.label} hasn't ended yet` },
+        400,
+      );
+    }
+
+    const winnersCount = Number(prizeCount);
+    if (
+      !Number.isInteger(winnersCount) ||
+      winnersCount < 1 ||
+      winnersCount > MAX_PRIZE_COUNT
+    ) {
+      return jsonResponse(
+        {
+          success: false,
+          message: `Prize count must be between 1 and ${MAX_PRIZE_COUNT}`,
+        },
+        400,
+      );
+    }
+
+    const standings = await computeSeasonStandings(quarter);
+    const winners = standings.slice(0, winnersCount);
+
+    try {
+      await db
+        .collection(LEADERBOARD_SEASONS)
+        .doc(seasonId)
+        .create({
+          label: quarter.label,
+          start: quarter.start,
+          end: quarter.end,
+          standings: standings.slice(0, MAX_ARCHIVED_STANDINGS),
+          winners,
+          prizeCount: winnersCount,
+          closedAt: FieldValue.serverTimestamp(),
+          closedBy: exec.uid,
+          closedByName: exec.name,
+        });
+    } catch (error: any) {
+      // create() rejects with ALREADY_EXISTS when the season was closed
+      if (error?.code === 6) {
+        return jsonResponse(
+          {
+            success: false,
+            message: `${quarter.label} has already been closed`,
+          },
+          409,
+        );
+      }
+      throw error;
+    }
+
+    return jsonResponse(
+      {
+        success: true,
+        message: `Closed ${quarter.label}`,
+        winners,
+        totalRanked: standings.length,
+      },
+      200,
+    );
+  } catch (error) {
+    console.error("Error in leaderboard/close-season:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
@@ -0,0 +1,43 @@
+import type { APIRoute } from "astro";
+import { getQuarterForDate, getQuarterId } from "../../../lib/academicQuarters";
+import { computeSeasonStandings } from "../../../scripts/leaderboard/SeasonStandings";
+
+const jsonResponse = (
+  body: Record<string, unknown>,
+  status: number,
+  headers: Record<string, string> = {},
+) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+// Live standings for the current quarter. Members can't read each other's
+// ledger entries, so the season totals are computed here. A season can only be
+// closed after its quarter ends, so the current one is never archived; closed
+// seasons are read from leaderboard_seasons directly.
+export const GET: APIRoute = async () => {
+  try {
+    const quarter = getQuarterForDate(new Date());
+    const season = {
+      id: getQuarterId(quarter),
+      label: quarter.label,
+      start: quarter.start.toISOString(),
+      end: quarter.end.toISOString(),
+    };
+
+    const standings = await computeSeasonStandings(quarter);
+    return jsonResponse({ success: true, season, standings }, 200, {
+      "Cache-Control": "private, max-age=60",
+    });
+  } catch (error) {
+    console.error("Error in leaderboard/season:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
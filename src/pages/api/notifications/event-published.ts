@@ -0,0 +1,55 @@
+import type { APIRoute } from "astro";
+import { Resend } from "resend";
+import { notifyEventPublished } from "../../../scripts/notifications/NotificationFunctions";
+import { sendEventPublishedEmails } from "../../../scripts/email/EventPublishedEmailFunctions";
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Fans out "new event" notifications after an officer publishes an event, and
+// emails members who turned on "New published events". Restricted to officers
+// by the API guard. Safe to call more than once: each event only notifies
+// members the first time it is published, and a fan-out that fails is released
+// so calling again retries it.
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const { eventId } = await request.json();
+    if (!eventId || typeof eventId !== "string") {
+      return jsonResponse(
+        { success: false, message: "Missing required parameter (eventId)" },
+        400,
+      );
+    }
+
+    const notified = await notifyEventPublished(eventId);
+
+    let emailed = 0;
+    if (notified > 0 && import.meta.env.RESEND_API_KEY) {
+      const resend = new Resend(import.meta.env.RESEND_API_KEY);
+      const fromEmail =
+        import.meta.env.FROM_EMAIL || "IEEE UCSD <noreply@ieeeatucsd.org>";
+      const replyToEmail = import.meta.env.REPLY_TO_EMAIL || "ieee@ucsd.edu";
+      const result = await sendEventPublishedEmails(
+        resend,
+        fromEmail,
+        replyToEmail,
+        eventId,
+      );
+      emailed = result.sent;
+    }
+
+    return jsonResponse({ success: true, notified, emailed }, 200);
+  } catch (error) {
+    console.error("Error in notifications/event-published:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
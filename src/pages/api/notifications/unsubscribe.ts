@@ -0,0 +1,106 @@
+import type { APIRoute } from "astro";
+import { getFirestore } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import { NOTIFICATION_CATEGORIES } from "../../../lib/notificationPreferences";
+import { verifyUnsubscribeToken } from "../../../lib/unsubscribeToken";
+
+const db = getFirestore(app);
+
+const htmlResponse = (
+  title: string,
+  message: string,
+  status: number,
+  action = `<a href="/dashboard/settings" style="display: inline-block; margin-top: 12px; background: #1e40af; color: white; padding: 10px 20px; border-radius: 8px; text-decoration: none;">Notification settings</a>`,
+) =>
+  new Response(
+    `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title} - IEEE UCSD</title>
+  </head>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f8fafc; margin: 0; padding: 40px 20px;">
+    <div style="max-width: 480px; margin: 0 auto; background: white; border: 1px solid #e2e8f0; border-radius: 12px; padding: 32px; text-align: center;">
+      <h1 style="font-size: 22px; color: #0f172a; margin-top: 0;">${title}</h1>
+      <p style="color: #475569; line-height: 1.6;">${message}</p>
+      ${action}
+    </div>
+  </body>
+</html>`,
+    {
+      status,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    },
+  );
+
+const categoryLabel = (category: string) =>
+  NOTIFICATION_CATEGORIES.find(({ key }) => key === category)?.label ||
+  category;
+
+async function unsubscribe(token: string) {
+  const verification = verifyUnsubscribeToken(token);
+  if (!verification.valid) {
+    return verification;
+  }
+
+  const userRef = db.collection("users").doc(verification.userId);
+  const userSnap = await userRef.get();
+  if (!userSnap.exists) {
+    return { valid: false as const, reason: "This account no longer exists" };
+  }
+
+  await userRef.update({
+    [`notificationPreferences.${verification.category}`]: false,
+  });
+
+  return verification;
+}
+
+// Unsubscribe link from an email footer. Mail scanners and link previews fetch
+// GET links, so this only shows a confirmation page; the preference changes
+// when the member submits it. Public: the signed token is the only credential.
+export const GET: APIRoute = async ({ url }) => {
+  const verification = verifyUnsubscribeToken(
+    url.searchParams.get("token") || "",
+  );
+  if (!verification.valid) {
+    return htmlResponse("Unable to unsubscribe", verification.reason, 400);
+  }
+
+  // Posting back to the same URL keeps the token in the query string, which is
+  // also where one-click requests carry it
+  return htmlResponse(
+    "Unsubscribe from emails?",
+    `You will stop receiving "${categoryLabel(verification.category)}" emails. You can turn them back on at any time from your notification settings.`,
+    200,
+    `<form method="POST">
+        <button type="submit" style="margin-top: 12px; background: #1e40af; color: white; padding: 10px 20px; border: 0; border-radius: 8px; font-size: 16px; cursor: pointer;">Unsubscribe</button>
+      </form>`,
+  );
+};
+
+// Confirmation form submissions and RFC 8058 one-click requests from mail
+// clients (List-Unsubscribe-Post). Both only need a 2xx, so the result page is
+// returned for either.
+export const POST: APIRoute = async ({ url }) => {
+  try {
+    const result = await unsubscribe(url.searchParams.get("token") || "");
+    if (!result.valid) {
+      return htmlResponse("Unable to unsubscribe", result.reason, 400);
+    }
+
+    return htmlResponse(
+      "You're unsubscribed",
+      `You will no longer receive "${categoryLabel(result.category)}" emails. You can turn them back on at any time from your notification settings.`,
+      200,
+    );
+  } catch (error) {
+    console.error("Error in notifications/unsubscribe:", error);
+    return htmlResponse(
+      "Unable to unsubscribe",
+      "Something went wrong. Please try again or update your notification settings in the dashboard.",
+      500,
+    );
+  }
+};
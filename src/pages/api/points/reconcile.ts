@@ -0,0 +1,31 @@
+import type { APIRoute } from "astro";
+import { reconcilePointLedger } from "../../../scripts/points/PointsLedger";
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Backfills the ledger for members from before it existed and recomputes
+// every member's totals. Administrator only; safe to run more than once.
+export const POST: APIRoute = async ({ locals }) => {
+  try {
+    const admin = locals.user!;
+    const result = await reconcilePointLedger({
+      uid: admin.uid,
+      name: admin.name,
+    });
+
+    return jsonResponse({ success: true, ...result }, 200);
+  } catch (error) {
+    console.error("Error in points/reconcile:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
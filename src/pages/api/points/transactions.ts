@@ -0,0 +1,110 @@
+import type { APIRoute } from "astro";
+import { recordPointTransaction } from "../../../scripts/points/PointsLedger";
+
+const MANUAL_TYPES = ["adjustment", "bonus", "revocation"] as const;
+const MAX_REASON_LENGTH = 500;
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Officer grants and revocations. Restricted to executive officers by the API
+// guard; check-ins are recorded by events/check-in instead.
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const officer = locals.user!;
+    const { userId, type, points, reason, eventId, revokesTransactionId } =
+      await request.json();
+
+    if (!userId || typeof userId !== "string") {
+      return jsonResponse(
+        { success: false, message: "Missing required parameter (userId)" },
+        400,
+      );
+    }
+    if (!MANUAL_TYPES.includes(type)) {
+      return jsonResponse(
+        { success: false, message: `Unsupported transaction type: ${type}` },
+        400,
+      );
+    }
+    if (typeof reason !== "string" || !reason.trim()) {
+      return jsonResponse(
+        { success: false, message: "A reason is required" },
+        400,
+      );
+    }
+    if (reason.trim().length > MAX_REASON_LENGTH) {
+      return jsonResponse(
+        {
+          success: false,
+          message: `Reason must be ${MAX_REASON_LENGTH} characters or fewer`,
+        },
+        400,
+      );
+    }
+    if (userId === officer.uid) {
+      return jsonResponse(
+        { success: false, message: "You cannot change your own points" },
+        403,
+      );
+    }
+
+    // Revoking a specific entry reverses its points, so no amount is needed
+    const amount = Number(points);
+    if (!(type === "revocation" && revokesTransactionId)) {
+      if (!Number.isInteger(amount) || amount === 0) {
+        return jsonResponse(
+          { success: false, message: "Points must be a non-zero whole number" },
+          400,
+        );
+      }
+      if (type === "bonus" && amount < 0) {
+        return jsonResponse(
+          { success: false, message: "Bonus points must be positive" },
+          400,
+        );
+      }
+      if (type === "revocation" && amount > 0) {
+        return jsonResponse(
+          { success: false, message: "Revoked points must be negative" },
+          400,
+        );
+      }
+    }
+
+    const result = await recordPointTransaction({
+      userId,
+      type,
+      points: amount || 0,
+      reason: reason.trim(),
+      eventId: typeof eventId === "string" && eventId ? eventId : undefined,
+      revokesTransactionId:
+        typeof revokesTransactionId === "string" && revokesTransactionId
+          ? revokesTransactionId
+          : undefined,
+      performedBy: officer.uid,
+      performedByName: officer.name,
+    });
+
+    return jsonResponse(
+      {
+        success: result.status === 200,
+        message: result.message,
+        ...(result.data && { data: result.data }),
+      },
+      result.status,
+    );
+  } catch (error) {
+    console.error("Error in points/transactions:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
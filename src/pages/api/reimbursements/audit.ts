@@ -0,0 +1,113 @@
+import type { APIRoute } from "astro";
+import { getFirestore, FieldValue, Timestamp } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+
+const db = getFirestore(app);
+
+const AUDIT_RESULTS = ["approved", "needs_changes"] as const;
+type AuditResult = (typeof AUDIT_RESULTS)[number];
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Completes the caller's pending audit request on a reimbursement. The request
+// is resolved and the activity log entry appended in one transaction, so audits
+// and status changes made at the same time never overwrite each other.
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const auditor = locals.user!;
+    const { reimbursementId, auditResult, auditNotes } = await request.json();
+
+    if (
+      !reimbursementId ||
+      typeof reimbursementId !== "string" ||
+      !AUDIT_RESULTS.includes(auditResult)
+    ) {
+      return jsonResponse(
+        {
+          success: false,
+          message: "Missing required parameters (reimbursementId, auditResult)",
+        },
+        400,
+      );
+    }
+    const notes = typeof auditNotes === "string" ? auditNotes.trim() : "";
+    if (auditResult === "needs_changes" && !notes) {
+      return jsonResponse(
+        { success: false, message: "Notes are required to request changes" },
+        400,
+      );
+    }
+
+    const reimbursementRef = db
+      .collection("reimbursements")
+      .doc(reimbursementId);
+    const result = await db.runTransaction(async (transaction) => {
+      const reimbursementSnap = await transaction.get(reimbursementRef);
+      if (!reimbursementSnap.exists) {
+        return { status: 404, message: "Reimbursement not found" };
+      }
+
+      const auditRequests: Record<string, any>[] =
+        reimbursementSnap.data()!.auditRequests || [];
+      const requestIndex = auditRequests
+        .map(
+          (auditRequest) =>
+            auditRequest.auditorId === auditor.uid &&
+            auditRequest.status === "pending",
+        )
+        .lastIndexOf(true);
+      if (requestIndex === -1) {
+        return {
+          status: 409,
+          message:
+            "You do not have a pending audit request for this reimbursement",
+        };
+      }
+
+      const now = Timestamp.now();
+      const completed = auditRequests.map((auditRequest, index) =>
+        index === requestIndex
+          ? {
+              ...auditRequest,
+              status: "completed",
+              auditResult: auditResult as AuditResult,
+              auditNotes: notes,
+              completedAt: now,
+            }
+          : auditRequest,
+      );
+
+      // The whole array is rewritten because one element changes; the
+      // transaction retries if another request is added meanwhile
+      transaction.update(reimbursementRef, {
+        auditRequests: completed,
+        auditLogs: FieldValue.arrayUnion({
+          action: `Audit completed: ${auditResult === "approved" ? "approved" : "needs changes"}`,
+          createdBy: auditor.uid,
+          createdByName: auditor.name,
+          timestamp: now,
+        }),
+      });
+
+      return { status: 200, message: "Audit completed" };
+    });
+
+    return jsonResponse(
+      { success: result.status === 200, message: result.message },
+      result.status,
+    );
+  } catch (error) {
+    console.error("Error in reimbursements/audit:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
@@ -0,0 +1,408 @@
+import type { APIRoute } from "astro";
+import {
+  getFirestore,
+  FieldValue,
+  Timestamp,
+  type DocumentSnapshot,
+  type Transaction,
+} from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import type { ApiUser } from "../../../middleware/apiAuth";
+import {
+  REIMBURSEMENT_TRANSITIONS,
+  type ReimbursementStatus,
+} from "../../../lib/reimbursementStatus";
+import {
+  REIMBURSEMENT_POLICY_PATH,
+  getOverrideRequirement,
+  normalizeReimbursementPolicy,
+  type ReimbursementPolicy,
+} from "../../../lib/reimbursementPolicy";
+import {
+  DEFAULT_LEDGER_ACCOUNT,
+  isLedgerAccount,
+  type LedgerAccount,
+} from "../../../lib/treasuryLedger";
+import { postReimbursementEntry } from "../../../scripts/treasury/TreasuryLedger";
+
+const db = getFirestore(app);
+
+const PAYOUT_BATCHES = "payout_batches";
+const ACTIONS = ["create", "mark_paid", "cancel"] as const;
+type BatchAction = (typeof ACTIONS)[number];
+const PAYOUT_METHODS = ["zelle", "check"];
+// Each item writes its reimbursement, and a transaction allows 500 writes
+const MAX_BATCH_SIZE = 200;
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+interface BatchResult {
+  status: number;
+  message: string;
+  data?: { batchId: string; reimbursementIds: string[] };
+}
+
+const auditEntry = (user: ApiUser, action: string, timestamp: Timestamp) => ({
+  action,
+  createdBy: user.uid,
+  createdByName: user.name,
+  timestamp,
+});
+
+// Treasurers group approved reimbursements into a payout batch, export the
+// payout sheet, then mark the whole batch paid under one confirmation
+// reference. Every reimbursement in the batch gets its own audit entries.
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const user = locals.user!;
+    const body = await request.json();
+    const action: BatchAction = body.action;
+
+    if (!ACTIONS.includes(action)) {
+      return jsonResponse(
+        { success: false, message: `Unsupported action: ${action}` },
+        400,
+      );
+    }
+
+    let result: BatchResult;
+    if (action === "create") {
+      const ids: string[] = Array.isArray(body.reimbursementIds)
+        ? [...new Set<string>(body.reimbursementIds)]
+        : [];
+      if (ids.length === 0 || !PAYOUT_METHODS.includes(body.method)) {
+        return jsonResponse(
+          {
+            success: false,
+            message: "Missing required parameters (reimbursementIds, method)",
+          },
+          400,
+        );
+      }
+      if (ids.length > MAX_BATCH_SIZE) {
+        return jsonResponse(
+          {
+            success: false,
+            message: `A batch can hold at most ${MAX_BATCH_SIZE} reimbursements`,
+          },
+          400,
+        );
+      }
+      result = await createBatch(ids, body.method, body.name, user);
+    } else {
+      if (!body.batchId) {
+        return jsonResponse(
+          { success: false, message: "Missing required parameter (batchId)" },
+          400,
+        );
+      }
+      const reference = String(body.confirmationReference || "").trim();
+      if (action === "mark_paid" && !reference) {
+        return jsonResponse(
+          { success: false, message: "A confirmation reference is required" },
+          400,
+        );
+      }
+      const ledgerAccount = body.ledgerAccount ?? DEFAULT_LEDGER_ACCOUNT;
+      if (!isLedgerAccount(ledgerAccount)) {
+        return jsonResponse(
+          { success: false, message: `Unknown account: ${ledgerAccount}` },
+          400,
+        );
+      }
+      result =
+        action === "mark_paid"
+          ? await markBatchPaid(body.batchId, reference, ledgerAccount, user)
+          : await cancelBatch(body.batchId, user);
+    }
+
+    return jsonResponse(
+      {
+        success: result.status === 200,
+        message: result.message,
+        ...(result.data && { data: result.data }),
+      },
+      result.status,
+    );
+  } catch (error) {
+    console.error("Error in reimbursements/payout-batches:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
+
+const getPolicy = async (
+  transaction: Transaction,
+): Promise<ReimbursementPolicy> =>
+  normalizeReimbursementPolicy(
+    (await transaction.get(db.doc(REIMBURSEMENT_POLICY_PATH))).data(),
+  );
+
+const needsOverride = (reimbursement: any, policy: ReimbursementPolicy) =>
+  getOverrideRequirement(reimbursement, policy).required;
+
+function createBatch(
+  reimbursementIds: string[],
+  method: string,
+  name: string | undefined,
+  user: ApiUser,
+): Promise<BatchResult> {
+  const batchRef = db.collection(PAYOUT_BATCHES).doc();
+  const reimbursementRefs = reimbursementIds.map((id) =>
+    db.collection("reimbursements").doc(id),
+  );
+
+  return db.runTransaction(async (transaction): Promise<BatchResult> => {
+    const reimbursementSnaps = await transaction.getAll(...reimbursementRefs);
+    const policy = await getPolicy(transaction);
+
+    const problems: string[] = [];
+    reimbursementSnaps.forEach((snap) => {
+      const reimbursement = snap.data();
+      if (!snap.exists || !reimbursement) {
+        problems.push(`${snap.id} not found`);
+      } else if (reimbursement.status !== "approved") {
+        problems.push(`"${reimbursement.title}" is not approved`);
+      } else if (reimbursement.payoutBatchId) {
+        problems.push(`"${reimbursement.title}" is already in a batch`);
+      } else if (needsOverride(reimbursement, policy)) {
+        problems.push(`"${reimbursement.title}" needs an executive override`);
+      }
+    });
+    if (problems.length > 0) {
+      return { status: 409, message: problems.join("; ") };
+    }
+
+    const payeeIds = [
+      ...new Set(reimbursementSnaps.map((snap) => snap.data()!.submittedBy)),
+    ];
+    const payeeSnaps = await transaction.getAll(
+      ...payeeIds.map((id) => db.collection("users").doc(id)),
+    );
+    const payees = new Map(payeeSnaps.map((snap) => [snap.id, snap.data()]));
+
+    if (method === "zelle") {
+      const missing = payeeSnaps
+        .filter((snap) => !snap.data()?.zelleInformation)
+        .map((snap) => snap.data()?.name || snap.id);
+      if (missing.length > 0) {
+        return {
+          status: 409,
+          message: `No Zelle information on file for ${missing.join(", ")}. Pay them by check instead.`,
+        };
+      }
+    }
+
+    const now = Timestamp.now();
+    const batchName =
+      (name || "").trim() ||
+      `Payout ${now.toDate().toLocaleDateString("en-US", { timeZone: "America/Los_Angeles" })}`;
+    const items = reimbursementSnaps.map((snap) => {
+      const reimbursement = snap.data()!;
+      const payee = payees.get(reimbursement.submittedBy);
+      return {
+        reimbursementId: snap.id,
+        title: reimbursement.title || "",
+        amount: Number(reimbursement.totalAmount) || 0,
+        payeeId: reimbursement.submittedBy,
+        payeeName: payee?.name || "Unknown user",
+        payeeEmail: payee?.email || "",
+        zelleInformation: payee?.zelleInformation || "",
+      };
+    });
+
+    transaction.create(batchRef, {
+      name: batchName,
+      method,
+      status: "draft",
+      reimbursementIds,
+      items,
+      totalAmount: items.reduce((sum: number, item) => sum + item.amount, 0),
+      createdBy: user.uid,
+      createdByName: user.name,
+      createdAt: now,
+    });
+    reimbursementRefs.forEach((ref) =>
+      transaction.update(ref, {
+        payoutBatchId: batchRef.id,
+        auditLogs: FieldValue.arrayUnion(
+          auditEntry(user, `Added to payout batch "${batchName}"`, now),
+        ),
+      }),
+    );
+
+    return {
+      status: 200,
+      message: `Created "${batchName}" with ${items.length} reimbursement${items.length === 1 ? "" : "s"}`,
+      data: { batchId: batchRef.id, reimbursementIds },
+    };
+  });
+}
+
+async function getDraftBatch(
+  transaction: Transaction,
+  batchId: string,
+): Promise<{ snap: DocumentSnapshot; error?: BatchResult }> {
+  const snap = await transaction.get(
+    db.collection(PAYOUT_BATCHES).doc(batchId),
+  );
+  if (!snap.exists) {
+    return { snap, error: { status: 404, message: "Payout batch not found" } };
+  }
+  if (snap.data()!.status !== "draft") {
+    return {
+      snap,
+      error: {
+        status: 409,
+        message: `This batch is already ${snap.data()!.status}`,
+      },
+    };
+  }
+  return { snap };
+}
+
+function markBatchPaid(
+  batchId: string,
+  reference: string,
+  ledgerAccount: LedgerAccount,
+  user: ApiUser,
+): Promise<BatchResult> {
+  return db.runTransaction(async (transaction): Promise<BatchResult> => {
+    const { snap: batchSnap, error } = await getDraftBatch(
+      transaction,
+      batchId,
+    );
+    if (error) return error;
+
+    const batch = batchSnap.data()!;
+    const reimbursementIds: string[] = batch.reimbursementIds || [];
+    const reimbursementRefs = reimbursementIds.map((id) =>
+      db.collection("reimbursements").doc(id),
+    );
+    const reimbursementSnaps = reimbursementRefs.length
+      ? await transaction.getAll(...reimbursementRefs)
+      : [];
+    const policy = await getPolicy(transaction);
+
+    const problems = reimbursementSnaps
+      .filter((snap) => {
+        const reimbursement = snap.data();
+        return (
+          !reimbursement ||
+          reimbursement.payoutBatchId !== batchId ||
+          !REIMBURSEMENT_TRANSITIONS[
+            reimbursement.status as ReimbursementStatus
+          ]?.includes("paid") ||
+          needsOverride(reimbursement, policy)
+        );
+      })
+      .map((snap) => `"${snap.data()?.title || snap.id}"`);
+    if (problems.length > 0) {
+      return {
+        status: 409,
+        message: `These reimbursements can no longer be paid in this batch: ${problems.join(", ")}`,
+      };
+    }
+
+    const now = Timestamp.now();
+    reimbursementRefs.forEach((ref, index) => {
+      transaction.update(ref, {
+        status: "paid",
+        paymentConfirmation: {
+          confirmationNumber: reference,
+          photoAttachment: null,
+          paidBy: user.uid,
+          paidByName: user.name,
+          paidAt: now,
+          payoutBatchId: batchId,
+          ledgerAccount,
+        },
+        auditLogs: FieldValue.arrayUnion(
+          auditEntry(user, "Status changed to paid", now),
+          auditEntry(
+            user,
+            `Paid in payout batch "${batch.name}" (${batch.method === "check" ? "check" : "Zelle"}, ref ${reference})`,
+            now,
+          ),
+        ),
+      });
+      postReimbursementEntry(transaction, {
+        reimbursementId: ref.id,
+        reimbursement: reimbursementSnaps[index].data(),
+        account: ledgerAccount,
+        poster: { uid: user.uid, name: user.name },
+        postedAt: now,
+      });
+    });
+    transaction.update(batchSnap.ref, {
+      status: "paid",
+      confirmationReference: reference,
+      ledgerAccount,
+      paidBy: user.uid,
+      paidByName: user.name,
+      paidAt: now,
+    });
+
+    return {
+      status: 200,
+      message: `Marked ${reimbursementIds.length} reimbursement${reimbursementIds.length === 1 ? "" : "s"} paid`,
+      data: { batchId, reimbursementIds },
+    };
+  });
+}
+
+function cancelBatch(batchId: string, user: ApiUser): Promise<BatchResult> {
+  return db.runTransaction(async (transaction): Promise<BatchResult> => {
+    const { snap: batchSnap, error } = await getDraftBatch(
+      transaction,
+      batchId,
+    );
+    if (error) return error;
+
+    const batch = batchSnap.data()!;
+    const reimbursementIds: string[] = batch.reimbursementIds || [];
+    const reimbursementRefs = reimbursementIds.map((id) =>
+      db.collection("reimbursements").doc(id),
+    );
+    const reimbursementSnaps = reimbursementRefs.length
+      ? await transaction.getAll(...reimbursementRefs)
+      : [];
+
+    const now = Timestamp.now();
+    reimbursementSnaps
+      .filter((snap) => snap.data()?.payoutBatchId === batchId)
+      .forEach((snap) =>
+        transaction.update(snap.ref, {
+          payoutBatchId: FieldValue.delete(),
+          auditLogs: FieldValue.arrayUnion(
+            auditEntry(
+              user,
+              `Removed from cancelled payout batch "${batch.name}"`,
+              now,
+            ),
+          ),
+        }),
+      );
+    transaction.update(batchSnap.ref, {
+      status: "cancelled",
+      cancelledBy: user.uid,
+      cancelledByName: user.name,
+      cancelledAt: now,
+    });
+
+    return {
+      status: 200,
+      message: `Cancelled "${batch.name}"`,
+      data: { batchId, reimbursementIds },
+    };
+  });
+}
@@ -0,0 +1,262 @@
+import type { APIRoute } from "astro";
+import { getFirestore, FieldValue, Timestamp } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import { EXECUTIVE_ROLES, type ApiUser } from "../../../middleware/apiAuth";
+import {
+  APPROVAL_STATUSES,
+  getTransitionPath,
+  isReimbursementStatus,
+  type ReimbursementStatus,
+} from "../../../lib/reimbursementStatus";
+import {
+  REIMBURSEMENT_POLICY_PATH,
+  getOverrideRequirement,
+  normalizeReimbursementPolicy,
+} from "../../../lib/reimbursementPolicy";
+import {
+  DEFAULT_LEDGER_ACCOUNT,
+  isLedgerAccount,
+  type LedgerAccount,
+} from "../../../lib/treasuryLedger";
+import { postReimbursementEntry } from "../../../scripts/treasury/TreasuryLedger";
+
+const db = getFirestore(app);
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+interface StatusUpdate {
+  reimbursementId: string;
+  status: ReimbursementStatus;
+  note?: string;
+  paymentInfo?: {
+    confirmationNumber?: string;
+    photoAttachment?: string | null;
+    // Treasury ledger account the payment comes out of
+    ledgerAccount?: LedgerAccount;
+  };
+  auditorId?: string;
+  overrideReason?: string;
+}
+
+interface StatusResult {
+  status: number;
+  message: string;
+  data?: {
+    previousStatus: ReimbursementStatus;
+    status: ReimbursementStatus;
+  };
+}
+
+// Executive officers move reimbursements through the workflow in
+// lib/reimbursementStatus; submitters can only resubmit their own declined
+// requests. Audit entries are appended in the same transaction as the status
+// change so concurrent reviewers never drop each other's entries, and paying
+// posts the reimbursement to the treasury ledger in that transaction too.
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const user = locals.user!;
+    const update = (await request.json()) as StatusUpdate;
+
+    if (!update.reimbursementId || !isReimbursementStatus(update.status)) {
+      return jsonResponse(
+        {
+          success: false,
+          message: "Missing required parameters (reimbursementId, status)",
+        },
+        400,
+      );
+    }
+    const ledgerAccount = update.paymentInfo?.ledgerAccount;
+    if (ledgerAccount !== undefined && !isLedgerAccount(ledgerAccount)) {
+      return jsonResponse(
+        { success: false, message: `Unknown account: ${ledgerAccount}` },
+        400,
+      );
+    }
+
+    const result = await applyStatusUpdate(update, user);
+
+    return jsonResponse(
+      {
+        success: result.status === 200,
+        message: result.message,
+        ...(result.data && { data: result.data }),
+      },
+      result.status,
+    );
+  } catch (error) {
+    console.error("Error in reimbursements/status:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
+
+function applyStatusUpdate(
+  update: StatusUpdate,
+  user: ApiUser,
+): Promise<StatusResult> {
+  const reimbursementRef = db
+    .collection("reimbursements")
+    .doc(update.reimbursementId);
+  const isExecutive = EXECUTIVE_ROLES.includes(user.role);
+
+  const policyRef = db.doc(REIMBURSEMENT_POLICY_PATH);
+
+  return db.runTransaction(async (transaction): Promise<StatusResult> => {
+    const [reimbursementSnap, policySnap] = await Promise.all([
+      transaction.get(reimbursementRef),
+      transaction.get(policyRef),
+    ]);
+    const reimbursement = reimbursementSnap.data();
+    if (!reimbursementSnap.exists || !reimbursement) {
+      return { status: 404, message: "Reimbursement not found" };
+    }
+
+    const previousStatus = reimbursement.status as ReimbursementStatus;
+    const isResubmission =
+      previousStatus === "declined" && update.status === "submitted";
+
+    if (
+      !isExecutive &&
+      !(isResubmission && reimbursement.submittedBy === user.uid)
+    ) {
+      return {
+        status: 403,
+        message: isResubmission
+          ? "Only the submitter can resubmit this reimbursement"
+          : "Only executive officers can change reimbursement status",
+      };
+    }
+
+    const path =
+      update.status === previousStatus
+        ? []
+        : getTransitionPath(previousStatus, update.status);
+    if (!path) {
+      return {
+        status: 409,
+        message: `Cannot change a ${previousStatus.replace("_", " ")} reimbursement to ${update.status.replace("_", " ")}`,
+      };
+    }
+
+    if (reimbursement.payoutBatchId && path.includes("paid")) {
+      return {
+        status: 409,
+        message:
+          "This reimbursement is in a payout batch. Mark the batch paid instead.",
+      };
+    }
+
+    const note = update.note?.trim();
+    if (path.length === 0 && !note && !update.auditorId) {
+      return { status: 400, message: "Nothing to update" };
+    }
+    if (path.includes("declined") && !note) {
+      return { status: 400, message: "A reason is required to decline" };
+    }
+    if (path.includes("paid") && !update.paymentInfo?.confirmationNumber) {
+      return {
+        status: 400,
+        message: "A payment confirmation number is required",
+      };
+    }
+
+    const overrideReason = update.overrideReason?.trim();
+    const needsOverride =
+      getOverrideRequirement(
+        reimbursement,
+        normalizeReimbursementPolicy(policySnap.data()),
+      ).required && path.some((status) => APPROVAL_STATUSES.includes(status));
+    if (needsOverride && !overrideReason) {
+      return {
+        status: 409,
+        message:
+          "This reimbursement is flagged and needs an executive override reason to approve",
+      };
+    }
+
+    const now = Timestamp.now();
+    const author = {
+      createdBy: user.uid,
+      createdByName: user.name,
+      timestamp: now,
+    };
+    const auditLogs = path.map((status) => ({
+      action: `Status changed to ${status}`,
+      ...author,
+    }));
+    if (needsOverride) {
+      auditLogs.push({
+        action: `Executive override: ${overrideReason}`,
+        ...author,
+      });
+    }
+
+    const updateData: Record<string, any> = {
+      status: update.status,
+    };
+    if (auditLogs.length > 0) {
+      updateData.auditLogs = FieldValue.arrayUnion(...auditLogs);
+    }
+    if (note) {
+      updateData.auditNotes = FieldValue.arrayUnion({ note, ...author });
+    }
+    if (update.auditorId) {
+      updateData.auditRequests = FieldValue.arrayUnion({
+        auditorId: update.auditorId,
+        requestedBy: user.uid,
+        requestedAt: now,
+        status: "pending",
+      });
+    }
+    if (needsOverride) {
+      updateData.executiveOverride = {
+        approvedBy: user.uid,
+        approvedByName: user.name,
+        reason: overrideReason,
+        approvedAt: now,
+      };
+    }
+    const ledgerAccount =
+      update.paymentInfo?.ledgerAccount || DEFAULT_LEDGER_ACCOUNT;
+    if (path.includes("paid")) {
+      updateData.paymentConfirmation = {
+        confirmationNumber: update.paymentInfo!.confirmationNumber,
+        photoAttachment: update.paymentInfo!.photoAttachment ?? null,
+        paidBy: user.uid,
+        paidByName: user.name,
+        paidAt: now,
+        ledgerAccount,
+      };
+    }
+
+    transaction.update(reimbursementRef, updateData);
+    if (path.includes("paid")) {
+      postReimbursementEntry(transaction, {
+        reimbursementId: reimbursementRef.id,
+        reimbursement,
+        account: ledgerAccount,
+        poster: { uid: user.uid, name: user.name },
+        postedAt: now,
+      });
+    }
+
+    return {
+      status: 200,
+      message:
+        path.length > 0
+          ? `Reimbursement ${update.status.replace("_", " ")}`
+          : "Note added",
+      data: { previousStatus, status: update.status },
+    };
+  });
+}
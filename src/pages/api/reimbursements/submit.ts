@@ -0,0 +1,217 @@
+import type { APIRoute } from "astro";
+import { getFirestore, FieldValue, Timestamp } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import type { ApiUser } from "../../../middleware/apiAuth";
+import {
+  REIMBURSEMENT_POLICY_PATH,
+  evaluateReimbursementPolicy,
+  normalizeReimbursementPolicy,
+} from "../../../lib/reimbursementPolicy";
+
+const db = getFirestore(app);
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Text fields copied from the form as they are
+const REQUEST_FIELDS = [
+  "title",
+  "dateOfPurchase",
+  "paymentMethod",
+  "department",
+  "businessPurpose",
+  "location",
+  "vendor",
+  "additionalInfo",
+] as const;
+const REQUIRED_FIELDS = [
+  "title",
+  "dateOfPurchase",
+  "paymentMethod",
+  "department",
+  "businessPurpose",
+];
+
+interface Submission {
+  // Set to edit an existing request that is still waiting for review
+  reimbursementId?: string;
+  expenses?: any[];
+  [field: string]: unknown;
+}
+
+interface SubmitResult {
+  status: number;
+  message: string;
+  data?: { reimbursementId: string; policyViolations: number };
+}
+
+const toExpense = (expense: any) => ({
+  id: String(expense.id ?? ""),
+  description: String(expense.description ?? ""),
+  category: String(expense.category ?? ""),
+  amount: Number(expense.amount),
+  receipt: expense.receipt || null,
+});
+
+// Submits a reimbursement request, or saves the submitter's edits while it is
+// still "submitted". Policy violations and the executive override flag are
+// worked out here against the current policy on every save, so a submitter
+// can't clear them by writing the request directly.
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const user = locals.user!;
+    const submission = (await request.json()) as Submission;
+
+    const missing = REQUIRED_FIELDS.filter(
+      (field) =>
+        typeof submission[field] !== "string" ||
+        !(submission[field] as string).trim(),
+    );
+    if (missing.length > 0) {
+      return jsonResponse(
+        {
+          success: false,
+          message: `Missing required parameters (${missing.join(", ")})`,
+        },
+        400,
+      );
+    }
+
+    const expenses = Array.isArray(submission.expenses)
+      ? submission.expenses.map(toExpense)
+      : [];
+    if (expenses.length === 0) {
+      return jsonResponse(
+        { success: false, message: "At least one expense is required" },
+        400,
+      );
+    }
+    if (expenses.some((expense) => !(expense.amount > 0))) {
+      return jsonResponse(
+        { success: false, message: "Expense amounts must be positive numbers" },
+        400,
+      );
+    }
+
+    const result = await saveSubmission(submission, expenses, user);
+
+    return jsonResponse(
+      {
+        success: result.status === 200,
+        message: result.message,
+        ...(result.data && { data: result.data }),
+      },
+      result.status,
+    );
+  } catch (error) {
+    console.error("Error in reimbursements/submit:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
+
+function saveSubmission(
+  submission: Submission,
+  expenses: ReturnType<typeof toExpense>[],
+  user: ApiUser,
+): Promise<SubmitResult> {
+  const reimbursementRef = submission.reimbursementId
+    ? db.collection("reimbursements").doc(submission.reimbursementId)
+    : db.collection("reimbursements").doc();
+  const policyRef = db.doc(REIMBURSEMENT_POLICY_PATH);
+
+  return db.runTransaction(async (transaction): Promise<SubmitResult> => {
+    const [reimbursementSnap, policySnap] = await Promise.all([
+      transaction.get(reimbursementRef),
+      transaction.get(policyRef),
+    ]);
+    const existing = reimbursementSnap.data();
+
+    if (submission.reimbursementId) {
+      if (!existing) {
+        return { status: 404, message: "Reimbursement not found" };
+      }
+      if (existing.submittedBy !== user.uid) {
+        return {
+          status: 403,
+          message: "Only the submitter can edit this reimbursement",
+        };
+      }
+      if (existing.status !== "submitted") {
+        return {
+          status: 409,
+          message: "Only requests waiting for review can be edited",
+        };
+      }
+    }
+
+    const now = Timestamp.now();
+    const submittedAt: Timestamp = existing?.submittedAt || now;
+    const fields: Record<string, any> = {};
+    REQUEST_FIELDS.forEach((field) => {
+      if (typeof submission[field] === "string") {
+        fields[field] = (submission[field] as string).trim();
+      }
+    });
+
+    const policyViolations = evaluateReimbursementPolicy(
+      { dateOfPurchase: fields.dateOfPurchase, expenses },
+      normalizeReimbursementPolicy(policySnap.data()),
+      submittedAt.toDate(),
+    );
+    const totalAmount =
+      Math.round(
+        expenses.reduce((sum, expense) => sum + expense.amount, 0) * 100,
+      ) / 100;
+
+    const requestData = {
+      ...fields,
+      expenses,
+      totalAmount,
+      receiptHashes: expenses
+        .map((expense) => expense.receipt?.hash)
+        .filter(Boolean),
+      policyViolations,
+      requiresExecutiveOverride: policyViolations.length > 0,
+    };
+    const auditLog = {
+      action: existing ? "Request edited" : "Request submitted",
+      createdBy: user.uid,
+      createdByName: user.name,
+      timestamp: now,
+    };
+
+    if (existing) {
+      transaction.update(reimbursementRef, {
+        ...requestData,
+        auditLogs: FieldValue.arrayUnion(auditLog),
+      });
+    } else {
+      transaction.create(reimbursementRef, {
+        ...requestData,
+        status: "submitted",
+        submittedBy: user.uid,
+        submittedAt,
+        auditNotes: [],
+        auditLogs: [auditLog],
+      });
+    }
+
+    return {
+      status: 200,
+      message: existing ? "Reimbursement updated" : "Reimbursement submitted",
+      data: {
+        reimbursementId: reimbursementRef.id,
+        policyViolations: policyViolations.length,
+      },
+    };
+  });
+}
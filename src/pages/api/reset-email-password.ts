@@ -1,6 +1,7 @@
 import type { APIRoute } from "astro";
+import { requireAccountAccess } from "../../middleware/apiAuth";
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     console.log("Password reset request received");
 
@@ -15,6 +16,14 @@ export const POST: APIRoute = async ({ request }) => {
 
     const { email, password } = requestBody;
 
+    // Only Administrators may act on someone else's email account
+    const accessDenied = requireAccountAccess(locals.user, {
+      ieeeEmail: email,
+    });
+    if (accessDenied) {
+      return accessDenied;
+    }
+
     if (!email || !password) {
       console.log("Missing email address or password");
       return new Response(
@@ -3,6 +3,8 @@ import { adminAuth } from "../../firebase/server";
 import { isProduction } from "../../env";
 import { getFirestore } from "firebase-admin/firestore";
 import { app } from "../../firebase/server";
+import { DEFAULT_NOTIFICATION_PREFERENCES } from "../../lib/notificationPreferences";
+import { notifyInviteAccepted } from "../../scripts/notifications/NotificationFunctions";
 
 export const db = getFirestore(app);
 
@@ -46,6 +48,17 @@ export const POST: APIRoute = async ({ request, cookies, redirect }) => {
               acceptedBy: decoded.uid,
             });
             console.log("Invite accepted successfully");
+
+            // Invites record the inviter as invitedBy; older ones used createdBy
+            const inviterId = inviteData?.invitedBy || inviteData?.createdBy;
+            if (inviterId) {
+              await notifyInviteAccepted({
+                inviterId,
+                inviteeName: decoded.name || "",
+                inviteeEmail: decoded.email || "",
+                role: inviteData.role,
+              });
+            }
           } else {
             console.warn("Invite validation failed:", {
               inviteEmail: inviteData?.email,
@@ -78,14 +91,16 @@ export const POST: APIRoute = async ({ request, cookies, redirect }) => {
         ...(decoded.picture && { avatar: decoded.picture }),
         lastLogin: new Date(),
         joinDate: new Date(), // Set join date when user first signs up
-        notificationPreferences: {},
+        notificationPreferences: { ...DEFAULT_NOTIFICATION_PREFERENCES },
         displayPreferences: {},
         accessibilitySettings: {},
         signedUp: false,
         requestedEmail: false,
         role: inviteData?.role || "Member", // Use role from invite or default to Member
         ...(inviteData?.position && { position: inviteData.position }),
-        ...(inviteData && { invitedBy: inviteData.createdBy || "system" }),
+        ...(inviteData && {
+          invitedBy: inviteData.invitedBy || inviteData.createdBy || "system",
+        }),
         ...(inviteData && { inviteAccepted: new Date() }),
         status: "active",
         eventsAttended: 0,
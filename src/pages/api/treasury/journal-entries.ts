@@ -0,0 +1,110 @@
+import type { APIRoute } from "astro";
+import {
+  createJournalEntry,
+  reviewJournalEntry,
+  type JournalResult,
+} from "../../../scripts/treasury/TreasuryLedger";
+import {
+  isLedgerDate,
+  validateJournalLines,
+  type JournalLine,
+} from "../../../lib/treasuryLedger";
+
+const ACTIONS = ["create", "approve", "reject"] as const;
+type JournalAction = (typeof ACTIONS)[number];
+const MAX_MEMO_LENGTH = 500;
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Manual journal entries for transfers between accounts, bank fees and
+// corrections. Restricted to executive officers by the API guard; an entry
+// only posts once a second executive approves it.
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const user = locals.user!;
+    const body = await request.json();
+    const action: JournalAction = body.action;
+
+    if (!ACTIONS.includes(action)) {
+      return jsonResponse(
+        { success: false, message: `Unsupported action: ${action}` },
+        400,
+      );
+    }
+
+    let result: JournalResult;
+    if (action === "create") {
+      const memo = typeof body.memo === "string" ? body.memo.trim() : "";
+      if (!memo || !isLedgerDate(body.date)) {
+        return jsonResponse(
+          {
+            success: false,
+            message: "Missing required parameters (date, memo)",
+          },
+          400,
+        );
+      }
+      if (memo.length > MAX_MEMO_LENGTH) {
+        return jsonResponse(
+          {
+            success: false,
+            message: `Memo must be ${MAX_MEMO_LENGTH} characters or fewer`,
+          },
+          400,
+        );
+      }
+      const linesError = validateJournalLines(body.lines);
+      if (linesError) {
+        return jsonResponse({ success: false, message: linesError }, 400);
+      }
+
+      result = await createJournalEntry(
+        { date: body.date, memo, lines: body.lines as JournalLine[] },
+        { uid: user.uid, name: user.name },
+      );
+    } else {
+      if (!body.journalId) {
+        return jsonResponse(
+          { success: false, message: "Missing required parameter (journalId)" },
+          400,
+        );
+      }
+      const reason = String(body.reason || "").trim();
+      if (action === "reject" && !reason) {
+        return jsonResponse(
+          { success: false, message: "A reason is required to reject" },
+          400,
+        );
+      }
+
+      result = await reviewJournalEntry(
+        body.journalId,
+        action,
+        { uid: user.uid, name: user.name },
+        reason || undefined,
+      );
+    }
+
+    return jsonResponse(
+      {
+        success: result.status === 200,
+        message: result.message,
+        ...(result.data && { data: result.data }),
+      },
+      result.status,
+    );
+  } catch (error) {
+    console.error("Error in treasury/journal-entries:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
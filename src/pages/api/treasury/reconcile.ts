@@ -0,0 +1,31 @@
+import type { APIRoute } from "astro";
+import { reconcileTreasuryLedger } from "../../../scripts/treasury/TreasuryLedger";
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Posts verified deposits and paid reimbursements from before the ledger
+// existed. Administrator only; safe to run more than once.
+export const POST: APIRoute = async ({ locals }) => {
+  try {
+    const admin = locals.user!;
+    const result = await reconcileTreasuryLedger({
+      uid: admin.uid,
+      name: admin.name,
+    });
+
+    return jsonResponse({ success: true, ...result }, 200);
+  } catch (error) {
+    console.error("Error in treasury/reconcile:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
@@ -0,0 +1,163 @@
+import type { APIRoute } from "astro";
+import { getFirestore } from "firebase-admin/firestore";
+import { app } from "../../../firebase/server";
+import { LEDGER_ENTRIES } from "../../../scripts/treasury/TreasuryLedger";
+import {
+  LEDGER_ACCOUNTS,
+  LEDGER_ACCOUNT_LABELS,
+  buildStatement,
+  isLedgerAccount,
+  isLedgerDate,
+  type LedgerAccount,
+  type LedgerAmount,
+} from "../../../lib/treasuryLedger";
+import { exportResponse, isExportFormat } from "../../../lib/spreadsheetExport";
+
+const db = getFirestore(app);
+
+const SOURCE_LABELS: Record<string, string> = {
+  deposit: "Deposit",
+  reimbursement: "Reimbursement",
+  journal: "Journal entry",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+type StoredEntry = LedgerAmount & {
+  description: string;
+  source: string;
+  postedByName?: string;
+};
+
+// Account statement for a date range with opening and closing balances and a
+// running balance per line. Pass `account` for a single account, or leave it
+// out for every account combined. Restricted to executive officers by the API
+// guard.
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const format = url.searchParams.get("format") || "csv";
+    if (!isExportFormat(format)) {
+      return jsonResponse(
+        { success: false, message: "Format must be csv or xlsx" },
+        400,
+      );
+    }
+
+    const start = url.searchParams.get("start");
+    const end = url.searchParams.get("end");
+    if (!isLedgerDate(start) || !isLedgerDate(end) || start > end) {
+      return jsonResponse(
+        {
+          success: false,
+          message: "start and end must be YYYY-MM-DD dates, start first",
+        },
+        400,
+      );
+    }
+
+    const accountParam = url.searchParams.get("account");
+    if (accountParam && !isLedgerAccount(accountParam)) {
+      return jsonResponse(
+        { success: false, message: `Unknown account: ${accountParam}` },
+        400,
+      );
+    }
+    const account = (accountParam || undefined) as LedgerAccount | undefined;
+
+    // Everything up to the end date is needed for the opening balance
+    const snapshot = await db
+      .collection(LEDGER_ENTRIES)
+      .where("date", "<=", end)
+      .get();
+    const entries = snapshot.docs
+      .map((doc) => doc.data())
+      .sort(
+        (a, b) =>
+          (a.postedAt?.toMillis?.() ?? 0) - (b.postedAt?.toMillis?.() ?? 0),
+      ) as StoredEntry[];
+
+    const statement = buildStatement(entries, { start, end, account });
+    const label = account ? LEDGER_ACCOUNT_LABELS[account] : "All accounts";
+
+    return await exportResponse(
+      format,
+      `statement-${account || "all"}-${start}-to-${end}`,
+      [
+        {
+          name: "Statement",
+          headers: [
+            "Date",
+            "Account",
+            "Description",
+            "Source",
+            "In",
+            "Out",
+            "Balance",
+          ],
+          rows: [
+            [
+              start,
+              label,
+              "Opening balance",
+              "",
+              "",
+              "",
+              statement.openingBalance,
+            ],
+            ...statement.lines.map((line) => [
+              line.date,
+              LEDGER_ACCOUNT_LABELS[line.account] || line.account,
+              line.description,
+              SOURCE_LABELS[line.source] || line.source,
+              line.amount > 0 ? line.amount : "",
+              line.amount < 0 ? -line.amount : "",
+              line.balance,
+            ]),
+            [
+              end,
+              label,
+              "Closing balance",
+              "",
+              statement.totalIn,
+              statement.totalOut,
+              statement.closingBalance,
+            ],
+          ],
+        },
+        {
+          name: "Summary",
+          headers: ["Account", "Opening", "In", "Out", "Closing"],
+          rows: (account ? [account] : LEDGER_ACCOUNTS).map(
+            (summaryAccount) => {
+              const summary = buildStatement(entries, {
+                start,
+                end,
+                account: summaryAccount,
+              });
+              return [
+                LEDGER_ACCOUNT_LABELS[summaryAccount],
+                summary.openingBalance,
+                summary.totalIn,
+                summary.totalOut,
+                summary.closingBalance,
+              ];
+            },
+          ),
+        },
+      ],
+    );
+  } catch (error) {
+    console.error("Error in treasury/statement:", error);
+    return jsonResponse(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      },
+      500,
+    );
+  }
+};
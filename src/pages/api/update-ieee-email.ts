@@ -1,6 +1,7 @@
 import type { APIRoute } from "astro";
+import { requireAccountAccess } from "../../middleware/apiAuth";
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     console.log("Email update request received");
 
@@ -17,6 +18,15 @@ export const POST: APIRoute = async ({ request }) => {
 
     const { userId, currentEmail, newAlias, adminUserId } = requestBody;
 
+    // Only Administrators may act on someone else's email account
+    const accessDenied = requireAccountAccess(locals.user, {
+      userId,
+      ieeeEmail: currentEmail,
+    });
+    if (accessDenied) {
+      return accessDenied;
+    }
+
     if (!userId || !currentEmail || !newAlias || !adminUserId) {
       console.log("Missing required parameters");
       return new Response(
@@ -0,0 +1,229 @@
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { app } from "../../firebase/server";
+import { buildPreferenceGatedEmail } from "./EmailPreferences";
+
+const DIGEST_DAYS = 7;
+const TIME_ZONE = "America/Los_Angeles";
+// Resend accepts at most 100 emails per batch request
+const BATCH_SIZE = 100;
+
+export interface WeeklyDigest {
+  subject: string;
+  html: string;
+  eventCount: number;
+  start: Date;
+  end: Date;
+}
+
+export interface WeeklyDigestResult {
+  eventCount: number;
+  recipients: number;
+  sent: number;
+  failed: number;
+  // False when a batch failed and the remaining recipients were not attempted
+  complete: boolean;
+}
+
+export interface WeeklyDigestProgress {
+  // Recipients are sent in user id order; skip everyone up to this id
+  resumeAfter?: string | null;
+  // Called after each successful batch with the last user id in it
+  onBatchSent?: (lastUserId: string, count: number) => Promise<void>;
+}
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    timeZone: TIME_ZONE,
+  });
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: TIME_ZONE,
+  });
+
+/**
+ * Renders the digest of published events starting in the next seven days. The
+ * same HTML is sent to every member; the unsubscribe footer is added per
+ * recipient when sending.
+ */
+export async function buildWeeklyDigest(
+  now: Date = new Date(),
+): Promise<WeeklyDigest> {
+  const db = getFirestore(app);
+  const start = now;
+  const end = new Date(now.getTime() + DIGEST_DAYS * 24 * 60 * 60 * 1000);
+
+  const eventsSnap = await db
+    .collection("events")
+    .where("startDate", ">=", Timestamp.fromDate(start))
+    .where("startDate", "<", Timestamp.fromDate(end))
+    .orderBy("startDate", "asc")
+    .get();
+
+  const events = eventsSnap.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }) as any)
+    .filter((event) => event.published === true);
+
+  const rangeLabel = `${start.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: TIME_ZONE })} – ${end.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: TIME_ZONE })}`;
+  const subject =
+    events.length > 0
+      ? `IEEE UCSD This Week: ${events.length} upcoming event${events.length === 1 ? "" : "s"}`
+      : "IEEE UCSD This Week: no events scheduled";
+
+  const eventCards = events
+    .map((event) => {
+      const startDate: Date = event.startDate.toDate();
+      const endDate: Date | null = event.endDate?.toDate
+        ? event.endDate.toDate()
+        : null;
+
+      return `
+            <div style="background: white; border: 1px solid #e2e8f0; border-radius: 8px; padding: 20px; margin: 16px 0;">
+              <h3 style="margin: 0 0 6px 0; color: #1e293b; font-size: 18px;">${event.eventName || "Untitled Event"}</h3>
+              <p style="margin: 0 0 12px 0; color: #1e40af; font-weight: 600;">${formatDay(startDate)} · ${formatTime(startDate)}${endDate ? ` – ${formatTime(endDate)}` : ""}</p>
+              <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+                <tr>
+                  <td style="padding: 4px 0; color: #64748b; width: 90px;">📍 Location</td>
+                  <td style="padding: 4px 0; color: #334155;">${event.location || "TBA"}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 4px 0; color: #64748b;">⭐ Points</td>
+                  <td style="padding: 4px 0; color: #334155;">${event.pointsToReward || 0}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 4px 0; color: #64748b;">🍕 Food</td>
+                  <td style="padding: 4px 0; color: #334155;">${event.hasFood ? "Food provided" : "No food"}</td>
+                </tr>
+              </table>
+            </div>
+          `;
+    })
+    .join("");
+
+  const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${subject}</title>
+        <style>
+          .container { max-width: 600px; margin: 0 auto; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+          .header { background: linear-gradient(135deg, #1e40af 0%, #3b82f6 100%); padding: 30px; border-radius: 10px; margin-bottom: 30px; }
+          .content { background: #f8f9fa; padding: 25px; border-radius: 10px; margin-bottom: 25px; }
+          .footer { text-align: center; padding: 20px; border-top: 1px solid #eee; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1 style="color: white; margin: 0; font-size: 24px;">📅 This Week at IEEE UCSD</h1>
+            <p style="color: #dbeafe; margin: 8px 0 0 0;">${rangeLabel}</p>
+          </div>
+
+          <div class="content">
+            ${
+              events.length > 0
+                ? `<p style="margin-top: 0;">Here's what's coming up over the next ${DIGEST_DAYS} days. Check in at each event to earn points!</p>${eventCards}`
+                : `<p style="margin: 0;">There are no published events in the next ${DIGEST_DAYS} days. Keep an eye on the dashboard for new events.</p>`
+            }
+
+            <div style="text-align: center; margin: 30px 0 10px 0;">
+              <a href="https://ieeeucsd.org/dashboard/events" style="background: #1e40af; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">View All Events</a>
+            </div>
+          </div>
+
+          <div class="footer">
+            <p style="font-size: 12px; color: #94a3b8;">IEEE UCSD Event Management System</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+  return { subject, html, eventCount: events.length, start, end };
+}
+
+/**
+ * Sends the weekly digest to every active member who opted in. Nothing is sent
+ * when there are no events in the window. Stops at the first failed batch so a
+ * retry can resume from the last recorded user id instead of resending.
+ */
+export async function sendWeeklyDigestEmails(
+  resend: any,
+  fromEmail: string,
+  replyToEmail: string,
+  now: Date = new Date(),
+  progress: WeeklyDigestProgress = {},
+): Promise<WeeklyDigestResult> {
+  console.log("📅 Starting weekly digest email process...");
+
+  const digest = await buildWeeklyDigest(now);
+  if (digest.eventCount === 0) {
+    console.log("ℹ️ No events in the next week, skipping digest");
+    return { eventCount: 0, recipients: 0, sent: 0, failed: 0, complete: true };
+  }
+
+  const db = getFirestore(app);
+  const usersSnap = await db
+    .collection("users")
+    .where("notificationPreferences.weeklyDigest", "==", true)
+    .get();
+
+  const resumeAfter = progress.resumeAfter || "";
+  const recipients = usersSnap.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }) as any)
+    .filter((user) => user.status !== "suspended" && user.status !== "inactive")
+    .filter((user) => user.id > resumeAfter)
+    .sort((a, b) => (a.id < b.id ? -1 : 1))
+    .map((user) => ({
+      userId: user.id as string,
+      payload: buildPreferenceGatedEmail(user, "weeklyDigest", {
+        from: fromEmail,
+        replyTo: replyToEmail,
+        subject: digest.subject,
+        html: digest.html,
+      }),
+    }))
+    .filter((recipient) => recipient.payload !== null);
+
+  let sent = 0;
+  let failed = 0;
+  for (let i = 0; i < recipients.length; i += BATCH_SIZE) {
+    const batch = recipients.slice(i, i + BATCH_SIZE);
+    try {
+      const { error } = await resend.batch.send(
+        batch.map((recipient) => recipient.payload),
+      );
+      if (error) {
+        console.error("❌ Weekly digest batch failed:", error);
+        failed = batch.length;
+        break;
+      }
+    } catch (error) {
+      console.error("❌ Weekly digest batch failed:", error);
+      failed = batch.length;
+      break;
+    }
+
+    sent += batch.length;
+    await progress.onBatchSent?.(batch[batch.length - 1].userId, batch.length);
+  }
+
+  const complete = failed === 0;
+  console.log(
+    `✅ Weekly digest finished: ${sent} sent, ${failed} failed, ${digest.eventCount} events${complete ? "" : " (stopped early)"}`,
+  );
+  return {
+    eventCount: digest.eventCount,
+    recipients: recipients.length,
+    sent,
+    failed,
+    complete,
+  };
+}
@@ -13,7 +13,9 @@ interface EmailNotificationRequest {
     | "event_request_status_change"
     | "pr_completed"
     | "design_pr_notification"
-    | "officer_role_change";
+    | "officer_role_change"
+    | "audit_completed"
+    | "officer_status_change";
   reimbursementId?: string;
   eventRequestId?: string;
   officerId?: string;
@@ -138,6 +140,17 @@ export class EmailClient {
     });
   }
 
+  /**
+   * Notify the executive who requested an audit that it has been completed.
+   * Only audits that need changes produce an email.
+   */
+  static async notifyAuditCompleted(reimbursementId: string): Promise<boolean> {
+    return this.sendEmailNotification({
+      type: "audit_completed",
+      reimbursementId,
+    });
+  }
+
   /**
    * Send comment notification
    */
@@ -252,15 +265,13 @@ export class EmailClient {
   }
 
   /**
-   * Send officer role change notification
+   * Send officer role change notification (promotion, demotion or position
+   * change). The new role and position are read from the user's record.
    */
   static async notifyOfficerRoleChange(
     officerId: string,
     previousRole?: string,
-    previousType?: string,
-    newRole?: string,
-    newType?: string,
-    changedByUserId?: string,
+    previousPosition?: string,
     isNewOfficer?: boolean,
   ): Promise<boolean> {
     return this.sendOfficerNotification({
@@ -268,15 +279,26 @@ export class EmailClient {
       officerId,
       additionalContext: {
         previousRole,
-        previousType,
-        newRole,
-        newType,
-        changedByUserId,
+        previousPosition,
         isNewOfficer,
       },
     });
   }
 
+  /**
+   * Send account status change notification (suspended, inactive, reactivated)
+   */
+  static async notifyOfficerStatusChange(
+    officerId: string,
+    previousStatus: string,
+  ): Promise<boolean> {
+    return this.sendOfficerNotification({
+      type: "officer_status_change",
+      officerId,
+      previousStatus,
+    });
+  }
+
   /**
    * Send Firebase event email notifications
    */
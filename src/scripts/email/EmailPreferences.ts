@@ -0,0 +1,107 @@
+import type {
+  NotificationCategory,
+  NotificationPreferences,
+} from "../../components/dashboard/shared/types/firestore";
+import {
+  NOTIFICATION_CATEGORIES,
+  resolveNotificationPreferences,
+} from "../../lib/notificationPreferences";
+import { createUnsubscribeToken } from "../../lib/unsubscribeToken";
+
+const SITE_URL = import.meta.env.SITE_URL || "https://ieeeucsd.org";
+
+interface EmailRecipient {
+  id: string;
+  email: string;
+  notificationPreferences?: NotificationPreferences;
+}
+
+interface EmailMessage {
+  from: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+}
+
+export function canEmailUser(
+  user: EmailRecipient,
+  category: NotificationCategory,
+): boolean {
+  return resolveNotificationPreferences(user.notificationPreferences)[category];
+}
+
+export function getUnsubscribeUrl(
+  userId: string,
+  category: NotificationCategory,
+): string {
+  const token = createUnsubscribeToken(userId, category);
+  return `${SITE_URL}/api/notifications/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+function appendUnsubscribeFooter(
+  html: string,
+  unsubscribeUrl: string,
+  category: NotificationCategory,
+): string {
+  const label =
+    NOTIFICATION_CATEGORIES.find(({ key }) => key === category)?.label ||
+    category;
+  const footer = `
+        <div style="text-align: center; padding: 10px 20px 20px; font-size: 12px; color: #94a3b8; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+          You are receiving this because "${label}" emails are turned on for your account.
+          <a href="${unsubscribeUrl}" style="color: #64748b;">Unsubscribe</a> or manage your
+          <a href="${SITE_URL}/dashboard/settings" style="color: #64748b;">notification settings</a>.
+        </div>
+      `;
+
+  return html.includes("</body>")
+    ? html.replace("</body>", `${footer}</body>`)
+    : `${html}${footer}`;
+}
+
+/**
+ * Builds the Resend payload for a member-facing email, or null if the member
+ * has the category turned off. Adds a signed one-click unsubscribe link to the
+ * body and the List-Unsubscribe headers (RFC 8058).
+ */
+export function buildPreferenceGatedEmail(
+  user: EmailRecipient,
+  category: NotificationCategory,
+  message: EmailMessage,
+) {
+  if (!user.email || !canEmailUser(user, category)) {
+    return null;
+  }
+
+  const unsubscribeUrl = getUnsubscribeUrl(user.id, category);
+
+  return {
+    ...message,
+    to: [user.email],
+    html: appendUnsubscribeFooter(message.html, unsubscribeUrl, category),
+    headers: {
+      "List-Unsubscribe": `<${unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  };
+}
+
+/**
+ * Sends a member-facing email if the member has the category turned on.
+ * Returns false when the member has opted out.
+ */
+export async function sendPreferenceGatedEmail(
+  resend: any,
+  user: EmailRecipient,
+  category: NotificationCategory,
+  message: EmailMessage,
+): Promise<boolean> {
+  const payload = buildPreferenceGatedEmail(user, category, message);
+  if (!payload) {
+    console.log(`🔕 Skipping "${category}" email, user opted out:`, user.id);
+    return false;
+  }
+
+  await resend.emails.send(payload);
+  return true;
+}
@@ -0,0 +1,132 @@
+import { getFirestore } from "firebase-admin/firestore";
+import { app } from "../../firebase/server";
+import { buildPreferenceGatedEmail } from "./EmailPreferences";
+
+const TIME_ZONE = "America/Los_Angeles";
+// Resend accepts at most 100 emails per batch request
+const BATCH_SIZE = 100;
+
+export interface EventPublishedEmailResult {
+  recipients: number;
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Emails members who opted in to "New published events" about a newly
+ * published event. Callers should only invoke this the first time an event is
+ * published; see notifyEventPublished.
+ */
+export async function sendEventPublishedEmails(
+  resend: any,
+  fromEmail: string,
+  replyToEmail: string,
+  eventId: string,
+): Promise<EventPublishedEmailResult> {
+  const db = getFirestore(app);
+  const eventSnap = await db.collection("events").doc(eventId).get();
+  const event = eventSnap.data();
+  if (!eventSnap.exists || !event?.published) {
+    return { recipients: 0, sent: 0, failed: 0 };
+  }
+
+  const startDate: Date | null = event.startDate?.toDate
+    ? event.startDate.toDate()
+    : null;
+  const when = startDate
+    ? startDate.toLocaleString("en-US", {
+        weekday: "long",
+        month: "long",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+        timeZone: TIME_ZONE,
+      })
+    : "Time TBA";
+  const eventName = event.eventName || "New Event";
+  const subject = `New IEEE UCSD Event: ${eventName}`;
+
+  const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${subject}</title>
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: linear-gradient(135deg, #1e40af 0%, #3b82f6 100%); padding: 30px; border-radius: 10px; margin-bottom: 30px;">
+          <h1 style="color: white; margin: 0; font-size: 24px;">🎉 ${eventName}</h1>
+          <p style="color: #dbeafe; margin: 8px 0 0 0;">${when}</p>
+        </div>
+
+        <div style="background: #f8f9fa; padding: 25px; border-radius: 10px; margin-bottom: 25px;">
+          ${event.eventDescription ? `<p style="margin-top: 0;">${event.eventDescription}</p>` : ""}
+          <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+            <tr>
+              <td style="padding: 4px 0; color: #64748b; width: 90px;">📍 Location</td>
+              <td style="padding: 4px 0; color: #334155;">${event.location || "TBA"}</td>
+            </tr>
+            <tr>
+              <td style="padding: 4px 0; color: #64748b;">⭐ Points</td>
+              <td style="padding: 4px 0; color: #334155;">${event.pointsToReward || 0}</td>
+            </tr>
+            <tr>
+              <td style="padding: 4px 0; color: #64748b;">🍕 Food</td>
+              <td style="padding: 4px 0; color: #334155;">${event.hasFood ? "Food provided" : "No food"}</td>
+            </tr>
+          </table>
+
+          <div style="text-align: center; margin: 30px 0 10px 0;">
+            <a href="https://ieeeucsd.org/dashboard/events" style="background: #1e40af; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">View Event</a>
+          </div>
+        </div>
+
+        <div style="text-align: center; padding: 20px; border-top: 1px solid #eee; color: #666; font-size: 14px;">
+          <p style="font-size: 12px; color: #94a3b8;">IEEE UCSD Event Management System</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+  const usersSnap = await db
+    .collection("users")
+    .where("notificationPreferences.newEvents", "==", true)
+    .get();
+
+  const payloads = usersSnap.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }) as any)
+    .filter((user) => user.status !== "suspended" && user.status !== "inactive")
+    .map((user) =>
+      buildPreferenceGatedEmail(user, "newEvents", {
+        from: fromEmail,
+        replyTo: replyToEmail,
+        subject,
+        html,
+      }),
+    )
+    .filter((payload) => payload !== null);
+
+  let sent = 0;
+  let failed = 0;
+  for (let i = 0; i < payloads.length; i += BATCH_SIZE) {
+    const batch = payloads.slice(i, i + BATCH_SIZE);
+    try {
+      const { error } = await resend.batch.send(batch);
+      if (error) {
+        console.error("❌ New event email batch failed:", error);
+        failed += batch.length;
+      } else {
+        sent += batch.length;
+      }
+    } catch (error) {
+      console.error("❌ New event email batch failed:", error);
+      failed += batch.length;
+    }
+  }
+
+  console.log(
+    `✅ New event emails for ${eventId}: ${sent} sent, ${failed} failed`,
+  );
+  return { recipients: payloads.length, sent, failed };
+}
@@ -1,5 +1,6 @@
 import { getFirestore } from "firebase-admin/firestore";
 import { app } from "../../firebase/server";
+import { sendPreferenceGatedEmail } from "./EmailPreferences";
 
 export async function sendFirebaseEventRequestSubmissionEmail(
   resend: any,
@@ -276,9 +277,8 @@ export async function sendFirebaseEventRequestSubmissionEmail(
     });
 
     // Send confirmation to event requester
-    await resend.emails.send({
+    await sendPreferenceGatedEmail(resend, user, "eventRequestUpdates", {
       from: fromEmail,
-      to: [user.email],
       replyTo: replyToEmail,
       subject: userSubject,
       html: userHtml,
@@ -486,9 +486,8 @@ export async function sendFirebaseEventRequestStatusChangeEmail(
     `;
 
     // Send email to user
-    await resend.emails.send({
+    await sendPreferenceGatedEmail(resend, user, "eventRequestUpdates", {
       from: fromEmail,
-      to: [user.email],
       replyTo: replyToEmail,
       subject: userSubject,
       html: userHtml,
@@ -774,9 +773,8 @@ export async function sendFirebaseEventEditEmail(
         "You can view the updated details in the dashboard",
       );
 
-    await resend.emails.send({
+    await sendPreferenceGatedEmail(resend, user, "eventRequestUpdates", {
       from: fromEmail,
-      to: [user.email],
       replyTo: replyToEmail,
       subject: userSubject,
       html: userHtml,
@@ -911,13 +909,31 @@ export async function sendFirebaseEventDeleteEmail(
         "Feel free to reach out if you have any questions",
       );
 
-    await resend.emails.send({
+    // The request is already gone, so find the requester's account by email
+    // to check their preferences. Requesters without an account still get it.
+    const requesterSnap = await getFirestore(app)
+      .collection("users")
+      .where("email", "==", data.userEmail)
+      .limit(1)
+      .get();
+    const userMessage = {
       from: fromEmail,
-      to: [data.userEmail],
       replyTo: replyToEmail,
       subject: userSubject,
       html: userHtml,
-    });
+    };
+
+    if (requesterSnap.empty) {
+      await resend.emails.send({ ...userMessage, to: [data.userEmail] });
+    } else {
+      const requesterDoc = requesterSnap.docs[0];
+      await sendPreferenceGatedEmail(
+        resend,
+        { id: requesterDoc.id, ...requesterDoc.data() } as any,
+        "eventRequestUpdates",
+        userMessage,
+      );
+    }
 
     console.log("✅ Firebase event delete emails sent successfully!");
     return true;
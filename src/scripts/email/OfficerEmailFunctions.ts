@@ -0,0 +1,278 @@
+import { getFirestore as getAdminFirestore } from 'firebase-admin/firestore';
+import { app as adminApp } from '../../firebase/server';
+
+// Relative seniority used to word role changes as a promotion or a change of
+// role. Roles on the same level (e.g. Member and Sponsor) are lateral moves.
+const ROLE_RANK: Record<string, number> = {
+  'Member': 0,
+  'Sponsor': 0,
+  'Past Officer': 1,
+  'Member at Large': 2,
+  'General Officer': 3,
+  'Executive Officer': 4,
+  'Administrator': 5,
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  active: 'Active',
+  inactive: 'Inactive',
+  suspended: 'Suspended',
+};
+
+const emailShell = (subject: string, headerGradient: string, headerTitle: string, body: string) => `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${subject}</title>
+        <style>
+          .container { max-width: 600px; margin: 0 auto; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+          .header { background: ${headerGradient}; padding: 30px; border-radius: 10px; margin-bottom: 30px; }
+          .content { background: #f8f9fa; padding: 25px; border-radius: 10px; margin-bottom: 25px; }
+          .footer { text-align: center; padding: 20px; border-top: 1px solid #eee; color: #666; font-size: 14px; }
+          table { width: 100%; border-collapse: collapse; }
+          td { padding: 8px 0; border-bottom: 1px solid #eee; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1 style="color: white; margin: 0; font-size: 24px;">${headerTitle}</h1>
+          </div>
+
+          <div class="content">
+            ${body}
+          </div>
+
+          <div class="footer">
+            <p>Access the dashboard at <a href="https://ieeeucsd.org/dashboard" style="color: #1e40af; text-decoration: none;">ieeeucsd.org/dashboard</a></p>
+            <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 20px 0;">
+            <p style="font-size: 12px; color: #94a3b8;">IEEE UCSD Officer Management System</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+async function getUserAndChanger(officerId: string, changedByUserId?: string) {
+  const db = getAdminFirestore(adminApp);
+
+  const userDoc = await db.collection('users').doc(officerId).get();
+  if (!userDoc.exists) {
+    return { user: null, changedByName: 'an executive officer' };
+  }
+  const user = { id: userDoc.id, ...userDoc.data() } as any;
+
+  let changedByName = 'an executive officer';
+  if (changedByUserId) {
+    const changerDoc = await db.collection('users').doc(changedByUserId).get();
+    if (changerDoc.exists) {
+      changedByName = changerDoc.data()?.name || changedByName;
+    }
+  }
+
+  return { user, changedByName };
+}
+
+export async function sendOfficerRoleChangeEmail(resend: any, fromEmail: string, replyToEmail: string, data: any): Promise<boolean> {
+  try {
+    console.log('🎖️ Starting officer role change email process...');
+
+    const { user, changedByName } = await getUserAndChanger(data.officerId, data.changedByUserId);
+    if (!user) {
+      console.error('❌ User not found:', data.officerId);
+      return false;
+    }
+    if (!user.email) {
+      console.error('❌ User has no email address:', data.officerId);
+      return false;
+    }
+
+    // The stored user is the source of truth for the new values
+    const previousRole = data.previousRole || 'Member';
+    const newRole = user.role || 'Member';
+    const previousPosition = data.previousPosition || '';
+    const newPosition = user.position || '';
+
+    const roleChanged = previousRole !== newRole;
+    const positionChanged = previousPosition !== newPosition;
+    if (!roleChanged && !positionChanged) {
+      console.log('ℹ️ No role or position change to report for', data.officerId);
+      return true;
+    }
+
+    const rankChange = (ROLE_RANK[newRole] ?? 0) - (ROLE_RANK[previousRole] ?? 0);
+    const isPromotion = roleChanged && rankChange > 0;
+    const isDemotion = roleChanged && rankChange < 0;
+
+    let subject: string;
+    let headerTitle: string;
+    let headerGradient: string;
+    let summary: string;
+
+    if (isPromotion) {
+      subject = data.isNewOfficer
+        ? `Welcome to the IEEE UCSD officer team, ${user.name}!`
+        : `You've been promoted to ${newRole}`;
+      headerTitle = data.isNewOfficer ? '🎉 Welcome to the Officer Team' : '🎉 Congratulations on Your Promotion';
+      headerGradient = 'linear-gradient(135deg, #1e40af 0%, #3b82f6 100%)';
+      summary = `Your role in IEEE UCSD has been updated from <strong>${previousRole}</strong> to <strong>${newRole}</strong>. Your dashboard access has been updated to match your new role.`;
+    } else if (isDemotion) {
+      subject = `Your IEEE UCSD role has changed to ${newRole}`;
+      headerTitle = '📋 Role Update';
+      headerGradient = 'linear-gradient(135deg, #475569 0%, #64748b 100%)';
+      summary = `Your role in IEEE UCSD has been changed from <strong>${previousRole}</strong> to <strong>${newRole}</strong>. Some dashboard pages you used before may no longer be available. Thank you for everything you have contributed.`;
+    } else if (roleChanged) {
+      subject = `Your IEEE UCSD role has changed to ${newRole}`;
+      headerTitle = '📋 Role Update';
+      headerGradient = 'linear-gradient(135deg, #1e40af 0%, #3b82f6 100%)';
+      summary = `Your role in IEEE UCSD has been changed from <strong>${previousRole}</strong> to <strong>${newRole}</strong>.`;
+    } else {
+      subject = newPosition
+        ? `Your IEEE UCSD position is now ${newPosition}`
+        : 'Your IEEE UCSD position has been updated';
+      headerTitle = '📌 Position Update';
+      headerGradient = 'linear-gradient(135deg, #0f766e 0%, #14b8a6 100%)';
+      summary = newPosition
+        ? `Your officer position has been updated to <strong>${newPosition}</strong>.`
+        : 'Your officer position has been removed.';
+    }
+
+    const body = `
+            <h2 style="margin-top: 0; color: #2c3e50;">Hello ${user.name},</h2>
+            <p>${summary}</p>
+
+            <div style="background: white; border: 1px solid #e9ecef; border-radius: 8px; padding: 20px; margin: 20px 0;">
+              <h3 style="margin-top: 0; color: #495057; border-bottom: 2px solid #3b82f6; padding-bottom: 10px;">Change Summary</h3>
+              <table>
+                ${roleChanged ? `
+                <tr>
+                  <td style="font-weight: bold; width: 140px;">Role</td>
+                  <td>${previousRole} → <strong>${newRole}</strong></td>
+                </tr>
+                ` : `
+                <tr>
+                  <td style="font-weight: bold; width: 140px;">Role</td>
+                  <td>${newRole}</td>
+                </tr>
+                `}
+                ${positionChanged ? `
+                <tr>
+                  <td style="font-weight: bold;">Position</td>
+                  <td>${previousPosition || 'None'} → <strong>${newPosition || 'None'}</strong></td>
+                </tr>
+                ` : newPosition ? `
+                <tr>
+                  <td style="font-weight: bold;">Position</td>
+                  <td>${newPosition}</td>
+                </tr>
+                ` : ''}
+                <tr>
+                  <td style="font-weight: bold;">Updated By</td>
+                  <td>${changedByName}</td>
+                </tr>
+              </table>
+            </div>
+
+            <p style="color: #6c757d; font-size: 14px;">If you believe this change was made in error, reply to this email and the executive board will follow up.</p>
+    `;
+
+    const emailResult = await resend.emails.send({
+      from: fromEmail,
+      to: [user.email],
+      replyTo: replyToEmail,
+      subject,
+      html: emailShell(subject, headerGradient, headerTitle, body),
+    });
+
+    console.log('✅ Officer role change email sent successfully!', emailResult);
+    return true;
+  } catch (error) {
+    console.error('❌ Failed to send officer role change email:', error);
+    return false;
+  }
+}
+
+export async function sendOfficerStatusChangeEmail(resend: any, fromEmail: string, replyToEmail: string, data: any): Promise<boolean> {
+  try {
+    console.log('🚦 Starting account status change email process...');
+
+    const { user, changedByName } = await getUserAndChanger(data.officerId, data.changedByUserId);
+    if (!user) {
+      console.error('❌ User not found:', data.officerId);
+      return false;
+    }
+    if (!user.email) {
+      console.error('❌ User has no email address:', data.officerId);
+      return false;
+    }
+
+    const previousStatus = data.previousStatus || 'active';
+    const newStatus = user.status || 'active';
+    if (previousStatus === newStatus) {
+      console.log('ℹ️ No status change to report for', data.officerId);
+      return true;
+    }
+
+    let subject: string;
+    let headerTitle: string;
+    let headerGradient: string;
+    let summary: string;
+
+    switch (newStatus) {
+      case 'suspended':
+        subject = 'Your IEEE UCSD account has been suspended';
+        headerTitle = '⛔ Account Suspended';
+        headerGradient = 'linear-gradient(135deg, #b91c1c 0%, #ef4444 100%)';
+        summary = 'Your IEEE UCSD dashboard account has been suspended. While suspended you will not be able to sign in, check in to events or submit reimbursements.';
+        break;
+      case 'inactive':
+        subject = 'Your IEEE UCSD account has been marked inactive';
+        headerTitle = '💤 Account Inactive';
+        headerGradient = 'linear-gradient(135deg, #475569 0%, #64748b 100%)';
+        summary = 'Your IEEE UCSD dashboard account has been marked inactive. Reach out to the executive board if you would like it reactivated.';
+        break;
+      default:
+        subject = 'Your IEEE UCSD account has been reactivated';
+        headerTitle = '✅ Account Reactivated';
+        headerGradient = 'linear-gradient(135deg, #28a745 0%, #20c997 100%)';
+        summary = 'Your IEEE UCSD dashboard account is active again. You can sign in and use the dashboard as usual.';
+        break;
+    }
+
+    const body = `
+            <h2 style="margin-top: 0; color: #2c3e50;">Hello ${user.name},</h2>
+            <p>${summary}</p>
+
+            <div style="background: white; border: 1px solid #e9ecef; border-radius: 8px; padding: 20px; margin: 20px 0;">
+              <table>
+                <tr>
+                  <td style="font-weight: bold; width: 140px;">Status</td>
+                  <td>${STATUS_LABELS[previousStatus] || previousStatus} → <strong>${STATUS_LABELS[newStatus] || newStatus}</strong></td>
+                </tr>
+                <tr>
+                  <td style="font-weight: bold;">Updated By</td>
+                  <td>${changedByName}</td>
+                </tr>
+              </table>
+            </div>
+
+            <p style="color: #6c757d; font-size: 14px;">Questions about this change? Reply to this email and the executive board will follow up.</p>
+    `;
+
+    const emailResult = await resend.emails.send({
+      from: fromEmail,
+      to: [user.email],
+      replyTo: replyToEmail,
+      subject,
+      html: emailShell(subject, headerGradient, headerTitle, body),
+    });
+
+    console.log('✅ Account status change email sent successfully!', emailResult);
+    return true;
+  } catch (error) {
+    console.error('❌ Failed to send account status change email:', error);
+    return false;
+  }
+}
@@ -2,6 +2,15 @@ import { getFirestore, doc, getDoc } from 'firebase/firestore';
 import { getFirestore as getAdminFirestore } from 'firebase-admin/firestore';
 import { app } from '../../firebase/client';
 import { app as adminApp } from '../../firebase/server';
+import { sendPreferenceGatedEmail } from './EmailPreferences';
+
+// Free text typed by members and officers, placed into email HTML
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
 
 export async function sendReimbursementSubmissionEmail(resend: any, fromEmail: string, replyToEmail: string, data: any): Promise<boolean> {
   try {
@@ -261,9 +270,8 @@ export async function sendReimbursementSubmissionEmail(resend: any, fromEmail: s
     });
 
     // Send confirmation to user
-    await resend.emails.send({
+    await sendPreferenceGatedEmail(resend, user, 'reimbursementStatus', {
       from: fromEmail,
-      to: [user.email],
       replyTo: replyToEmail,
       subject: userSubject,
       html: userHtml,
@@ -443,18 +451,383 @@ export async function sendAuditRequestEmail(resend: any, fromEmail: string, repl
 
     // Send audit request email to the selected auditor
     console.log('📧 Sending email to:', auditor.email);
-    const emailResult = await resend.emails.send({
+    const sent = await sendPreferenceGatedEmail(resend, auditor, 'auditRequests', {
       from: fromEmail,
-      to: [auditor.email],
       replyTo: replyToEmail,
       subject: subject,
       html: auditRequestHtml,
     });
 
-    console.log('✅ Audit request email sent successfully!', emailResult);
+    console.log(sent ? '✅ Audit request email sent successfully!' : 'ℹ️ Auditor has audit request emails turned off');
     return true;
   } catch (error) {
     console.error('❌ Failed to send audit request email:', error);
     return false;
   }
-} 
\ No newline at end of file
+}
+
+export async function sendReimbursementStatusChangeEmail(resend: any, fromEmail: string, replyToEmail: string, data: any): Promise<boolean> {
+  try {
+    console.log('🔄 Starting reimbursement status change email process...');
+
+    if (!data.reimbursementId || !data.newStatus) {
+      console.error('❌ Missing required data for status change:', { reimbursementId: data.reimbursementId, newStatus: data.newStatus });
+      return false;
+    }
+
+    // Use Admin SDK for server-side operations
+    const db = getAdminFirestore(adminApp);
+
+    // Get reimbursement details
+    const reimbursementDoc = await db.collection('reimbursements').doc(data.reimbursementId).get();
+    if (!reimbursementDoc.exists) {
+      console.error('❌ Reimbursement not found:', data.reimbursementId);
+      return false;
+    }
+
+    const reimbursement = { id: reimbursementDoc.id, ...reimbursementDoc.data() } as any;
+
+    // Get submitter details
+    const userDoc = await db.collection('users').doc(reimbursement.submittedBy).get();
+    if (!userDoc.exists) {
+      console.error('❌ User not found:', reimbursement.submittedBy);
+      return false;
+    }
+
+    const user = { id: userDoc.id, ...userDoc.data() } as any;
+
+    let changedByName = 'the treasurer team';
+    if (data.changedByUserId) {
+      const changerDoc = await db.collection('users').doc(data.changedByUserId).get();
+      if (changerDoc.exists) {
+        changedByName = changerDoc.data()?.name || changedByName;
+      }
+    }
+
+    const formatCurrency = (amount: number) => {
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD'
+      }).format(amount);
+    };
+
+    const formatDateTime = (timestamp: any) => {
+      if (!timestamp) return 'Not specified';
+      try {
+        const date = timestamp.toDate ? timestamp.toDate() : new Date(timestamp);
+        return date.toLocaleString('en-US', {
+          weekday: 'long',
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+          hour12: true
+        });
+      } catch (error) {
+        return 'Invalid date';
+      }
+    };
+
+    const statusLabels: Record<string, string> = {
+      submitted: 'Submitted',
+      under_review: 'Under Review',
+      approved: 'Approved',
+      paid: 'Paid',
+      declined: 'Declined'
+    };
+
+    // Per-status wording and colors; unknown statuses fall back to a generic update
+    const statusTemplates: Record<string, { title: string; color: string; badge: string; message: string }> = {
+      under_review: {
+        title: '🔍 Reimbursement Under Review',
+        color: 'linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%)',
+        badge: 'background: #dbeafe; color: #1e40af;',
+        message: 'Your reimbursement request is being reviewed in more detail by the executive board. No action is needed from you right now.'
+      },
+      approved: {
+        title: '✅ Reimbursement Approved',
+        color: 'linear-gradient(135deg, #28a745 0%, #20c997 100%)',
+        badge: 'background: #d1fae5; color: #065f46;',
+        message: 'Good news! Your reimbursement request has been approved and is queued for payment. You will receive another email once it has been paid.'
+      },
+      paid: {
+        title: '💸 Reimbursement Paid',
+        color: 'linear-gradient(135deg, #059669 0%, #10b981 100%)',
+        badge: 'background: #d1fae5; color: #065f46;',
+        message: 'Your reimbursement has been paid. The payment details are below; please allow a few business days for it to appear in your account.'
+      },
+      declined: {
+        title: '❌ Reimbursement Declined',
+        color: 'linear-gradient(135deg, #dc2626 0%, #ef4444 100%)',
+        badge: 'background: #fee2e2; color: #991b1b;',
+        message: 'Unfortunately your reimbursement request has been declined. The reason is included below. If you have questions or would like to resubmit with corrections, please contact the treasurer.'
+      }
+    };
+
+    const template = statusTemplates[data.newStatus] || {
+      title: '🔄 Reimbursement Status Updated',
+      color: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+      badge: 'background: #f1f5f9; color: #334155;',
+      message: `The status of your reimbursement request has been updated to ${statusLabels[data.newStatus] || data.newStatus}.`
+    };
+
+    // Decline reason comes from the request; fall back to the latest audit note
+    const auditNotes = reimbursement.auditNotes || [];
+    const declineReason = data.newStatus === 'declined'
+      ? data.declineReason || auditNotes[auditNotes.length - 1]?.note || 'No reason provided'
+      : null;
+    const payment = data.newStatus === 'paid' ? reimbursement.paymentConfirmation : null;
+
+    const newLabel = statusLabels[data.newStatus] || data.newStatus;
+    const subject = `Reimbursement ${newLabel}: ${reimbursement.title}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${subject}</title>
+        <style>
+          .container { max-width: 600px; margin: 0 auto; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+          .header { background: ${template.color}; padding: 30px; border-radius: 10px; margin-bottom: 30px; }
+          .content { background: #f8f9fa; padding: 25px; border-radius: 10px; margin-bottom: 25px; }
+          .footer { text-align: center; padding: 20px; border-top: 1px solid #eee; color: #666; font-size: 14px; }
+          table { width: 100%; border-collapse: collapse; }
+          td { padding: 8px 0; border-bottom: 1px solid #eee; }
+          .status-badge { ${template.badge} padding: 4px 8px; border-radius: 12px; font-size: 12px; font-weight: 500; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1 style="color: white; margin: 0; font-size: 24px;">${template.title}</h1>
+          </div>
+
+          <div class="content">
+            <p>Hello ${user.name},</p>
+            <p>${template.message}</p>
+
+            <div style="background: white; border: 1px solid #e9ecef; border-radius: 8px; padding: 20px; margin: 20px 0;">
+              <h3 style="margin-top: 0; color: #495057; border-bottom: 2px solid #667eea; padding-bottom: 10px;">${reimbursement.title}</h3>
+
+              <table>
+                <tr>
+                  <td style="font-weight: bold; width: 140px;">Total Amount</td>
+                  <td style="color: #28a745; font-weight: bold; font-size: 16px;">${formatCurrency(reimbursement.totalAmount)}</td>
+                </tr>
+                <tr>
+                  <td style="font-weight: bold;">Department</td>
+                  <td style="text-transform: capitalize;">${reimbursement.department}</td>
+                </tr>
+                ${data.previousStatus ? `
+                <tr>
+                  <td style="font-weight: bold;">Previous Status</td>
+                  <td>${statusLabels[data.previousStatus] || data.previousStatus}</td>
+                </tr>
+                ` : ''}
+                <tr>
+                  <td style="font-weight: bold;">New Status</td>
+                  <td><span class="status-badge">${newLabel}</span></td>
+                </tr>
+                <tr>
+                  <td style="font-weight: bold;">Updated By</td>
+                  <td>${changedByName}</td>
+                </tr>
+              </table>
+            </div>
+
+            ${declineReason ? `
+              <div style="background: #fef2f2; border: 1px solid #fecaca; border-radius: 8px; padding: 20px; margin: 20px 0;">
+                <h4 style="margin-top: 0; color: #991b1b;">Reason for Decline</h4>
+                <p style="margin: 0; color: #7f1d1d;">${escapeHtml(declineReason)}</p>
+              </div>
+            ` : ''}
+
+            ${payment ? `
+              <div style="background: #ecfdf5; border: 1px solid #a7f3d0; border-radius: 8px; padding: 20px; margin: 20px 0;">
+                <h4 style="margin-top: 0; color: #065f46;">Payment Confirmation</h4>
+                <table>
+                  <tr>
+                    <td style="font-weight: bold; width: 140px;">Confirmation #</td>
+                    <td><code style="background: #f1f5f9; padding: 2px 6px; border-radius: 4px;">${payment.confirmationNumber || 'Not provided'}</code></td>
+                  </tr>
+                  <tr>
+                    <td style="font-weight: bold;">Paid On</td>
+                    <td>${formatDateTime(payment.paidAt)}</td>
+                  </tr>
+                  <tr>
+                    <td style="font-weight: bold;">Payment Method</td>
+                    <td>${reimbursement.paymentMethod || 'Not specified'}</td>
+                  </tr>
+                  ${payment.paidByName ? `
+                  <tr>
+                    <td style="font-weight: bold;">Paid By</td>
+                    <td>${payment.paidByName}</td>
+                  </tr>
+                  ` : ''}
+                </table>
+              </div>
+            ` : ''}
+          </div>
+
+          <div class="footer">
+            <p>Reference ID: <code style="background: #f1f5f9; padding: 2px 6px; border-radius: 4px;">${reimbursement.id}</code></p>
+            <p>Questions? Contact us at <a href="mailto:treasurer@ieeeatucsd.org" style="color: #3b82f6; text-decoration: none;">treasurer@ieeeatucsd.org</a></p>
+            <p>Track your request: <a href="https://ieeeucsd.org/dashboard/reimbursement" style="color: #3b82f6; text-decoration: none;">Dashboard</a></p>
+            <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 20px 0;">
+            <p style="font-size: 12px; color: #94a3b8;">IEEE UCSD Reimbursement Management System</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const sent = await sendPreferenceGatedEmail(resend, user, 'reimbursementStatus', {
+      from: fromEmail,
+      replyTo: replyToEmail,
+      subject,
+      html,
+    });
+
+    console.log(sent ? '✅ Reimbursement status change email sent successfully!' : 'ℹ️ Submitter has reimbursement emails turned off');
+    return true;
+  } catch (error) {
+    console.error('❌ Failed to send reimbursement status change email:', error);
+    return false;
+  }
+}
+
+export async function sendAuditCompletedEmail(resend: any, fromEmail: string, replyToEmail: string, data: any): Promise<boolean> {
+  try {
+    console.log('📝 Starting audit completed email process...');
+
+    if (!data.reimbursementId || !data.auditorId) {
+      console.error('❌ Missing required data for audit completion:', { reimbursementId: data.reimbursementId, auditorId: data.auditorId });
+      return false;
+    }
+
+    // Use Admin SDK for server-side operations
+    const db = getAdminFirestore(adminApp);
+
+    const reimbursementDoc = await db.collection('reimbursements').doc(data.reimbursementId).get();
+    if (!reimbursementDoc.exists) {
+      console.error('❌ Reimbursement not found:', data.reimbursementId);
+      return false;
+    }
+
+    const reimbursement = { id: reimbursementDoc.id, ...reimbursementDoc.data() } as any;
+
+    // Most recent completed audit by this auditor
+    const auditRequest = [...(reimbursement.auditRequests || [])]
+      .reverse()
+      .find((request: any) => request.auditorId === data.auditorId && request.status === 'completed');
+    if (!auditRequest) {
+      console.error('❌ No completed audit request found for auditor:', data.auditorId);
+      return false;
+    }
+
+    if (auditRequest.auditResult !== 'needs_changes') {
+      console.log('ℹ️ Audit approved, no follow-up email needed');
+      return true;
+    }
+
+    const requesterDoc = await db.collection('users').doc(auditRequest.requestedBy).get();
+    if (!requesterDoc.exists) {
+      console.error('❌ Audit requester not found:', auditRequest.requestedBy);
+      return false;
+    }
+
+    const requester = { id: requesterDoc.id, ...requesterDoc.data() } as any;
+
+    const auditorDoc = await db.collection('users').doc(data.auditorId).get();
+    const auditorName = auditorDoc.data()?.name || 'The auditor';
+
+    const formatCurrency = (amount: number) => {
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD'
+      }).format(amount);
+    };
+
+    const subject = `Audit Needs Changes: ${reimbursement.title}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${subject}</title>
+        <style>
+          .container { max-width: 600px; margin: 0 auto; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+          .header { background: linear-gradient(135deg, #f59e0b 0%, #d97706 100%); padding: 30px; border-radius: 10px; margin-bottom: 30px; }
+          .content { background: #f8f9fa; padding: 25px; border-radius: 10px; margin-bottom: 25px; }
+          .footer { text-align: center; padding: 20px; border-top: 1px solid #eee; color: #666; font-size: 14px; }
+          table { width: 100%; border-collapse: collapse; }
+          td { padding: 8px 0; border-bottom: 1px solid #eee; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1 style="color: white; margin: 0; font-size: 24px;">📝 Audit Completed: Changes Needed</h1>
+          </div>
+
+          <div class="content">
+            <p>Hello ${requester.name},</p>
+            <p>${auditorName} has finished the audit you requested and flagged the reimbursement below as <strong>needing changes</strong> before it can be approved.</p>
+
+            <div style="background: white; border: 1px solid #e9ecef; border-radius: 8px; padding: 20px; margin: 20px 0;">
+              <h3 style="margin-top: 0; color: #495057; border-bottom: 2px solid #f59e0b; padding-bottom: 10px;">${reimbursement.title}</h3>
+              <table>
+                <tr>
+                  <td style="font-weight: bold; width: 140px;">Total Amount</td>
+                  <td style="color: #28a745; font-weight: bold; font-size: 16px;">${formatCurrency(reimbursement.totalAmount)}</td>
+                </tr>
+                <tr>
+                  <td style="font-weight: bold;">Department</td>
+                  <td style="text-transform: capitalize;">${reimbursement.department}</td>
+                </tr>
+                <tr>
+                  <td style="font-weight: bold;">Auditor</td>
+                  <td>${auditorName}</td>
+                </tr>
+              </table>
+            </div>
+
+            <div style="background: #fffbeb; border: 1px solid #fde68a; border-radius: 8px; padding: 20px; margin: 20px 0;">
+              <h4 style="margin-top: 0; color: #92400e;">Auditor Notes</h4>
+              <p style="margin: 0; color: #78350f;">${auditRequest.auditNotes ? escapeHtml(auditRequest.auditNotes) : 'No notes provided'}</p>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="https://ieeeucsd.org/dashboard/manage-reimbursements" style="background: #f59e0b; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">Review Reimbursement</a>
+            </div>
+          </div>
+
+          <div class="footer">
+            <p>Reference ID: <code style="background: #f1f5f9; padding: 2px 6px; border-radius: 4px;">${reimbursement.id}</code></p>
+            <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 20px 0;">
+            <p style="font-size: 12px; color: #94a3b8;">IEEE UCSD Reimbursement Management System</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const sent = await sendPreferenceGatedEmail(resend, requester, 'auditRequests', {
+      from: fromEmail,
+      replyTo: replyToEmail,
+      subject,
+      html,
+    });
+
+    console.log(sent ? '✅ Audit completed email sent successfully!' : 'ℹ️ Requester has audit emails turned off');
+    return true;
+  } catch (error) {
+    console.error('❌ Failed to send audit completed email:', error);
+    return false;
+  }
+}
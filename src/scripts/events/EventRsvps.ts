@@ -0,0 +1,61 @@
+import {
+  FieldValue,
+  type DocumentReference,
+  type QueryDocumentSnapshot,
+  type Transaction,
+} from "firebase-admin/firestore";
+
+// Subcollection of events/{eventId}, keyed by the member's uid
+export const EVENT_RSVPS = "rsvps";
+
+/**
+ * Waitlisted RSVPs in the order they joined. Sorted in memory rather than with
+ * orderBy so the subcollection doesn't need a composite index; waitlists are
+ * small.
+ */
+export async function getWaitlist(
+  transaction: Transaction,
+  eventRef: DocumentReference,
+): Promise<QueryDocumentSnapshot[]> {
+  const snapshot = await transaction.get(
+    eventRef.collection(EVENT_RSVPS).where("status", "==", "waitlisted"),
+  );
+  return [...snapshot.docs].sort(
+    (a, b) =>
+      (a.data().createdAt?.toMillis?.() || 0) -
+      (b.data().createdAt?.toMillis?.() || 0),
+  );
+}
+
+/**
+ * Number of waitlisted members that fit once `goingCount` members are going.
+ * Without a capacity everyone fits.
+ */
+export function openSpots(
+  capacity: number | null | undefined,
+  goingCount: number,
+  waitlistCount: number,
+): number {
+  if (!capacity) return waitlistCount;
+  return Math.max(0, Math.min(waitlistCount, capacity - goingCount));
+}
+
+/**
+ * Moves the first `count` waitlisted members to going. Must run after every
+ * read in the transaction. Returns the promoted uids so the caller can notify
+ * them once the transaction commits.
+ */
+export function promoteFromWaitlist(
+  transaction: Transaction,
+  waitlist: QueryDocumentSnapshot[],
+  count: number,
+): string[] {
+  const promoted = waitlist.slice(0, count);
+  promoted.forEach((rsvp) => {
+    transaction.update(rsvp.ref, {
+      status: "going",
+      promotedAt: FieldValue.serverTimestamp(),
+    });
+  });
+  return promoted.map((rsvp) => rsvp.id);
+}
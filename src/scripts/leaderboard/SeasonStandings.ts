@@ -0,0 +1,109 @@
+import { getFirestore } from "firebase-admin/firestore";
+import { app } from "../../firebase/server";
+import {
+  POINT_TRANSACTIONS,
+  computeLedgerTotals,
+  isOpeningBalance,
+} from "../points/PointsLedger";
+import type { DateRange } from "../../lib/academicQuarters";
+import type { SeasonStanding } from "../../components/dashboard/shared/types/firestore";
+
+const db = getFirestore(app);
+
+export const LEADERBOARD_SEASONS = "leaderboard_seasons";
+
+// Keeps archived season documents well under Firestore's 1 MiB limit
+export const MAX_ARCHIVED_STANDINGS = 250;
+
+/**
+ * Ranks members by the points they earned during a season, derived from the
+ * ledger entries written in that date range. A revocation only counts against
+ * the season of the entry it cancels, so correcting last quarter's check-in
+ * doesn't cost a member points this quarter.
+ */
+export async function computeSeasonStandings(
+  range: DateRange,
+): Promise<SeasonStanding[]> {
+  const entriesSnap = await db
+    .collection(POINT_TRANSACTIONS)
+    .where("createdAt", ">=", range.start)
+    .where("createdAt", "<=", range.end)
+    .get();
+
+  const entries = entriesSnap.docs
+    .map((doc) => ({ id: doc.id, ...(doc.data() as any) }))
+    .filter((entry) => !isOpeningBalance(entry));
+  const inSeason = new Set(entries.map((entry) => entry.id));
+
+  // Revocations of entries from earlier seasons are dropped here
+  const outsideTargets = [
+    ...new Set(
+      entries
+        .map((entry) => entry.revokesTransactionId)
+        .filter((id): id is string => !!id && !inSeason.has(id)),
+    ),
+  ];
+  const earlierSnaps = outsideTargets.length
+    ? await db.getAll(
+        ...outsideTargets.map((id) =>
+          db.collection(POINT_TRANSACTIONS).doc(id),
+        ),
+      )
+    : [];
+  const earlierIds = new Set(
+    earlierSnaps.filter((snap) => snap.exists).map((snap) => snap.id),
+  );
+
+  const byUser = new Map<string, any[]>();
+  entries
+    .filter(
+      (entry) =>
+        !entry.revokesTransactionId ||
+        !earlierIds.has(entry.revokesTransactionId),
+    )
+    .forEach((entry) => {
+      byUser.set(entry.userId, [...(byUser.get(entry.userId) || []), entry]);
+    });
+
+  const userIds = [...byUser.keys()];
+  const profileSnaps = userIds.length
+    ? await db.getAll(
+        ...userIds.map((id) => db.collection("public_profiles").doc(id)),
+      )
+    : [];
+
+  const standings = profileSnaps
+    .map((snap) => {
+      const profile = snap.data() || {};
+      const totals = computeLedgerTotals(byUser.get(snap.id) || []);
+      return {
+        userId: snap.id,
+        name: profile.name || "",
+        ...(profile.major && { major: profile.major }),
+        ...(profile.graduationYear && {
+          graduationYear: profile.graduationYear,
+        }),
+        position: profile.position || "Member",
+        points: totals.points,
+        eventsAttended: totals.eventsAttended,
+      };
+    })
+    // Same rule as the all-time leaderboard: skip profiles without a name
+    .filter(
+      (standing) =>
+        standing.name.trim() &&
+        standing.name !== "Unknown User" &&
+        standing.points > 0,
+    )
+    .sort(
+      (a, b) =>
+        b.points - a.points ||
+        b.eventsAttended - a.eventsAttended ||
+        a.name.localeCompare(b.name),
+    );
+
+  return standings.map((standing, index) => ({
+    ...standing,
+    rank: index + 1,
+  }));
+}
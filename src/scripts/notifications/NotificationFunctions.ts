@@ -0,0 +1,303 @@
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { app } from "../../firebase/server";
+import type { NotificationType } from "../../components/dashboard/shared/types/firestore";
+
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 500;
+
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  metadata?: Record<string, unknown>;
+}
+
+const EVENT_REQUEST_STATUS_LABELS: Record<string, string> = {
+  submitted: "Submitted",
+  pending: "Pending",
+  needs_review: "Needs Review",
+  completed: "Approved",
+  declined: "Declined",
+};
+
+const REIMBURSEMENT_STATUS_LABELS: Record<string, string> = {
+  submitted: "Submitted",
+  under_review: "Under Review",
+  approved: "Approved",
+  paid: "Paid",
+  declined: "Declined",
+};
+
+const toNotificationDoc = (input: NotificationInput) => ({
+  userId: input.userId,
+  type: input.type,
+  title: input.title,
+  message: input.message,
+  ...(input.link && { link: input.link }),
+  ...(input.metadata && { metadata: input.metadata }),
+  read: false,
+  createdAt: FieldValue.serverTimestamp(),
+});
+
+/**
+ * Writes in-app notifications for the dashboard bell and notification history.
+ * Notifications are only ever created server-side; members can mark their own
+ * notifications read but cannot create them.
+ */
+export async function createNotifications(
+  inputs: NotificationInput[],
+): Promise<number> {
+  const db = getFirestore(app);
+  const valid = inputs.filter((input) => input.userId);
+
+  for (let i = 0; i < valid.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    valid.slice(i, i + BATCH_SIZE).forEach((input) => {
+      batch.set(db.collection("notifications").doc(), toNotificationDoc(input));
+    });
+    await batch.commit();
+  }
+
+  return valid.length;
+}
+
+export async function createNotification(
+  input: NotificationInput,
+): Promise<boolean> {
+  return (await createNotifications([input])) === 1;
+}
+
+// The producers below never throw: a failed notification should not fail the
+// action or email that triggered it.
+
+/**
+ * The status is read from the stored request rather than trusted from the
+ * caller, so the notification always matches what the member will see.
+ */
+export async function notifyEventRequestStatusChange(data: {
+  eventRequestId: string;
+  declinedReason?: string;
+}): Promise<boolean> {
+  try {
+    const db = getFirestore(app);
+    const requestSnap = await db
+      .collection("event_requests")
+      .doc(data.eventRequestId)
+      .get();
+    if (!requestSnap.exists) return false;
+
+    const request = requestSnap.data() as any;
+    const statusLabel =
+      EVENT_REQUEST_STATUS_LABELS[request.status] || request.status;
+
+    return await createNotification({
+      userId: request.requestedUser,
+      type: "event_request",
+      title: `Event request ${statusLabel.toLowerCase()}`,
+      message:
+        request.status === "declined" &&
+        (data.declinedReason || request.declinedReason)
+          ? `"${request.name}" was declined: ${data.declinedReason || request.declinedReason}`
+          : `"${request.name}" is now ${statusLabel}.`,
+      link: "/dashboard/manage-events",
+      metadata: {
+        eventRequestId: data.eventRequestId,
+        status: request.status,
+      },
+    });
+  } catch (error) {
+    console.error("❌ Failed to create event request notification:", error);
+    return false;
+  }
+}
+
+export async function notifyReimbursementStatusChange(data: {
+  reimbursementId: string;
+  declineReason?: string;
+}): Promise<boolean> {
+  try {
+    const db = getFirestore(app);
+    const reimbursementSnap = await db
+      .collection("reimbursements")
+      .doc(data.reimbursementId)
+      .get();
+    if (!reimbursementSnap.exists) return false;
+
+    const reimbursement = reimbursementSnap.data() as any;
+    const statusLabel =
+      REIMBURSEMENT_STATUS_LABELS[reimbursement.status] || reimbursement.status;
+
+    return await createNotification({
+      userId: reimbursement.submittedBy,
+      type: "reimbursement",
+      title: `Reimbursement ${statusLabel.toLowerCase()}`,
+      message:
+        reimbursement.status === "declined" && data.declineReason
+          ? `"${reimbursement.title}" was declined: ${data.declineReason}`
+          : `"${reimbursement.title}" ($${Number(reimbursement.totalAmount || 0).toFixed(2)}) is now ${statusLabel}.`,
+      link: "/dashboard/reimbursement",
+      metadata: {
+        reimbursementId: data.reimbursementId,
+        status: reimbursement.status,
+      },
+    });
+  } catch (error) {
+    console.error("❌ Failed to create reimbursement notification:", error);
+    return false;
+  }
+}
+
+export async function notifyAuditRequested(data: {
+  reimbursementId: string;
+  auditorId: string;
+  requestedByName?: string;
+}): Promise<boolean> {
+  try {
+    const db = getFirestore(app);
+    const reimbursementSnap = await db
+      .collection("reimbursements")
+      .doc(data.reimbursementId)
+      .get();
+    if (!reimbursementSnap.exists) return false;
+
+    const reimbursement = reimbursementSnap.data() as any;
+
+    return await createNotification({
+      userId: data.auditorId,
+      type: "audit",
+      title: "Audit requested",
+      message: `${data.requestedByName || "An executive officer"} asked you to audit "${reimbursement.title}".`,
+      link: "/dashboard/manage-reimbursements",
+      metadata: { reimbursementId: data.reimbursementId },
+    });
+  } catch (error) {
+    console.error("❌ Failed to create audit request notification:", error);
+    return false;
+  }
+}
+
+export async function notifyInviteAccepted(data: {
+  inviterId: string;
+  inviteeName: string;
+  inviteeEmail: string;
+  role?: string;
+}): Promise<boolean> {
+  try {
+    return await createNotification({
+      userId: data.inviterId,
+      type: "invite",
+      title: "Invite accepted",
+      message: `${data.inviteeName || data.inviteeEmail} accepted your invite${data.role ? ` and joined as ${data.role}` : ""}.`,
+      link: "/dashboard/manage-users",
+      metadata: { inviteeEmail: data.inviteeEmail },
+    });
+  } catch (error) {
+    console.error("❌ Failed to create invite notification:", error);
+    return false;
+  }
+}
+
+/**
+ * Notifies every active member about a newly published event. Each event only
+ * fans out once, even if it is unpublished and published again. The event is
+ * claimed with `publishNotifiedAt` so concurrent calls don't both fan out, and
+ * the claim is released if the notifications can't be written so a later call
+ * can retry.
+ */
+export async function notifyEventPublished(eventId: string): Promise<number> {
+  try {
+    const db = getFirestore(app);
+    const eventRef = db.collection("events").doc(eventId);
+
+    const event = await db.runTransaction(async (transaction) => {
+      const eventSnap = await transaction.get(eventRef);
+      const eventData = eventSnap.data();
+      if (!eventSnap.exists || !eventData?.published) return null;
+      if (eventData.publishNotifiedAt) return null;
+
+      transaction.update(eventRef, {
+        publishNotifiedAt: FieldValue.serverTimestamp(),
+      });
+      return eventData;
+    });
+    if (!event) return 0;
+
+    try {
+      return await fanOutEventPublished(eventId, event);
+    } catch (error) {
+      await eventRef.update({ publishNotifiedAt: FieldValue.delete() });
+      throw error;
+    }
+  } catch (error) {
+    console.error("❌ Failed to create event published notifications:", error);
+    return 0;
+  }
+}
+
+async function fanOutEventPublished(
+  eventId: string,
+  event: Record<string, any>,
+): Promise<number> {
+  const db = getFirestore(app);
+  const usersSnap = await db.collection("users").get();
+  const startDate: Date | null = event.startDate?.toDate
+    ? event.startDate.toDate()
+    : null;
+  const when = startDate
+    ? startDate.toLocaleString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+        timeZone: "America/Los_Angeles",
+      })
+    : "soon";
+
+  return await createNotifications(
+    usersSnap.docs
+      .filter((doc) => {
+        const status = doc.data().status;
+        return status !== "suspended" && status !== "inactive";
+      })
+      .map((doc) => ({
+        userId: doc.id,
+        type: "event" as const,
+        title: "New event published",
+        message: `${event.eventName || "A new event"} · ${when}${event.location ? ` · ${event.location}` : ""}`,
+        link: "/dashboard/events",
+        metadata: { eventId },
+      })),
+  );
+}
+
+/**
+ * Tells members they've moved off an event's waitlist, either because someone
+ * cancelled or because an officer raised the capacity.
+ */
+export async function notifyRsvpPromoted(data: {
+  eventId: string;
+  eventName: string;
+  userIds: string[];
+}): Promise<number> {
+  try {
+    return await createNotifications(
+      data.userIds.map((userId) => ({
+        userId,
+        type: "event" as const,
+        title: "You're off the waitlist",
+        message: `A spot opened up at ${data.eventName}. You're now going.`,
+        link: "/dashboard/events",
+        metadata: { eventId: data.eventId },
+      })),
+    );
+  } catch (error) {
+    console.error(
+      "❌ Failed to create waitlist promotion notifications:",
+      error,
+    );
+    return 0;
+  }
+}
@@ -0,0 +1,468 @@
+import {
+  getFirestore,
+  FieldValue,
+  type QuerySnapshot,
+  type Transaction,
+} from "firebase-admin/firestore";
+import { app } from "../../firebase/server";
+import type { PointTransactionType } from "../../components/dashboard/shared/types/firestore";
+
+const db = getFirestore(app);
+
+export const POINT_TRANSACTIONS = "point_transactions";
+
+export const OPENING_BALANCE_REASON =
+  "Opening balance carried over from before the points ledger";
+
+export interface PointTransactionInput {
+  // Set for check-ins so a retried request can never be counted twice
+  id?: string;
+  userId: string;
+  type: PointTransactionType;
+  points: number;
+  reason: string;
+  eventId?: string;
+  eventName?: string;
+  performedBy: string;
+  performedByName?: string;
+  revokesTransactionId?: string;
+  openingEventsAttended?: number;
+  createdAt?: Date;
+}
+
+export interface LedgerTotals {
+  points: number;
+  eventsAttended: number;
+}
+
+interface LedgerEntry {
+  id: string;
+  type: PointTransactionType;
+  points: number;
+  revokesTransactionId?: string;
+  openingEventsAttended?: number;
+}
+
+// Opening balances carry totals from before the ledger, so they don't belong to
+// the season they happened to be written in
+export const isOpeningBalance = (entry: { type: string }) =>
+  entry.type === "opening_balance";
+
+export const checkInTransactionId = (eventId: string, userId: string) =>
+  `check_in_${eventId}_${userId}`;
+
+/**
+ * Derives a member's totals from their ledger. A check-in stops counting as
+ * an attended event once a revocation references it.
+ */
+export function computeLedgerTotals(entries: LedgerEntry[]): LedgerTotals {
+  const revoked = new Set(
+    entries.map((entry) => entry.revokesTransactionId).filter(Boolean),
+  );
+
+  return entries.reduce<LedgerTotals>(
+    (totals, entry) => ({
+      points: totals.points + (Number(entry.points) || 0),
+      eventsAttended:
+        totals.eventsAttended +
+        (entry.type === "check_in" && !revoked.has(entry.id) ? 1 : 0) +
+        (Number(entry.openingEventsAttended) || 0),
+    }),
+    { points: 0, eventsAttended: 0 },
+  );
+}
+
+export function openingBalanceEntry(
+  userId: string,
+  legacy: { points?: number; eventsAttended?: number },
+  performedBy: string,
+  performedByName?: string,
+): PointTransactionInput | null {
+  const points = Number(legacy.points) || 0;
+  const eventsAttended = Number(legacy.eventsAttended) || 0;
+  if (!points && !eventsAttended) return null;
+
+  return {
+    userId,
+    type: "opening_balance",
+    points,
+    reason: OPENING_BALANCE_REASON,
+    performedBy,
+    ...(performedByName && { performedByName }),
+    ...(eventsAttended > 0 && { openingEventsAttended: eventsAttended }),
+  };
+}
+
+const toTransactionDoc = (input: PointTransactionInput) => ({
+  userId: input.userId,
+  type: input.type,
+  points: input.points,
+  reason: input.reason,
+  ...(input.eventId && { eventId: input.eventId }),
+  ...(input.eventName && { eventName: input.eventName }),
+  performedBy: input.performedBy,
+  ...(input.performedByName && { performedByName: input.performedByName }),
+  ...(input.revokesTransactionId && {
+    revokesTransactionId: input.revokesTransactionId,
+  }),
+  ...(input.openingEventsAttended && {
+    openingEventsAttended: input.openingEventsAttended,
+  }),
+  createdAt: input.createdAt || FieldValue.serverTimestamp(),
+});
+
+const toLedgerEntries = (ledger: QuerySnapshot): LedgerEntry[] =>
+  ledger.docs.map((doc) => ({ id: doc.id, ...(doc.data() as any) }));
+
+/**
+ * Reads every ledger entry for a member. Call this alongside the other reads
+ * in a transaction before handing the snapshot to appendLedgerEntries.
+ */
+export function getUserLedger(
+  transaction: Transaction,
+  userId: string,
+): Promise<QuerySnapshot> {
+  return transaction.get(
+    db.collection(POINT_TRANSACTIONS).where("userId", "==", userId),
+  );
+}
+
+/**
+ * Writes the derived totals to the user document and both leaderboard copies.
+ */
+function writeTotals(
+  transaction: Transaction,
+  userId: string,
+  totals: LedgerTotals,
+  userFields: Record<string, unknown> = {},
+) {
+  const userRef = db.collection("users").doc(userId);
+  const publicProfileStats = {
+    points: totals.points,
+    eventsAttended: totals.eventsAttended,
+    userId,
+    lastUpdated: new Date(),
+  };
+
+  transaction.update(userRef, {
+    ...userFields,
+    points: totals.points,
+    eventsAttended: totals.eventsAttended,
+  });
+  transaction.set(
+    db.collection("public_profiles").doc(userId),
+    publicProfileStats,
+    { merge: true },
+  );
+  transaction.set(
+    userRef.collection("public_profile").doc("profile"),
+    publicProfileStats,
+    { merge: true },
+  );
+}
+
+/**
+ * Appends entries to a member's ledger and rewrites their derived totals in
+ * the same transaction. Must run after every read in the transaction.
+ *
+ * Members who earned points before the ledger existed and haven't been
+ * reconciled yet get an opening balance entry first, so their legacy total
+ * isn't lost.
+ */
+export function appendLedgerEntries(
+  transaction: Transaction,
+  options: {
+    userId: string;
+    ledger: QuerySnapshot;
+    legacyTotals?: { points?: number; eventsAttended?: number };
+    entries: PointTransactionInput[];
+    userFields?: Record<string, unknown>;
+  },
+): LedgerTotals & { ids: string[] } {
+  const collection = db.collection(POINT_TRANSACTIONS);
+  const opening =
+    options.ledger.empty && options.legacyTotals
+      ? openingBalanceEntry(options.userId, options.legacyTotals, "system")
+      : null;
+  const entries = opening ? [opening, ...options.entries] : options.entries;
+  const refs = entries.map((entry) =>
+    entry.id ? collection.doc(entry.id) : collection.doc(),
+  );
+
+  // create() fails if the id is already taken, which keeps the ledger
+  // append-only even for deterministic check-in ids
+  entries.forEach((entry, i) =>
+    transaction.create(refs[i], toTransactionDoc(entry)),
+  );
+
+  const totals = computeLedgerTotals([
+    ...toLedgerEntries(options.ledger),
+    ...entries.map((entry, i) => ({ ...entry, id: refs[i].id })),
+  ]);
+  writeTotals(transaction, options.userId, totals, options.userFields);
+
+  return {
+    ...totals,
+    ids: refs.slice(opening ? 1 : 0).map((ref) => ref.id),
+  };
+}
+
+export interface ManualPointTransactionInput {
+  userId: string;
+  type: Exclude<PointTransactionType, "check_in" | "opening_balance">;
+  points: number;
+  reason: string;
+  eventId?: string;
+  revokesTransactionId?: string;
+  performedBy: string;
+  performedByName?: string;
+}
+
+export interface LedgerResult {
+  status: number;
+  message: string;
+  data?: {
+    transactionId: string;
+    pointsChanged: number;
+    totalPoints: number;
+    eventsAttended: number;
+  };
+}
+
+/**
+ * Records an officer's grant, bonus or revocation. Revoking a specific entry
+ * reverses exactly the points that entry awarded and can only happen once.
+ */
+export async function recordPointTransaction(
+  input: ManualPointTransactionInput,
+): Promise<LedgerResult> {
+  const userRef = db.collection("users").doc(input.userId);
+  const revokedRef = input.revokesTransactionId
+    ? db.collection(POINT_TRANSACTIONS).doc(input.revokesTransactionId)
+    : null;
+  const eventRef = input.eventId
+    ? db.collection("events").doc(input.eventId)
+    : null;
+
+  return db.runTransaction(async (transaction): Promise<LedgerResult> => {
+    const [userSnap, ledger, revokedSnap, eventSnap] = await Promise.all([
+      transaction.get(userRef),
+      getUserLedger(transaction, input.userId),
+      revokedRef ? transaction.get(revokedRef) : Promise.resolve(null),
+      eventRef ? transaction.get(eventRef) : Promise.resolve(null),
+    ]);
+
+    if (!userSnap.exists) {
+      return { status: 404, message: "User not found" };
+    }
+
+    let points = input.points;
+    let eventId = input.eventId;
+    let eventName: string | undefined;
+
+    if (eventSnap) {
+      if (!eventSnap.exists) {
+        return { status: 404, message: "Event not found" };
+      }
+      eventName = eventSnap.data()!.eventName;
+    }
+
+    if (revokedSnap) {
+      const revoked = revokedSnap.data();
+      if (!revokedSnap.exists || revoked?.userId !== input.userId) {
+        return { status: 404, message: "Transaction to revoke not found" };
+      }
+      if (revoked.type === "revocation") {
+        return { status: 400, message: "A revocation cannot be revoked" };
+      }
+      if (
+        ledger.docs.some(
+          (doc) => doc.data().revokesTransactionId === revokedSnap.id,
+        )
+      ) {
+        return {
+          status: 409,
+          message: "This transaction has already been revoked",
+        };
+      }
+      points = -(Number(revoked.points) || 0);
+      eventId = revoked.eventId;
+      eventName = revoked.eventName;
+    }
+
+    const userData = userSnap.data()!;
+    const current = ledger.empty
+      ? { points: Number(userData.points) || 0 }
+      : computeLedgerTotals(toLedgerEntries(ledger));
+    if (current.points + points < 0) {
+      return {
+        status: 400,
+        message:
+          "This change would leave the member with a negative points total",
+      };
+    }
+
+    const result = appendLedgerEntries(transaction, {
+      userId: input.userId,
+      ledger,
+      legacyTotals: userData,
+      entries: [
+        {
+          userId: input.userId,
+          type: input.type,
+          points,
+          reason: input.reason,
+          eventId,
+          eventName,
+          performedBy: input.performedBy,
+          performedByName: input.performedByName,
+          revokesTransactionId: input.revokesTransactionId,
+        },
+      ],
+    });
+
+    return {
+      status: 200,
+      message: `${points >= 0 ? "Granted" : "Revoked"} ${Math.abs(points)} points for ${userData.name || "member"}`,
+      data: {
+        transactionId: result.ids[0],
+        pointsChanged: points,
+        totalPoints: result.points,
+        eventsAttended: result.eventsAttended,
+      },
+    };
+  });
+}
+
+/**
+ * Rebuilds the ledger for members who earned points before it existed, then
+ * recomputes every member's totals from their entries. Legacy check-ins are
+ * replayed from event attendee records; whatever the old counter held beyond
+ * those becomes a single opening balance entry. Safe to run repeatedly.
+ */
+export async function reconcilePointLedger(performedBy: {
+  uid: string;
+  name?: string;
+}): Promise<{
+  usersBackfilled: number;
+  entriesCreated: number;
+  totalsCorrected: number;
+}> {
+  const [usersSnap, eventsSnap, attendeesSnap, ledgerSnap] = await Promise.all([
+    db.collection("users").get(),
+    db.collection("events").get(),
+    db.collectionGroup("attendees").get(),
+    db.collection(POINT_TRANSACTIONS).get(),
+  ]);
+
+  const eventNames = new Map(
+    eventsSnap.docs.map((doc) => [doc.id, doc.data().eventName as string]),
+  );
+
+  const ledgerByUser = new Map<string, LedgerEntry[]>();
+  ledgerSnap.docs.forEach((doc) => {
+    const entry = { id: doc.id, ...(doc.data() as any) };
+    ledgerByUser.set(entry.userId, [
+      ...(ledgerByUser.get(entry.userId) || []),
+      entry,
+    ]);
+  });
+
+  const attendanceByUser = new Map<string, PointTransactionInput[]>();
+  attendeesSnap.docs.forEach((doc) => {
+    const eventId = doc.ref.parent.parent?.id;
+    if (!eventId) return;
+
+    const attendee = doc.data();
+    const userId = attendee.userId || doc.id;
+    const eventName = eventNames.get(eventId);
+    attendanceByUser.set(userId, [
+      ...(attendanceByUser.get(userId) || []),
+      {
+        id: checkInTransactionId(eventId, userId),
+        userId,
+        type: "check_in",
+        points: Number(attendee.pointsEarned) || 0,
+        reason: `Checked in to ${eventName || "event"}`,
+        eventId,
+        eventName,
+        performedBy: userId,
+        createdAt: attendee.timeCheckedIn?.toDate?.() ?? undefined,
+      },
+    ]);
+  });
+
+  const writer = db.bulkWriter();
+  const collection = db.collection(POINT_TRANSACTIONS);
+  let usersBackfilled = 0;
+  let entriesCreated = 0;
+  let totalsCorrected = 0;
+
+  for (const userDoc of usersSnap.docs) {
+    const userData = userDoc.data();
+    let entries: LedgerEntry[] = ledgerByUser.get(userDoc.id) || [];
+
+    if (entries.length === 0) {
+      const checkIns = attendanceByUser.get(userDoc.id) || [];
+      const replayed = computeLedgerTotals(
+        checkIns.map((entry) => ({ ...entry, id: entry.id! })),
+      );
+      const opening = openingBalanceEntry(
+        userDoc.id,
+        {
+          points: (Number(userData.points) || 0) - replayed.points,
+          eventsAttended: Math.max(
+            (Number(userData.eventsAttended) || 0) - replayed.eventsAttended,
+            0,
+          ),
+        },
+        performedBy.uid,
+        performedBy.name,
+      );
+      const backfill = opening ? [...checkIns, opening] : checkIns;
+
+      backfill.forEach((entry) => {
+        const ref = entry.id ? collection.doc(entry.id) : collection.doc();
+        writer.create(ref, toTransactionDoc(entry));
+        entries = [...entries, { ...entry, id: ref.id }];
+      });
+
+      if (backfill.length > 0) {
+        usersBackfilled++;
+        entriesCreated += backfill.length;
+      }
+    }
+
+    const totals = computeLedgerTotals(entries);
+    if (
+      totals.points !== (Number(userData.points) || 0) ||
+      totals.eventsAttended !== (Number(userData.eventsAttended) || 0)
+    ) {
+      totalsCorrected++;
+    }
+
+    const publicProfileStats = {
+      ...totals,
+      userId: userDoc.id,
+      lastUpdated: new Date(),
+    };
+    writer.update(userDoc.ref, {
+      points: totals.points,
+      eventsAttended: totals.eventsAttended,
+    });
+    writer.set(
+      db.collection("public_profiles").doc(userDoc.id),
+      publicProfileStats,
+      { merge: true },
+    );
+    writer.set(
+      userDoc.ref.collection("public_profile").doc("profile"),
+      publicProfileStats,
+      { merge: true },
+    );
+  }
+
+  await writer.close();
+
+  return { usersBackfilled, entriesCreated, totalsCorrected };
+}
@@ -0,0 +1,365 @@
+import {
+  getFirestore,
+  Timestamp,
+  type Transaction,
+} from "firebase-admin/firestore";
+import { app } from "../../firebase/server";
+import {
+  DEFAULT_LEDGER_ACCOUNT,
+  isLedgerAccount,
+  roundCents,
+  suggestDepositAccount,
+  type JournalLine,
+  type LedgerAccount,
+  type LedgerSource,
+} from "../../lib/treasuryLedger";
+
+const db = getFirestore(app);
+
+export const LEDGER_ENTRIES = "ledger_entries";
+export const JOURNAL_ENTRIES = "journal_entries";
+
+const TIME_ZONE = "America/Los_Angeles";
+
+export interface LedgerPoster {
+  uid: string;
+  name: string;
+}
+
+export const depositEntryId = (depositId: string) => `deposit_${depositId}`;
+
+export const reimbursementEntryId = (reimbursementId: string) =>
+  `reimbursement_${reimbursementId}`;
+
+export const journalLineEntryId = (journalId: string, index: number) =>
+  `journal_${journalId}_${index}`;
+
+// "YYYY-MM-DD" in San Diego time, the day the money moved
+export const toLedgerDate = (date: Date) =>
+  date.toLocaleDateString("en-CA", { timeZone: TIME_ZONE });
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  const date = value.toDate ? value.toDate() : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+interface LedgerEntryInput {
+  id: string;
+  account: LedgerAccount;
+  amount: number;
+  date: string;
+  description: string;
+  source: LedgerSource;
+  sourceId: string;
+}
+
+const toEntryDoc = (
+  input: LedgerEntryInput,
+  poster: LedgerPoster,
+  postedAt: Timestamp,
+) => ({
+  account: input.account,
+  amount: roundCents(input.amount),
+  date: input.date,
+  description: input.description,
+  source: input.source,
+  sourceId: input.sourceId,
+  postedBy: poster.uid,
+  postedByName: poster.name,
+  postedAt,
+});
+
+const depositEntry = (
+  depositId: string,
+  deposit: any,
+  account: LedgerAccount,
+  fallbackDate: Date,
+): LedgerEntryInput => ({
+  id: depositEntryId(depositId),
+  account,
+  amount: Number(deposit.amount) || 0,
+  // Deposit dates are entered as "YYYY-MM-DD" on the deposit form
+  date: /^\d{4}-\d{2}-\d{2}$/.test(deposit.depositDate || "")
+    ? deposit.depositDate
+    : toLedgerDate(fallbackDate),
+  description: `Deposit: ${deposit.title || "Untitled deposit"}`,
+  source: "deposit",
+  sourceId: depositId,
+});
+
+const reimbursementEntry = (
+  reimbursementId: string,
+  reimbursement: any,
+  account: LedgerAccount,
+  paidAt: Date,
+): LedgerEntryInput => ({
+  id: reimbursementEntryId(reimbursementId),
+  account,
+  amount: -(Number(reimbursement.totalAmount) || 0),
+  date: toLedgerDate(paidAt),
+  description: `Reimbursement: ${reimbursement.title || "Untitled reimbursement"}`,
+  source: "reimbursement",
+  sourceId: reimbursementId,
+});
+
+/**
+ * Posts a verified deposit. Must run after every read in the transaction;
+ * create() fails if the deposit was already posted.
+ */
+export function postDepositEntry(
+  transaction: Transaction,
+  options: {
+    depositId: string;
+    deposit: any;
+    account: LedgerAccount;
+    poster: LedgerPoster;
+    postedAt: Timestamp;
+  },
+) {
+  const entry = depositEntry(
+    options.depositId,
+    options.deposit,
+    options.account,
+    options.postedAt.toDate(),
+  );
+  transaction.create(
+    db.collection(LEDGER_ENTRIES).doc(entry.id),
+    toEntryDoc(entry, options.poster, options.postedAt),
+  );
+}
+
+/**
+ * Posts a paid reimbursement as money out. Must run after every read in the
+ * transaction; create() fails if the reimbursement was already posted.
+ */
+export function postReimbursementEntry(
+  transaction: Transaction,
+  options: {
+    reimbursementId: string;
+    reimbursement: any;
+    account: LedgerAccount;
+    poster: LedgerPoster;
+    postedAt: Timestamp;
+  },
+) {
+  const entry = reimbursementEntry(
+    options.reimbursementId,
+    options.reimbursement,
+    options.account,
+    options.postedAt.toDate(),
+  );
+  transaction.create(
+    db.collection(LEDGER_ENTRIES).doc(entry.id),
+    toEntryDoc(entry, options.poster, options.postedAt),
+  );
+}
+
+/**
+ * Posts the lines of an approved journal entry.
+ */
+export function postJournalLines(
+  transaction: Transaction,
+  options: {
+    journalId: string;
+    journal: { date: string; memo: string; lines: JournalLine[] };
+    poster: LedgerPoster;
+    postedAt: Timestamp;
+  },
+) {
+  options.journal.lines.forEach((line, index) => {
+    const id = journalLineEntryId(options.journalId, index);
+    transaction.create(
+      db.collection(LEDGER_ENTRIES).doc(id),
+      toEntryDoc(
+        {
+          id,
+          account: line.account,
+          amount: Number(line.amount),
+          date: options.journal.date,
+          description: options.journal.memo,
+          source: "journal",
+          sourceId: options.journalId,
+        },
+        options.poster,
+        options.postedAt,
+      ),
+    );
+  });
+}
+
+/**
+ * Posts verified deposits and paid reimbursements that have no ledger entry
+ * yet, such as everything from before the ledger existed. Safe to run more
+ * than once.
+ */
+export async function reconcileTreasuryLedger(poster: LedgerPoster): Promise<{
+  depositsPosted: number;
+  reimbursementsPosted: number;
+}> {
+  const [depositsSnap, reimbursementsSnap, postedSnap] = await Promise.all([
+    db.collection("fundDeposits").where("status", "==", "verified").get(),
+    db.collection("reimbursements").where("status", "==", "paid").get(),
+    db
+      .collection(LEDGER_ENTRIES)
+      .where("source", "in", ["deposit", "reimbursement"])
+      .select()
+      .get(),
+  ]);
+  const posted = new Set(postedSnap.docs.map((doc) => doc.id));
+
+  const deposits = depositsSnap.docs
+    .filter((doc) => !posted.has(depositEntryId(doc.id)))
+    .map((doc) => {
+      const deposit = doc.data();
+      return depositEntry(
+        doc.id,
+        deposit,
+        isLedgerAccount(deposit.ledgerAccount)
+          ? deposit.ledgerAccount
+          : suggestDepositAccount(deposit),
+        toDate(deposit.verifiedAt) || toDate(deposit.submittedAt) || new Date(),
+      );
+    });
+
+  const reimbursements = reimbursementsSnap.docs
+    .filter((doc) => !posted.has(reimbursementEntryId(doc.id)))
+    .map((doc) => {
+      const reimbursement = doc.data();
+      const payment = reimbursement.paymentConfirmation || {};
+      return reimbursementEntry(
+        doc.id,
+        reimbursement,
+        isLedgerAccount(payment.ledgerAccount)
+          ? payment.ledgerAccount
+          : DEFAULT_LEDGER_ACCOUNT,
+        toDate(payment.paidAt) ||
+          toDate(reimbursement.submittedAt) ||
+          new Date(),
+      );
+    });
+
+  const writer = db.bulkWriter();
+  const postedAt = Timestamp.now();
+  const counts = { depositsPosted: 0, reimbursementsPosted: 0 };
+  // Only entries that were actually written are counted; a failed write (such
+  // as one already posted by a concurrent run) is logged and left for the next
+  // reconcile
+  const post = (entry: LedgerEntryInput, count: keyof typeof counts) =>
+    writer
+      .create(
+        db.collection(LEDGER_ENTRIES).doc(entry.id),
+        toEntryDoc(entry, poster, postedAt),
+      )
+      .then(() => {
+        counts[count] += 1;
+      })
+      .catch((error) => {
+        console.error(`Error posting ledger entry ${entry.id}:`, error);
+      });
+  const writes = [
+    ...deposits.map((entry) => post(entry, "depositsPosted")),
+    ...reimbursements.map((entry) => post(entry, "reimbursementsPosted")),
+  ];
+  await writer.close();
+  await Promise.all(writes);
+
+  return counts;
+}
+
+export interface JournalResult {
+  status: number;
+  message: string;
+  data?: { journalId: string };
+}
+
+/**
+ * Records a manual journal entry for approval. Nothing posts to the ledger
+ * until another executive approves it.
+ */
+export async function createJournalEntry(
+  input: { date: string; memo: string; lines: JournalLine[] },
+  creator: LedgerPoster,
+): Promise<JournalResult> {
+  const ref = await db.collection(JOURNAL_ENTRIES).add({
+    date: input.date,
+    memo: input.memo,
+    lines: input.lines.map((line) => ({
+      account: line.account,
+      amount: roundCents(Number(line.amount)),
+    })),
+    status: "pending",
+    createdBy: creator.uid,
+    createdByName: creator.name,
+    createdAt: Timestamp.now(),
+  });
+
+  return {
+    status: 200,
+    message: "Journal entry submitted for approval",
+    data: { journalId: ref.id },
+  };
+}
+
+/**
+ * Approves or rejects a pending journal entry. Approval posts every line in
+ * the same transaction, and nobody can approve their own entry.
+ */
+export function reviewJournalEntry(
+  journalId: string,
+  decision: "approve" | "reject",
+  reviewer: LedgerPoster,
+  rejectionReason?: string,
+): Promise<JournalResult> {
+  const journalRef = db.collection(JOURNAL_ENTRIES).doc(journalId);
+
+  return db.runTransaction(async (transaction): Promise<JournalResult> => {
+    const journalSnap = await transaction.get(journalRef);
+    const journal = journalSnap.data();
+    if (!journalSnap.exists || !journal) {
+      return { status: 404, message: "Journal entry not found" };
+    }
+    if (journal.status !== "pending") {
+      return {
+        status: 409,
+        message: `This journal entry is already ${journal.status}`,
+      };
+    }
+    if (decision === "approve" && journal.createdBy === reviewer.uid) {
+      return {
+        status: 403,
+        message: "Another executive has to approve your journal entry",
+      };
+    }
+
+    const now = Timestamp.now();
+    if (decision === "approve") {
+      postJournalLines(transaction, {
+        journalId,
+        journal: journal as {
+          date: string;
+          memo: string;
+          lines: JournalLine[];
+        },
+        poster: reviewer,
+        postedAt: now,
+      });
+    }
+    transaction.update(journalRef, {
+      status: decision === "approve" ? "approved" : "rejected",
+      reviewedBy: reviewer.uid,
+      reviewedByName: reviewer.name,
+      reviewedAt: now,
+      ...(decision === "reject" && { rejectionReason }),
+    });
+
+    return {
+      status: 200,
+      message:
+        decision === "approve"
+          ? "Journal entry approved and posted"
+          : "Journal entry rejected",
+      data: { journalId },
+    };
+  });
+}
@@ -0,0 +1,6 @@
+declare namespace App {
+  interface Locals {
+    // Set by the API guard in src/middleware/apiAuth.ts
+    user?: import("../middleware/apiAuth").ApiUser;
+  }
+}